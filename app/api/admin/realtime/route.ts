@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMediaRelay } from '@/lib/streaming/media-relay';
+import { checkAdminRequest } from '@/lib/utils/admin-auth';
+import { getWebSocketServer } from '@/lib/websocket/websocket-server';
+
+// Always read live state
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/realtime - live sessions, connections, message rates and relayed media peers
+export async function GET(request: NextRequest) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  return NextResponse.json({
+    timestamp: Date.now(),
+    websocket: getWebSocketServer().getStats(),
+    mediaRelay: getMediaRelay().getStats(),
+  });
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { getRealtimeMetrics } from '@/lib/realtime/metrics';
+import { checkAdminRequest } from '@/lib/utils/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/metrics - realtime metrics for Prometheus to scrape
+export async function GET(request: NextRequest) {
+  const denied = checkAdminRequest(request);
+  if (denied) return denied;
+
+  return new Response(getRealtimeMetrics().registry.render(), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+  });
+}
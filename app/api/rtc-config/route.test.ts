@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccessTokenVerifier, LocalKeySet } from '@/lib/aws/access-token';
+import { GET } from '@/app/api/rtc-config/route';
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_test';
+const SESSION_ID = 'rtc-config-session';
+const HOST_ID = 'host-1';
+
+vi.mock('@/lib/aws/dynamodb', () => ({
+  getSessionById: async (id: string) => (id === SESSION_ID ? { id, hostId: HOST_ID } : null),
+  getSessionRoles: async () => ({}),
+  setSessionRole: async () => {},
+}));
+
+// Tokens are signed by the local key set instead of a Cognito user pool
+vi.mock('@/lib/aws/access-token', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/aws/access-token')>(),
+  getAccessTokenVerifier: () => verifier,
+}));
+
+const keySet = new LocalKeySet();
+const verifier = new AccessTokenVerifier({ issuer: ISSUER, keySet });
+
+async function get(query: Record<string, string>, username?: string): Promise<Response> {
+  const request = new NextRequest(`http://localhost/api/rtc-config?${new URLSearchParams(query)}`, {
+    headers: username ? { Authorization: `Bearer ${keySet.issueToken({ sub: `sub-${username}`, username, iss: ISSUER })}` } : {},
+  });
+  return GET(request);
+}
+
+describe('GET /api/rtc-config', () => {
+  beforeEach(() => {
+    vi.stubEnv('TURN_URLS', 'turn:turn.example.com:3478');
+    vi.stubEnv('TURN_SHARED_SECRET', 'secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('gives a session\'s viewer TURN credentials of their own', async () => {
+    const response = await get({ sessionId: SESSION_ID, userId: 'viewer-1' });
+
+    expect(response.status).toBe(200);
+    const { iceServers } = await response.json();
+    expect(iceServers).toContainEqual(expect.objectContaining({ username: expect.stringMatching(/:viewer-1$/) }));
+  });
+
+  it('tags the host\'s credentials with the id their token proves', async () => {
+    const response = await get({ sessionId: SESSION_ID, userId: 'someone-else' }, HOST_ID);
+
+    expect(response.status).toBe(200);
+    const { iceServers } = await response.json();
+    expect(iceServers).toContainEqual(expect.objectContaining({ username: expect.stringMatching(/:host-1$/) }));
+  });
+
+  it('requires a session', async () => {
+    expect((await get({ userId: 'viewer-1' })).status).toBe(400);
+    expect((await get({ sessionId: 'no-such-session' })).status).toBe(404);
+  });
+
+  it('refuses the host\'s id without their token', async () => {
+    const response = await get({ sessionId: SESSION_ID, userId: HOST_ID });
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionById } from '@/lib/aws/dynamodb';
+import { identifyParticipant } from '@/lib/realtime/permissions';
+import { getRtcConfig } from '@/lib/streaming/ice-servers';
+import { createLogger } from '@/lib/utils/logger';
+
+// Credentials are minted per request
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('rtc-config-route');
+
+// GET /api/rtc-config?sessionId=&userId= - ICE servers for a session's peer connections, with TURN credentials for this client
+export async function GET(request: NextRequest) {
+  const searchParams = new URL(request.url).searchParams;
+  const sessionId = searchParams.get('sessionId');
+
+  if (!sessionId) {
+    return NextResponse.json({ success: false, error: 'sessionId is required' }, { status: 400 });
+  }
+
+  try {
+    // TURN relays media for anyone holding credentials, so they go only to a session's participants
+    const session = await getSessionById(sessionId);
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+    }
+
+    // Viewers may join without an account, as with the session itself; a token, when sent, must be valid
+    const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '') || undefined;
+    const identity = await identifyParticipant({
+      accessToken,
+      claimedUserId: searchParams.get('userId') ?? undefined,
+      hostId: session.hostId,
+    });
+    if (!identity.ok) {
+      return NextResponse.json({ success: false, error: identity.reason }, { status: 401 });
+    }
+
+    // Only tags the credentials so TURN server logs can tell clients apart; kept to characters safe in a username
+    const userId = identity.userId?.replace(/[^\w.@-]/g, '').slice(0, 64) || undefined;
+
+    return NextResponse.json(getRtcConfig(userId), {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+  } catch (error) {
+    log.error('Error creating RTC config', { sessionId, error });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
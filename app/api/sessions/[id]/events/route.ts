@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionById } from '@/lib/aws/dynamodb';
+import { getRealtimeMetrics } from '@/lib/realtime/metrics';
+import { ServerMessage } from '@/lib/realtime/protocol';
+import { getSessionFanout } from '@/lib/realtime/session-fanout';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('sse');
+const metrics = getRealtimeMetrics();
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream of session messages.
+ * Upstream messages are POSTed to /api/sessions/[id]/state as in polling mode.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    // EventSource resends the last event id (a message timestamp) when it reconnects
+    const since = parseInt(request.headers.get('last-event-id') || searchParams.get('since') || '0');
+
+    const session = await getSessionById(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const fanout = getSessionFanout();
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // Stream already closed
+            cleanup?.();
+          }
+        };
+
+        let lastSent = since;
+        const sendMessage = (message: ServerMessage) => {
+          // Replayed and live messages can overlap; timestamps are strictly increasing
+          if (message.timestamp <= lastSent) return;
+          lastSent = message.timestamp;
+          write(`id: ${message.timestamp}\ndata: ${JSON.stringify(message)}\n\n`);
+          metrics.messagesSent.inc({ transport: 'sse', type: message.type });
+        };
+
+        // Tell the client how long to wait before reconnecting
+        write('retry: 2000\n\n');
+
+        // Subscribe first and hold live messages until anything missed has been replayed
+        let queued: ServerMessage[] | null = [];
+        const unsubscribe = fanout.subscribe(sessionId, (message) => {
+          if (queued) {
+            queued.push(message);
+          } else {
+            sendMessage(message);
+          }
+        });
+
+        const replay = since > 0 ? fanout.since(sessionId, since) : Promise.resolve([]);
+        replay
+          .catch((error) => {
+            log.error('Error replaying session messages', { sessionId, error });
+            return [];
+          })
+          .then((missed) => {
+            missed.forEach(sendMessage);
+            queued?.forEach(sendMessage);
+            queued = null;
+          });
+
+        const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          cleanup = null;
+        };
+
+        request.signal.addEventListener('abort', () => {
+          cleanup?.();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    log.error('Error opening session event stream', { error });
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
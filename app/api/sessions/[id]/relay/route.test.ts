@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/sessions/[id]/relay/route';
+
+const SESSION_ID = 'relay-route-session';
+
+vi.mock('@/lib/aws/dynamodb', () => ({
+  getSessionById: async (id: string) => (id === SESSION_ID ? { id, hostId: 'host-1' } : null),
+  getSessionRoles: async () => ({}),
+  setSessionRole: async () => {},
+}));
+
+const { relay } = vi.hoisted(() => ({
+  relay: {
+    publish: vi.fn(),
+    subscribe: vi.fn(async () => ({ peerId: 'peer-1', type: 'answer' as const, sdp: 'v=0' })),
+  },
+}));
+
+vi.mock('@/lib/streaming/media-relay', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/streaming/media-relay')>(),
+  getMediaRelay: () => relay,
+}));
+
+async function subscribe(sessionId: string): Promise<Response> {
+  const request = new NextRequest(`http://localhost/api/sessions/${sessionId}/relay`, {
+    method: 'POST',
+    body: JSON.stringify({ role: 'subscribe', sdp: 'v=0', userId: 'viewer-1' }),
+  });
+  return POST(request, { params: Promise.resolve({ id: sessionId }) });
+}
+
+describe('POST /api/sessions/[id]/relay', () => {
+  afterEach(() => {
+    relay.subscribe.mockClear();
+  });
+
+  it('subscribes a viewer to a session that exists', async () => {
+    const response = await subscribe(SESSION_ID);
+
+    expect(response.status).toBe(200);
+    expect(relay.subscribe).toHaveBeenCalledWith(SESSION_ID, 'v=0', 'viewer-1');
+  });
+
+  it('refuses to subscribe to a session that doesn\'t exist', async () => {
+    const response = await subscribe('no-such-session');
+
+    expect(response.status).toBe(404);
+    expect(relay.subscribe).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionById } from '@/lib/aws/dynamodb';
+import { getSessionPermissions, identifyParticipant } from '@/lib/realtime/permissions';
+import { MediaRelayError, getMediaRelay } from '@/lib/streaming/media-relay';
+import { createLogger } from '@/lib/utils/logger';
+
+// The relay's peer connections live in this process
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('media-relay-route');
+
+type PublishAuthorization =
+  | { ok: true; userId?: string }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Only the host, or a co-host they granted it to, may publish the session's media.
+ * Both are identified by their bearer token, so the publisher is who it proves
+ * them to be. Returns the publisher's user id, or the error to send back.
+ */
+async function authorizePublish(request: NextRequest, sessionId: string): Promise<PublishAuthorization> {
+  const session = await getSessionById(sessionId);
+  if (!session) {
+    return { ok: false, response: NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 }) };
+  }
+
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '') || undefined;
+  const identity = await identifyParticipant({ accessToken, hostId: session.hostId });
+  if (!identity.ok) {
+    return { ok: false, response: NextResponse.json({ success: false, error: identity.reason }, { status: 401 }) };
+  }
+
+  const role = (await getSessionPermissions().get(sessionId)).roleOf(identity);
+  if (role !== 'host' && role !== 'co-host') {
+    return { ok: false, response: NextResponse.json({ success: false, error: 'Only the host can publish media' }, { status: 403 }) };
+  }
+
+  return { ok: true, userId: identity.userId };
+}
+
+// POST /api/sessions/[id]/relay - publish the host's stream, or subscribe to it, with an SDP offer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    let body: { role?: unknown; sdp?: unknown; userId?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ success: false, error: 'Body is not valid JSON' }, { status: 400 });
+    }
+
+    const { role, sdp } = body;
+    const userId = typeof body.userId === 'string' ? body.userId : undefined;
+    if ((role !== 'publish' && role !== 'subscribe') || typeof sdp !== 'string' || !sdp) {
+      return NextResponse.json(
+        { success: false, error: 'Expected { role: "publish" | "subscribe", sdp }' },
+        { status: 400 }
+      );
+    }
+
+    const relay = getMediaRelay();
+
+    let answer;
+    if (role === 'publish') {
+      const authorization = await authorizePublish(request, sessionId);
+      if (!authorization.ok) return authorization.response;
+      answer = await relay.publish(sessionId, sdp, authorization.userId);
+    } else {
+      // Rooms are made on demand, so only sessions that exist may get one
+      if (!await getSessionById(sessionId)) {
+        return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+      }
+      answer = await relay.subscribe(sessionId, sdp, userId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      peerId: answer.peerId,
+      answer: { type: answer.type, sdp: answer.sdp },
+    });
+  } catch (error) {
+    if (error instanceof MediaRelayError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    log.error('Error negotiating relay peer', { error });
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/sessions/[id]/relay?peerId= - close a peer the caller negotiated
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const peerId = new URL(request.url).searchParams.get('peerId');
+
+  if (!peerId) {
+    return NextResponse.json({ success: false, error: 'peerId is required' }, { status: 400 });
+  }
+
+  // Peer ids are random and only ever given to the peer's own client
+  if (!getMediaRelay().close(sessionId, peerId)) {
+    return NextResponse.json({ success: false, error: 'Peer not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
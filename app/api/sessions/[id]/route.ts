@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession, updateSessionStatus } from '@/lib/aws/dynamodb';
+import { getMediaRelay } from '@/lib/streaming/media-relay';
 
 export async function GET(
   request: NextRequest,
@@ -50,6 +51,11 @@ export async function PATCH(
     const result = await updateSessionStatus(sessionId, status);
     console.log('Debugger_14_Oct ---> \n Author_Abdallah ---> \n Update session result:', { method: 'PATCH', result });
 
+    // Viewers still relayed from an ended session are let go
+    if (result.success && status === 'ended') {
+      getMediaRelay().closeSession(sessionId);
+    }
+
     if (result.success) {
       return NextResponse.json(result);
     } else {
@@ -0,0 +1,143 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AccessTokenVerifier, LocalKeySet } from '@/lib/aws/access-token';
+import { StoredSessionState, appendStatePatch, getStoredSessionState } from '@/lib/aws/dynamodb';
+import { ClientMessage, DrawingEventMessage, ServerMessage } from '@/lib/realtime/protocol';
+import { GET, POST } from '@/app/api/sessions/[id]/state/route';
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_test';
+const SESSION_ID = 'state-route-session';
+const HOST_ID = 'host-1';
+const CO_HOST_ID = 'co-host-1';
+
+vi.mock('@/lib/aws/dynamodb', () => ({
+  getSessionById: async (id: string) => ({ id, hostId: HOST_ID }),
+  getStoredSessionState: vi.fn(async () => null),
+  updateSessionState: async () => {},
+  appendStatePatch: vi.fn(async () => Date.now()),
+  getSessionRoles: async () => ({ [CO_HOST_ID]: 'co-host' }),
+  setSessionRole: async () => {},
+}));
+
+// Tokens are signed by the local key set instead of a Cognito user pool
+vi.mock('@/lib/aws/access-token', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/aws/access-token')>(),
+  getAccessTokenVerifier: () => verifier,
+}));
+
+const keySet = new LocalKeySet();
+const verifier = new AccessTokenVerifier({ issuer: ISSUER, keySet });
+
+async function post(message: ClientMessage, username?: string): Promise<Response> {
+  const request = new NextRequest(`http://localhost/api/sessions/${SESSION_ID}/state`, {
+    method: 'POST',
+    body: JSON.stringify(message),
+    headers: username ? { Authorization: `Bearer ${keySet.issueToken({ sub: `sub-${username}`, username, iss: ISSUER })}` } : {},
+  });
+  return POST(request, { params: Promise.resolve({ id: SESSION_ID }) });
+}
+
+async function poll(since: number): Promise<ServerMessage[]> {
+  const request = new NextRequest(`http://localhost/api/sessions/${SESSION_ID}/state?since=${since}`);
+  const response = await GET(request, { params: Promise.resolve({ id: SESSION_ID }) });
+  return (await response.json()).updates;
+}
+
+function stateUpdate(): ClientMessage {
+  return { type: 'state-update', sessionId: SESSION_ID, state: { sessionId: SESSION_ID, components: [], canvasData: [], timestamp: Date.now() }, version: 1, timestamp: Date.now() };
+}
+
+function stroke(userId: string, id: string): DrawingEventMessage {
+  return { type: 'drawing-event', sessionId: SESSION_ID, event: { type: 'stroke', id }, userId, timestamp: Date.now() };
+}
+
+function storedAt(version: number): StoredSessionState {
+  return { state: { sessionId: SESSION_ID, components: [], canvasData: [], timestamp: 0 }, version, patchCount: 0, lastPatchAt: null };
+}
+
+function statePatch(baseVersion: number, version = baseVersion + 1): ClientMessage {
+  return { type: 'state-patch', sessionId: SESSION_ID, baseVersion, version, patch: [], timestamp: Date.now() };
+}
+
+describe('POST /api/sessions/[id]/state', () => {
+  afterEach(() => {
+    vi.mocked(getStoredSessionState).mockReset().mockResolvedValue(null);
+    vi.mocked(appendStatePatch).mockReset().mockImplementation(async () => Date.now());
+  });
+
+  it('lets a co-host who sends their token update the state', async () => {
+    const response = await post(stateUpdate(), CO_HOST_ID);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('treats a caller without a token as a viewer, whatever id they claim', async () => {
+    const response = await post(stroke(CO_HOST_ID, 'a'));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'forbidden' });
+  });
+
+  it('rejects the host\'s id anywhere in a batch without their token', async () => {
+    const response = await post({
+      type: 'batch',
+      sessionId: SESSION_ID,
+      messages: [stroke('viewer-1', 'a'), stroke(HOST_ID, 'b')],
+      timestamp: Date.now(),
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('publishes messages as the verified sender, not the ids they claim', async () => {
+    const since = Date.now() - 1;
+
+    await post({
+      type: 'batch',
+      sessionId: SESSION_ID,
+      messages: [stroke(CO_HOST_ID, 'first'), stroke(HOST_ID, 'second')],
+      timestamp: Date.now(),
+    }, CO_HOST_ID);
+
+    const drawn = (await poll(since)).filter((message) => message.type === 'drawing-event');
+    expect(drawn.map((message) => 'userId' in message && message.userId)).toEqual([CO_HOST_ID, CO_HOST_ID]);
+  });
+
+  it('announces a join as the host\'s only when the host sent it', async () => {
+    const since = Date.now() - 1;
+
+    await post({ type: 'join-session', sessionId: SESSION_ID, userId: 'viewer-1', isHost: true, timestamp: Date.now() });
+    await post({ type: 'join-session', sessionId: SESSION_ID, userId: HOST_ID, timestamp: Date.now() }, HOST_ID);
+
+    const joined = (await poll(since)).filter((message) => message.type === 'user-joined');
+    expect(joined).toMatchObject([{ userId: 'viewer-1', isHost: false }, { userId: HOST_ID, isHost: true }]);
+  });
+
+  it('logs a patch that builds on the stored version', async () => {
+    vi.mocked(getStoredSessionState).mockResolvedValue(storedAt(1));
+
+    const response = await post(statePatch(1), HOST_ID);
+
+    expect(response.status).toBe(200);
+    expect(appendStatePatch).toHaveBeenCalledWith(SESSION_ID, 1, 2, []);
+  });
+
+  it('rejects a patch another one on the same version was logged ahead of', async () => {
+    vi.mocked(getStoredSessionState).mockResolvedValueOnce(storedAt(1)).mockResolvedValue(storedAt(2));
+    vi.mocked(appendStatePatch).mockResolvedValue(null);
+
+    const response = await post(statePatch(1, 3), HOST_ID);
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: 'version-mismatch', message: 'State is at version 2, not 1' });
+  });
+
+  it('accepts a patch that lost the race to its own copy', async () => {
+    vi.mocked(getStoredSessionState).mockResolvedValueOnce(storedAt(1)).mockResolvedValue(storedAt(2));
+    vi.mocked(appendStatePatch).mockResolvedValue(null);
+
+    const response = await post(statePatch(1), HOST_ID);
+
+    expect(response.status).toBe(200);
+  });
+});
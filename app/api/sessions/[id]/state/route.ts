@@ -1,9 +1,128 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSessionById, updateSessionState } from '@/lib/aws/dynamodb';
+import { appendStatePatch, getSessionById, getStoredSessionState, updateSessionState } from '@/lib/aws/dynamodb';
+import { authorizeMessage, getSessionPermissions, identifyParticipant } from '@/lib/realtime/permissions';
+import {
+  ClientMessage,
+  ErrorMessage,
+  StatePatchMessage,
+  createErrorMessage,
+  negotiateProtocol,
+  parseClientMessage,
+  toBroadcastMessage,
+  unpackBatch,
+} from '@/lib/realtime/protocol';
+import { getRealtimeMetrics } from '@/lib/realtime/metrics';
+import { getSessionFanout } from '@/lib/realtime/session-fanout';
+import { StatePatchError, applyStatePatch } from '@/lib/realtime/state-delta';
+import { createLogger } from '@/lib/utils/logger';
 
-// In-memory message store for polling (in production, use Redis or similar)
-const sessionMessages = new Map<string, Array<any>>();
-const SESSION_MESSAGE_LIMIT = 100; // Keep last 100 messages per session
+// Messages posted here reach WebSocket and SSE participants too; set REDIS_URL to share across processes
+const fanout = getSessionFanout();
+
+const log = createLogger('session-state');
+const metrics = getRealtimeMetrics();
+
+// Upper bound for how long a long-poll request is held open
+const MAX_LONG_POLL_MS = 30000;
+// Logged patches are folded into the session's snapshot this often
+const STATE_SNAPSHOT_INTERVAL = 50;
+
+type PostAuthorization =
+  | { ok: true; message: ClientMessage; isHost: boolean }
+  | { ok: false; error: ErrorMessage };
+
+/**
+ * Check a posted message against the sender's role, and stamp it with who sent
+ * it. The sender is identified by their bearer token; without one they are a
+ * viewer, sending under whatever user id they claim other than the host's.
+ * A batch is authorized as a whole, since one sender sent all of it.
+ */
+async function authorizePost(request: NextRequest, sessionId: string, message: ClientMessage): Promise<PostAuthorization> {
+  const session = await getSessionById(sessionId);
+  const hostId = session?.hostId ?? null;
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '') || undefined;
+
+  const claimedUserIds = message.type === 'batch'
+    ? message.messages.map((inner) => inner.userId)
+    : ['userId' in message ? message.userId : undefined];
+
+  let identity = await identifyParticipant({ accessToken, claimedUserId: claimedUserIds[0], hostId });
+  // The rest of a batch may claim other ids, none of which may be the host's either
+  for (const claimedUserId of accessToken ? [] : claimedUserIds.slice(1)) {
+    if (!identity.ok) break;
+    identity = await identifyParticipant({ claimedUserId, hostId });
+  }
+  if (!identity.ok) {
+    return { ok: false, error: createErrorMessage('unauthorized', identity.reason, message.type) };
+  }
+
+  if (authorizeMessage('viewer', message)) {
+    const role = (await getSessionPermissions().get(sessionId)).roleOf(identity);
+    const denied = authorizeMessage(role, message, hostId);
+    if (denied) return { ok: false, error: denied };
+  }
+
+  return { ok: true, message: identity.verified ? withSender(message, identity.userId) : message, isHost: identity.isHost };
+}
+
+/**
+ * Replace the user ids a message claims with its verified sender's
+ */
+function withSender(message: ClientMessage, userId: string | undefined): ClientMessage {
+  switch (message.type) {
+    case 'batch':
+      return { ...message, messages: message.messages.map((inner) => ({ ...inner, userId })) };
+    case 'state-update':
+    case 'state-patch':
+    case 'rpc-request':
+    case 'ping':
+    case 'hello':
+      return message;
+    default:
+      return { ...message, userId };
+  }
+}
+
+/**
+ * Log a patch against the stored state, folding the log into a new snapshot every
+ * so often. Returns the error to send back when the patch doesn't build on the
+ * stored version, or 'duplicate' when it is already stored.
+ */
+async function storeStatePatch(sessionId: string, message: StatePatchMessage): Promise<ErrorMessage | 'duplicate' | null> {
+  const stored = await getStoredSessionState(sessionId);
+  const version = stored?.version ?? null;
+
+  if (version === message.version) {
+    return 'duplicate';
+  }
+  if (!stored?.state || version !== message.baseVersion) {
+    return createErrorMessage('version-mismatch', `State is at version ${version ?? 'none'}, not ${message.baseVersion}`, message.type);
+  }
+
+  let state;
+  try {
+    state = applyStatePatch(stored.state, message.patch);
+  } catch (error) {
+    if (error instanceof StatePatchError) {
+      return createErrorMessage('invalid-message', error.message, message.type);
+    }
+    throw error;
+  }
+
+  const loggedAt = await appendStatePatch(sessionId, message.baseVersion, message.version, message.patch);
+  if (loggedAt === null) {
+    // Another patch was logged since the state was read, unless it was this one sent twice
+    const current = (await getStoredSessionState(sessionId))?.version ?? null;
+    if (current === message.version) {
+      return 'duplicate';
+    }
+    return createErrorMessage('version-mismatch', `State is at version ${current ?? 'none'}, not ${message.baseVersion}`, message.type);
+  }
+  if (stored.patchCount + 1 >= STATE_SNAPSHOT_INTERVAL) {
+    await updateSessionState(sessionId, state, message.version, loggedAt);
+  }
+  return null;
+}
 
 export async function GET(
   request: NextRequest,
@@ -13,6 +132,8 @@ export async function GET(
     const { id: sessionId } = await params;
     const { searchParams } = new URL(request.url);
     const since = parseInt(searchParams.get('since') || '0');
+    // With `wait`, hold the request open until new messages arrive or the wait expires
+    const wait = Math.min(Math.max(parseInt(searchParams.get('wait') || '0') || 0, 0), MAX_LONG_POLL_MS);
 
     // Get session data
     const session = await getSessionById(sessionId);
@@ -26,24 +147,24 @@ export async function GET(
 
     // If polling for updates (since parameter provided)
     if (since > 0) {
-      const messages = sessionMessages.get(sessionId) || [];
-      const updates = messages.filter(msg => msg.timestamp > since);
+      const updates = await fanout.waitForMessages(sessionId, since, wait, request.signal);
       
       return NextResponse.json({
         success: true,
         updates,
-        lastTimestamp: messages.length > 0 ? messages[messages.length - 1].timestamp : since
+        lastTimestamp: updates.length > 0 ? updates[updates.length - 1].timestamp : since
       });
     }
 
-    // Return current state
-    const state = (session as any).state ?? null;
+    // Return current state, with the version patches build on
+    const stored = await getStoredSessionState(sessionId);
     return NextResponse.json({
       success: true,
-      state,
+      state: stored?.state ?? null,
+      version: stored?.version ?? null,
     });
   } catch (error) {
-    console.error('Error getting session state:', error);
+    log.error('Error getting session state', { error });
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
       { status: 500 }
@@ -57,44 +178,102 @@ export async function POST(
 ) {
   try {
     const { id: sessionId } = await params;
-    const messageData = await request.json();
 
-    // Optional: Verify JWT token for host validation
-    // const authHeader = request.headers.get('authorization');
-    // if (authHeader) {
-    //   const token = authHeader.replace('Bearer ', '');
-    //   await verifyJWTToken(token);
-    // }
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        createErrorMessage('invalid-json', 'Message is not valid JSON'),
+        { status: 400 }
+      );
+    }
+
+    const result = parseClientMessage(body);
+    metrics.messagesReceived.inc({ transport: 'http', type: result.ok ? result.message.type : 'invalid' });
+    if (!result.ok) {
+      metrics.messagesRejected.inc({ transport: 'http', code: result.error.code });
+      return NextResponse.json(result.error, { status: 400 });
+    }
+
+    // Requests carry no connection for a version to stick to; the answer is for the client's own use
+    if (result.message.type === 'hello') {
+      const reply = negotiateProtocol(result.message, ['batching', 'acks']);
+      if (reply.type === 'error') {
+        metrics.messagesRejected.inc({ transport: 'http', code: reply.code });
+      }
+      return NextResponse.json(reply, { status: reply.type === 'welcome' ? 200 : 426 });
+    }
+
+    const authorization = await authorizePost(request, sessionId, result.message);
+    if (!authorization.ok) {
+      const denied = authorization.error;
+      log.warn('Denied message', { sessionId, type: result.message.type, reason: denied.message });
+      metrics.messagesRejected.inc({ transport: 'http', code: denied.code });
+      return NextResponse.json(
+        { ...denied, ...(result.message.messageId ? { messageId: result.message.messageId } : {}) },
+        { status: denied.code === 'unauthorized' ? 401 : 403 }
+      );
+    }
+
+    const messageData = authorization.message;
+    const sender = { isHost: authorization.isHost };
+
+    // Grants are stored before they're announced, so a join straight after sees them
+    if (messageData.type === 'set-role') {
+      await getSessionPermissions().grant(sessionId, messageData.targetUserId, messageData.role);
+    }
 
     // If this is a state update, update DynamoDB
-    if (messageData.type === 'state-update' && messageData.state) {
-      await updateSessionState(sessionId, messageData.state);
+    if (messageData.type === 'state-update') {
+      await updateSessionState(sessionId, messageData.state, messageData.version ?? null);
     }
 
-    // Add message to in-memory store for real-time features
-    if (!sessionMessages.has(sessionId)) {
-      sessionMessages.set(sessionId, []);
+    if (messageData.type === 'state-patch') {
+      const stored = await storeStatePatch(sessionId, messageData);
+      if (stored === 'duplicate') {
+        // Sent both over a WebSocket and here; the first copy was published already
+        return NextResponse.json({ success: true, message: 'Message processed successfully' });
+      }
+      if (stored) {
+        metrics.messagesRejected.inc({ transport: 'http', code: stored.code });
+        return NextResponse.json(
+          { ...stored, ...(messageData.messageId ? { messageId: messageData.messageId } : {}) },
+          { status: stored.code === 'version-mismatch' ? 409 : 400 }
+        );
+      }
     }
-    
-    const messages = sessionMessages.get(sessionId)!;
-    messages.push({
-      ...messageData,
-      timestamp: messageData.timestamp || Date.now()
-    });
-    
-    // Keep only the last N messages
-    if (messages.length > SESSION_MESSAGE_LIMIT) {
-      messages.splice(0, messages.length - SESSION_MESSAGE_LIMIT);
+
+    // A batch is stored as its individual messages, in order
+    if (messageData.type === 'batch') {
+      for (const inner of unpackBatch(messageData)) {
+        const broadcast = toBroadcastMessage(inner, sender);
+        if (broadcast) {
+          await fanout.publish(sessionId, broadcast);
+        }
+      }
+
+      log.debug('Published batch', { sessionId, count: messageData.messages.length });
+      return NextResponse.json({ success: true, message: 'Message processed successfully' });
     }
 
-    console.log(`📨 Added message to session ${sessionId}:`, messageData.type);
+    // Store what pollers should receive, e.g. `cursor-move` is delivered as `cursor-moved`
+    const broadcast = toBroadcastMessage(messageData, sender);
+    if (!broadcast) {
+      return NextResponse.json({ success: true, message: 'Message processed successfully' });
+    }
+
+    // Deliver to every participant, whatever their transport
+    await fanout.publish(sessionId, broadcast);
+
+    log.debug('Published message', { sessionId, type: messageData.type });
 
     return NextResponse.json({
       success: true,
       message: 'Message processed successfully',
     });
   } catch (error) {
-    console.error('Error processing message:', error);
+    log.error('Error processing message', { error });
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
       { status: 500 }
@@ -17,10 +17,14 @@ import { ScreenShareTile } from '@/components/tiles/screenshare-tile';
 import { ClockTile } from '@/components/tiles/clock-tile';
 import { LiveCursors } from '@/components/LiveCursors';
 import { LiveChat } from '@/components/LiveChat';
+import { PresenceIndicator } from '@/components/PresenceIndicator';
+import { ProtocolUpgradeNotice } from '@/components/ProtocolUpgradeNotice';
 import { CollaborativeCanvas } from '@/components/CollaborativeCanvas';
 import { ElementViewer } from '@/components/ElementViewer';
 import { ResizableCard } from '@/components/ResizableCard';
-import { ComponentType } from '@/types';
+import { TileLayoutProps } from '@/components/tiles/tile-wrapper';
+import { BroadcastCompositor } from '@/lib/streaming/compositor';
+import { ComponentTile, ComponentType } from '@/types';
 import { 
   Video, 
   Monitor, 
@@ -48,6 +52,15 @@ import {
   Code
 } from 'lucide-react';
 
+// Each tile type's own default size, so the stored layout matches what the host sees
+const DEFAULT_TILE_SIZES: Record<ComponentType, { width: number; height: number }> = {
+  webcam: { width: 400, height: 300 },
+  code: { width: 600, height: 500 },
+  pptx: { width: 700, height: 550 },
+  screenshare: { width: 800, height: 500 },
+  clock: { width: 400, height: 350 },
+};
+
 export default function HostSessionPage() {
   const params = useParams();
   const router = useRouter();
@@ -76,6 +89,7 @@ export default function HostSessionPage() {
   const [canvasComponents, setCanvasComponents] = useState<any[]>([]);
   const canvasRef = useRef<HTMLDivElement>(null);
   const streamProvider = useRef<any>(null);
+  const compositorRef = useRef<BroadcastCompositor | null>(null);
 
   useEffect(() => {
     if (user && sessionId) {
@@ -89,11 +103,16 @@ export default function HostSessionPage() {
     };
   }, [user, sessionId, router]);
 
+  // The broadcast shows tiles where they are now, in the order and visibility the host chose
+  useEffect(() => {
+    compositorRef.current?.setTiles(components);
+  }, [components]);
+
   const initializeSession = async () => {
     try {
       // Initialize stream provider on client side
       if (!streamProvider.current) {
-        streamProvider.current = createStreamProvider('webrtc');
+        streamProvider.current = createStreamProvider();
       }
 
       // Get session from API
@@ -119,7 +138,7 @@ export default function HostSessionPage() {
     console.log('Debugger_14_Oct ---> \n Author_Abdallah ---> \n setCurrentSession & setIsHost:', true);
 
       // Initialize stream provider
-      await streamProvider.current.initializeHost(sessionId);
+      await streamProvider.current.initializeHost(sessionId, user?.id);
 
       setIsInitializing(false);
           console.log('Debugger_14_Oct ---> \n Author_Abdallah ---> \n setIsInitializing:', false);
@@ -132,6 +151,9 @@ export default function HostSessionPage() {
   };
 
   const cleanup = async () => {
+    compositorRef.current?.stop();
+    compositorRef.current = null;
+
     if (isStreaming && streamProvider.current) {
       await stopBroadcast();
     }
@@ -144,17 +166,19 @@ export default function HostSessionPage() {
         return;
       }
 
-      // Get the canvas element from the CollaborativeCanvas component
-      const canvasElement = canvasRef.current.querySelector('canvas:last-child') as HTMLCanvasElement;
-      if (!canvasElement) {
+      if (!canvasRef.current.querySelector('canvas')) {
         toast.error('Canvas element not found');
         return;
       }
 
       toast.loading('Starting canvas broadcast...', { id: 'permissions' });
 
-      // Capture canvas stream
-      const canvasStream = canvasElement.captureStream(30); // 30 FPS
+      // Composite the canvas layers and visible tiles into one stream
+      compositorRef.current?.stop();
+      const compositor = new BroadcastCompositor(canvasRef.current, { frameRate: 30 });
+      compositor.setTiles(useSessionStore.getState().components);
+      compositorRef.current = compositor;
+      const canvasStream = compositor.start();
 
       // Optionally add audio from microphone
       try {
@@ -233,6 +257,9 @@ export default function HostSessionPage() {
 
   const stopBroadcast = async () => {
     try {
+      compositorRef.current?.stop();
+      compositorRef.current = null;
+
       if (canvasStream) {
         canvasStream.getTracks().forEach((track) => track.stop());
         setCanvasStream(null);
@@ -271,8 +298,9 @@ export default function HostSessionPage() {
       id: `${type}-${Date.now()}`,
       type,
       position: { x: 100 + components.length * 50, y: 100 + components.length * 50 },
-      size: { width: 400, height: 300 },
+      size: DEFAULT_TILE_SIZES[type],
       isVisible: true,
+      zIndex: topTileZIndex() + 1,
     };
     addComponent(newComponent);
     setShowAddMenu(false);
@@ -321,6 +349,50 @@ export default function HostSessionPage() {
     );
   };
 
+  const topTileZIndex = () =>
+    components.reduce((top, comp) => Math.max(top, comp.zIndex ?? 0), 0);
+
+  const publishComponents = (updatedComponents: ComponentTile[]) => {
+    if (streamProvider.current) {
+      streamProvider.current.publishState({
+        components: updatedComponents,
+        timestamp: Date.now()
+      });
+    }
+  };
+
+  const handleBringToFront = (componentId: string) => {
+    const top = topTileZIndex();
+    const others = components.filter(c => c.id !== componentId);
+    const comp = components.find(c => c.id === componentId);
+    // Already in front of every other tile
+    if (!comp || others.every(c => (c.zIndex ?? 0) < (comp.zIndex ?? 0))) return;
+
+    updateComponent(componentId, { zIndex: top + 1 });
+    publishComponents(components.map(c => c.id === componentId ? { ...c, zIndex: top + 1 } : c));
+  };
+
+  const handleToggleVisibility = (componentId: string) => {
+    const comp = components.find(c => c.id === componentId);
+    if (!comp) return;
+
+    updateComponent(componentId, { isVisible: !comp.isVisible });
+    publishComponents(components.map(c => c.id === componentId ? { ...c, isVisible: !comp.isVisible } : c));
+  };
+
+  const tileLayout = (comp: ComponentTile): TileLayoutProps => ({
+    initialX: comp.position.x,
+    initialY: comp.position.y,
+    initialWidth: comp.size.width,
+    initialHeight: comp.size.height,
+    onPositionChange: (x, y) => updateComponent(comp.id, { position: { x, y } }),
+    onSizeChange: (width, height) => updateComponent(comp.id, { size: { width, height } }),
+    zIndex: comp.zIndex,
+    isVisible: comp.isVisible,
+    onFocus: () => handleBringToFront(comp.id),
+    onToggleVisibility: () => handleToggleVisibility(comp.id),
+  });
+
   const handleRemoveComponent = (componentId: string) => {
     removeComponent(componentId);
     
@@ -347,6 +419,8 @@ export default function HostSessionPage() {
 
   return (
     <div className="h-screen relative bg-gray-900">
+      <ProtocolUpgradeNotice />
+
       {/* Session Info - Top Left */}
       <div className="absolute top-4 left-4 z-30">
         <div className="bg-black/50 backdrop-blur-md rounded-xl p-3 text-white">
@@ -365,6 +439,7 @@ export default function HostSessionPage() {
                 Offline
               </div>
             )}
+            <PresenceIndicator sessionId={sessionId} />
           </div>
         </div>
       </div>
@@ -616,6 +691,7 @@ export default function HostSessionPage() {
                     key={comp.id}
                     id={comp.id}
                     onClose={() => handleRemoveComponent(comp.id)}
+                    {...tileLayout(comp)}
                   />
                 );
               case 'code':
@@ -624,6 +700,7 @@ export default function HostSessionPage() {
                     key={comp.id}
                     id={comp.id}
                     onClose={() => handleRemoveComponent(comp.id)}
+                    {...tileLayout(comp)}
                   />
                 );
               case 'pptx':
@@ -632,6 +709,7 @@ export default function HostSessionPage() {
                     key={comp.id}
                     id={comp.id}
                     onClose={() => handleRemoveComponent(comp.id)}
+                    {...tileLayout(comp)}
                   />
                 );
               case 'screenshare':
@@ -640,6 +718,7 @@ export default function HostSessionPage() {
                     key={comp.id}
                     id={comp.id}
                     onClose={() => handleRemoveComponent(comp.id)}
+                    {...tileLayout(comp)}
                   />
                 );
               case 'clock':
@@ -648,6 +727,7 @@ export default function HostSessionPage() {
                     key={comp.id}
                     id={comp.id}
                     onClose={() => handleRemoveComponent(comp.id)}
+                    {...tileLayout(comp)}
                   />
                 );
               default:
@@ -11,6 +11,8 @@ import { copyToClipboard } from '@/lib/utils/session-helpers';
 import toast from 'react-hot-toast';
 import { LiveCursors } from '@/components/LiveCursors';
 import { LiveChat } from '@/components/LiveChat';
+import { PresenceIndicator } from '@/components/PresenceIndicator';
+import { ProtocolUpgradeNotice } from '@/components/ProtocolUpgradeNotice';
 import { CollaborativeCanvas } from '@/components/CollaborativeCanvas';
 import { WebcamTile } from '@/components/tiles/webcam-tile';
 import { CodeTile } from '@/components/tiles/code-tile';
@@ -58,7 +60,7 @@ export default function ViewerSessionPage() {
     try {
       // Initialize stream provider on client side
       if (!streamProvider.current) {
-        streamProvider.current = createStreamProvider('webrtc');
+        streamProvider.current = createStreamProvider();
       }
 
       // Get session from API
@@ -81,7 +83,7 @@ export default function ViewerSessionPage() {
       setIsHost(false);
 
       // Initialize stream provider as viewer
-      await streamProvider.current.joinSession(sessionId);
+      await streamProvider.current.joinSession(sessionId, viewerId);
 
       // Subscribe to media stream
       streamProvider.current.subscribeToMedia((stream: MediaStream) => {
@@ -127,6 +129,8 @@ export default function ViewerSessionPage() {
 
   return (
     <div className="h-screen relative bg-gray-900">
+      <ProtocolUpgradeNotice />
+
       {/* Session Info - Top Left */}
       <div className="absolute top-4 left-4 z-30">
         <div className="bg-black/50 backdrop-blur-md rounded-xl p-3 text-white">
@@ -139,6 +143,7 @@ export default function ViewerSessionPage() {
               <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
               LIVE
             </div>
+            <PresenceIndicator sessionId={sessionId} />
           </div>
         </div>
       </div>
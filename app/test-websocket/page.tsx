@@ -1,10 +1,10 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { ConnectionMode, getHybridClient } from '@/lib/hybrid/hybrid-client';
 
 export default function WebSocketTest() {
-  const [connectionMode, setConnectionMode] = useState<'websocket' | 'polling' | 'none'>('none');
+  const [connectionMode, setConnectionMode] = useState<ConnectionMode>('none');
   const [messages, setMessages] = useState<string[]>([]);
   const [testSessionId] = useState(`test-session-${Date.now()}`);
   const [testUserId] = useState(`user-${Math.random().toString(36).substring(2, 8)}`);
@@ -72,6 +72,7 @@ export default function WebSocketTest() {
           <h2 className="font-semibold mb-2">Connection Status</h2>
           <p>Mode: <span className={`font-mono px-2 py-1 rounded ${
             connectionMode === 'websocket' ? 'bg-green-200 text-green-800' :
+            connectionMode === 'sse' ? 'bg-blue-200 text-blue-800' :
             connectionMode === 'polling' ? 'bg-yellow-200 text-yellow-800' :
             'bg-red-200 text-red-800'
           }`}>{connectionMode}</span></p>
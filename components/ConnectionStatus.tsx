@@ -1,26 +1,67 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { getHybridClient } from '@/lib/hybrid/hybrid-client';
-import { Wifi, WifiOff, Zap, Clock } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { ConnectionMode, getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { ConnectionQuality, ConnectionStats } from '@/lib/hybrid/connection-stats';
+import { WifiOff, Zap, Clock, Radio, Signal, SignalHigh, SignalLow, SignalZero } from 'lucide-react';
+
+const MODE_LABELS: Record<ConnectionMode, string> = {
+  websocket: 'WebSocket',
+  sse: 'Server-Sent Events',
+  polling: 'HTTP polling',
+  none: 'Offline',
+};
+
+const QUALITY_STYLES: Record<ConnectionQuality, { label: string; className: string }> = {
+  excellent: { label: 'Excellent', className: 'text-green-600' },
+  good: { label: 'Good', className: 'text-blue-600' },
+  poor: { label: 'Poor', className: 'text-yellow-600' },
+  offline: { label: 'Offline', className: 'text-red-500' },
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function QualityIcon({ quality }: { quality: ConnectionQuality }) {
+  const className = `w-4 h-4 ${QUALITY_STYLES[quality].className}`;
+
+  switch (quality) {
+    case 'excellent':
+      return <Signal className={className} />;
+    case 'good':
+      return <SignalHigh className={className} />;
+    case 'poor':
+      return <SignalLow className={className} />;
+    default:
+      return <SignalZero className={className} />;
+  }
+}
 
 export function ConnectionStatus() {
-  const [connectionMode, setConnectionMode] = useState<'websocket' | 'polling' | 'none'>('none');
+  const [connectionMode, setConnectionMode] = useState<ConnectionMode>('none');
   const [isConnected, setIsConnected] = useState(false);
+  const [stats, setStats] = useState<ConnectionStats | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
   const hybridClient = getHybridClient();
 
   useEffect(() => {
     const updateStatus = () => {
       setConnectionMode(hybridClient.getConnectionMode());
       setIsConnected(hybridClient.isConnected());
+      setStats(hybridClient.getStats());
     };
 
     // Initial status
     updateStatus();
 
     // Listen for connection changes
-    const handleConnect = (data: any) => {
-      console.log('Connection established:', data.mode);
+    const handleConnect = () => {
       updateStatus();
     };
 
@@ -28,8 +69,19 @@ export function ConnectionStatus() {
       updateStatus();
     };
 
+    // Transport upgrades happen without a new connect event; the client logs them itself
+    const handleModeChanged = () => {
+      updateStatus();
+    };
+
+    const handleStats = (data: ConnectionStats) => {
+      setStats(data);
+    };
+
     hybridClient.on('connect', handleConnect);
     hybridClient.on('disconnect', handleDisconnect);
+    hybridClient.on('mode-changed', handleModeChanged);
+    hybridClient.on('stats', handleStats);
 
     // Poll for status changes every 2 seconds
     const statusInterval = setInterval(updateStatus, 2000);
@@ -37,10 +89,26 @@ export function ConnectionStatus() {
     return () => {
       hybridClient.off('connect', handleConnect);
       hybridClient.off('disconnect', handleDisconnect);
+      hybridClient.off('mode-changed', handleModeChanged);
+      hybridClient.off('stats', handleStats);
       clearInterval(statusInterval);
     };
   }, [hybridClient]);
 
+  // Close the details when clicking anywhere else
+  useEffect(() => {
+    if (!showDetails) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setShowDetails(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showDetails]);
+
   const getIcon = () => {
     if (!isConnected) {
       return <WifiOff className="w-4 h-4 text-red-500" />;
@@ -49,6 +117,8 @@ export function ConnectionStatus() {
     switch (connectionMode) {
       case 'websocket':
         return <Zap className="w-4 h-4 text-green-500" />;
+      case 'sse':
+        return <Radio className="w-4 h-4 text-blue-500" />;
       case 'polling':
         return <Clock className="w-4 h-4 text-yellow-500" />;
       default:
@@ -64,6 +134,8 @@ export function ConnectionStatus() {
     switch (connectionMode) {
       case 'websocket':
         return 'WebSocket (Real-time)';
+      case 'sse':
+        return 'Server-Sent Events (Streaming)';
       case 'polling':
         return 'HTTP Polling (Fallback)';
       default:
@@ -79,6 +151,8 @@ export function ConnectionStatus() {
     switch (connectionMode) {
       case 'websocket':
         return 'text-green-700 bg-green-50 border-green-200';
+      case 'sse':
+        return 'text-blue-700 bg-blue-50 border-blue-200';
       case 'polling':
         return 'text-yellow-700 bg-yellow-50 border-yellow-200';
       default:
@@ -86,10 +160,62 @@ export function ConnectionStatus() {
     }
   };
 
+  const quality = stats?.quality ?? 'offline';
+
   return (
-    <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor()}`}>
-      {getIcon()}
-      <span>{getStatusText()}</span>
+    <div ref={containerRef} className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setShowDetails((open) => !open)}
+        className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor()}`}
+        title={`Connection quality: ${QUALITY_STYLES[quality].label}`}
+      >
+        {getIcon()}
+        <span>{getStatusText()}</span>
+        <QualityIcon quality={quality} />
+        {stats?.averageLatencyMs != null && <span className="opacity-75">{stats.averageLatencyMs}ms</span>}
+      </button>
+
+      {showDetails && stats && (
+        <div className="absolute right-0 z-50 mt-2 w-64 rounded-lg border border-gray-200 bg-white p-3 text-xs text-gray-700 shadow-lg">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="font-semibold">Connection</span>
+            <span className={`flex items-center gap-1 font-medium ${QUALITY_STYLES[quality].className}`}>
+              <QualityIcon quality={quality} />
+              {QUALITY_STYLES[quality].label}
+            </span>
+          </div>
+
+          <dl className="grid grid-cols-2 gap-x-2 gap-y-1">
+            <dt className="text-gray-500">Transport</dt>
+            <dd>{MODE_LABELS[stats.mode]} for {formatDuration(Date.now() - stats.modeSince)}</dd>
+            <dt className="text-gray-500">Encoding</dt>
+            <dd>{stats.wireFormat === 'binary' ? 'Binary' : 'JSON'}</dd>
+            <dt className="text-gray-500">Latency</dt>
+            <dd>
+              {stats.latencyMs != null ? `${stats.latencyMs}ms (avg ${stats.averageLatencyMs}ms)` : 'Not measured yet'}
+            </dd>
+            <dt className="text-gray-500">Lost pings</dt>
+            <dd>{stats.lostPings}</dd>
+            <dt className="text-gray-500">Sent</dt>
+            <dd>{stats.sentPerSecond}/s ({stats.messagesSent} total)</dd>
+            <dt className="text-gray-500">Received</dt>
+            <dd>{stats.receivedPerSecond}/s ({stats.messagesReceived} total)</dd>
+            <dt className="text-gray-500">Reconnects</dt>
+            <dd>{stats.reconnects}</dd>
+          </dl>
+
+          <div className="mt-3 border-t border-gray-100 pt-2">
+            <div className="mb-1 text-gray-500">Time in each mode</div>
+            {(Object.keys(MODE_LABELS) as ConnectionMode[]).map((mode) => (
+              <div key={mode} className="flex justify-between">
+                <span>{MODE_LABELS[mode]}</span>
+                <span>{formatDuration(stats.timeInMode[mode])}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,16 +1,18 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { AlertCircle, Check, Clock } from 'lucide-react';
+import { DeliveryStatus, DeliveryUpdate, getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { ChatBroadcastMessage as ChatMessage } from '@/lib/realtime/protocol';
 import { Button } from './ui/button';
 
-interface ChatMessage {
-  id: string;
+// A message we sent that hasn't come back from the session yet
+interface OutgoingMessage {
+  messageId: string;
   message: string;
-  userId?: string;
-  userName?: string;
-  socketId: string;
   timestamp: number;
+  status: DeliveryStatus;
+  reason?: string;
 }
 
 interface LiveChatProps {
@@ -23,6 +25,7 @@ interface LiveChatProps {
 
 export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: LiveChatProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [outgoing, setOutgoing] = useState<OutgoingMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isConnected, setIsConnected] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -34,6 +37,15 @@ export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: L
     // Listen for chat messages
     const handleChatMessage = (message: ChatMessage) => {
       setMessages(prev => [...prev, message]);
+
+      // Our own message is back from the session, so it no longer needs a status
+      if (message.messageId) {
+        setOutgoing(prev => prev.filter(item => item.messageId !== message.messageId));
+      }
+    };
+
+    const handleDelivery = ({ messageId, status, reason }: DeliveryUpdate) => {
+      setOutgoing(prev => prev.map(item => (item.messageId === messageId ? { ...item, status, reason } : item)));
     };
 
     // Listen for connection status
@@ -41,6 +53,7 @@ export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: L
     const handleDisconnect = () => setIsConnected(false);
 
     wsClient.on('chat-message', handleChatMessage);
+    wsClient.on('delivery', handleDelivery);
 
     // Scroll to bottom when new messages arrive
     setTimeout(() => {
@@ -49,22 +62,36 @@ export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: L
 
     return () => {
       wsClient.off('chat-message', handleChatMessage);
+      wsClient.off('delivery', handleDelivery);
     };
   }, []);
 
   // Auto scroll to bottom on new messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, outgoing]);
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !isConnected) return;
-
-    wsClient.sendChatMessage(newMessage.trim(), userId, userName || 'Anonymous');
+    if (!newMessage.trim()) return;
+
+    // While offline the message waits in the client's outbox
+    const message = newMessage.trim();
+    const messageId = wsClient.sendChatMessage(message, userId, userName || 'Anonymous');
+    if (messageId) {
+      setOutgoing(prev => [...prev, { messageId, message, timestamp: Date.now(), status: 'pending' }]);
+    }
     setNewMessage('');
   };
 
+  const handleRetry = (messageId: string) => {
+    if (wsClient.retry(messageId)) {
+      setOutgoing(prev => prev.map(item => (item.messageId === messageId ? { ...item, status: 'pending', reason: undefined } : item)));
+    } else {
+      setOutgoing(prev => prev.filter(item => item.messageId !== messageId));
+    }
+  };
+
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], { 
       hour: '2-digit', 
@@ -110,7 +137,7 @@ export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: L
 
       {/* Messages */}
       <div className="flex-1 p-4 overflow-y-auto space-y-3">
-        {messages.length === 0 ? (
+        {messages.length === 0 && outgoing.length === 0 ? (
           <div className="text-center text-gray-500 text-sm">
             No messages yet. Start the conversation!
           </div>
@@ -119,7 +146,7 @@ export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: L
             <div key={msg.id} className="text-sm">
               <div className="flex items-baseline gap-2">
                 <span className="font-medium text-blue-600">
-                  {msg.userName || `User ${msg.socketId.slice(-4)}`}
+                  {msg.userName || `User ${(msg.userId ?? msg.socketId ?? '').slice(-4)}`}
                 </span>
                 <span className="text-xs text-gray-400">
                   {formatTime(msg.timestamp)}
@@ -131,6 +158,47 @@ export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: L
             </div>
           ))
         )}
+        {outgoing.map((item) => (
+          <div key={item.messageId} className="text-sm">
+            <div className="flex items-baseline gap-2">
+              <span className="font-medium text-blue-600">
+                {userName || 'You'}
+              </span>
+              <span className="text-xs text-gray-400">
+                {formatTime(item.timestamp)}
+              </span>
+            </div>
+            <div className={`mt-1 ${item.status === 'failed' ? 'text-gray-500' : 'text-gray-900'}`}>
+              {item.message}
+            </div>
+            <div className="flex items-center gap-1 mt-1 text-xs">
+              {item.status === 'pending' && (
+                <span className="flex items-center gap-1 text-gray-400">
+                  <Clock className="w-3 h-3" /> Sending…
+                </span>
+              )}
+              {item.status === 'sent' && (
+                <span className="flex items-center gap-1 text-gray-400">
+                  <Check className="w-3 h-3" /> Sent
+                </span>
+              )}
+              {item.status === 'failed' && (
+                <>
+                  <span className="flex items-center gap-1 text-red-500" title={item.reason}>
+                    <AlertCircle className="w-3 h-3" /> Not sent
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRetry(item.messageId)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Retry
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
         <div ref={messagesEndRef} />
       </div>
 
@@ -141,15 +209,14 @@ export function LiveChat({ sessionId, userId, userName, isVisible, onToggle }: L
             type="text"
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
-            placeholder={isConnected ? "Type a message..." : "Connecting..."}
-            disabled={!isConnected}
+            placeholder={isConnected ? "Type a message..." : "Offline: messages send once connected"}
             className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
             maxLength={500}
           />
           <Button
             type="submit"
             size="sm"
-            disabled={!newMessage.trim() || !isConnected}
+            disabled={!newMessage.trim()}
             className="px-3"
           >
             Send
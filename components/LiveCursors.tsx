@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { CursorMovedMessage, UserLeftMessage } from '@/lib/realtime/protocol';
 
 interface CursorData {
   socketId: string;
@@ -22,13 +23,16 @@ export function LiveCursors({ sessionId, userId }: LiveCursorsProps) {
 
   useEffect(() => {
     // Listen for cursor movements from other users
-    const handleCursorMove = (data: CursorData) => {
-      // Validate cursor data
-      if (!data || !data.socketId || typeof data.x !== 'number' || typeof data.y !== 'number') {
-        console.warn('Invalid cursor data received:', data);
+    const handleCursorMove = (message: CursorMovedMessage) => {
+      // Socket.IO relays identify cursors by socket, the other relays by user
+      const socketId = message.socketId ?? message.userId;
+      if (!socketId) {
+        console.warn('Invalid cursor data received:', message);
         return;
       }
 
+      const data: CursorData = { ...message, socketId };
+
       // Don't show our own cursor
       if (data.userId === userId) {
         return;
@@ -54,7 +58,7 @@ export function LiveCursors({ sessionId, userId }: LiveCursorsProps) {
     };
 
     // Listen for users leaving
-    const handleUserLeft = (data: { socketId?: string; userId?: string }) => {
+    const handleUserLeft = (data: UserLeftMessage) => {
       if (!data || (!data.socketId && !data.userId)) {
         return;
       }
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { PresenceMessage, PresenceParticipant } from '@/lib/realtime/protocol';
+
+interface PresenceIndicatorProps {
+  sessionId: string;
+}
+
+/**
+ * Viewer count for a session, driven by the server's presence list
+ */
+export function PresenceIndicator({ sessionId }: PresenceIndicatorProps) {
+  const [participants, setParticipants] = useState<PresenceParticipant[]>([]);
+  const hybridClient = getHybridClient();
+
+  useEffect(() => {
+    const handlePresence = (message: PresenceMessage) => {
+      if (message.sessionId === sessionId) {
+        setParticipants(message.participants);
+      }
+    };
+
+    hybridClient.on('presence', handlePresence);
+
+    return () => {
+      hybridClient.off('presence', handlePresence);
+    };
+  }, [hybridClient, sessionId]);
+
+  const viewers = participants.filter((participant) => participant.role === 'viewer');
+
+  return (
+    <div
+      className="flex items-center gap-1 px-2 py-1 bg-white/10 text-gray-200 rounded-lg text-xs font-medium"
+      title={participants.map((participant) => `${participant.id} (${participant.role})`).join('\n')}
+    >
+      <Users className="w-3 h-3" />
+      <span>{viewers.length} {viewers.length === 1 ? 'viewer' : 'viewers'}</span>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { ErrorMessage } from '@/lib/realtime/protocol';
+
+/**
+ * Banner shown once the realtime server reports this page's protocol is too old
+ * for it; only a reload picks up a client it understands
+ */
+export function ProtocolUpgradeNotice() {
+  const [reason, setReason] = useState<string | null>(null);
+  const hybridClient = getHybridClient();
+
+  useEffect(() => {
+    const handleError = (message: ErrorMessage) => {
+      if (message.code === 'upgrade-required') {
+        setReason(message.message);
+      }
+    };
+
+    hybridClient.on('error', handleError);
+
+    return () => {
+      hybridClient.off('error', handleError);
+    };
+  }, [hybridClient]);
+
+  if (!reason) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50" role="alert">
+      <div className="flex items-center gap-3 bg-black/70 backdrop-blur-md rounded-xl px-4 py-3 text-white" title={reason}>
+        <p className="text-sm">
+          This page is out of date with the server, so live updates have stopped.
+        </p>
+        <Button size="sm" onClick={() => window.location.reload()} className="flex items-center gap-1">
+          <RefreshCw className="w-3 h-3" />
+          Reload
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,19 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { TileWrapper } from './tile-wrapper';
+import { TileWrapper, TileLayoutProps } from './tile-wrapper';
 import { Button } from '@/components/ui/button';
 import { formatDuration } from '@/lib/utils/session-helpers';
+import { drawCenteredText, TileDraw } from '@/lib/streaming/compositor';
 
-interface ClockTileProps {
+interface ClockTileProps extends TileLayoutProps {
   id: string;
   onClose?: () => void;
 }
 
 type ClockMode = 'clock' | 'stopwatch' | 'timer';
 
-export function ClockTile({ id, onClose }: ClockTileProps) {
+export function ClockTile({ id, onClose, ...layout }: ClockTileProps) {
   const [mode, setMode] = useState<ClockMode>('clock');
   const [currentTime, setCurrentTime] = useState(new Date());
 
@@ -121,6 +122,32 @@ export function ClockTile({ id, onClose }: ClockTileProps) {
     setTimerRemaining(timerDuration);
   };
 
+  // Viewers see the time for the current mode, without the controls
+  const drawFrame: TileDraw = (ctx, width, height) => {
+    const font = 'bold 56px ui-sans-serif, system-ui, sans-serif';
+
+    if (mode === 'clock') {
+      drawCenteredText(ctx, currentTime.toLocaleTimeString(), width, height, {
+        font,
+        color: '#111827',
+        caption: currentTime.toLocaleDateString('en-US', {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        }),
+      });
+    } else if (mode === 'stopwatch') {
+      drawCenteredText(ctx, formatDuration(stopwatchTime), width, height, { font, color: '#111827' });
+    } else {
+      drawCenteredText(ctx, formatDuration(timerRemaining), width, height, {
+        font,
+        color: timerRemaining < 60 ? '#dc2626' : '#111827',
+        caption: timerRemaining === 0 ? "Time's up!" : undefined,
+      });
+    }
+  };
+
   return (
     <TileWrapper
       id={id}
@@ -128,6 +155,8 @@ export function ClockTile({ id, onClose }: ClockTileProps) {
       onClose={onClose}
       initialWidth={400}
       initialHeight={350}
+      {...layout}
+      renderFrame={drawFrame}
     >
       <div className="h-full flex flex-col">
         {/* Mode Selector */}
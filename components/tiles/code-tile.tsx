@@ -1,14 +1,15 @@
 'use client';
 
 import { useState } from 'react';
-import { TileWrapper } from './tile-wrapper';
+import { TileWrapper, TileLayoutProps } from './tile-wrapper';
 import { Button } from '@/components/ui/button';
 import Editor from '@monaco-editor/react';
 import { CodeLanguage } from '@/types';
 import toast from 'react-hot-toast';
 import { copyToClipboard } from '@/lib/utils/session-helpers';
+import { drawTextLines, TileDraw } from '@/lib/streaming/compositor';
 
-interface CodeTileProps {
+interface CodeTileProps extends TileLayoutProps {
   id: string;
   onClose?: () => void;
 }
@@ -47,7 +48,7 @@ class Program {
 }`,
 };
 
-export function CodeTile({ id, onClose }: CodeTileProps) {
+export function CodeTile({ id, onClose, ...layout }: CodeTileProps) {
   const [language, setLanguage] = useState<CodeLanguage>('python');
   const [code, setCode] = useState(languageTemplates.python);
   const [output, setOutput] = useState('');
@@ -103,6 +104,25 @@ export function CodeTile({ id, onClose }: CodeTileProps) {
     }
   };
 
+  // Viewers see the code above its output, as in the editor and console
+  const drawFrame: TileDraw = (ctx, width, height) => {
+    const outputHeight = Math.min(128, height / 2);
+
+    drawTextLines(ctx, code.split('\n'), width, height - outputHeight, {
+      font: '14px ui-monospace, monospace',
+    });
+
+    ctx.save();
+    ctx.translate(0, height - outputHeight);
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, outputHeight);
+    drawTextLines(ctx, ['Output:', ...(output || 'No output yet.').split('\n')], width, outputHeight, {
+      font: '14px ui-monospace, monospace',
+      color: '#4ade80',
+    });
+    ctx.restore();
+  };
+
   return (
     <TileWrapper
       id={id}
@@ -110,6 +130,8 @@ export function CodeTile({ id, onClose }: CodeTileProps) {
       onClose={onClose}
       initialWidth={600}
       initialHeight={500}
+      {...layout}
+      renderFrame={drawFrame}
     >
       <div className="h-full flex flex-col">
         {/* Language Selector */}
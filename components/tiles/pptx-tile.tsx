@@ -1,21 +1,23 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { TileWrapper } from './tile-wrapper';
+import { TileWrapper, TileLayoutProps } from './tile-wrapper';
 import { Button } from '@/components/ui/button';
 import toast from 'react-hot-toast';
+import { drawCenteredText, drawContained, TileDraw } from '@/lib/streaming/compositor';
 
-interface PPTXTileProps {
+interface PPTXTileProps extends TileLayoutProps {
   id: string;
   onClose?: () => void;
 }
 
-export function PPTXTile({ id, onClose }: PPTXTileProps) {
+export function PPTXTile({ id, onClose, ...layout }: PPTXTileProps) {
   const [fileName, setFileName] = useState<string>('');
   const [currentSlide, setCurrentSlide] = useState(0);
   const [slides, setSlides] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const slideRef = useRef<HTMLImageElement>(null);
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -69,6 +71,19 @@ export function PPTXTile({ id, onClose }: PPTXTileProps) {
     setCurrentSlide((prev) => Math.min(slides.length - 1, prev + 1));
   };
 
+  // Viewers see the current slide across the whole tile
+  const drawFrame: TileDraw = (ctx, width, height) => {
+    const slide = slideRef.current;
+    if (slides.length === 0 || !slide?.complete || !slide.naturalWidth) {
+      drawCenteredText(ctx, 'No presentation loaded', width, height);
+      return;
+    }
+
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+    drawContained(ctx, slide, slide.naturalWidth, slide.naturalHeight, width, height);
+  };
+
   return (
     <TileWrapper
       id={id}
@@ -76,6 +91,8 @@ export function PPTXTile({ id, onClose }: PPTXTileProps) {
       onClose={onClose}
       initialWidth={700}
       initialHeight={550}
+      {...layout}
+      renderFrame={drawFrame}
     >
       <div className="h-full flex flex-col">
         {/* File Upload */}
@@ -107,6 +124,7 @@ export function PPTXTile({ id, onClose }: PPTXTileProps) {
             {/* Slide Display */}
             <div className="flex-1 bg-gray-900 flex items-center justify-center p-4">
               <img
+                ref={slideRef}
                 src={slides[currentSlide]}
                 alt={`Slide ${currentSlide + 1}`}
                 className="max-w-full max-h-full object-contain"
@@ -1,17 +1,18 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { TileWrapper } from './tile-wrapper';
+import { TileWrapper, TileLayoutProps } from './tile-wrapper';
 import { Button } from '@/components/ui/button';
 import toast from 'react-hot-toast';
+import { drawCenteredText, drawContained, TileDraw } from '@/lib/streaming/compositor';
 
-interface ScreenShareTileProps {
+interface ScreenShareTileProps extends TileLayoutProps {
   id: string;
   onClose?: () => void;
   onStreamChange?: (stream: MediaStream | null) => void;
 }
 
-export function ScreenShareTile({ id, onClose, onStreamChange }: ScreenShareTileProps) {
+export function ScreenShareTile({ id, onClose, onStreamChange, ...layout }: ScreenShareTileProps) {
   const [isActive, setIsActive] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -74,6 +75,19 @@ export function ScreenShareTile({ id, onClose, onStreamChange }: ScreenShareTile
     onStreamChange?.(null);
   };
 
+  // In the broadcast the video fills the tile; the controls are only for the host
+  const drawFrame: TileDraw = (ctx, width, height) => {
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+
+    const video = videoRef.current;
+    if (isActive && video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      drawContained(ctx, video, video.videoWidth, video.videoHeight, width, height);
+    } else {
+      drawCenteredText(ctx, 'Screen sharing is off', width, height);
+    }
+  };
+
   return (
     <TileWrapper
       id={id}
@@ -81,6 +95,8 @@ export function ScreenShareTile({ id, onClose, onStreamChange }: ScreenShareTile
       onClose={onClose}
       initialWidth={800}
       initialHeight={500}
+      {...layout}
+      renderFrame={drawFrame}
     >
       <div className="h-full flex flex-col">
         <div className="flex-1 bg-gray-900 flex items-center justify-center">
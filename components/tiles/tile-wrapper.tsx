@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { registerTileSource, TileDraw } from '@/lib/streaming/compositor';
 
 interface TileWrapperProps {
   id: string;
@@ -14,8 +15,30 @@ interface TileWrapperProps {
   onPositionChange?: (x: number, y: number) => void;
   onSizeChange?: (width: number, height: number) => void;
   isResizable?: boolean;
+  zIndex?: number;
+  // Whether the tile is shown in the broadcast; hidden tiles stay on the host's screen, dimmed
+  isVisible?: boolean;
+  onFocus?: () => void;
+  onToggleVisibility?: () => void;
+  // Draws the tile's content into the broadcast
+  renderFrame?: TileDraw;
 }
 
+// The layout a tile takes from the page, passed through to its wrapper
+export type TileLayoutProps = Pick<
+  TileWrapperProps,
+  | 'initialX'
+  | 'initialY'
+  | 'initialWidth'
+  | 'initialHeight'
+  | 'onPositionChange'
+  | 'onSizeChange'
+  | 'zIndex'
+  | 'isVisible'
+  | 'onFocus'
+  | 'onToggleVisibility'
+>;
+
 export function TileWrapper({
   id,
   title,
@@ -28,6 +51,11 @@ export function TileWrapper({
   onPositionChange,
   onSizeChange,
   isResizable = true,
+  zIndex = 0,
+  isVisible = true,
+  onFocus,
+  onToggleVisibility,
+  renderFrame,
 }: TileWrapperProps) {
   const [position, setPosition] = useState({ x: initialX, y: initialY });
   const [size, setSize] = useState({ width: initialWidth, height: initialHeight });
@@ -35,6 +63,16 @@ export function TileWrapper({
   const [isDragging, setIsDragging] = useState(false);
   const tileRef = useRef<HTMLDivElement>(null);
   const dragRef = useRef<{ startX: number; startY: number; startPosX: number; startPosY: number } | null>(null);
+  const renderFrameRef = useRef(renderFrame);
+  renderFrameRef.current = renderFrame;
+
+  // Registered once; the compositor always gets the latest content through the ref
+  useEffect(() => {
+    return registerTileSource(id, {
+      title,
+      draw: (ctx, width, height) => renderFrameRef.current?.(ctx, width, height),
+    });
+  }, [id, title]);
 
   const handleDragStart = useCallback((e: React.MouseEvent) => {
     if (!tileRef.current) return;
@@ -111,9 +149,11 @@ export function TileWrapper({
         height: size.height,
         left: position.x,
         top: position.y,
-        zIndex: isResizing || isDragging ? 1000 : 10,
+        zIndex: isResizing || isDragging ? 1000 : 10 + zIndex,
         cursor: isDragging ? 'grabbing' : 'default',
+        opacity: isVisible ? 1 : 0.5,
       }}
+      onMouseDownCapture={onFocus}
     >
       {/* Header */}
       <div 
@@ -121,17 +161,38 @@ export function TileWrapper({
         onMouseDown={handleDragStart}
       >
         <h3 className="font-semibold text-gray-800">{title}</h3>
-        {onClose && (
-          <button
-            onClick={onClose}
-            className="text-gray-500 hover:text-gray-700 focus:outline-none"
-            onMouseDown={(e) => e.stopPropagation()} // Prevent drag when clicking close
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          {onToggleVisibility && (
+            <button
+              onClick={onToggleVisibility}
+              className="text-gray-500 hover:text-gray-700 focus:outline-none"
+              onMouseDown={(e) => e.stopPropagation()} // Prevent drag when toggling visibility
+              title={isVisible ? 'Hide from viewers' : 'Show to viewers'}
+            >
+              {isVisible ? (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                </svg>
+              ) : (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                </svg>
+              )}
+            </button>
+          )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 focus:outline-none"
+              onMouseDown={(e) => e.stopPropagation()} // Prevent drag when clicking close
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Content */}
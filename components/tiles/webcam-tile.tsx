@@ -1,17 +1,18 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { TileWrapper } from './tile-wrapper';
+import { TileWrapper, TileLayoutProps } from './tile-wrapper';
 import { Button } from '@/components/ui/button';
 import toast from 'react-hot-toast';
+import { drawCenteredText, drawContained, TileDraw } from '@/lib/streaming/compositor';
 
-interface WebcamTileProps {
+interface WebcamTileProps extends TileLayoutProps {
   id: string;
   onClose?: () => void;
   onStreamChange?: (stream: MediaStream | null) => void;
 }
 
-export function WebcamTile({ id, onClose, onStreamChange }: WebcamTileProps) {
+export function WebcamTile({ id, onClose, onStreamChange, ...layout }: WebcamTileProps) {
   const [isActive, setIsActive] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -73,8 +74,21 @@ export function WebcamTile({ id, onClose, onStreamChange }: WebcamTileProps) {
     }
   };
 
+  // In the broadcast the video fills the tile; the controls are only for the host
+  const drawFrame: TileDraw = (ctx, width, height) => {
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+
+    const video = videoRef.current;
+    if (isActive && video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      drawContained(ctx, video, video.videoWidth, video.videoHeight, width, height);
+    } else {
+      drawCenteredText(ctx, 'Webcam is off', width, height);
+    }
+  };
+
   return (
-    <TileWrapper id={id} title="Webcam" onClose={onClose}>
+    <TileWrapper id={id} title="Webcam" onClose={onClose} {...layout} renderFrame={drawFrame}>
       <div className="h-full flex flex-col">
         <div className="flex-1 bg-gray-900 flex items-center justify-center">
           {isActive ? (
@@ -0,0 +1,154 @@
+/**
+ * Verification of Cognito access tokens for the WebSocket Lambda
+ * Mirrors the AccessTokenVerifier in lib/aws/access-token.ts, so a token that lets
+ * someone join as host on one transport does on every other. Set COGNITO_USER_POOL_ID,
+ * and COGNITO_CLIENT_ID to also check the client, to turn it on.
+ */
+
+const crypto = require('crypto');
+
+class TokenVerificationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
+
+// How long fetched keys are trusted before the JWKS is fetched again
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+
+/**
+ * Key set fetched from a JWKS endpoint, e.g. a Cognito user pool's
+ */
+class RemoteKeySet {
+  constructor(jwksUrl) {
+    this.jwksUrl = jwksUrl;
+    this.keys = new Map();
+    this.fetchedAt = 0;
+    this.pending = null;
+  }
+
+  async getKey(kid) {
+    const stale = Date.now() - this.fetchedAt > JWKS_CACHE_MS;
+
+    // Refetch on an unknown kid too, since the pool may have rotated its keys
+    if (stale || !this.keys.has(kid)) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid) || null;
+  }
+
+  refresh() {
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  async fetchKeys() {
+    const response = await fetch(this.jwksUrl);
+    if (!response.ok) {
+      throw new TokenVerificationError(`Could not fetch JWKS: HTTP ${response.status}`);
+    }
+
+    const { keys } = await response.json();
+    this.keys = new Map(keys.map((jwk) => [jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' })]));
+    this.fetchedAt = Date.now();
+  }
+}
+
+class AccessTokenVerifier {
+  /**
+   * @param options { issuer, clientId?, keySet }
+   */
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Check signature, expiry, issuer, client and token use; throws TokenVerificationError
+   */
+  async verify(token) {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new TokenVerificationError('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment(encodedHeader);
+    const claims = decodeSegment(encodedPayload);
+
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+      throw new TokenVerificationError('Unsupported token algorithm');
+    }
+
+    const key = await this.options.keySet.getKey(header.kid);
+    if (!key) {
+      throw new TokenVerificationError('Unknown signing key');
+    }
+
+    const valid = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      key,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!valid) {
+      throw new TokenVerificationError('Invalid token signature');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+      throw new TokenVerificationError('Token expired');
+    }
+    if (claims.iss !== this.options.issuer) {
+      throw new TokenVerificationError('Token issued by another user pool');
+    }
+    if (claims.token_use !== 'access') {
+      throw new TokenVerificationError('Not an access token');
+    }
+    if (this.options.clientId && claims.client_id !== this.options.clientId) {
+      throw new TokenVerificationError('Token issued for another client');
+    }
+
+    return claims;
+  }
+}
+
+function decodeSegment(segment) {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new TokenVerificationError('Malformed token');
+  }
+}
+
+let verifierInstance = null;
+
+/**
+ * Verifier for the configured user pool, or null when Cognito isn't configured
+ */
+function getAccessTokenVerifier() {
+  if (!verifierInstance) {
+    const region = process.env.AWS_REGION;
+    const userPoolId = process.env.COGNITO_USER_POOL_ID;
+    if (!region || !userPoolId) return null;
+
+    const issuer = `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+    verifierInstance = new AccessTokenVerifier({
+      issuer,
+      clientId: process.env.COGNITO_CLIENT_ID,
+      keySet: new RemoteKeySet(`${issuer}/.well-known/jwks.json`),
+    });
+  }
+  return verifierInstance;
+}
+
+module.exports = {
+  AccessTokenVerifier,
+  RemoteKeySet,
+  TokenVerificationError,
+  getAccessTokenVerifier,
+};
@@ -4,14 +4,48 @@
  */
 
 const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
-const { DynamoDBDocumentClient, PutCommand, DeleteCommand, QueryCommand, ScanCommand } = require('@aws-sdk/lib-dynamodb');
+const { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand, DeleteCommand, QueryCommand, ScanCommand } = require('@aws-sdk/lib-dynamodb');
 const { ApiGatewayManagementApiClient, PostToConnectionCommand } = require('@aws-sdk/client-apigatewaymanagementapi');
+const {
+  createAckMessage,
+  createErrorMessage,
+  createPongMessage,
+  decodeClientMessage,
+  negotiateProtocol,
+  unpackBatch,
+} = require('./protocol');
+const { authorizeMessage, identifyParticipant, roleOf } = require('./permissions');
+const { RpcRegistry } = require('./rpc');
+const { createLogger } = require('./logger');
+const { StatePatchError, applyStatePatch, foldStateHistory } = require('./state-delta');
+
+const log = createLogger('websocket-lambda');
 
 const ddbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
-const docClient = DynamoDBDocumentClient.from(ddbClient);
+// Replaced by the local emulator's in-memory tables (see useDocumentClient)
+let docClient = DynamoDBDocumentClient.from(ddbClient);
 
 const CONNECTIONS_TABLE = process.env.CONNECTIONS_TABLE || 'WebSocketConnections';
 const MESSAGES_TABLE = process.env.MESSAGES_TABLE || 'SessionMessages';
+// The app's session records, which hold the roles granted in each session
+const SESSIONS_TABLE = process.env.SESSIONS_TABLE || 'StreamSessions';
+
+// Methods clients can call with `rpc-request`
+const rpc = new RpcRegistry()
+  .register('session.participants', async (_, { sessionId }) => ({
+    participants: await getParticipants(sessionId),
+  }))
+  .register('session.snapshot', async (_, { sessionId }) => {
+    const latest = await getLatestState(sessionId);
+    return { state: latest ? latest.state : null, version: latest ? latest.version : null };
+  });
+
+/**
+ * Use another DynamoDB document client, e.g. the local emulator's in-memory tables
+ */
+exports.useDocumentClient = (client) => {
+  docClient = client;
+};
 
 /**
  * Main handler function
@@ -21,11 +55,7 @@ exports.handler = async (event) => {
   const connectionId = event.requestContext?.connectionId || event.connectionId;
   const { domainName, stage } = event.requestContext || {};
 
-  console.log('WebSocket Event:', {
-    routeKey,
-    connectionId,
-    body: event.body
-  });
+  log.debug('WebSocket event', { routeKey, connectionId, body: event.body });
 
   try {
     switch (routeKey) {
@@ -33,17 +63,17 @@ exports.handler = async (event) => {
         return await handleConnect(connectionId, event);
 
       case '$disconnect':
-        return await handleDisconnect(connectionId);
+        return await handleDisconnect(connectionId, domainName, stage);
 
       case '$default':
         return await handleMessage(event, domainName, stage, connectionId);
 
       default:
-        console.log('Unknown route:', routeKey);
+        log.warn('Unknown route', { routeKey });
         return { statusCode: 400 };
     }
   } catch (error) {
-    console.error('Handler Error:', error);
+    log.error('Handler error', { routeKey, connectionId, error });
     return { statusCode: 500 };
   }
 };
@@ -52,7 +82,7 @@ exports.handler = async (event) => {
  * Handle new WebSocket connection
  */
 async function handleConnect(connectionId, event) {
-  console.log('🔗 New connection:', connectionId);
+  log.info('Connection opened', { connectionId });
   
   const queryParams = event.queryStringParameters || {};
   const sessionId = queryParams.sessionId;
@@ -73,10 +103,10 @@ async function handleConnect(connectionId, event) {
       Item: item,
     }));
 
-    console.log('✅ Connection saved:', connectionId);
+    log.debug('Connection saved', { connectionId });
     return { statusCode: 200 };
   } catch (error) {
-    console.error('❌ Error saving connection:', error);
+    log.error('Error saving connection', { connectionId, error });
     return { statusCode: 500 };
   }
 }
@@ -84,8 +114,8 @@ async function handleConnect(connectionId, event) {
 /**
  * Handle WebSocket disconnection
  */
-async function handleDisconnect(connectionId) {
-  console.log('❌ Disconnecting:', connectionId);
+async function handleDisconnect(connectionId, domainName, stage) {
+  log.info('Connection closed', { connectionId });
 
   try {
     // Get connection info before deleting
@@ -102,13 +132,13 @@ async function handleDisconnect(connectionId) {
         type: 'user-left',
         userId: connection.userId,
         timestamp: Date.now()
-      }, connectionId, null, null);
+      }, connectionId, domainName, stage);
     }
 
-    console.log('✅ Connection removed:', connectionId);
+    log.debug('Connection removed', { connectionId });
     return { statusCode: 200 };
   } catch (error) {
-    console.error('❌ Error during disconnect:', error);
+    log.error('Error during disconnect', { connectionId, error });
     return { statusCode: 200 }; // Still return success
   }
 }
@@ -118,63 +148,156 @@ async function handleDisconnect(connectionId) {
  */
 async function handleMessage(event, domainName, stage, connectionId) {
   const body = event.body || '{}';
-  let data;
-  
-  try {
-    data = JSON.parse(body);
-  } catch (error) {
-    console.error('❌ Invalid JSON:', body);
+  const result = decodeClientMessage(body);
+
+  if (!result.ok) {
+    log.warn('Rejected message', { connectionId, reason: result.error.message });
+    await sendToConnection(connectionId, result.error, domainName, stage);
     return { statusCode: 400 };
   }
 
+  const data = result.message;
   const { type } = data;
-  console.log(`📨 Message type: ${type} from ${connectionId}`);
+  log.debug('Message received', { connectionId, type });
 
   try {
-    switch (type) {
-      case 'join-session':
-        return await handleJoinSession(data, connectionId);
-
-      case 'leave-session':
-        return await handleLeaveSession(data, connectionId, domainName, stage);
-
-      case 'drawing-event':
-        return await handleDrawingEvent(data, connectionId, domainName, stage);
-
-      case 'cursor-move':
-        return await handleCursorMove(data, connectionId, domainName, stage);
+    // Answered before any lookups, so the round trip measures the connection
+    if (type === 'ping') {
+      await sendToConnection(connectionId, createPongMessage(data.pingId), domainName, stage);
+      return { statusCode: 200 };
+    }
 
-      case 'chat-message':
-        return await handleChatMessage(data, connectionId, domainName, stage);
+    // This handler only reads JSON text frames, so binary is never on offer
+    if (type === 'hello') {
+      const reply = negotiateProtocol(data, ['batching', 'acks']);
+      if (reply.type === 'error') {
+        log.warn('Client protocol is outdated', { connectionId, protocolVersion: data.protocolVersion });
+      }
+      await sendToConnection(connectionId, reply, domainName, stage);
+      return { statusCode: reply.type === 'welcome' ? 200 : 426 };
+    }
 
-      case 'state-update':
-        return await handleStateUpdate(data, connectionId, domainName, stage);
+    if (type !== 'join-session' && type !== 'leave-session') {
+      const denied = await authorizeConnection(data, connectionId);
+      if (denied) {
+        log.warn('Denied message', { connectionId, type, reason: denied.message });
+        await sendToConnection(connectionId, {
+          ...denied,
+          ...(data.messageId ? { messageId: data.messageId } : {}),
+        }, domainName, stage);
+        return { statusCode: 403 };
+      }
+    }
 
-      case 'webrtc-signal':
-        return await handleWebRTCSignal(data, connectionId, domainName, stage);
+    const response = await dispatchMessage(data, connectionId, domainName, stage);
 
-      default:
-        console.log('❓ Unknown message type:', type);
-        return { statusCode: 400 };
+    if (data.messageId && response?.statusCode === 200) {
+      await sendToConnection(connectionId, createAckMessage(data.messageId), domainName, stage);
     }
+    return response;
   } catch (error) {
-    console.error(`❌ Error handling ${type}:`, error);
+    log.error('Error handling message', { connectionId, type, error });
     return { statusCode: 500 };
   }
 }
 
 /**
- * Handle joining a session
+ * Route a validated, authorized message to its handler
  */
-async function handleJoinSession(data, connectionId) {
-  const { sessionId, userId, isHost } = data;
-  
-  console.log(`👤 ${userId} joining session ${sessionId} as ${isHost ? 'host' : 'viewer'}`);
+async function dispatchMessage(data, connectionId, domainName, stage) {
+  switch (data.type) {
+    case 'join-session':
+      return await handleJoinSession(data, connectionId, domainName, stage);
+
+    case 'leave-session':
+      return await handleLeaveSession(data, connectionId, domainName, stage);
+
+    case 'drawing-event':
+      return await handleDrawingEvent(data, connectionId, domainName, stage);
+
+    case 'cursor-move':
+      return await handleCursorMove(data, connectionId, domainName, stage);
+
+    case 'chat-message':
+      return await handleChatMessage(data, connectionId, domainName, stage);
+
+    case 'state-update':
+      return await handleStateUpdate(data, connectionId, domainName, stage);
+
+    case 'state-patch':
+      return await handleStatePatch(data, connectionId, domainName, stage);
+
+    case 'webrtc-signal':
+      return await handleWebRTCSignal(data, connectionId, domainName, stage);
+
+    case 'reaction':
+      return await handleReaction(data, connectionId, domainName, stage);
+
+    case 'set-role':
+      return await handleSetRole(data, connectionId, domainName, stage);
+
+    case 'rpc-request':
+      return await handleRpcRequest(data, connectionId, domainName, stage);
+
+    case 'batch':
+      return await handleBatch(data, connectionId, domainName, stage);
+  }
+}
+
+/**
+ * Check a message against the sender's role in the session it targets
+ * Returns the error frame to send back when denied, or null
+ */
+async function authorizeConnection(data, connectionId) {
+  const connection = await getConnection(connectionId);
+  if (!connection || !connection.sessionId || (data.sessionId && data.sessionId !== connection.sessionId)) {
+    return createErrorMessage('unauthorized', 'Join the session before sending to it', data.type);
+  }
+
+  const role = connection.role || (connection.isHost ? 'host' : 'viewer');
+
+  // Only role changes need to know who the host is
+  let hostId = null;
+  if (data.type === 'set-role') {
+    hostId = (await getSessionRecord(connection.sessionId))?.hostId || null;
+  }
+
+  return authorizeMessage(role, data, hostId);
+}
+
+/**
+ * Handle joining a session. Only the host's access token makes them host, and
+ * only verified users get the roles granted to them; anyone else is a viewer.
+ */
+async function handleJoinSession(data, connectionId, domainName, stage) {
+  const { sessionId } = data;
 
   if (!sessionId) {
     return { statusCode: 400 };
   }
 
+  // Grants are kept on the session record, so they outlive the user's connections
+  const session = await getSessionRecord(sessionId);
+  const identity = await identifyParticipant({
+    accessToken: data.accessToken,
+    claimedUserId: data.userId,
+    hostId: session?.hostId || null,
+  });
+
+  if (!identity.ok) {
+    log.warn('Rejected join', { connectionId, reason: identity.reason });
+    await sendToConnection(connectionId, {
+      ...createErrorMessage('unauthorized', identity.reason, data.type),
+      ...(data.messageId ? { messageId: data.messageId } : {}),
+    }, domainName, stage);
+    return { statusCode: 401 };
+  }
+
+  const { userId, isHost, verified } = identity;
+  const role = roleOf(session?.roles || {}, identity);
+
+  log.info('Joining session', { connectionId, sessionId, userId, role });
+
   try {
     // Update connection with session info
     await docClient.send(new PutCommand({
@@ -183,7 +306,9 @@ async function handleJoinSession(data, connectionId) {
         connectionId,
         sessionId,
         userId: userId || null,
-        isHost: isHost || false,
+        isHost,
+        verified,
+        role,
         connectedAt: Date.now(),
         status: 'connected'
       },
@@ -197,10 +322,19 @@ async function handleJoinSession(data, connectionId) {
       timestamp: Date.now()
     });
 
-    console.log(`✅ ${userId} joined session ${sessionId}`);
+    // Confirm the join; a client moving over from another transport lets that one go on this
+    await sendToConnection(connectionId, {
+      type: 'session-joined',
+      sessionId,
+      userId,
+      isHost,
+      timestamp: Date.now()
+    }, domainName, stage);
+
+    log.debug('Joined session', { sessionId, userId });
     return { statusCode: 200 };
   } catch (error) {
-    console.error('❌ Error joining session:', error);
+    log.error('Error joining session', { sessionId, userId, error });
     return { statusCode: 500 };
   }
 }
@@ -211,7 +345,7 @@ async function handleJoinSession(data, connectionId) {
 async function handleLeaveSession(data, connectionId, domainName, stage) {
   const { sessionId, userId } = data;
   
-  console.log(`👋 ${userId} leaving session ${sessionId}`);
+  log.info('Leaving session', { sessionId, userId });
 
   try {
     // Update connection to remove session info
@@ -231,10 +365,10 @@ async function handleLeaveSession(data, connectionId, domainName, stage) {
       timestamp: Date.now()
     }, connectionId, domainName, stage);
 
-    console.log(`✅ ${userId} left session ${sessionId}`);
+    log.debug('Left session', { sessionId, userId });
     return { statusCode: 200 };
   } catch (error) {
-    console.error('❌ Error leaving session:', error);
+    log.error('Error leaving session', { sessionId, userId, error });
     return { statusCode: 500 };
   }
 }
@@ -245,7 +379,7 @@ async function handleLeaveSession(data, connectionId, domainName, stage) {
 async function handleDrawingEvent(data, connectionId, domainName, stage) {
   const { sessionId, event, userId } = data;
   
-  console.log(`🎨 Drawing event ${event?.type} from ${userId} in session ${sessionId}`);
+  log.debug('Drawing event', { sessionId, userId, eventType: event?.type });
 
   // Store drawing event
   await storeMessage(sessionId, data);
@@ -278,9 +412,9 @@ async function handleCursorMove(data, connectionId, domainName, stage) {
  * Handle chat messages
  */
 async function handleChatMessage(data, connectionId, domainName, stage) {
-  const { sessionId, message, userId, userName } = data;
+  const { sessionId, message, userId, userName, messageId } = data;
   
-  console.log(`💬 Chat from ${userName} (${userId}) in session ${sessionId}`);
+  log.debug('Chat message', { sessionId, userId });
 
   const chatData = {
     type: 'chat-message',
@@ -288,6 +422,7 @@ async function handleChatMessage(data, connectionId, domainName, stage) {
     message,
     userId,
     userName,
+    messageId,
     timestamp: Date.now()
   };
 
@@ -304,23 +439,71 @@ async function handleChatMessage(data, connectionId, domainName, stage) {
  * Handle state updates
  */
 async function handleStateUpdate(data, connectionId, domainName, stage) {
-  const { sessionId, state } = data;
+  const { sessionId, state, version } = data;
   
-  console.log(`📊 State update for session ${sessionId}`);
+  log.debug('State update', { sessionId, version });
 
-  // Store state update
-  await storeMessage(sessionId, {
+  const message = {
     type: 'session-state-updated',
     state,
+    ...(version !== undefined ? { version } : {}),
     timestamp: Date.now()
-  });
+  };
+
+  // Store state update
+  await storeMessage(sessionId, message);
 
   // Broadcast to session participants
-  await broadcastToSession(sessionId, {
-    type: 'session-state-updated',
-    state,
+  await broadcastToSession(sessionId, message, connectionId, domainName, stage);
+
+  return { statusCode: 200 };
+}
+
+/**
+ * Handle state patches, which only apply to the version they were made against
+ */
+async function handleStatePatch(data, connectionId, domainName, stage) {
+  const { sessionId, baseVersion, version, patch } = data;
+
+  log.debug('State patch', { sessionId, baseVersion, version });
+
+  const latest = await getLatestState(sessionId);
+  if (latest && latest.version === version) {
+    // Already stored; acknowledge without broadcasting it again
+    return { statusCode: 200 };
+  }
+
+  let rejection = null;
+  if (!latest || latest.version !== baseVersion) {
+    rejection = `State is at version ${latest ? latest.version : 'none'}, not ${baseVersion}`;
+  } else {
+    try {
+      applyStatePatch(latest.state, patch);
+    } catch (error) {
+      if (!(error instanceof StatePatchError)) throw error;
+      rejection = error.message;
+    }
+  }
+
+  if (rejection) {
+    // The host answers by sending its state in full
+    await sendToConnection(connectionId, {
+      ...createErrorMessage('version-mismatch', rejection, data.type),
+      ...(data.messageId ? { messageId: data.messageId } : {}),
+    }, domainName, stage);
+    return { statusCode: 409 };
+  }
+
+  const message = {
+    type: 'session-state-patched',
+    baseVersion,
+    version,
+    patch,
     timestamp: Date.now()
-  }, connectionId, domainName, stage);
+  };
+
+  await storeMessage(sessionId, message);
+  await broadcastToSession(sessionId, message, connectionId, domainName, stage);
 
   return { statusCode: 200 };
 }
@@ -331,7 +514,7 @@ async function handleStateUpdate(data, connectionId, domainName, stage) {
 async function handleWebRTCSignal(data, connectionId, domainName, stage) {
   const { sessionId, signal, signalType, to } = data;
   
-  console.log(`📡 WebRTC signal ${signalType} in session ${sessionId}`);
+  log.debug('WebRTC signal', { sessionId, signalType });
 
   const signalData = {
     type: 'webrtc-signal',
@@ -352,25 +535,131 @@ async function handleWebRTCSignal(data, connectionId, domainName, stage) {
   return { statusCode: 200 };
 }
 
+/**
+ * Handle reactions
+ */
+async function handleReaction(data, connectionId, domainName, stage) {
+  const { sessionId, reaction, x, y, userId } = data;
+
+  await broadcastToSession(sessionId, {
+    type: 'reaction',
+    id: `reaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    reaction,
+    x,
+    y,
+    userId,
+    timestamp: Date.now()
+  }, connectionId, domainName, stage);
+
+  return { statusCode: 200 };
+}
+
+/**
+ * Handle a role change from the host or a co-host
+ */
+async function handleSetRole(data, connectionId, domainName, stage) {
+  const { sessionId, targetUserId, role } = data;
+
+  log.info('Role changed', { sessionId, targetUserId, role });
+
+  await setSessionRole(sessionId, targetUserId, role);
+
+  // Every connection the user has verified in the session takes the new role
+  const connections = await getSessionConnections(sessionId);
+  await Promise.all(connections
+    .filter((conn) => conn.userId === targetUserId && conn.verified && !conn.isHost)
+    .map((conn) => docClient.send(new PutCommand({
+      TableName: CONNECTIONS_TABLE,
+      Item: { ...conn, role },
+    }))));
+
+  const roleChanged = {
+    type: 'role-changed',
+    sessionId,
+    userId: targetUserId,
+    role,
+    by: await getUserIdByConnection(connectionId),
+    timestamp: Date.now()
+  };
+
+  await storeMessage(sessionId, roleChanged);
+
+  // The sender sees the change confirmed too
+  await broadcastToSession(sessionId, roleChanged, null, domainName, stage);
+
+  return { statusCode: 200 };
+}
+
+/**
+ * Answer a request with the result of the method it calls
+ */
+async function handleRpcRequest(data, connectionId, domainName, stage) {
+  log.debug('RPC request', { connectionId, method: data.method });
+
+  const connection = await getConnection(connectionId);
+  const response = await rpc.handle(data, {
+    sessionId: data.sessionId,
+    connectionId,
+    userId: connection?.userId || undefined,
+  });
+
+  await sendToConnection(connectionId, response, domainName, stage);
+  return { statusCode: 200 };
+}
+
+/**
+ * Handle a batch of drawing events and cursor moves, in the order they were sent
+ */
+async function handleBatch(data, connectionId, domainName, stage) {
+  const messages = unpackBatch(data);
+
+  log.debug('Batch', { sessionId: data.sessionId, count: messages.length });
+
+  for (const message of messages) {
+    if (message.type === 'drawing-event') {
+      await handleDrawingEvent(message, connectionId, domainName, stage);
+    } else {
+      await handleCursorMove(message, connectionId, domainName, stage);
+    }
+  }
+
+  return { statusCode: 200 };
+}
+
+/**
+ * Client for posting to connections through the API that received the event.
+ * API_GATEWAY_MANAGEMENT_ENDPOINT points it elsewhere, e.g. at the local emulator.
+ */
+function createManagementClient(domainName, stage) {
+  return new ApiGatewayManagementApiClient({
+    endpoint: process.env.API_GATEWAY_MANAGEMENT_ENDPOINT || `https://${domainName}/${stage}`,
+  });
+}
+
+/**
+ * Whether posting failed because the connection no longer exists
+ */
+function isGoneError(error) {
+  return error.name === 'GoneException' || error.$metadata?.httpStatusCode === 410;
+}
+
 /**
  * Broadcast message to all connections in a session
  */
 async function broadcastToSession(sessionId, message, excludeConnectionId, domainName, stage) {
   if (!domainName || !stage) {
-    console.warn('⚠️ Missing domainName or stage for broadcast');
+    log.warn('Missing domainName or stage for broadcast');
     return;
   }
 
   const connections = await getSessionConnections(sessionId);
   
   if (connections.length === 0) {
-    console.log(`📊 No connections found for session ${sessionId}`);
+    log.debug('No connections in session', { sessionId });
     return;
   }
 
-  const apiGw = new ApiGatewayManagementApiClient({
-    endpoint: `https://${domainName}/${stage}`,
-  });
+  const apiGw = createManagementClient(domainName, stage);
 
   const messageStr = JSON.stringify(message);
   let sentCount = 0;
@@ -384,11 +673,10 @@ async function broadcastToSession(sessionId, message, excludeConnectionId, domai
           Data: messageStr,
         }));
         sentCount++;
-        console.log(`📤 Sent ${message.type} to ${conn.userId || conn.connectionId}`);
       } catch (error) {
-        console.error(`❌ Error sending to ${conn.connectionId}:`, error);
+        log.error('Error sending', { connectionId: conn.connectionId, error });
         // Remove stale connections
-        if (error.statusCode === 410) {
+        if (isGoneError(error)) {
           await docClient.send(new DeleteCommand({
             TableName: CONNECTIONS_TABLE,
             Key: { connectionId: conn.connectionId },
@@ -398,7 +686,28 @@ async function broadcastToSession(sessionId, message, excludeConnectionId, domai
     });
 
   await Promise.all(sendPromises);
-  console.log(`📊 Broadcast complete: sent to ${sentCount}/${connections.length} connections`);
+  log.debug('Broadcast', { sessionId, type: message.type, delivered: sentCount, connections: connections.length });
+}
+
+/**
+ * Send message to a single connection
+ */
+async function sendToConnection(connectionId, message, domainName, stage) {
+  if (!domainName || !stage) {
+    log.warn('Missing domainName or stage for send');
+    return;
+  }
+
+  const apiGw = createManagementClient(domainName, stage);
+
+  try {
+    await apiGw.send(new PostToConnectionCommand({
+      ConnectionId: connectionId,
+      Data: JSON.stringify(message),
+    }));
+  } catch (error) {
+    log.error('Error sending', { connectionId, error });
+  }
 }
 
 /**
@@ -409,23 +718,21 @@ async function sendToUser(sessionId, userId, message, domainName, stage) {
   const userConnection = connections.find(conn => conn.userId === userId);
 
   if (!userConnection) {
-    console.log(`❓ User ${userId} not found in session ${sessionId}`);
+    log.debug('User not found in session', { sessionId, userId });
     return;
   }
 
-  const apiGw = new ApiGatewayManagementApiClient({
-    endpoint: `https://${domainName}/${stage}`,
-  });
+  const apiGw = createManagementClient(domainName, stage);
 
   try {
     await apiGw.send(new PostToConnectionCommand({
       ConnectionId: userConnection.connectionId,
       Data: JSON.stringify(message),
     }));
-    console.log(`📤 Sent ${message.type} to user ${userId}`);
+    log.debug('Sent to user', { sessionId, userId, type: message.type });
   } catch (error) {
-    console.error(`❌ Error sending to user ${userId}:`, error);
-    if (error.statusCode === 410) {
+    log.error('Error sending to user', { sessionId, userId, error });
+    if (isGoneError(error)) {
       await docClient.send(new DeleteCommand({
         TableName: CONNECTIONS_TABLE,
         Key: { connectionId: userConnection.connectionId },
@@ -450,7 +757,7 @@ async function storeMessage(sessionId, message) {
       },
     }));
   } catch (error) {
-    console.error('❌ Error storing message:', error);
+    log.error('Error storing message', { error });
     // Don't fail the request if message storage fails
   }
 }
@@ -471,11 +778,106 @@ async function getSessionConnections(sessionId) {
 
     return result.Items || [];
   } catch (error) {
-    console.error('❌ Error getting session connections:', error);
+    log.error('Error getting session connections', { error });
     return [];
   }
 }
 
+/**
+ * Everyone connected to a session, one entry per user however many connections they have
+ */
+async function getParticipants(sessionId) {
+  const participants = new Map();
+
+  for (const conn of await getSessionConnections(sessionId)) {
+    const id = conn.userId || conn.connectionId;
+    const existing = participants.get(id);
+    const role = conn.role || (conn.isHost ? 'host' : 'viewer');
+
+    participants.set(id, {
+      id,
+      role: existing?.role === 'host' ? 'host' : role,
+      joinedAt: existing ? Math.min(existing.joinedAt, conn.connectedAt) : conn.connectedAt,
+      // Connections don't record activity here, so this is when they joined
+      lastActiveAt: existing ? Math.max(existing.lastActiveAt, conn.connectedAt) : conn.connectedAt,
+      anonymous: !conn.userId,
+    });
+  }
+
+  return Array.from(participants.values());
+}
+
+/**
+ * The most recent state a host published to the session and its version, folded
+ * from the last full update and the patches stored after it
+ */
+async function getLatestState(sessionId) {
+  const result = await docClient.send(new QueryCommand({
+    TableName: MESSAGES_TABLE,
+    KeyConditionExpression: 'sessionId = :sessionId',
+    ExpressionAttributeValues: {
+      ':sessionId': sessionId,
+    },
+    // Newest first; message ids start with their timestamp
+    ScanIndexForward: false,
+  }));
+
+  const items = result.Items || [];
+  const lastFull = items.findIndex((item) => item.message?.type === 'session-state-updated');
+  if (lastFull === -1) return null;
+
+  return foldStateHistory(items.slice(0, lastFull + 1).reverse().map((item) => item.message));
+}
+
+/**
+ * The app's record of a session: who hosts it and the roles granted in it
+ */
+async function getSessionRecord(sessionId) {
+  try {
+    const result = await docClient.send(new GetCommand({
+      TableName: SESSIONS_TABLE,
+      Key: { sessionId },
+    }));
+
+    return result.Item || null;
+  } catch (error) {
+    log.error('Error getting session', { sessionId, error });
+    return null;
+  }
+}
+
+/**
+ * Record a role granted in a session on its session record; granting 'viewer' removes the grant
+ */
+async function setSessionRole(sessionId, userId, role) {
+  const names = { '#roles': 'roles', '#userId': userId };
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: SESSIONS_TABLE,
+      Key: { sessionId },
+      ...(role === 'viewer'
+        ? { UpdateExpression: 'REMOVE #roles.#userId' }
+        : { UpdateExpression: 'SET #roles.#userId = :role', ExpressionAttributeValues: { ':role': role } }),
+      ConditionExpression: 'attribute_exists(#roles)',
+      ExpressionAttributeNames: names,
+    }));
+  } catch (error) {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+
+    // Sessions created before roles were stored have no map to add the grant to
+    if (role === 'viewer') return;
+    await docClient.send(new UpdateCommand({
+      TableName: SESSIONS_TABLE,
+      Key: { sessionId },
+      UpdateExpression: 'SET #roles = :roles',
+      ConditionExpression: 'attribute_exists(sessionId) AND attribute_not_exists(#roles)',
+      ExpressionAttributeNames: { '#roles': 'roles' },
+      ExpressionAttributeValues: { ':roles': { [userId]: role } },
+    }));
+  }
+}
+
 /**
  * Get connection by connectionId
  */
@@ -491,7 +893,7 @@ async function getConnection(connectionId) {
 
     return result.Items?.[0] || null;
   } catch (error) {
-    console.error('❌ Error getting connection:', error);
+    log.error('Error getting connection', { error });
     return null;
   }
 }
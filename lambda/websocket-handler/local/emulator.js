@@ -0,0 +1,283 @@
+#!/usr/bin/env node
+/**
+ * Local emulator for the API Gateway WebSocket API in front of this handler
+ *
+ * Hosts the handler behind a real WebSocket port: connections, messages and closes
+ * invoke it with $connect, $default and $disconnect events shaped like API Gateway's,
+ * the @connections management API (postToConnection and friends) is served over HTTP
+ * on the same port, and the DynamoDB tables live in memory.
+ *
+ *   npm install            # in lambda/websocket-handler, for the AWS SDK clients and ws
+ *   npm run emulate        # ws://localhost:3001/local
+ *
+ * `ws` is a dev dependency: this directory is for local use only, so leave it and
+ * the dev dependencies out of the deployment package (`npm install --omit=dev`).
+ *
+ * Point the app at it with NEXT_PUBLIC_API_GATEWAY_WS_URL=ws://localhost:3001/local.
+ * PORT and STAGE change where it listens; LOG_LEVEL=debug logs every invocation.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { WebSocketServer } = require('ws');
+const { MemoryDocumentClient } = require('./memory-tables');
+const { createLogger } = require('../logger');
+
+const log = createLogger('lambda-emulator');
+
+// API Gateway closes connections that send larger messages (1009)
+const MAX_MESSAGE_BYTES = 128 * 1024;
+
+/**
+ * Apply the function's configured environment (env.json) without overriding what is already set
+ */
+function loadFunctionEnvironment() {
+  const file = path.join(__dirname, '..', 'env.json');
+  if (!fs.existsSync(file)) return;
+
+  const { Variables = {} } = JSON.parse(fs.readFileSync(file, 'utf8'));
+  Object.entries(Variables).forEach(([name, value]) => {
+    if (process.env[name] === undefined) process.env[name] = value;
+  });
+}
+
+// API Gateway connection ids are 12 random bytes, base64 encoded
+function generateConnectionId() {
+  return crypto.randomBytes(12).toString('base64');
+}
+
+function isSuccess(response) {
+  const statusCode = response && response.statusCode;
+  return statusCode === undefined || (statusCode >= 200 && statusCode < 300);
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on('data', (chunk) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Start the emulator. Resolves once it is listening, with its URL, the in-memory
+ * tables and a function that shuts it down.
+ */
+async function startEmulator({ port = Number(process.env.PORT) || 3001, stage = process.env.STAGE || 'local' } = {}) {
+  loadFunctionEnvironment();
+
+  const host = `localhost:${port}`;
+  // The handler posts back through the management API; the SDK signs requests, so it needs some credentials
+  process.env.API_GATEWAY_MANAGEMENT_ENDPOINT = `http://${host}/${stage}`;
+  process.env.AWS_REGION = process.env.AWS_REGION || 'us-east-1';
+  process.env.AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID || 'local';
+  process.env.AWS_SECRET_ACCESS_KEY = process.env.AWS_SECRET_ACCESS_KEY || 'local';
+
+  // Loaded after the environment is in place, since it reads table names on load
+  const lambda = require('..');
+  const tables = new MemoryDocumentClient({
+    [process.env.CONNECTIONS_TABLE || 'WebSocketConnections']: {
+      key: ['connectionId'],
+      indexes: { SessionIdIndex: ['sessionId'] },
+    },
+    [process.env.MESSAGES_TABLE || 'SessionMessages']: { key: ['sessionId', 'messageId'] },
+    [process.env.SESSIONS_TABLE || 'StreamSessions']: { key: ['sessionId'] },
+  });
+  lambda.useDocumentClient(tables);
+
+  // connectionId -> { socket, connectedAt, lastActiveAt, sourceIp, userAgent }
+  const connections = new Map();
+
+  function requestContext(connectionId, routeKey, eventType, extra = {}) {
+    return {
+      routeKey,
+      eventType,
+      connectionId,
+      domainName: host,
+      stage,
+      apiId: 'local',
+      requestId: crypto.randomUUID(),
+      requestTimeEpoch: Date.now(),
+      ...extra,
+    };
+  }
+
+  async function invoke(event) {
+    const started = Date.now();
+    const { routeKey, connectionId } = event.requestContext;
+
+    try {
+      // Events and responses cross a process boundary in Lambda, so nothing is shared by reference
+      const response = await lambda.handler(JSON.parse(JSON.stringify(event)));
+      log.debug('Invoked handler', { routeKey, connectionId, statusCode: response && response.statusCode, durationMs: Date.now() - started });
+      return response === undefined ? undefined : JSON.parse(JSON.stringify(response));
+    } catch (error) {
+      log.error('Handler failed', { routeKey, connectionId, error });
+      throw error;
+    }
+  }
+
+  const server = http.createServer((request, response) => {
+    handleManagementRequest(request, response).catch((error) => {
+      log.error('Management API error', { url: request.url, error });
+      response.writeHead(500).end();
+    });
+  });
+
+  const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: MAX_MESSAGE_BYTES,
+    // API Gateway only agrees to a subprotocol the $connect response names
+    handleProtocols: (protocols, request) => request.selectedProtocol || false,
+  });
+
+  server.on('upgrade', (request, socket, head) => {
+    const url = new URL(request.url || '/', `http://${host}`);
+    const connectionId = generateConnectionId();
+    const query = Object.fromEntries(url.searchParams);
+
+    invoke({
+      requestContext: requestContext(connectionId, '$connect', 'CONNECT', { connectedAt: Date.now() }),
+      headers: request.headers,
+      ...(Object.keys(query).length > 0 ? { queryStringParameters: query } : {}),
+      isBase64Encoded: false,
+    }).then((response) => {
+      if (!isSuccess(response)) {
+        const statusCode = response.statusCode;
+        socket.end(`HTTP/1.1 ${statusCode} ${http.STATUS_CODES[statusCode] || ''}\r\nConnection: close\r\n\r\n`);
+        return;
+      }
+
+      const headers = (response && response.headers) || {};
+      request.selectedProtocol = headers['Sec-WebSocket-Protocol'] || headers['sec-websocket-protocol'];
+      wss.handleUpgrade(request, socket, head, (ws) => acceptConnection(connectionId, ws, request));
+    }).catch(() => {
+      socket.end('HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n');
+    });
+  });
+
+  function acceptConnection(connectionId, socket, request) {
+    const now = Date.now();
+    connections.set(connectionId, {
+      socket,
+      connectedAt: now,
+      lastActiveAt: now,
+      sourceIp: request.socket.remoteAddress,
+      userAgent: request.headers['user-agent'],
+    });
+    log.info('Connection opened', { connectionId });
+
+    socket.on('message', (data, isBinary) => {
+      const connection = connections.get(connectionId);
+      if (connection) connection.lastActiveAt = Date.now();
+
+      // Like API Gateway, messages are not serialized: each is its own invocation
+      const messageId = crypto.randomUUID();
+      invoke({
+        requestContext: requestContext(connectionId, '$default', 'MESSAGE', { messageId }),
+        body: isBinary ? Buffer.from(data).toString('base64') : data.toString(),
+        isBase64Encoded: isBinary,
+      }).catch(() => {
+        // What API Gateway tells the client when the integration fails
+        if (socket.readyState === socket.OPEN) {
+          socket.send(JSON.stringify({ message: 'Internal server error', connectionId, requestId: messageId }));
+        }
+      });
+    });
+
+    socket.on('close', (code, reason) => {
+      connections.delete(connectionId);
+      log.info('Connection closed', { connectionId, code });
+
+      invoke({
+        requestContext: requestContext(connectionId, '$disconnect', 'DISCONNECT', {
+          disconnectStatusCode: code,
+          disconnectReason: reason.toString(),
+        }),
+        isBase64Encoded: false,
+      }).catch(() => {});
+    });
+
+    socket.on('error', (error) => {
+      log.warn('Socket error', { connectionId, error });
+    });
+  }
+
+  /**
+   * The @connections management API: POST sends to a connection, GET describes it, DELETE closes it
+   */
+  async function handleManagementRequest(request, response) {
+    const match = (request.url || '').match(/^(?:\/[^/?]+)?\/@connections\/([^/?]+)$/);
+    if (!match) {
+      response.writeHead(404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ message: 'Not Found' }));
+      return;
+    }
+
+    const connectionId = decodeURIComponent(match[1]);
+    const connection = connections.get(connectionId);
+    if (!connection || connection.socket.readyState !== connection.socket.OPEN) {
+      response.writeHead(410, { 'Content-Type': 'application/json', 'x-amzn-ErrorType': 'GoneException' });
+      response.end(JSON.stringify({ message: `Connection ${connectionId} is gone` }));
+      return;
+    }
+
+    switch (request.method) {
+      case 'POST': {
+        const body = await readBody(request);
+        if (body.length > MAX_MESSAGE_BYTES) {
+          response.writeHead(413, { 'Content-Type': 'application/json', 'x-amzn-ErrorType': 'PayloadTooLargeException' });
+          response.end(JSON.stringify({ message: `Message is larger than ${MAX_MESSAGE_BYTES} bytes` }));
+          return;
+        }
+        connection.socket.send(body.toString());
+        response.writeHead(200).end();
+        return;
+      }
+      case 'GET':
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({
+          ConnectedAt: new Date(connection.connectedAt).toISOString(),
+          LastActiveAt: new Date(connection.lastActiveAt).toISOString(),
+          Identity: { SourceIp: connection.sourceIp, UserAgent: connection.userAgent },
+        }));
+        return;
+      case 'DELETE':
+        connection.socket.close(1000, 'Going away');
+        response.writeHead(204).end();
+        return;
+      default:
+        response.writeHead(405).end();
+    }
+  }
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, resolve);
+  });
+
+  const url = `ws://${host}/${stage}`;
+  log.info('Emulator listening', { url });
+
+  return {
+    url,
+    tables,
+    close: () => new Promise((resolve) => {
+      connections.forEach(({ socket }) => socket.terminate());
+      wss.close();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+module.exports = { startEmulator };
+
+if (require.main === module) {
+  startEmulator().catch((error) => {
+    log.error('Emulator failed to start', { error });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,260 @@
+/**
+ * In-memory stand-in for the DynamoDB document client, for the local emulator
+ * Understands the commands and key conditions the handler uses; anything else
+ * throws, so a handler change that needs more shows up rather than misbehaving.
+ */
+
+/**
+ * Compare two key values the way DynamoDB orders them (numbers numerically, strings by code unit)
+ */
+function compareKeys(a, b) {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+// Items are stored and returned as copies, as if they had gone over the wire
+const copy = (value) => (value === undefined ? undefined : structuredClone(value));
+
+class MemoryDocumentClient {
+  /**
+   * @param schemas Key attributes per table, and per global secondary index:
+   *   { [tableName]: { key: [partitionKey, sortKey?], indexes?: { [indexName]: [partitionKey, sortKey?] } } }
+   */
+  constructor(schemas) {
+    this.schemas = schemas;
+    this.tables = new Map();
+  }
+
+  async send(command) {
+    const input = command.input || {};
+    switch (command.constructor.name) {
+      case 'PutCommand':
+        return this.put(input);
+      case 'GetCommand':
+        return this.get(input);
+      case 'UpdateCommand':
+        return this.update(input);
+      case 'DeleteCommand':
+        return this.delete(input);
+      case 'QueryCommand':
+        return this.query(input);
+      case 'ScanCommand':
+        return this.scan(input);
+      default:
+        throw new Error(`${command.constructor.name} is not supported by the in-memory tables`);
+    }
+  }
+
+  /**
+   * Every item in a table, for inspecting the emulator's state
+   */
+  items(tableName) {
+    return Array.from(this.table(tableName).values()).map(copy);
+  }
+
+  put({ TableName, Item, ConditionExpression }) {
+    if (ConditionExpression) {
+      throw new Error('Conditional writes are not supported by the in-memory tables');
+    }
+    this.table(TableName).set(this.keyOf(TableName, Item), copy(Item));
+    return {};
+  }
+
+  get({ TableName, Key }) {
+    return { Item: copy(this.table(TableName).get(this.keyOf(TableName, Key))) };
+  }
+
+  /**
+   * A single SET or REMOVE of an attribute or a map entry, e.g. `SET #roles.#userId = :role`
+   */
+  update({ TableName, Key, UpdateExpression, ConditionExpression, ExpressionAttributeNames = {}, ExpressionAttributeValues = {} }) {
+    const action = UpdateExpression.trim().match(/^(SET|REMOVE)\s+([#\w.]+)(?:\s*=\s*(:\w+))?$/i);
+    if (!action || (action[1].toUpperCase() === 'SET') !== Boolean(action[3])) {
+      throw new Error(`Update expression "${UpdateExpression}" is not supported by the in-memory tables`);
+    }
+
+    const table = this.table(TableName);
+    const key = this.keyOf(TableName, Key);
+    const item = table.get(key);
+
+    if (ConditionExpression && !parseCondition(ConditionExpression, ExpressionAttributeNames)(item)) {
+      const error = new Error('The conditional request failed');
+      error.name = 'ConditionalCheckFailedException';
+      throw error;
+    }
+
+    const updated = copy(item) || copy(Key);
+    const path = action[2].split('.').map((name) => (name.startsWith('#') ? ExpressionAttributeNames[name] : name));
+    const parent = path.slice(0, -1).reduce((value, name) => (value && typeof value === 'object' ? value[name] : undefined), updated);
+    if (!parent || typeof parent !== 'object') {
+      const error = new Error('The document path provided in the update expression is invalid for update');
+      error.name = 'ValidationException';
+      throw error;
+    }
+
+    if (action[3]) {
+      if (!(action[3] in ExpressionAttributeValues)) {
+        throw new Error(`Missing expression attribute value ${action[3]}`);
+      }
+      parent[path[path.length - 1]] = copy(ExpressionAttributeValues[action[3]]);
+    } else {
+      delete parent[path[path.length - 1]];
+    }
+
+    table.set(key, updated);
+    return {};
+  }
+
+  delete({ TableName, Key }) {
+    this.table(TableName).delete(this.keyOf(TableName, Key));
+    return {};
+  }
+
+  query({ TableName, IndexName, KeyConditionExpression, ExpressionAttributeNames, ExpressionAttributeValues, FilterExpression, ScanIndexForward, Limit, ExclusiveStartKey }) {
+    if (FilterExpression) {
+      throw new Error('Filter expressions are not supported by the in-memory tables');
+    }
+
+    const [partitionKey, sortKey] = this.keyAttributes(TableName, IndexName);
+    const conditions = parseKeyCondition(KeyConditionExpression, ExpressionAttributeNames, ExpressionAttributeValues);
+    if (!conditions.some((condition) => condition.attribute === partitionKey && condition.operator === '=')) {
+      throw new Error(`Query on ${IndexName || TableName} needs an equality condition on ${partitionKey}`);
+    }
+
+    let items = Array.from(this.table(TableName).values())
+      .filter((item) => conditions.every((condition) => matches(item, condition)));
+
+    if (sortKey) {
+      items.sort((a, b) => compareKeys(a[sortKey], b[sortKey]));
+    }
+    if (ScanIndexForward === false) {
+      items.reverse();
+    }
+
+    return this.page(TableName, items, Limit, ExclusiveStartKey);
+  }
+
+  scan({ TableName, FilterExpression, Limit, ExclusiveStartKey }) {
+    if (FilterExpression) {
+      throw new Error('Filter expressions are not supported by the in-memory tables');
+    }
+    return this.page(TableName, Array.from(this.table(TableName).values()), Limit, ExclusiveStartKey);
+  }
+
+  page(tableName, items, limit, exclusiveStartKey) {
+    if (exclusiveStartKey) {
+      const startKey = this.keyOf(tableName, exclusiveStartKey);
+      items = items.slice(items.findIndex((item) => this.keyOf(tableName, item) === startKey) + 1);
+    }
+
+    const page = limit ? items.slice(0, limit) : items;
+    const [partitionKey, sortKey] = this.keyAttributes(tableName);
+    const last = page[page.length - 1];
+
+    return {
+      Items: page.map(copy),
+      Count: page.length,
+      ...(limit && items.length > limit
+        ? { LastEvaluatedKey: { [partitionKey]: last[partitionKey], ...(sortKey ? { [sortKey]: last[sortKey] } : {}) } }
+        : {}),
+    };
+  }
+
+  table(tableName) {
+    if (!this.schemas[tableName]) {
+      throw new Error(`Table ${tableName} is not defined in the in-memory tables`);
+    }
+    if (!this.tables.has(tableName)) {
+      this.tables.set(tableName, new Map());
+    }
+    return this.tables.get(tableName);
+  }
+
+  keyAttributes(tableName, indexName) {
+    const schema = this.schemas[tableName];
+    if (!schema) {
+      throw new Error(`Table ${tableName} is not defined in the in-memory tables`);
+    }
+    if (!indexName) return schema.key;
+
+    const index = schema.indexes && schema.indexes[indexName];
+    if (!index) {
+      throw new Error(`Index ${indexName} is not defined on ${tableName}`);
+    }
+    return index;
+  }
+
+  keyOf(tableName, item) {
+    return JSON.stringify(this.keyAttributes(tableName).map((attribute) => {
+      if (item[attribute] === undefined) {
+        throw new Error(`Missing key attribute ${attribute} for ${tableName}`);
+      }
+      return item[attribute];
+    }));
+  }
+}
+
+/**
+ * Parse a key condition such as `sessionId = :sessionId AND #ts > :since`
+ */
+function parseKeyCondition(expression, names = {}, values = {}) {
+  return expression.split(/\s+AND\s+/i).map((clause) => {
+    const beginsWith = clause.trim().match(/^begins_with\s*\(\s*([#\w]+)\s*,\s*(:\w+)\s*\)$/i);
+    const comparison = clause.trim().match(/^([#\w]+)\s*(=|<=|>=|<|>)\s*(:\w+)$/);
+    const [, name, operator, placeholder] = beginsWith
+      ? [null, beginsWith[1], 'begins_with', beginsWith[2]]
+      : comparison || [];
+
+    if (!name) {
+      throw new Error(`Key condition "${clause}" is not supported by the in-memory tables`);
+    }
+    if (!(placeholder in values)) {
+      throw new Error(`Missing expression attribute value ${placeholder}`);
+    }
+
+    return { attribute: name.startsWith('#') ? names[name] : name, operator, value: values[placeholder] };
+  });
+}
+
+/**
+ * Parse a condition such as `attribute_exists(sessionId) AND attribute_not_exists(#roles)`
+ * into a test of the item it applies to (undefined when there is none)
+ */
+function parseCondition(expression, names = {}) {
+  const checks = expression.split(/\s+AND\s+/i).map((clause) => {
+    const check = clause.trim().match(/^(attribute_exists|attribute_not_exists)\s*\(\s*([#\w]+)\s*\)$/i);
+    if (!check) {
+      throw new Error(`Condition "${clause}" is not supported by the in-memory tables`);
+    }
+
+    const attribute = check[2].startsWith('#') ? names[check[2]] : check[2];
+    const exists = check[1].toLowerCase() === 'attribute_exists';
+    return (item) => (item !== undefined && item[attribute] !== undefined) === exists;
+  });
+
+  return (item) => checks.every((check) => check(item));
+}
+
+function matches(item, { attribute, operator, value }) {
+  const actual = item[attribute];
+  if (actual === undefined) return false;
+
+  switch (operator) {
+    case '=':
+      return actual === value;
+    case '<':
+      return compareKeys(actual, value) < 0;
+    case '<=':
+      return compareKeys(actual, value) <= 0;
+    case '>':
+      return compareKeys(actual, value) > 0;
+    case '>=':
+      return compareKeys(actual, value) >= 0;
+    case 'begins_with':
+      return typeof actual === 'string' && actual.startsWith(value);
+    default:
+      return false;
+  }
+}
+
+module.exports = { MemoryDocumentClient };
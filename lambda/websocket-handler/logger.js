@@ -0,0 +1,53 @@
+/**
+ * Leveled logger for the WebSocket Lambda
+ * Mirrors the server side of lib/utils/logger.ts: one JSON line per entry, which
+ * CloudWatch Logs Insights can filter by field. Set LOG_LEVEL to debug, info, warn or error.
+ */
+
+const LEVEL_ORDER = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function configuredLevel() {
+  const level = process.env.LOG_LEVEL;
+  return level in LEVEL_ORDER ? level : 'info';
+}
+
+// Errors don't survive JSON.stringify, so keep what is useful about them
+function serializeFields(fields) {
+  const serialized = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    serialized[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+  });
+  return serialized;
+}
+
+function write(level, scope, message, fields) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[configuredLevel()]) return;
+
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    scope,
+    msg: message,
+    ...(fields ? serializeFields(fields) : {}),
+  });
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+function createLogger(scope) {
+  return {
+    debug: (message, fields) => write('debug', scope, message, fields),
+    info: (message, fields) => write('info', scope, message, fields),
+    warn: (message, fields) => write('warn', scope, message, fields),
+    error: (message, fields) => write('error', scope, message, fields),
+  };
+}
+
+module.exports = {
+  createLogger,
+};
@@ -0,0 +1,115 @@
+/**
+ * Role-based permissions for session messages in the WebSocket Lambda
+ * Mirrors lib/realtime/permissions.ts so every transport allows and denies the same messages.
+ */
+
+const { createErrorMessage, unpackBatch } = require('./protocol');
+const { getAccessTokenVerifier } = require('./access-token');
+
+const ROLE_PERMISSIONS = {
+  host: ['draw', 'clear', 'viewport', 'cursor', 'state', 'chat', 'react', 'signal', 'assign-roles'],
+  'co-host': ['draw', 'clear', 'viewport', 'cursor', 'state', 'chat', 'react', 'signal', 'assign-roles'],
+  drawer: ['draw', 'cursor', 'chat', 'react', 'signal'],
+  viewer: ['cursor', 'chat', 'react', 'signal'],
+};
+
+const ACTION_DESCRIPTIONS = {
+  draw: 'draw on the canvas',
+  clear: 'clear the canvas',
+  viewport: 'move everyone\'s viewport',
+  cursor: 'share a cursor',
+  state: 'update the session state',
+  chat: 'send chat messages',
+  react: 'send reactions',
+  signal: 'send WebRTC signals',
+  'assign-roles': 'assign roles',
+};
+
+/**
+ * What sending a message amounts to; joining and leaving need no permission
+ */
+function getMessageActions(message) {
+  switch (message.type) {
+    case 'drawing-event':
+      if (message.event.type === 'clear') return ['clear'];
+      if (message.event.type === 'viewport-sync') return ['viewport'];
+      return ['draw'];
+    case 'cursor-move':
+      return ['cursor'];
+    case 'chat-message':
+      return ['chat'];
+    case 'state-update':
+    case 'state-patch':
+      return ['state'];
+    case 'webrtc-signal':
+      return ['signal'];
+    case 'reaction':
+      return ['react'];
+    case 'set-role':
+      return ['assign-roles'];
+    case 'batch':
+      return Array.from(new Set(unpackBatch(message).flatMap(getMessageActions)));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check a message against the sender's role
+ * Returns the error frame to send back when denied, or null
+ */
+function authorizeMessage(role, message, hostId) {
+  const denied = getMessageActions(message).find((action) => !ROLE_PERMISSIONS[role].includes(action));
+  if (denied) {
+    return createErrorMessage('forbidden', `A ${role} may not ${ACTION_DESCRIPTIONS[denied]}`, message.type);
+  }
+
+  if (message.type === 'set-role' && hostId && message.targetUserId === hostId) {
+    return createErrorMessage('forbidden', 'The host\'s role can\'t be changed', message.type);
+  }
+  return null;
+}
+
+/**
+ * Work out who a participant is: verified users from their access token, anyone
+ * else by the user id they claim, which can't be the host's. Only the session's
+ * host, proven by token, is the host.
+ * Resolves with { ok: true, userId, isHost, verified } or { ok: false, reason }.
+ */
+async function identifyParticipant({ accessToken, claimedUserId, hostId }, verifier = getAccessTokenVerifier()) {
+  if (accessToken) {
+    if (!verifier) {
+      return { ok: false, reason: 'Token verification is not configured on this server' };
+    }
+
+    try {
+      const claims = await verifier.verify(accessToken);
+      const userId = claims.username || claims.sub;
+      return { ok: true, userId, isHost: hostId !== null && userId === hostId, verified: true };
+    } catch (error) {
+      return { ok: false, reason: error instanceof Error ? error.message : 'Invalid access token' };
+    }
+  }
+
+  if (claimedUserId && claimedUserId === hostId) {
+    return { ok: false, reason: 'Acting as the session host requires an access token' };
+  }
+  return { ok: true, userId: claimedUserId, isHost: false, verified: false };
+}
+
+/**
+ * A participant's role, given the roles granted in the session by user id.
+ * Grants only apply to verified users, so claiming a granted user's id gets a viewer nothing.
+ */
+function roleOf(roles, identity) {
+  if (identity.isHost) return 'host';
+  return (identity.verified && identity.userId && roles[identity.userId]) || 'viewer';
+}
+
+module.exports = {
+  ROLE_PERMISSIONS,
+  authorizeMessage,
+  getMessageActions,
+  identifyParticipant,
+  roleOf,
+};
@@ -0,0 +1,222 @@
+/**
+ * Realtime message protocol validation for the WebSocket Lambda
+ * Mirrors lib/realtime/protocol.ts so every transport accepts and rejects the same frames.
+ */
+
+const isString = (value) => typeof value === 'string';
+const isNonEmptyString = (value) => typeof value === 'string' && value.length > 0;
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value) => typeof value === 'boolean';
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isPresent = (value) => value !== undefined && value !== null;
+const isSignalType = (value) => value === 'offer' || value === 'answer' || value === 'ice-candidate';
+const isGrantableRole = (value) => value === 'co-host' || value === 'drawer' || value === 'viewer';
+const optional = (check) => (value) => value === undefined || value === null || check(value);
+
+// Hosts may publish partial state (e.g. only components), so both arrays are optional
+const isSessionState = (value) =>
+  isObject(value) &&
+  optional(Array.isArray)(value.components) &&
+  optional(Array.isArray)(value.canvasData);
+
+const isStatePatch = (value) =>
+  Array.isArray(value) &&
+  value.every((operation) =>
+    isObject(operation) &&
+    isString(operation.path) &&
+    (operation.op === 'remove' || ((operation.op === 'add' || operation.op === 'replace') && 'value' in operation))
+  );
+
+// Unknown capabilities are allowed, so newer clients can offer features older servers ignore
+const isCapabilityList = (value) => Array.isArray(value) && value.every(isString);
+
+// Protocol version spoken by this handler, and the oldest client version it still understands
+const PROTOCOL_VERSION = 2;
+const MIN_PROTOCOL_VERSION = 1;
+
+// Upper bound on messages in one batch envelope
+const MAX_BATCH_SIZE = 200;
+
+// Inner batch messages take their session from the envelope, so only their own fields are checked
+const BATCHABLE_SCHEMAS = {
+  'drawing-event': { event: isObject, userId: optional(isString) },
+  'cursor-move': { x: isNumber, y: isNumber, userId: optional(isString) },
+};
+
+const isBatchList = (value) =>
+  Array.isArray(value) &&
+  value.length <= MAX_BATCH_SIZE &&
+  value.every((item) => {
+    const schema = isObject(item) && Object.prototype.hasOwnProperty.call(BATCHABLE_SCHEMAS, item.type)
+      ? BATCHABLE_SCHEMAS[item.type]
+      : null;
+    return (
+      schema !== null &&
+      Object.entries(schema).every(([field, check]) => check(item[field])) &&
+      optional(isNumber)(item.timestamp)
+    );
+  });
+
+const CLIENT_SCHEMAS = {
+  'join-session': {
+    sessionId: isNonEmptyString,
+    userId: optional(isString),
+    isHost: optional(isBoolean),
+    lastSeq: optional(isNumber),
+    accessToken: optional(isString),
+  },
+  'leave-session': { sessionId: optional(isString), userId: optional(isString) },
+  'drawing-event': { sessionId: isNonEmptyString, event: isObject, userId: optional(isString) },
+  'cursor-move': { sessionId: isNonEmptyString, x: isNumber, y: isNumber, userId: optional(isString) },
+  'chat-message': {
+    sessionId: isNonEmptyString,
+    message: isNonEmptyString,
+    userId: optional(isString),
+    userName: optional(isString),
+  },
+  'state-update': { sessionId: isNonEmptyString, state: isSessionState, version: optional(isNumber) },
+  'state-patch': { sessionId: isNonEmptyString, baseVersion: isNumber, version: isNumber, patch: isStatePatch },
+  'webrtc-signal': {
+    sessionId: isNonEmptyString,
+    signal: isPresent,
+    signalType: isSignalType,
+    to: optional(isString),
+    userId: optional(isString),
+  },
+  reaction: {
+    sessionId: isNonEmptyString,
+    reaction: isNonEmptyString,
+    x: optional(isNumber),
+    y: optional(isNumber),
+    userId: optional(isString),
+  },
+  'set-role': {
+    sessionId: isNonEmptyString,
+    targetUserId: isNonEmptyString,
+    role: isGrantableRole,
+    userId: optional(isString),
+  },
+  'rpc-request': {
+    requestId: isNonEmptyString,
+    sessionId: isNonEmptyString,
+    method: isNonEmptyString,
+    params: optional(isObject),
+  },
+  ping: { pingId: isNonEmptyString },
+  hello: { protocolVersion: isNumber, capabilities: isCapabilityList },
+  batch: { sessionId: isNonEmptyString, messages: isBatchList },
+};
+
+/**
+ * Build a structured error frame to send back to the client
+ */
+function createErrorMessage(code, message, ref) {
+  return {
+    type: 'error',
+    code,
+    message,
+    ...(ref ? { ref } : {}),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Acknowledge a client message that carried a `messageId`
+ */
+function createAckMessage(messageId) {
+  return { type: 'ack', messageId, timestamp: Date.now() };
+}
+
+/**
+ * Answer a client's `ping`
+ */
+function createPongMessage(pingId) {
+  return { type: 'pong', pingId, timestamp: Date.now() };
+}
+
+/**
+ * Answer a client's `hello`: a `welcome` with the version both sides speak and the
+ * capabilities out of `supported` the client offered, or an `upgrade-required` error
+ */
+function negotiateProtocol(hello, supported) {
+  if (hello.protocolVersion < MIN_PROTOCOL_VERSION) {
+    return createErrorMessage(
+      'upgrade-required',
+      `Protocol version ${hello.protocolVersion} is no longer supported (minimum ${MIN_PROTOCOL_VERSION}); reload to update`,
+      hello.type
+    );
+  }
+
+  return {
+    type: 'welcome',
+    protocolVersion: Math.min(hello.protocolVersion, PROTOCOL_VERSION),
+    capabilities: supported.filter((capability) => hello.capabilities.includes(capability)),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Decode and validate a raw client frame
+ * Returns { ok: true, message } or { ok: false, error }
+ */
+function decodeClientMessage(body) {
+  let raw;
+  try {
+    raw = JSON.parse(body);
+  } catch (error) {
+    return { ok: false, error: createErrorMessage('invalid-json', 'Message is not valid JSON') };
+  }
+
+  if (!isObject(raw)) {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Message must be a JSON object') };
+  }
+
+  const { type } = raw;
+  if (typeof type !== 'string') {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Message is missing a string "type" field') };
+  }
+
+  const schema = Object.prototype.hasOwnProperty.call(CLIENT_SCHEMAS, type) ? CLIENT_SCHEMAS[type] : null;
+  if (!schema) {
+    return { ok: false, error: createErrorMessage('unknown-type', `Unknown message type: ${type}`, type) };
+  }
+
+  for (const [field, check] of Object.entries(schema)) {
+    if (!check(raw[field])) {
+      return {
+        ok: false,
+        error: createErrorMessage('invalid-message', `Invalid or missing field "${field}" for ${type}`, type),
+      };
+    }
+  }
+
+  if (raw.timestamp !== undefined && !isNumber(raw.timestamp)) {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Field "timestamp" must be a number', type) };
+  }
+
+  if (raw.messageId !== undefined && !isNonEmptyString(raw.messageId)) {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Field "messageId" must be a non-empty string', type) };
+  }
+
+  return { ok: true, message: { ...raw, timestamp: raw.timestamp ?? Date.now() } };
+}
+
+/**
+ * Expand a validated batch envelope into its messages, each bound to the envelope's session
+ */
+function unpackBatch(batch) {
+  return batch.messages.map((message) => ({
+    ...message,
+    sessionId: batch.sessionId,
+    timestamp: message.timestamp ?? batch.timestamp,
+  }));
+}
+
+module.exports = {
+  createAckMessage,
+  createPongMessage,
+  createErrorMessage,
+  decodeClientMessage,
+  negotiateProtocol,
+  unpackBatch,
+};
@@ -0,0 +1,78 @@
+/**
+ * Request/response calls for the WebSocket Lambda
+ * Mirrors the RpcRegistry in lib/realtime/rpc.ts: requests carry a correlation id and
+ * are answered with `rpc-response` or a typed `rpc-error`.
+ */
+
+const { createLogger } = require('./logger');
+
+const log = createLogger('rpc');
+
+// How long a method may run before the request is answered with a timeout
+const HANDLER_TIMEOUT_MS = 5000;
+
+class RpcError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+  }
+}
+
+class RpcRegistry {
+  constructor(timeoutMs = HANDLER_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+    this.handlers = new Map();
+  }
+
+  register(method, handler) {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  /**
+   * Run the requested method and build the frame answering the request
+   */
+  async handle(request, context) {
+    const handler = this.handlers.get(request.method);
+    if (!handler) {
+      return rpcError(request, new RpcError('method-not-found', `Unknown method: ${request.method}`));
+    }
+
+    let timer = null;
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new RpcError('timeout', `${request.method} took longer than ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([Promise.resolve(handler(request.params || {}, context)), timeout]);
+      return { type: 'rpc-response', requestId: request.requestId, result, timestamp: Date.now() };
+    } catch (error) {
+      if (error instanceof RpcError) {
+        return rpcError(request, error);
+      }
+
+      log.error('Error in RPC method', { method: request.method, error });
+      return rpcError(request, new RpcError('internal-error', `${request.method} failed`));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function rpcError(request, error) {
+  return {
+    type: 'rpc-error',
+    requestId: request.requestId,
+    code: error.code,
+    message: error.message,
+    timestamp: Date.now(),
+  };
+}
+
+module.exports = {
+  RpcError,
+  RpcRegistry,
+};
@@ -0,0 +1,118 @@
+/**
+ * Versioned session state for the WebSocket Lambda
+ * Mirrors the receiving side of lib/realtime/state-delta.ts: applies JSON Patch
+ * (RFC 6902) operations and folds stored updates and patches into the latest state.
+ */
+
+class StatePatchError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'StatePatchError';
+  }
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into its unescaped segments
+ */
+function parsePointer(path) {
+  if (path === '') return [];
+  if (!path.startsWith('/')) {
+    throw new StatePatchError(`Invalid path "${path}"`);
+  }
+  return path.substring(1).split('/').map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function applyOperation(target, segments, operation) {
+  if (segments.length === 0) {
+    if (operation.op === 'remove') {
+      throw new StatePatchError('Cannot remove the whole state');
+    }
+    return operation.value;
+  }
+
+  if (typeof target !== 'object' || target === null) {
+    throw new StatePatchError(`Path ${operation.path} does not exist`);
+  }
+
+  // Copy only the containers along the path; everything else is shared with the base
+  const [segment, ...rest] = segments;
+  const copy = Array.isArray(target) ? [...target] : { ...target };
+
+  if (Array.isArray(copy)) {
+    const index = segment === '-' ? copy.length : Number(segment);
+    const last = rest.length === 0;
+    const limit = last && operation.op === 'add' ? copy.length : copy.length - 1;
+    if (!Number.isInteger(index) || index < 0 || index > limit) {
+      throw new StatePatchError(`Path ${operation.path} is out of range`);
+    }
+
+    if (!last) {
+      copy[index] = applyOperation(copy[index], rest, operation);
+    } else if (operation.op === 'add') {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === 'remove') {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = operation.value;
+    }
+    return copy;
+  }
+
+  if (rest.length > 0) {
+    if (!(segment in copy)) {
+      throw new StatePatchError(`Path ${operation.path} does not exist`);
+    }
+    copy[segment] = applyOperation(copy[segment], rest, operation);
+  } else if (operation.op === 'remove') {
+    if (!(segment in copy)) {
+      throw new StatePatchError(`Path ${operation.path} does not exist`);
+    }
+    delete copy[segment];
+  } else {
+    if (operation.op === 'replace' && !(segment in copy)) {
+      throw new StatePatchError(`Path ${operation.path} does not exist`);
+    }
+    copy[segment] = operation.value;
+  }
+  return copy;
+}
+
+/**
+ * Apply operations to a value without modifying it; throws a StatePatchError
+ * when an operation doesn't fit
+ */
+function applyStatePatch(base, patch) {
+  return patch.reduce((value, operation) => applyOperation(value, parsePointer(operation.path), operation), base);
+}
+
+/**
+ * Fold stored `session-state-updated` and `session-state-patched` messages, oldest
+ * first, into { state, version }. Null when there is no full update to start from.
+ */
+function foldStateHistory(messages) {
+  let state = null;
+  let version = null;
+
+  messages.forEach((message) => {
+    if (message.type === 'session-state-updated') {
+      // Partial state from hosts that don't version theirs is merged, as it always was
+      state = { ...state, ...message.state };
+      version = message.version ?? null;
+    } else if (message.type === 'session-state-patched' && state && message.baseVersion === version) {
+      try {
+        state = applyStatePatch(state, message.patch);
+        version = message.version;
+      } catch (error) {
+        if (!(error instanceof StatePatchError)) throw error;
+      }
+    }
+  });
+
+  return state ? { state, version } : null;
+}
+
+module.exports = {
+  StatePatchError,
+  applyStatePatch,
+  foldStateHistory,
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { AccessTokenVerifier, LocalKeySet, TokenVerificationError } from '@/lib/aws/access-token';
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_test';
+const CLIENT_ID = 'test-client';
+
+describe('AccessTokenVerifier', () => {
+  const keySet = new LocalKeySet();
+  const verifier = new AccessTokenVerifier({ issuer: ISSUER, clientId: CLIENT_ID, keySet });
+
+  const issue = (claims: Record<string, unknown> = {}) =>
+    keySet.issueToken({ sub: 'sub-1', username: 'user-1', iss: ISSUER, client_id: CLIENT_ID, ...claims });
+
+  it('accepts a valid token and returns its claims', async () => {
+    const claims = await verifier.verify(issue());
+
+    expect(claims).toMatchObject({ sub: 'sub-1', username: 'user-1', iss: ISSUER, client_id: CLIENT_ID });
+  });
+
+  it('rejects an expired token', async () => {
+    const expired = issue({ exp: Math.floor(Date.now() / 1000) - 60 });
+
+    await expect(verifier.verify(expired)).rejects.toThrow(new TokenVerificationError('Token expired'));
+  });
+
+  it('rejects a token from another user pool', async () => {
+    const foreign = issue({ iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_other' });
+
+    await expect(verifier.verify(foreign)).rejects.toThrow('Token issued by another user pool');
+  });
+
+  it('rejects a token issued for another client', async () => {
+    await expect(verifier.verify(issue({ client_id: 'other-client' }))).rejects.toThrow('Token issued for another client');
+  });
+
+  it('rejects an ID token', async () => {
+    await expect(verifier.verify(issue({ token_use: 'id' }))).rejects.toThrow('Not an access token');
+  });
+
+  it('rejects a token signed with an unknown key', async () => {
+    const otherKeySet = new LocalKeySet();
+    const token = otherKeySet.issueToken({ sub: 'sub-1', username: 'user-1', iss: ISSUER, client_id: CLIENT_ID });
+
+    await expect(verifier.verify(token)).rejects.toThrow('Unknown signing key');
+  });
+
+  it('rejects a token whose signature does not match its claims', async () => {
+    const [header, , signature] = issue().split('.');
+    const payload = Buffer.from(JSON.stringify({
+      sub: 'sub-1',
+      username: 'host-1',
+      iss: ISSUER,
+      client_id: CLIENT_ID,
+      token_use: 'access',
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    })).toString('base64url');
+
+    await expect(verifier.verify(`${header}.${payload}.${signature}`)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects a malformed token', async () => {
+    await expect(verifier.verify('not-a-token')).rejects.toThrow('Malformed token');
+  });
+});
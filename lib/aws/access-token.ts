@@ -0,0 +1,206 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+
+/**
+ * Verification of Cognito access tokens (RS256 JWTs) against the user pool's JWKS
+ */
+
+export interface AccessTokenClaims {
+  sub: string;
+  username: string;
+  client_id: string;
+  token_use: string;
+  iss: string;
+  exp: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export class TokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
+
+/**
+ * Source of the public keys tokens are signed with, looked up by key id
+ */
+export interface KeySet {
+  getKey(kid: string): Promise<KeyObject | null>;
+}
+
+interface JwksDocument {
+  keys: Array<JsonWebKey & { kid: string }>;
+}
+
+// How long fetched keys are trusted before the JWKS is fetched again
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+
+/**
+ * Key set fetched from a JWKS endpoint, e.g. a Cognito user pool's
+ */
+export class RemoteKeySet implements KeySet {
+  private keys: Map<string, KeyObject> = new Map();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(private jwksUrl: string) {}
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    const stale = Date.now() - this.fetchedAt > JWKS_CACHE_MS;
+
+    // Refetch on an unknown kid too, since the pool may have rotated its keys
+    if (stale || !this.keys.has(kid)) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid) ?? null;
+  }
+
+  private refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const response = await fetch(this.jwksUrl);
+    if (!response.ok) {
+      throw new TokenVerificationError(`Could not fetch JWKS: HTTP ${response.status}`);
+    }
+
+    const { keys } = (await response.json()) as JwksDocument;
+    this.keys = new Map(keys.map((jwk) => [jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' })]));
+    this.fetchedAt = Date.now();
+  }
+}
+
+/**
+ * In-process stand-in for a user pool's key set. It holds its own RSA key pair
+ * and issues tokens the verifier accepts, so authenticated joins can be
+ * exercised without Cognito.
+ */
+export class LocalKeySet implements KeySet {
+  readonly kid = `local-${crypto.randomBytes(4).toString('hex')}`;
+  private keyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    return kid === this.kid ? this.keyPair.publicKey : null;
+  }
+
+  /**
+   * Sign an RS256 token with this key set's private key
+   */
+  issueToken(claims: Partial<AccessTokenClaims>): string {
+    const header = encodeSegment({ alg: 'RS256', kid: this.kid, typ: 'JWT' });
+    const payload = encodeSegment({
+      token_use: 'access',
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + 3600,
+      ...claims,
+    });
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), this.keyPair.privateKey);
+    return `${header}.${payload}.${signature.toString('base64url')}`;
+  }
+}
+
+export interface AccessTokenVerifierOptions {
+  issuer: string;
+  clientId?: string;
+  keySet: KeySet;
+}
+
+export class AccessTokenVerifier {
+  constructor(private options: AccessTokenVerifierOptions) {}
+
+  /**
+   * Check signature, expiry, issuer, client and token use; throws TokenVerificationError
+   */
+  async verify(token: string): Promise<AccessTokenClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new TokenVerificationError('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment(encodedHeader);
+    const claims = decodeSegment(encodedPayload) as AccessTokenClaims;
+
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+      throw new TokenVerificationError('Unsupported token algorithm');
+    }
+
+    const key = await this.options.keySet.getKey(header.kid);
+    if (!key) {
+      throw new TokenVerificationError('Unknown signing key');
+    }
+
+    const valid = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      key,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!valid) {
+      throw new TokenVerificationError('Invalid token signature');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+      throw new TokenVerificationError('Token expired');
+    }
+    if (claims.iss !== this.options.issuer) {
+      throw new TokenVerificationError('Token issued by another user pool');
+    }
+    if (claims.token_use !== 'access') {
+      throw new TokenVerificationError('Not an access token');
+    }
+    if (this.options.clientId && claims.client_id !== this.options.clientId) {
+      throw new TokenVerificationError('Token issued for another client');
+    }
+
+    return claims;
+  }
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new TokenVerificationError('Malformed token');
+  }
+}
+
+/**
+ * Issuer URL of the configured Cognito user pool
+ */
+export function getCognitoIssuer(): string | null {
+  const region = process.env.NEXT_PUBLIC_AWS_REGION;
+  const userPoolId = process.env.NEXT_PUBLIC_COGNITO_USER_POOL_ID;
+  return region && userPoolId ? `https://cognito-idp.${region}.amazonaws.com/${userPoolId}` : null;
+}
+
+let verifierInstance: AccessTokenVerifier | null = null;
+
+/**
+ * Verifier for the configured user pool, or null when Cognito isn't configured
+ */
+export function getAccessTokenVerifier(): AccessTokenVerifier | null {
+  if (!verifierInstance) {
+    const issuer = getCognitoIssuer();
+    if (!issuer) return null;
+
+    verifierInstance = new AccessTokenVerifier({
+      issuer,
+      clientId: process.env.NEXT_PUBLIC_COGNITO_CLIENT_ID,
+      keySet: new RemoteKeySet(`${issuer}/.well-known/jwks.json`),
+    });
+  }
+  return verifierInstance;
+}
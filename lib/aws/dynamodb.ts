@@ -7,8 +7,11 @@ import {
   ScanCommand,
   UpdateCommand,
   DeleteCommand,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
-import { SessionRecord, StateRecord, StreamSession } from '@/types';
+import { GrantableRole, StatePatchOperation } from '@/lib/realtime/protocol';
+import { StateDeltaDecoder } from '@/lib/realtime/state-delta';
+import { SessionRecord, SessionState, StateRecord, StreamSession } from '@/types';
 
 const client = new DynamoDBClient({
   region: process.env.NEXT_PUBLIC_AWS_REGION!,
@@ -38,6 +41,7 @@ export async function createSession(
       createdAt: Date.now(),
       status: 'active',
       title,
+      roles: {},
     };
 
     const command = new PutCommand({
@@ -250,21 +254,79 @@ export async function getSessionById(sessionId: string): Promise<SessionRecord |
 }
 
 /**
- * Update session state (store in session record for MVP)
+ * Roles granted in a session, by user id. Empty when the session doesn't exist.
  */
-export async function updateSessionState(sessionId: string, state: any): Promise<void> {
+export async function getSessionRoles(sessionId: string): Promise<Record<string, GrantableRole>> {
+  const session = await getSessionById(sessionId);
+  return session?.roles ?? {};
+}
+
+/**
+ * Record a role granted in a session on its record; granting 'viewer' removes the grant
+ */
+export async function setSessionRole(sessionId: string, userId: string, role: GrantableRole): Promise<void> {
+  const names = { '#roles': 'roles', '#userId': userId };
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: SESSIONS_TABLE,
+      Key: { sessionId },
+      ...(role === 'viewer'
+        ? { UpdateExpression: 'REMOVE #roles.#userId' }
+        : { UpdateExpression: 'SET #roles.#userId = :role', ExpressionAttributeValues: { ':role': role } }),
+      ConditionExpression: 'attribute_exists(#roles)',
+      ExpressionAttributeNames: names,
+    }));
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      console.error('Error setting session role:', error);
+      throw error;
+    }
+
+    // Sessions created before roles were stored have no map to add the grant to
+    if (role === 'viewer') return;
+    await docClient.send(new UpdateCommand({
+      TableName: SESSIONS_TABLE,
+      Key: { sessionId },
+      UpdateExpression: 'SET #roles = :roles',
+      ConditionExpression: 'attribute_exists(sessionId) AND attribute_not_exists(#roles)',
+      ExpressionAttributeNames: { '#roles': 'roles' },
+      ExpressionAttributeValues: { ':roles': { [userId]: role } },
+    }));
+  }
+}
+
+/**
+ * Update session state (store in session record for MVP).
+ * Patches logged up to `updatedAt` are taken to be part of this state. Without
+ * `updatedAt` this is a new state, which the next patch has to build on; with it,
+ * a snapshot of patches already logged, so later ones keep building on theirs.
+ */
+export async function updateSessionState(
+  sessionId: string,
+  state: any,
+  version: number | null = null,
+  updatedAt?: number
+): Promise<void> {
+  const isSnapshot = updatedAt !== undefined;
+
   try {
     const command = new UpdateCommand({
       TableName: SESSIONS_TABLE,
       Key: { sessionId },
-      UpdateExpression: 'SET #state = :state, #updatedAt = :updatedAt',
+      UpdateExpression: isSnapshot
+        ? 'SET #state = :state, #stateVersion = :stateVersion, #updatedAt = :updatedAt'
+        : 'SET #state = :state, #stateVersion = :stateVersion, #updatedAt = :updatedAt, #headVersion = :stateVersion',
       ExpressionAttributeNames: {
         '#state': 'state',
+        '#stateVersion': 'stateVersion',
         '#updatedAt': 'updatedAt',
+        ...(isSnapshot ? {} : { '#headVersion': 'headVersion' }),
       },
       ExpressionAttributeValues: {
         ':state': state,
-        ':updatedAt': Date.now(),
+        ':stateVersion': version,
+        ':updatedAt': updatedAt ?? Date.now(),
       },
     });
 
@@ -274,3 +336,140 @@ export async function updateSessionState(sessionId: string, state: any): Promise
     throw error;
   }
 }
+
+interface StatePatchRecord {
+  sessionId: string;
+  timestamp: number;
+  baseVersion: number;
+  version: number;
+  patch: StatePatchOperation[];
+  // Epoch seconds, for DynamoDB TTL once the patch has been folded into a snapshot
+  expiresAt: number;
+}
+
+// Logged patches are only needed until the next snapshot; a day is plenty
+const STATE_PATCH_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Log a state patch in the states table. Patches are small, so writing them
+ * instead of the whole state keeps each write cheap until the next snapshot.
+ * The session record's head version moves to the patch's in the same write, and
+ * only if it is still at `baseVersion`, so of two patches built on the same
+ * version only one is logged. Returns the timestamp the patch was logged under,
+ * or null when the state has moved on from `baseVersion`.
+ */
+export async function appendStatePatch(
+  sessionId: string,
+  baseVersion: number,
+  version: number,
+  patch: StatePatchOperation[]
+): Promise<number | null> {
+  let timestamp = Date.now();
+
+  // The timestamp is the sort key, so move past any patch logged in the same millisecond
+  for (let attempt = 0; ; attempt++) {
+    const record: StatePatchRecord = {
+      sessionId,
+      timestamp,
+      baseVersion,
+      version,
+      patch,
+      expiresAt: Math.floor(timestamp / 1000) + STATE_PATCH_TTL_SECONDS,
+    };
+
+    try {
+      await docClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: SESSIONS_TABLE,
+              Key: { sessionId },
+              UpdateExpression: 'SET #headVersion = :version',
+              // Records from before the head version was kept rely on the caller having read the state
+              ConditionExpression: 'attribute_exists(sessionId) AND (#headVersion = :baseVersion OR attribute_not_exists(#headVersion))',
+              ExpressionAttributeNames: { '#headVersion': 'headVersion' },
+              ExpressionAttributeValues: { ':version': version, ':baseVersion': baseVersion },
+            },
+          },
+          {
+            Put: {
+              TableName: STATES_TABLE,
+              Item: record,
+              ConditionExpression: 'attribute_not_exists(#timestamp)',
+              ExpressionAttributeNames: { '#timestamp': 'timestamp' },
+            },
+          },
+        ],
+      }));
+      return timestamp;
+    } catch (error: any) {
+      const [head, logged] = error.name === 'TransactionCanceledException' ? error.CancellationReasons ?? [] : [];
+      if (head?.Code === 'ConditionalCheckFailed') {
+        return null;
+      }
+      if (logged?.Code !== 'ConditionalCheckFailed' || attempt >= 2) {
+        console.error('Error logging state patch:', error);
+        throw error;
+      }
+      timestamp++;
+    }
+  }
+}
+
+export interface StoredSessionState {
+  state: SessionState | null;
+  version: number | null;
+  // Patches applied on top of the snapshot, and when the last of them was logged
+  patchCount: number;
+  lastPatchAt: number | null;
+}
+
+/**
+ * The session's state as stored: the snapshot in the session record with the
+ * patches logged since folded in. Null when the session doesn't exist.
+ */
+export async function getStoredSessionState(sessionId: string): Promise<StoredSessionState | null> {
+  const session = await getSessionById(sessionId);
+  if (!session) return null;
+
+  const decoder = new StateDeltaDecoder();
+  decoder.reset(session.state ?? null, session.stateVersion);
+
+  let patchCount = 0;
+  let lastPatchAt: number | null = null;
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const response = await docClient.send(new QueryCommand({
+      TableName: STATES_TABLE,
+      KeyConditionExpression: 'sessionId = :sessionId AND #timestamp > :since',
+      ExpressionAttributeNames: { '#timestamp': 'timestamp' },
+      ExpressionAttributeValues: {
+        ':sessionId': sessionId,
+        ':since': session.updatedAt ?? 0,
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    for (const item of (response.Items ?? []) as StatePatchRecord[]) {
+      // Full states saved with saveSessionState share the table
+      if (!Array.isArray(item.patch)) continue;
+
+      const result = decoder.update({
+        type: 'session-state-patched',
+        baseVersion: item.baseVersion,
+        version: item.version,
+        patch: item.patch,
+        timestamp: item.timestamp,
+      });
+      if (result === 'applied') {
+        patchCount++;
+        lastPatchAt = item.timestamp;
+      }
+    }
+
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return { state: decoder.state, version: decoder.version, patchCount, lastPatchAt };
+}
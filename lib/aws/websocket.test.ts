@@ -0,0 +1,120 @@
+import { createServer } from 'net';
+import { createRequire } from 'module';
+import path from 'path';
+import WebSocket from 'ws';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiGatewayTransport } from '@/lib/aws/websocket';
+import { HybridClient } from '@/lib/hybrid/hybrid-client';
+import { ClientMessage } from '@/lib/realtime/protocol';
+import { Transport, TransportEmitter } from '@/lib/realtime/transport';
+
+const LAMBDA_DIR = path.resolve(__dirname, '../../lambda/websocket-handler');
+const lambdaRequire = createRequire(path.join(LAMBDA_DIR, 'index.js'));
+
+// The emulator runs the Lambda itself, so it needs `npm install` in its directory
+const lambdaInstalled = (() => {
+  try {
+    lambdaRequire.resolve('@aws-sdk/client-apigatewaymanagementapi');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+interface Emulator {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * HTTP-like transport that connects at once, for the client to upgrade from
+ */
+class FallbackTransport extends TransportEmitter implements Transport {
+  readonly name = 'fallback';
+  readonly mode = 'polling' as const;
+  readonly duplex = false;
+  readonly probeable = false;
+  readonly sent: ClientMessage[] = [];
+  detached = false;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async connect(): Promise<void> {
+    this.detached = false;
+  }
+
+  send(message: ClientMessage): boolean {
+    this.sent.push(message);
+    return true;
+  }
+
+  detach(): void {
+    this.detached = true;
+  }
+
+  close(): void {}
+
+  isConnected(): boolean {
+    return !this.detached;
+  }
+
+  getWireFormat() {
+    return 'json' as const;
+  }
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+describe.runIf(lambdaInstalled)('ApiGatewayTransport against the Lambda emulator', () => {
+  let port: number;
+  let emulator: Emulator | null = null;
+  let client: HybridClient | null = null;
+
+  beforeAll(async () => {
+    port = await freePort();
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    client = null;
+    await emulator?.close();
+    emulator = null;
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lets go of the fallback once the upgraded connection has rejoined the session', async () => {
+    // The client only connects in a browser
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('sessionStorage', { getItem: () => null });
+    vi.stubGlobal('WebSocket', WebSocket);
+
+    const fallback = new FallbackTransport();
+    const url = `ws://localhost:${port}/local`;
+    client = new HybridClient({ transports: [new ApiGatewayTransport(url), fallback] });
+
+    // Nothing listens yet, so the client starts on the fallback
+    await vi.waitFor(() => expect(client!.getConnectionMode()).toBe('polling'));
+    client.joinSession('emulated-session', 'viewer-1');
+
+    const { startEmulator } = lambdaRequire('./local/emulator');
+    emulator = await startEmulator({ port, stage: 'local' }) as Emulator;
+
+    await vi.waitFor(() => expect(client!.getConnectionMode()).toBe('websocket'), { timeout: 10000, interval: 100 });
+    await vi.waitFor(() => expect(fallback.detached).toBe(true), { timeout: 5000, interval: 50 });
+  }, 20000);
+});
@@ -1,164 +1,31 @@
-import { WSMessage } from '@/types';
+import { ClientMessage } from '@/lib/realtime/protocol';
+import { WebSocketTransport } from '@/lib/websocket/websocket-transport';
+import { createLogger } from '@/lib/utils/logger';
 
-export class WebSocketClient {
-  private ws: WebSocket | null = null;
-  private url: string;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectTimeout: NodeJS.Timeout | null = null;
-  private messageHandlers: Map<string, Set<(data: any) => void>> = new Map();
+const log = createLogger('aws-websocket');
 
-  constructor(url?: string) {
-    this.url = url || process.env.NEXT_PUBLIC_API_GATEWAY_WS_URL || 'wss://ezrb3ycou0.execute-api.ap-south-1.amazonaws.com/production';
-  }
-
-  /**
-   * Connect to WebSocket server
-   */
-  async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.ws = new WebSocket(this.url);
-
-        this.ws.onopen = () => {
-          console.log('WebSocket connected');
-          this.reconnectAttempts = 0;
-          resolve();
-        };
-
-        this.ws.onerror = (error) => {
-          console.error('WebSocket error:', error);
-          reject(error);
-        };
-
-        this.ws.onmessage = (event) => {
-          this.handleMessage(event.data);
-        };
-
-        this.ws.onclose = () => {
-          console.log('WebSocket closed');
-          this.handleReconnect();
-        };
-      } catch (error) {
-        reject(error);
-      }
-    });
-  }
-
-  /**
-   * Send message through WebSocket
-   */
-  send(message: WSMessage): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
-    } else {
-      console.error('WebSocket is not connected');
-    }
-  }
-
-  /**
-   * Subscribe to specific message type
-   */
-  on(messageType: string, handler: (data: any) => void): void {
-    if (!this.messageHandlers.has(messageType)) {
-      this.messageHandlers.set(messageType, new Set());
-    }
-    this.messageHandlers.get(messageType)!.add(handler);
-  }
-
-  /**
-   * Unsubscribe from message type
-   */
-  off(messageType: string, handler: (data: any) => void): void {
-    const handlers = this.messageHandlers.get(messageType);
-    if (handlers) {
-      handlers.delete(handler);
-    }
-  }
-
-  /**
-   * Close WebSocket connection
-   */
-  close(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-    }
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.messageHandlers.clear();
-  }
+// API Gateway drops WebSocket messages larger than this
+const API_GATEWAY_MAX_MESSAGE_BYTES = 128 * 1024;
 
-  /**
-   * Check if WebSocket is connected
-   */
-  isConnected(): boolean {
-    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+/**
+ * Transport over the API Gateway WebSocket API backed by the websocket-handler Lambda
+ */
+export class ApiGatewayTransport extends WebSocketTransport {
+  constructor(url: string | undefined = process.env.NEXT_PUBLIC_API_GATEWAY_WS_URL) {
+    super('aws-websocket', url ?? '');
   }
 
-  /**
-   * Handle incoming messages
-   */
-  private handleMessage(data: string): void {
-    try {
-      const message: WSMessage = JSON.parse(data);
-      const handlers = this.messageHandlers.get(message.type);
-
-      if (handlers) {
-        handlers.forEach((handler) => handler(message.data));
-      }
-
-      // Also call handlers for 'all' message type
-      const allHandlers = this.messageHandlers.get('all');
-      if (allHandlers) {
-        allHandlers.forEach((handler) => handler(message));
-      }
-    } catch (error) {
-      console.error('Error parsing WebSocket message:', error);
-    }
+  isAvailable(): boolean {
+    return this.url !== '' && super.isAvailable();
   }
 
-  /**
-   * Handle reconnection
-   */
-  private handleReconnect(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-
-      console.log(`Reconnecting in ${delay}ms... (attempt ${this.reconnectAttempts})`);
-
-      this.reconnectTimeout = setTimeout(() => {
-        this.connect().catch((error) => {
-          console.error('Reconnection failed:', error);
-        });
-      }, delay);
-    } else {
-      console.error('Max reconnection attempts reached');
+  send(message: ClientMessage): boolean {
+    // Refuse up front rather than have the gateway close the connection
+    const size = new TextEncoder().encode(JSON.stringify(message)).length;
+    if (size > API_GATEWAY_MAX_MESSAGE_BYTES) {
+      log.warn('Message over API Gateway size limit', { type: message.type, size, limit: API_GATEWAY_MAX_MESSAGE_BYTES });
+      return false;
     }
-  }
-}
-
-// Singleton instance
-let wsClientInstance: WebSocketClient | null = null;
-
-/**
- * Get WebSocket client singleton instance
- */
-export function getWebSocketClient(): WebSocketClient {
-  if (!wsClientInstance) {
-    wsClientInstance = new WebSocketClient();
-  }
-  return wsClientInstance;
-}
-
-/**
- * Cleanup WebSocket client
- */
-export function closeWebSocketClient(): void {
-  if (wsClientInstance) {
-    wsClientInstance.close();
-    wsClientInstance = null;
+    return super.send(message);
   }
 }
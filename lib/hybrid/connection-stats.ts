@@ -0,0 +1,143 @@
+import { ConnectionMode } from '@/lib/hybrid/hybrid-client';
+import { RateMeter } from '@/lib/realtime/metrics';
+import { WireFormat } from '@/lib/realtime/wire-format';
+
+export type ConnectionQuality = 'excellent' | 'good' | 'poor' | 'offline';
+
+/**
+ * Snapshot of how the hybrid client's connection is doing
+ */
+export interface ConnectionStats {
+  mode: ConnectionMode;
+  wireFormat: WireFormat;
+  quality: ConnectionQuality;
+  // Round trip of the latest answered ping, and the average over recent ones
+  latencyMs: number | null;
+  averageLatencyMs: number | null;
+  // Pings that went unanswered since the client started
+  lostPings: number;
+  messagesSent: number;
+  messagesReceived: number;
+  // Messages per second over the last few seconds
+  sentPerSecond: number;
+  receivedPerSecond: number;
+  // Connections made after the first, whether on the same transport or a fallback
+  reconnects: number;
+  // Milliseconds spent in each mode, including the current one so far
+  timeInMode: Record<ConnectionMode, number>;
+  // When the current mode was entered
+  modeSince: number;
+}
+
+// Latency samples averaged for the quality indicator
+const LATENCY_SAMPLE_LIMIT = 10;
+// Round trips under these are excellent or good; anything slower is poor
+const EXCELLENT_LATENCY_MS = 150;
+const GOOD_LATENCY_MS = 400;
+
+/**
+ * Counts what goes over the hybrid client's connection: ping round trips,
+ * message throughput, reconnects and time spent in each mode
+ */
+export class ConnectionStatsTracker {
+  private mode: ConnectionMode = 'none';
+  private modeSince = Date.now();
+  private timeInMode: Record<ConnectionMode, number> = { websocket: 0, sse: 0, polling: 0, none: 0 };
+  private connects = 0;
+  private latencies: number[] = [];
+  private outstandingPing: { pingId: string; sentAt: number } | null = null;
+  // Whether the most recent ping went unanswered
+  private lastPingLost = false;
+  private lostPings = 0;
+  private messagesSent = 0;
+  private messagesReceived = 0;
+  private sentRate = new RateMeter();
+  private receivedRate = new RateMeter();
+
+  recordModeChange(mode: ConnectionMode): void {
+    const now = Date.now();
+    this.timeInMode[this.mode] += now - this.modeSince;
+    this.mode = mode;
+    this.modeSince = now;
+
+    // Round trips measured on another transport say nothing about this one
+    this.latencies = [];
+    this.outstandingPing = null;
+    this.lastPingLost = false;
+  }
+
+  recordConnect(): void {
+    this.connects++;
+  }
+
+  recordSent(count = 1): void {
+    this.messagesSent += count;
+    this.sentRate.record(count);
+  }
+
+  recordReceived(count = 1): void {
+    this.messagesReceived += count;
+    this.receivedRate.record(count);
+  }
+
+  /**
+   * Note a ping going out; a previous ping still unanswered counts as lost
+   */
+  recordPing(pingId: string): void {
+    if (this.outstandingPing) {
+      this.lostPings++;
+      this.lastPingLost = true;
+    }
+    this.outstandingPing = { pingId, sentAt: Date.now() };
+  }
+
+  /**
+   * Note a pong; returns false when it answers no outstanding ping
+   */
+  recordPong(pingId: string): boolean {
+    if (this.outstandingPing?.pingId !== pingId) return false;
+
+    this.latencies.push(Date.now() - this.outstandingPing.sentAt);
+    if (this.latencies.length > LATENCY_SAMPLE_LIMIT) {
+      this.latencies.shift();
+    }
+    this.outstandingPing = null;
+    this.lastPingLost = false;
+    return true;
+  }
+
+  getStats(connected: boolean, wireFormat: WireFormat = 'json'): ConnectionStats {
+    const now = Date.now();
+    const latencyMs = this.latencies.length > 0 ? this.latencies[this.latencies.length - 1] : null;
+    const averageLatencyMs = this.latencies.length > 0
+      ? Math.round(this.latencies.reduce((sum, latency) => sum + latency, 0) / this.latencies.length)
+      : null;
+
+    return {
+      mode: this.mode,
+      wireFormat,
+      quality: this.getQuality(connected, averageLatencyMs),
+      latencyMs,
+      averageLatencyMs,
+      lostPings: this.lostPings,
+      messagesSent: this.messagesSent,
+      messagesReceived: this.messagesReceived,
+      sentPerSecond: this.sentRate.perSecond(),
+      receivedPerSecond: this.receivedRate.perSecond(),
+      reconnects: Math.max(this.connects - 1, 0),
+      timeInMode: { ...this.timeInMode, [this.mode]: this.timeInMode[this.mode] + now - this.modeSince },
+      modeSince: this.modeSince,
+    };
+  }
+
+  private getQuality(connected: boolean, averageLatencyMs: number | null): ConnectionQuality {
+    if (!connected || this.mode === 'none') return 'offline';
+    if (this.lastPingLost) return 'poor';
+
+    // HTTP transports pay for a request per message however fast the network is
+    const best: ConnectionQuality = this.mode === 'websocket' ? 'excellent' : 'good';
+    if (averageLatencyMs === null) return best;
+    if (averageLatencyMs >= GOOD_LATENCY_MS) return 'poor';
+    return averageLatencyMs < EXCELLENT_LATENCY_MS ? best : 'good';
+  }
+}
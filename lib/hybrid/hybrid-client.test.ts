@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClientMessage, DrawingBroadcastMessage, DrawingEventMessage, ServerMessage } from '@/lib/realtime/protocol';
+import { Transport, TransportEmitter } from '@/lib/realtime/transport';
+import { HybridClient } from '@/lib/hybrid/hybrid-client';
+
+const SESSION_ID = 'session-1';
+
+/**
+ * WebSocket-like transport that connects at once and keeps what it's sent
+ */
+class FakeTransport extends TransportEmitter implements Transport {
+  readonly name = 'fake';
+  readonly mode = 'websocket' as const;
+  readonly duplex = true;
+  readonly probeable = false;
+  readonly sent: ClientMessage[] = [];
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async connect(): Promise<void> {}
+
+  send(message: ClientMessage): boolean {
+    this.sent.push(message);
+    return true;
+  }
+
+  detach(): void {}
+
+  close(): void {}
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  getWireFormat() {
+    return 'json' as const;
+  }
+
+  deliver(message: ServerMessage): void {
+    this.emit('message', message);
+  }
+}
+
+function stroke(id: string, timestamp = Date.now()): DrawingEventMessage {
+  return { type: 'drawing-event', sessionId: SESSION_ID, event: { type: 'stroke', id }, userId: 'host-1', timestamp };
+}
+
+describe('HybridClient peer route', () => {
+  let transport: FakeTransport;
+  let client: HybridClient;
+
+  beforeEach(async () => {
+    // The client only connects in a browser
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('sessionStorage', { getItem: () => null });
+
+    transport = new FakeTransport();
+    client = new HybridClient({ transports: [transport] });
+    await vi.waitFor(() => expect(client.isConnected()).toBe(true));
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends only to peers what the peer route reaches everyone with', () => {
+    const route = { send: vi.fn(() => true) };
+    client.joinSession(SESSION_ID, 'host-1', true);
+    client.setPeerRoute(route);
+
+    client.send(stroke('a'));
+
+    expect(route.send).toHaveBeenCalledWith(expect.objectContaining({ type: 'drawing-event' }));
+    expect(transport.sent).not.toContainEqual(expect.objectContaining({ type: 'drawing-event' }));
+  });
+
+  it('sends through the server what the peer route can\'t deliver', () => {
+    client.joinSession(SESSION_ID, 'host-1', true);
+    client.setPeerRoute({ send: () => false });
+
+    client.send(stroke('a'));
+
+    expect(transport.sent).toContainEqual(expect.objectContaining({ type: 'drawing-event' }));
+  });
+
+  it('takes each message once, whichever way it arrives first', () => {
+    const drawn: DrawingBroadcastMessage[] = [];
+    client.joinSession(SESSION_ID, 'viewer-1');
+    client.on('drawing-event', (message) => drawn.push(message));
+
+    // The server restamps what it relays
+    client.receiveFromPeer(stroke('a', 1));
+    transport.deliver({ ...stroke('a', 2), seq: 1 });
+    transport.deliver({ ...stroke('b', 3), seq: 2 });
+    client.receiveFromPeer(stroke('b', 4));
+
+    expect(drawn.map((message) => message.event.id)).toEqual(['a', 'b']);
+  });
+});
@@ -1,308 +1,862 @@
-import { getPollingClient, PollingClient } from '@/lib/polling/polling-client';
-
-export interface HybridMessage {
-  type: string;
-  sessionId?: string;
-  userId?: string | null;
-  timestamp: number;
-  [key: string]: any;
+import { ConnectionStats, ConnectionStatsTracker } from '@/lib/hybrid/connection-stats';
+import { createTransports } from '@/lib/hybrid/transports';
+import { MessageBatcher } from '@/lib/realtime/message-batcher';
+import { RpcChannel, RpcError, RpcRequestOptions } from '@/lib/realtime/rpc';
+import { EncodedState, StateDeltaDecoder, StateDeltaEncoder } from '@/lib/realtime/state-delta';
+import { Transport, TransportEventMap, TransportMode } from '@/lib/realtime/transport';
+import {
+  ClientMessage,
+  DrawingEventPayload,
+  GrantableRole,
+  LEGACY_CAPABILITIES,
+  LEGACY_PROTOCOL_VERSION,
+  ProtocolCapability,
+  RpcMethod,
+  RpcParams,
+  RpcResult,
+  ServerMessage,
+  ServerMessageMap,
+  SessionStatePatchedMessage,
+  SessionStateUpdatedMessage,
+  SignalType,
+  StatePatchMessage,
+  StateUpdateMessage,
+  WelcomeMessage,
+  createHelloMessage,
+  generateClientMessageId,
+  unpackBatch,
+} from '@/lib/realtime/protocol';
+import { getStoredTokens } from '@/lib/utils/auth-helpers';
+import { createLogger } from '@/lib/utils/logger';
+import { SessionState } from '@/types';
+
+const log = createLogger('hybrid-client');
+
+export type ConnectionMode = TransportMode | 'none';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Progress of an outgoing message that carries a `messageId`
+ */
+export interface DeliveryUpdate {
+  messageId: string;
+  status: DeliveryStatus;
+  // Why the message failed, when it did
+  reason?: string;
 }
 
-export interface DrawingMessage extends HybridMessage {
-  event: any;
+/**
+ * Events emitted by the hybrid client: every server message type plus connection lifecycle
+ */
+export type HybridEventMap = ServerMessageMap & {
+  connect: { mode: ConnectionMode };
+  disconnect: { mode: ConnectionMode };
+  'mode-changed': { from: ConnectionMode; to: ConnectionMode };
+  delivery: DeliveryUpdate;
+  stats: ConnectionStats;
+};
+
+export type HybridEvent = keyof HybridEventMap;
+
+export type HybridEventHandler<E extends HybridEvent> = (data: HybridEventMap[E]) => void;
+
+/**
+ * A direct path to the session's other participants, such as WebRTC data channels.
+ * `send` returns false when it can't reach everyone the message is for; the message
+ * then goes over the transport as usual. Receivers drop a message that arrives both
+ * ways, e.g. while a channel opens.
+ */
+export interface PeerRoute {
+  send(message: ClientMessage): boolean;
 }
 
-export interface CursorMessage extends HybridMessage {
-  x: number;
-  y: number;
+export interface HybridClientOptions {
+  // Transports in order of preference; defaults to NEXT_PUBLIC_REALTIME_TRANSPORTS or the built-in order
+  transports?: Transport[];
 }
 
-export interface ChatMessage extends HybridMessage {
-  id: string;
-  message: string;
-  userName?: string;
+// How long a transport may take to open before the next one is tried
+const CONNECT_TIMEOUT_MS = 5000;
+// Background probing for a preferred transport while on a fallback
+const UPGRADE_BASE_DELAY_MS = 2000;
+const UPGRADE_MAX_DELAY_MS = 60000;
+const UPGRADE_PROBE_TIMEOUT_MS = 5000;
+// On HTTP transports every send is a request, so batch over a longer window than a frame
+const HTTP_BATCH_INTERVAL_MS = 100;
+// Fingerprints of messages received over HTTP, kept to drop their repeats over a WebSocket;
+// as many as a WebSocket server replays
+const RECENT_MESSAGE_LIMIT = 500;
+// Messages held while no transport is connected; the oldest are dropped beyond this
+const OUTBOX_LIMIT = 500;
+// How long a sent message may go unacknowledged before it is reported failed
+const ACK_TIMEOUT_MS = 10000;
+// Failed messages kept around so callers can retry them
+const FAILED_MESSAGE_LIMIT = 100;
+// How often latency is measured and a `stats` event emitted
+const PING_INTERVAL_MS = 5000;
+
+/**
+ * What identifies a message a host sends over a peer route as well as through the
+ * server, whichever way it arrives. The server restamps timestamps, so they're left out.
+ * Null for messages that only ever come from the server.
+ */
+function peerCopyKey(message: ServerMessage): string | null {
+  switch (message.type) {
+    case 'drawing-event':
+      return `drawing-event:${JSON.stringify(message.event)}`;
+    case 'cursor-moved':
+      return `cursor-moved:${message.userId ?? ''}:${message.x}:${message.y}`;
+    case 'session-state-updated':
+      // Unversioned updates can't be told apart
+      return message.version != null ? `session-state-updated:${message.version}` : null;
+    case 'session-state-patched':
+      return `session-state-patched:${message.baseVersion}:${message.version}`;
+    default:
+      return null;
+  }
 }
 
 /**
- * Hybrid client that tries Lambda WebSocket first, falls back to HTTP polling
+ * Hybrid client that picks a transport from an ordered list of adapters
+ * (by default the local WebSocket server, the Lambda WebSocket API, Server-Sent
+ * Events and finally HTTP polling), falls back down the list when one fails and
+ * probes for a preferred one again while on a fallback
  */
 export class HybridClient {
-  private ws: WebSocket | null = null;
-  private pollingClient: PollingClient;
+  private transports: Transport[];
+  private active: Transport | null = null;
+  // Transports that failed in a way retrying won't fix
+  private unusable: Set<Transport> = new Set();
+  // Bumped whenever the transport changes, so stale connection attempts are ignored
+  private transportGeneration = 0;
   private currentSessionId: string | null = null;
-  private messageHandlers: Map<string, Set<(data: any) => void>> = new Map();
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 3;
+  private messageHandlers: Map<HybridEvent, Set<(data: any) => void>> = new Map();
   private userId: string | null = null;
   private isHost = false;
-  private connectionMode: 'websocket' | 'polling' | 'none' = 'none';
-  private wsConnectionTimeout: NodeJS.Timeout | null = null;
+  private connectionMode: ConnectionMode = 'none';
+  // Highest session sequence number delivered, used to resume after a reconnect
+  private lastSeq: number | null = null;
+  private recentMessages: Set<string> = new Set();
+  // Fingerprints of messages that may come both from the server and over the peer route,
+  // with the way they came first
+  private peerCopies: Map<string, 'server' | 'peer'> = new Map();
+  private upgradeTimer: NodeJS.Timeout | null = null;
+  private upgradeAttempts = 0;
+  // Previous transport to release once the upgraded one has rejoined the session
+  private pendingRelease: Transport | null = null;
+  // Outgoing messages waiting for a transport, in send order
+  private outbox: ClientMessage[] = [];
+  // Messages with a `messageId` that haven't been acknowledged yet; the timer runs once they are on the wire
+  private unacknowledged: Map<string, { message: ClientMessage; timer: NodeJS.Timeout | null }> = new Map();
+  private failedMessages: Map<string, ClientMessage> = new Map();
+  private stats = new ConnectionStatsTracker();
+  // State this client publishes, sent as patches against the version receivers hold
+  private stateEncoder = new StateDeltaEncoder();
+  // State received from the host, rebuilt from full updates and patches
+  private stateDecoder = new StateDeltaDecoder();
+  private stateResyncPending = false;
+  private pingTimer: NodeJS.Timeout | null = null;
+  // Agreed with the server behind the active transport; servers that never answer `hello` get the legacy set
+  private protocolVersion = LEGACY_PROTOCOL_VERSION;
+  private capabilities: ReadonlySet<ProtocolCapability> = new Set(LEGACY_CAPABILITIES);
+  // Transport the current `hello` went out on
+  private greeted: Transport | null = null;
+  private peerRoute: PeerRoute | null = null;
+  // Requests need a transport the server can answer on directly
+  private rpc = new RpcChannel((request) => {
+    if (!this.active?.duplex) return false;
+    this.send(request);
+    return true;
+  });
+  private batcher = new MessageBatcher(
+    (message) => this.send(message),
+    () => (this.connectionMode === 'websocket' ? 0 : HTTP_BATCH_INTERVAL_MS)
+  );
+
+  constructor(options: HybridClientOptions = {}) {
+    this.transports = options.transports ?? createTransports();
+
+    this.transports.forEach((transport) => {
+      transport.on('message', (message) => this.handleTransportMessage(transport, message));
+      transport.on('close', (event) => this.handleTransportClose(transport, event));
+    });
 
-  constructor() {
-    this.pollingClient = getPollingClient();
-    
     // Only attempt connection on client side
     if (typeof window !== 'undefined') {
-      this.startLocalWebSocketServer().then(() => {
-        this.attemptWebSocketConnection();
-      });
+      this.pingTimer = setInterval(() => this.measureConnection(), PING_INTERVAL_MS);
+      this.connectFrom(0);
     }
   }
 
-  private async startLocalWebSocketServer(): Promise<void> {
-    try {
-      console.log('🚀 Starting local WebSocket server...');
-      const response = await fetch('/api/websocket/start', { method: 'POST' });
-      const result = await response.json();
-      
-      if (result.success) {
-        console.log('✅ Local WebSocket server started:', result.url);
-      } else {
-        console.warn('⚠️ Failed to start local WebSocket server:', result.error);
+  /**
+   * Open the first usable transport from `index` on, in order of preference
+   */
+  private async connectFrom(index: number): Promise<void> {
+    const generation = ++this.transportGeneration;
+
+    for (let i = index; i < this.transports.length; i++) {
+      const transport = this.transports[i];
+      if (!transport.isAvailable() || this.unusable.has(transport)) continue;
+
+      try {
+        await transport.connect(CONNECT_TIMEOUT_MS);
+      } catch (error) {
+        log.info('Transport unavailable, trying the next one', { transport: transport.name, error });
+        continue;
       }
-    } catch (error) {
-      console.warn('⚠️ Could not start local WebSocket server:', error);
+
+      // Superseded (e.g. disconnected) while connecting
+      if (generation !== this.transportGeneration) {
+        transport.close();
+        return;
+      }
+
+      this.activate(transport);
+      return;
     }
+
+    log.warn('No realtime transport could connect, retrying');
+    this.scheduleUpgrade();
   }
 
-  private attemptWebSocketConnection(): void {
-    // Try local WebSocket server first, then fall back to AWS
-    const localWsUrl = 'ws://localhost:8081';
-    const awsWsUrl = process.env.NEXT_PUBLIC_API_GATEWAY_WS_URL;
-    
-    console.log('🔍 Trying local WebSocket server first:', localWsUrl);
-    
-    // Start with local WebSocket server
-    this.tryWebSocketUrl(localWsUrl, () => {
-      console.log('🔄 Local WebSocket failed, trying AWS...');
-      if (awsWsUrl) {
-        this.tryWebSocketUrl(awsWsUrl, () => {
-          console.log('🔄 AWS WebSocket also failed, falling back to polling');
-          this.fallbackToPolling();
-        });
+  private activate(transport: Transport): void {
+    this.active = transport;
+    this.upgradeAttempts = 0;
+    this.setConnectionMode(transport.mode);
+    this.stats.recordConnect();
+    this.resetProtocol();
+    this.emit('connect', { mode: transport.mode });
+
+    // Rejoin session if we were in one, resuming from the last sequence we saw
+    if (this.currentSessionId) {
+      log.info('Rejoining session', { transport: transport.name });
+      this.joinSession(this.currentSessionId, this.userId ?? undefined, this.isHost);
+    } else {
+      this.greet(transport);
+    }
+    this.flushOutbox();
+
+    this.scheduleUpgrade();
+  }
+
+  private handleTransportClose(transport: Transport, event: TransportEventMap['close']): void {
+    if (event.permanent) {
+      this.unusable.add(transport);
+    }
+
+    if (transport === this.pendingRelease) {
+      this.pendingRelease = null;
+      return;
+    }
+    if (transport !== this.active) return;
+
+    log.info('Transport closed, trying fallback', { transport: transport.name, reason: event.reason });
+    const mode = this.connectionMode;
+    this.deactivate();
+    this.emit('disconnect', { mode });
+
+    this.connectFrom(this.transports.indexOf(transport) + 1);
+  }
+
+  private deactivate(): void {
+    const transport = this.active;
+    this.active = null;
+    this.transportGeneration++;
+    this.cancelUpgrade();
+    this.setConnectionMode('none');
+
+    if (this.pendingRelease) {
+      this.pendingRelease.detach();
+      this.pendingRelease = null;
+    }
+
+    if (transport?.duplex) {
+      // Responses would have come back on this transport
+      this.rpc.rejectAll('unavailable', 'The connection closed before the server responded');
+    }
+  }
+
+  /**
+   * Preferred transports worth probing for while on the active one
+   */
+  private getUpgradeCandidates(): Transport[] {
+    const activeIndex = this.active ? this.transports.indexOf(this.active) : this.transports.length;
+
+    return this.transports
+      .slice(0, activeIndex)
+      .filter((transport) => transport.isAvailable() && !this.unusable.has(transport) && (!this.active || transport.probeable));
+  }
+
+  /**
+   * While on a fallback (or on nothing), probe for a preferred transport again with exponential backoff
+   */
+  private scheduleUpgrade(): void {
+    if (this.upgradeTimer || this.getUpgradeCandidates().length === 0) return;
+
+    const delay = Math.min(UPGRADE_BASE_DELAY_MS * 2 ** this.upgradeAttempts, UPGRADE_MAX_DELAY_MS);
+    // Jitter so clients that lost the server together don't probe in lockstep
+    const jitter = Math.random() * delay * 0.2;
+
+    log.debug('Probing preferred transports again', { delayMs: Math.round(delay + jitter) });
+    this.upgradeTimer = setTimeout(() => {
+      this.upgradeTimer = null;
+
+      if (!this.active) {
+        this.upgradeAttempts++;
+        this.connectFrom(0);
       } else {
-        console.log('🔄 No AWS WebSocket URL configured, falling back to polling');
-        this.fallbackToPolling();
+        this.probeUpgrade();
       }
-    });
+    }, delay + jitter);
   }
 
-  private tryWebSocketUrl(wsUrl: string, onFail: () => void): void {
-    console.log('🚀 Attempting WebSocket connection to:', wsUrl);
-    
-    // Set a timeout for WebSocket connection
-    this.wsConnectionTimeout = setTimeout(() => {
-      console.log('⏰ WebSocket connection timeout');
-      onFail();
-    }, 5000); // 5 second timeout
+  private async probeUpgrade(): Promise<void> {
+    const generation = this.transportGeneration;
 
-    try {
-      this.ws = new WebSocket(wsUrl);
+    for (const candidate of this.getUpgradeCandidates()) {
+      try {
+        await candidate.connect(UPGRADE_PROBE_TIMEOUT_MS);
+      } catch {
+        continue;
+      }
 
-      this.ws.onopen = () => {
-        if (this.wsConnectionTimeout) {
-          clearTimeout(this.wsConnectionTimeout);
-          this.wsConnectionTimeout = null;
-        }
-        
-        console.log('✅ WebSocket connected successfully to:', wsUrl);
-        this.connectionMode = 'websocket';
-        this.reconnectAttempts = 0;
-        this.emit('connect', { mode: 'websocket' });
-        
-        // Rejoin session if we were in one
-        if (this.currentSessionId && this.userId) {
-          console.log('🔄 Rejoining session via WebSocket after connection');
-          this.joinSession(this.currentSessionId, this.userId, this.isHost);
-        }
-      };
+      if (generation !== this.transportGeneration) {
+        if (candidate !== this.active) candidate.close();
+        return;
+      }
 
-      this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          console.log('📨 Received WebSocket message:', data.type);
-          this.handleMessage(data);
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
+      this.upgradeTo(candidate);
+      return;
+    }
 
-      this.ws.onclose = (event) => {
-        if (this.wsConnectionTimeout) {
-          clearTimeout(this.wsConnectionTimeout);
-          this.wsConnectionTimeout = null;
-        }
-        
-        console.log('❌ WebSocket disconnected:', event.code, event.reason);
-        
-        if (this.connectionMode === 'websocket') {
-          console.log('🔄 WebSocket disconnected, trying fallback...');
-          onFail();
-        }
-      };
+    this.upgradeAttempts++;
+    this.scheduleUpgrade();
+  }
 
-      this.ws.onerror = (error) => {
-        if (this.wsConnectionTimeout) {
-          clearTimeout(this.wsConnectionTimeout);
-          this.wsConnectionTimeout = null;
-        }
-        
-        console.error('❌ WebSocket error:', error);
-        console.error('❌ WebSocket readyState:', this.ws?.readyState);
-        console.error('❌ WebSocket URL was:', wsUrl);
-        
-        if (this.connectionMode === 'none') {
-          console.log('🔄 WebSocket failed to connect, trying fallback');
-          onFail();
-        }
-      };
+  /**
+   * Move an active session onto a freshly opened, preferred transport.
+   * The previous transport keeps delivering until the new one has rejoined, and
+   * `receive` drops anything delivered by both, so nothing is lost or repeated.
+   */
+  private upgradeTo(transport: Transport): void {
+    const previous = this.active!;
+    log.info('Upgrading transport', { from: previous.name, to: transport.name });
 
-    } catch (error) {
-      if (this.wsConnectionTimeout) {
-        clearTimeout(this.wsConnectionTimeout);
-        this.wsConnectionTimeout = null;
+    this.transportGeneration++;
+    this.upgradeAttempts = 0;
+    this.active = transport;
+    this.setConnectionMode(transport.mode);
+    this.resetProtocol();
+
+    if (this.currentSessionId) {
+      // Only transports the server answers directly confirm the rejoin
+      if (transport.duplex) {
+        this.pendingRelease = previous;
+      } else {
+        previous.detach();
       }
-      
-      console.error('❌ Failed to create WebSocket connection:', error);
-      onFail();
+
+      transport.send({
+        type: 'join-session',
+        sessionId: this.currentSessionId,
+        userId: this.userId ?? undefined,
+        isHost: this.isHost,
+        ...this.getJoinCredentials(),
+        ...(this.lastSeq !== null ? { lastSeq: this.lastSeq } : {}),
+        timestamp: Date.now()
+      });
+    } else {
+      previous.detach();
     }
+    this.greet(transport);
+
+    if (previous.duplex) {
+      this.rpc.rejectAll('unavailable', 'The connection changed before the server responded');
+    }
+
+    this.scheduleUpgrade();
   }
 
-  private attemptWebSocketReconnect(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`🔄 WebSocket reconnect attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}`);
-      
-      setTimeout(() => {
-        this.attemptWebSocketConnection();
-      }, 1000 * this.reconnectAttempts);
+  /**
+   * Offer the server this client's protocol version and capabilities. HTTP transports
+   * post it to the session, so they only greet once joined.
+   */
+  private greet(transport: Transport): void {
+    if (this.greeted === transport || (!transport.duplex && !this.currentSessionId)) return;
+
+    const capabilities: ProtocolCapability[] = ['batching', 'acks'];
+    if (transport.getWireFormat() === 'binary') {
+      capabilities.push('binary');
+    }
+
+    if (transport.send(createHelloMessage(capabilities))) {
+      this.greeted = transport;
+    }
+  }
+
+  private resetProtocol(): void {
+    this.protocolVersion = LEGACY_PROTOCOL_VERSION;
+    this.capabilities = new Set(LEGACY_CAPABILITIES);
+    this.greeted = null;
+  }
+
+  private applyWelcome(message: WelcomeMessage): void {
+    this.protocolVersion = message.protocolVersion;
+    this.capabilities = new Set(message.capabilities);
+    log.info('Protocol negotiated', { protocolVersion: message.protocolVersion, capabilities: message.capabilities });
+
+    if (!this.capabilities.has('acks')) {
+      // No acks are coming for messages already on the wire
+      this.unacknowledged.forEach(({ timer }, messageId) => {
+        if (timer) this.settleDelivery(messageId, 'sent');
+      });
+    }
+  }
+
+  /**
+   * The server behind a transport no longer understands this client. Stop using it
+   * and fall back; the error is still emitted, so the page can ask for a reload.
+   */
+  private rejectOutdated(transport: Transport, reason: string): void {
+    log.error('Server requires a newer client', { transport: transport.name, reason });
+    transport.close();
+    this.handleTransportClose(transport, { transport: transport.name, reason, permanent: true });
+  }
+
+  private cancelUpgrade(): void {
+    if (this.upgradeTimer) {
+      clearTimeout(this.upgradeTimer);
+      this.upgradeTimer = null;
+    }
+  }
+
+  private setConnectionMode(mode: ConnectionMode): void {
+    const from = this.connectionMode;
+    if (from === mode) return;
+
+    this.connectionMode = mode;
+    this.stats.recordModeChange(mode);
+    this.emit('mode-changed', { from, to: mode });
+    this.emit('stats', this.getStats());
+  }
+
+  private handleTransportMessage(transport: Transport, message: ServerMessage): void {
+    // Only the active transport, and the one it is taking over from, carry the session
+    if (transport !== this.active && transport !== this.pendingRelease) return;
+
+    this.receive(message, transport);
+  }
+
+  private receive(message: ServerMessage, transport: Transport): void {
+    if (this.isDuplicate(message, transport)) {
+      return;
+    }
+    if (this.isPeerCopy(message, 'server')) {
+      if (message.seq !== undefined) {
+        this.lastSeq = Math.max(this.lastSeq ?? 0, message.seq);
+      }
+      return;
+    }
+
+    if (message.type === 'pong') {
+      if (this.stats.recordPong(message.pingId)) {
+        this.emit('stats', this.getStats());
+      }
     } else {
-      console.log('🔄 Max WebSocket reconnect attempts reached, falling back to polling');
-      this.fallbackToPolling();
+      this.stats.recordReceived();
     }
+
+    if (message.type === 'welcome') {
+      if (transport === this.active) this.applyWelcome(message);
+    } else if (message.type === 'error' && message.ref === 'hello' && message.code === 'unknown-type') {
+      // A server from before the handshake; the legacy capabilities already apply
+      log.debug('Server does not negotiate a protocol', { transport: transport.name });
+      return;
+    } else if (message.type === 'error' && message.code === 'upgrade-required') {
+      this.rejectOutdated(transport, message.message);
+    }
+
+    if (message.type === 'rpc-response' || message.type === 'rpc-error') {
+      this.rpc.handleResponse(message);
+    } else if (message.type === 'ack') {
+      this.settleDelivery(message.messageId, 'sent');
+    } else if (message.type === 'error' && message.messageId) {
+      this.settleDelivery(message.messageId, 'failed', message.message);
+    }
+
+    if (message.type === 'error' && message.code === 'version-mismatch') {
+      // The server doesn't hold the state our patches build on, so start it over
+      const snapshot = this.stateEncoder.snapshot();
+      if (snapshot) {
+        this.sendEncodedState(snapshot);
+      }
+    }
+
+    if (message.type === 'session-snapshot') {
+      // The gap was too old to replay; continue from the snapshot's position
+      this.lastSeq = message.seq;
+      this.stateDecoder.reset(message.state, message.version);
+    } else if (message.type === 'session-joined') {
+      if (message.seq !== undefined) {
+        this.lastSeq = Math.max(this.lastSeq ?? 0, message.seq);
+      }
+
+      // The upgraded transport is back in the session, so the previous one can go
+      if (this.pendingRelease && transport === this.active) {
+        const previous = this.pendingRelease;
+        this.pendingRelease = null;
+        previous.detach();
+      }
+    } else if (message.seq !== undefined) {
+      if (this.lastSeq !== null && message.seq <= this.lastSeq) {
+        // Already delivered before the reconnect
+        return;
+      }
+      this.lastSeq = message.seq;
+    }
+
+    if (message.type === 'session-state-updated' || message.type === 'session-state-patched') {
+      this.receiveState(message);
+      return;
+    }
+
+    this.emit(message.type, message);
   }
 
-  private fallbackToPolling(): void {
-    if (this.connectionMode === 'polling') {
-      console.log('⚠️ Already using polling mode');
+  /**
+   * Fold a state update or patch into the session state and emit the result
+   * as `session-state-updated`, so listeners always see the whole state
+   */
+  private receiveState(message: SessionStateUpdatedMessage | SessionStatePatchedMessage): void {
+    const result = this.stateDecoder.update(message);
+
+    if (result === 'out-of-sync') {
+      this.resyncState();
       return;
     }
+    if (result === 'duplicate') return;
 
-    console.log('🔄 Switching to HTTP polling mode');
-    this.connectionMode = 'polling';
-    
-    // Close WebSocket if it exists
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    if (message.type === 'session-state-patched') {
+      this.emit('session-state-patched', message);
     }
+    this.emit('session-state-updated', {
+      type: 'session-state-updated',
+      state: this.stateDecoder.state!,
+      ...(this.stateDecoder.version !== null ? { version: this.stateDecoder.version } : {}),
+      ...(message.seq !== undefined ? { seq: message.seq } : {}),
+      timestamp: message.timestamp,
+    });
+  }
 
-    // Set up polling client event handlers
-    this.setupPollingHandlers();
-    
-    // Emit connect event for polling
-    this.emit('connect', { mode: 'polling' });
-    
-    // Join session via polling if we have one
-    if (this.currentSessionId && this.userId) {
-      console.log('🔄 Rejoining session via polling after fallback');
-      this.pollingClient.joinSession(this.currentSessionId, this.userId, this.isHost);
-    }
-  }
-
-  private setupPollingHandlers(): void {
-    // Forward polling events to our handlers
-    this.pollingClient.on('drawing-event', (data) => this.emit('drawing-event', data));
-    this.pollingClient.on('cursor-moved', (data) => this.emit('cursor-moved', data));
-    this.pollingClient.on('chat-message', (data) => this.emit('chat-message', data));
-    this.pollingClient.on('user-joined', (data) => this.emit('user-joined', data));
-    this.pollingClient.on('user-left', (data) => this.emit('user-left', data));
-    this.pollingClient.on('session-state-updated', (data) => this.emit('session-state-updated', data));
-    this.pollingClient.on('webrtc-signal', (data) => this.emit('webrtc-signal', data));
-  }
-
-  private handleMessage(message: HybridMessage): void {
-    switch (message.type) {
-      case 'drawing-event':
-        this.emit('drawing-event', message);
-        break;
-      case 'cursor-moved':
-        this.emit('cursor-moved', message);
-        break;
-      case 'chat-message':
-        this.emit('chat-message', message);
-        break;
-      case 'user-joined':
-        this.emit('user-joined', message);
-        break;
-      case 'user-left':
-        this.emit('user-left', message);
-        break;
-      case 'session-state-updated':
-        this.emit('session-state-updated', message);
-        break;
-      case 'webrtc-signal':
-        this.emit('webrtc-signal', message);
-        break;
-      default:
-        console.log('Unknown message type:', message.type);
-    }
-  }
-
-  private sendViaWebSocket(message: HybridMessage): boolean {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+  /**
+   * Fetch the whole state after a patch that doesn't build on ours: from the
+   * server over a duplex transport, or else from the session's state route
+   */
+  private async resyncState(): Promise<void> {
+    const sessionId = this.currentSessionId;
+    if (!sessionId || this.stateResyncPending) return;
+
+    this.stateResyncPending = true;
+    try {
+      let snapshot: { state: SessionState | null; version?: number | null };
+      if (this.active?.duplex) {
+        snapshot = await this.request('session.snapshot', {});
+      } else {
+        const response = await fetch(`/api/sessions/${sessionId}/state`);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        snapshot = await response.json();
+      }
+
+      if (sessionId !== this.currentSessionId || !snapshot.state) return;
+
+      this.stateDecoder.reset(snapshot.state, snapshot.version);
+      this.emit('session-state-updated', {
+        type: 'session-state-updated',
+        state: snapshot.state,
+        ...(snapshot.version != null ? { version: snapshot.version } : {}),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      log.warn('Could not fetch the session state', { sessionId, error });
+    } finally {
+      this.stateResyncPending = false;
+    }
+  }
+
+  /**
+   * Messages published over HTTP carry no sequence number until a WebSocket server
+   * relays them, so after an upgrade or reconnect the WebSocket can deliver again,
+   * live or replayed from `lastSeq`, what already arrived over HTTP. Those are matched
+   * on content: the broker keeps timestamps unique per session, so a fingerprint taken
+   * over HTTP identifies the message. Anything with a sequence number is left to `lastSeq`.
+   */
+  private isDuplicate(message: ServerMessage, transport: Transport): boolean {
+    const key = [
+      message.type,
+      message.timestamp,
+      'userId' in message ? message.userId : '',
+      'id' in message ? message.id : '',
+    ].join(':');
+
+    // HTTP transports read the broker's history; WebSocket ones (Socket.IO too) deliver directly
+    if (transport.mode !== 'websocket') {
+      if (message.seq !== undefined) return false;
+      if (this.recentMessages.has(key)) return true;
+
+      this.recentMessages.add(key);
+      if (this.recentMessages.size > RECENT_MESSAGE_LIMIT) {
+        // Sets iterate in insertion order, so this drops the oldest key
+        this.recentMessages.delete(this.recentMessages.values().next().value!);
+      }
+      return false;
+    }
+
+    // Messages sent straight over a WebSocket may share a timestamp (e.g. one batch's
+    // drawing events), so they are only ever checked against what came over HTTP
+    if (!this.recentMessages.has(key)) return false;
+
+    if (message.seq !== undefined) {
+      // Seen already, so the server needn't replay it on the next resume
+      this.lastSeq = Math.max(this.lastSeq ?? 0, message.seq);
+    }
+    return true;
+  }
+
+  /**
+   * Whether the other way already delivered this message; records it otherwise
+   */
+  private isPeerCopy(message: ServerMessage, source: 'server' | 'peer'): boolean {
+    const key = peerCopyKey(message);
+    if (!key) return false;
+
+    const first = this.peerCopies.get(key);
+    if (first && first !== source) {
+      this.peerCopies.delete(key);
       return true;
     }
+
+    this.peerCopies.set(key, source);
+    if (this.peerCopies.size > RECENT_MESSAGE_LIMIT) {
+      // Maps iterate in insertion order, so this drops the oldest key
+      this.peerCopies.delete(this.peerCopies.keys().next().value!);
+    }
     return false;
   }
 
-  private sendViaPolling(message: HybridMessage): void {
-    switch (message.type) {
-      case 'join-session':
-        this.pollingClient.joinSession(message.sessionId!, message.userId ?? undefined, message.isHost);
-        break;
-      case 'leave-session':
-        this.pollingClient.leaveSession();
-        break;
-      case 'drawing-event':
-        this.pollingClient.sendDrawingEvent(message.event, message.userId ?? undefined);
-        break;
-      case 'cursor-move':
-        this.pollingClient.sendCursorMove(message.x!, message.y!, message.userId ?? undefined);
-        break;
-      case 'chat-message':
-        this.pollingClient.sendChatMessage(message.message!, message.userId ?? undefined, message.userName);
-        break;
-      case 'state-update':
-        this.pollingClient.sendStateUpdate(message.state);
-        break;
-      case 'webrtc-signal':
-        this.pollingClient.sendWebRTCSignal(message.signal, message.signalType!, message.to);
-        break;
-    }
-  }
-
-  private send(message: HybridMessage): void {
-    console.log(`📤 Sending ${message.type} via ${this.connectionMode}`);
-    
-    if (this.connectionMode === 'websocket') {
-      if (!this.sendViaWebSocket(message)) {
-        console.warn('⚠️ WebSocket send failed, falling back to polling');
-        this.fallbackToPolling();
-        this.sendViaPolling(message);
+  send(message: ClientMessage): void {
+    // Anything still batched goes first so it isn't overtaken
+    if (message.type !== 'batch' && message.type !== 'drawing-event' && message.type !== 'cursor-move') {
+      this.batcher.flush();
+    }
+
+    this.trackDelivery(message);
+
+    if (this.peerRoute?.send(message)) {
+      log.debug('Sent message directly to peers', { type: message.type });
+      this.stats.recordSent(message.type === 'batch' ? message.messages.length : 1);
+      if (message.messageId) {
+        this.settleDelivery(message.messageId, 'sent');
       }
-    } else if (this.connectionMode === 'polling') {
-      this.sendViaPolling(message);
-    } else {
-      console.error('❌ No active connection mode');
+      return;
     }
+
+    this.transmit(message);
+  }
+
+  /**
+   * Send over the active transport, or hold the message until one connects
+   */
+  private transmit(message: ClientMessage): void {
+    if (!this.active) {
+      this.holdInOutbox(message);
+      return;
+    }
+
+    if (message.type === 'batch' && !this.capabilities.has('batching')) {
+      unpackBatch(message).forEach((inner) => {
+        this.trackDelivery(inner);
+        this.transmit(inner);
+      });
+      return;
+    }
+
+    log.debug('Sending message', { type: message.type, transport: this.active.name });
+
+    if (!this.active.send(message)) {
+      if (!this.active.isConnected()) {
+        // Dropped under us; its close moves us to another transport, which sends this
+        log.warn('Send failed, holding message until a transport connects', { type: message.type, transport: this.active.name });
+        this.holdInOutbox(message);
+      } else {
+        log.warn('Transport cannot carry message', { type: message.type, transport: this.active.name });
+        if (message.messageId) {
+          this.settleDelivery(message.messageId, 'failed', `Not supported over ${this.active.name}`);
+        }
+      }
+      return;
+    }
+
+    this.stats.recordSent(message.type === 'batch' ? message.messages.length : 1);
+
+    if (message.messageId) {
+      if (this.capabilities.has('acks')) {
+        this.awaitAck(message.messageId);
+      } else {
+        // On the wire is as far as delivery can be followed
+        this.settleDelivery(message.messageId, 'sent');
+      }
+    }
+  }
+
+  /**
+   * Ping over the current transport and report the stats so far.
+   * HTTP transports post pings to the session, so they only ping once joined.
+   */
+  private measureConnection(): void {
+    if (this.active && this.isConnected() && (this.active.duplex || this.currentSessionId)) {
+      const pingId = `ping_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+      if (this.active.send({ type: 'ping', pingId, timestamp: Date.now() })) {
+        this.stats.recordPing(pingId);
+      }
+    }
+
+    this.emit('stats', this.getStats());
+  }
+
+  /**
+   * Keep a message until a transport connects. Joins and leaves aren't held:
+   * connecting rejoins the current session anyway.
+   */
+  private holdInOutbox(message: ClientMessage): void {
+    if (message.type === 'join-session' || message.type === 'leave-session') return;
+
+    log.debug('No connection yet, holding message in the outbox', { type: message.type });
+    this.outbox.push(message);
+
+    if (this.outbox.length > OUTBOX_LIMIT) {
+      const dropped = this.outbox.shift()!;
+      if (dropped.messageId) {
+        this.settleDelivery(dropped.messageId, 'failed', 'Outbox full');
+      }
+    }
+  }
+
+  /**
+   * Send everything held while offline, once the session has been rejoined
+   */
+  private flushOutbox(): void {
+    const held = this.outbox;
+    this.outbox = [];
+
+    held.forEach((message) => {
+      // Messages for a session we have since left have nowhere to go
+      if ('sessionId' in message && message.sessionId !== this.currentSessionId) {
+        if (message.messageId) {
+          this.settleDelivery(message.messageId, 'failed', 'Left the session before it was sent');
+        }
+        return;
+      }
+      // Held because the peer route couldn't take them when they were sent
+      this.transmit(message);
+    });
+  }
+
+  private awaitAck(messageId: string): void {
+    const entry = this.unacknowledged.get(messageId);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      this.settleDelivery(messageId, 'failed', 'No acknowledgement from the server');
+    }, ACK_TIMEOUT_MS);
+  }
+
+  /**
+   * Follow the delivery of a message that carries a `messageId`
+   */
+  private trackDelivery(message: ClientMessage): void {
+    if (message.messageId && !this.unacknowledged.has(message.messageId)) {
+      this.unacknowledged.set(message.messageId, { message, timer: null });
+      this.failedMessages.delete(message.messageId);
+      this.emit('delivery', { messageId: message.messageId, status: 'pending' });
+    }
+  }
+
+  private settleDelivery(messageId: string, status: 'sent' | 'failed', reason?: string): void {
+    const entry = this.unacknowledged.get(messageId);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    this.unacknowledged.delete(messageId);
+
+    if (status === 'failed') {
+      this.failedMessages.set(messageId, entry.message);
+      if (this.failedMessages.size > FAILED_MESSAGE_LIMIT) {
+        this.failedMessages.delete(this.failedMessages.keys().next().value!);
+      }
+    }
+
+    this.emit('delivery', { messageId, status, ...(reason ? { reason } : {}) });
+  }
+
+  /**
+   * Send a failed message again; returns false if it is no longer known
+   */
+  retry(messageId: string): boolean {
+    const message = this.failedMessages.get(messageId);
+    if (!message) return false;
+
+    this.failedMessages.delete(messageId);
+    this.send({ ...message, timestamp: Date.now() });
+    return true;
+  }
+
+  // Signed-in users prove who they are; the server ignores isHost without a token
+  private getJoinCredentials(): { accessToken?: string } {
+    const { accessToken } = getStoredTokens();
+    return accessToken ? { accessToken } : {};
+  }
+
+  /**
+   * Offer outgoing messages to a direct route before the transport; null removes it
+   */
+  setPeerRoute(route: PeerRoute | null): void {
+    this.peerRoute = route;
+  }
+
+  /**
+   * Take a message that arrived over a peer route rather than from the server.
+   * It carries no sequence number, so it doesn't move the resume position.
+   */
+  receiveFromPeer(message: ServerMessage): void {
+    if (this.isPeerCopy(message, 'peer')) return;
+
+    this.stats.recordReceived();
+
+    if (message.type === 'session-state-updated' || message.type === 'session-state-patched') {
+      this.receiveState(message);
+      return;
+    }
+
+    this.emit(message.type, message);
   }
 
   // Public API - Session management
   joinSession(sessionId: string, userId?: string, isHost = false): void {
-    console.log(`🔗 Joining session ${sessionId} as ${isHost ? 'host' : 'viewer'} via ${this.connectionMode}`);
+    log.info('Joining session', { sessionId, isHost, mode: this.connectionMode });
     
+    if (sessionId !== this.currentSessionId) {
+      this.lastSeq = null;
+      this.recentMessages.clear();
+      this.peerCopies.clear();
+      this.stateEncoder = new StateDeltaEncoder();
+      this.stateDecoder.reset(null);
+    }
+
     this.currentSessionId = sessionId;
     this.userId = userId || null;
     this.isHost = isHost;
@@ -312,8 +866,15 @@ export class HybridClient {
       sessionId,
       userId,
       isHost,
+      ...this.getJoinCredentials(),
+      ...(this.lastSeq !== null ? { lastSeq: this.lastSeq } : {}),
       timestamp: Date.now()
     });
+
+    // HTTP transports could only greet once there was a session to post to
+    if (this.active) {
+      this.greet(this.active);
+    }
   }
 
   leaveSession(): void {
@@ -321,24 +882,30 @@ export class HybridClient {
       this.send({
         type: 'leave-session',
         sessionId: this.currentSessionId,
-        userId: this.userId,
+        userId: this.userId ?? undefined,
         timestamp: Date.now()
       });
       
       this.currentSessionId = null;
       this.userId = null;
       this.isHost = false;
+      this.lastSeq = null;
+      this.recentMessages.clear();
+      this.peerCopies.clear();
+      this.stateEncoder = new StateDeltaEncoder();
+      this.stateDecoder.reset(null);
     }
   }
 
   // Drawing events
-  sendDrawingEvent(event: any, userId?: string): void {
+  sendDrawingEvent(event: DrawingEventPayload, userId?: string): void {
     if (!this.currentSessionId) {
-      console.error('❌ Cannot send drawing event: no current session');
+      log.error('Cannot send drawing event: no current session');
       return;
     }
     
-    this.send({
+    // Coalesced with other events from the same frame
+    this.batcher.queue({
       type: 'drawing-event',
       sessionId: this.currentSessionId,
       event,
@@ -351,7 +918,8 @@ export class HybridClient {
   sendCursorMove(x: number, y: number, userId?: string): void {
     if (!this.currentSessionId) return;
     
-    this.send({
+    // Only the latest position per frame is sent
+    this.batcher.queue({
       type: 'cursor-move',
       sessionId: this.currentSessionId,
       x,
@@ -362,33 +930,73 @@ export class HybridClient {
   }
 
   // Chat
-  sendChatMessage(message: string, userId?: string, userName?: string): void {
-    if (!this.currentSessionId) return;
+  /**
+   * Send a chat message, returning the id its `delivery` updates are reported under
+   */
+  sendChatMessage(message: string, userId?: string, userName?: string): string | null {
+    if (!this.currentSessionId) return null;
     
+    const messageId = generateClientMessageId();
     this.send({
       type: 'chat-message',
       sessionId: this.currentSessionId,
       message,
       userId,
       userName,
+      messageId,
       timestamp: Date.now()
     });
+    return messageId;
   }
 
   // State updates
-  sendStateUpdate(state: any): void {
-    if (!this.currentSessionId) return;
-    
-    this.send({
+  /**
+   * Publish the session state as a patch against the last version sent, or in
+   * full when there isn't one. Returns the message sent, or null if nothing changed.
+   */
+  sendStateUpdate(state: Partial<SessionState>): StateUpdateMessage | StatePatchMessage | null {
+    if (!this.currentSessionId) return null;
+
+    const encoded = this.stateEncoder.encode(state);
+    return encoded ? this.sendEncodedState(encoded) : null;
+  }
+
+  /**
+   * The last state published, in full and under its current version
+   */
+  getPublishedState(): StateUpdateMessage | null {
+    const current = this.stateEncoder.current();
+    if (!this.currentSessionId || !current) return null;
+
+    return {
       type: 'state-update',
       sessionId: this.currentSessionId,
-      state,
+      state: current.state,
+      version: current.version,
       timestamp: Date.now()
-    });
+    };
+  }
+
+  private sendEncodedState(encoded: EncodedState): StateUpdateMessage | StatePatchMessage | null {
+    if (!this.currentSessionId) return null;
+
+    const message: StateUpdateMessage | StatePatchMessage = encoded.kind === 'full'
+      ? { type: 'state-update', sessionId: this.currentSessionId, state: encoded.state, version: encoded.version, timestamp: Date.now() }
+      : {
+          type: 'state-patch',
+          sessionId: this.currentSessionId,
+          baseVersion: encoded.baseVersion,
+          version: encoded.version,
+          patch: encoded.patch,
+          timestamp: Date.now()
+        };
+
+    this.send(message);
+    return message;
   }
 
   // WebRTC signaling
-  sendWebRTCSignal(signal: any, type: 'offer' | 'answer' | 'ice-candidate', to?: string): void {
+  sendWebRTCSignal(signal: any, type: SignalType, to?: string): void {
     if (!this.currentSessionId) return;
     
     this.send({
@@ -397,33 +1005,59 @@ export class HybridClient {
       signal,
       signalType: type,
       to,
+      userId: this.userId ?? undefined,
       timestamp: Date.now()
     });
   }
 
+  // Roles; only the host and co-hosts may change them
+  setRole(targetUserId: string, role: GrantableRole): void {
+    if (!this.currentSessionId) return;
+
+    this.send({
+      type: 'set-role',
+      sessionId: this.currentSessionId,
+      targetUserId,
+      role,
+      userId: this.userId ?? undefined,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Ask the server something and wait for its answer, e.g. `request('session.participants', {})`.
+   * Rejects with an RpcError on a server error, a timeout, or when not connected over WebSocket.
+   */
+  request<M extends RpcMethod>(method: M, params: RpcParams<M>, options?: RpcRequestOptions): Promise<RpcResult<M>> {
+    if (!this.currentSessionId) {
+      return Promise.reject(new RpcError('unavailable', 'Join a session before making requests'));
+    }
+    return this.rpc.request(this.currentSessionId, method, params, options);
+  }
+
   // Event handling
-  on(event: string, handler: (data: any) => void): void {
+  on<E extends HybridEvent>(event: E, handler: HybridEventHandler<E>): void {
     if (!this.messageHandlers.has(event)) {
       this.messageHandlers.set(event, new Set());
     }
     this.messageHandlers.get(event)!.add(handler);
   }
 
-  off(event: string, handler: (data: any) => void): void {
+  off<E extends HybridEvent>(event: E, handler: HybridEventHandler<E>): void {
     const handlers = this.messageHandlers.get(event);
     if (handlers) {
       handlers.delete(handler);
     }
   }
 
-  private emit(event: string, data: any): void {
+  private emit<E extends HybridEvent>(event: E, data: HybridEventMap[E]): void {
     const handlers = this.messageHandlers.get(event);
     if (handlers) {
       handlers.forEach(handler => {
         try {
           handler(data);
         } catch (error) {
-          console.error('Error in hybrid client event handler:', error);
+          log.error('Error in event handler', { event, error });
         }
       });
     }
@@ -431,30 +1065,40 @@ export class HybridClient {
 
   // Connection status
   isConnected(): boolean {
-    if (this.connectionMode === 'websocket') {
-      return this.ws?.readyState === WebSocket.OPEN;
-    } else if (this.connectionMode === 'polling') {
-      return this.pollingClient.isConnected();
-    }
-    return false;
+    return this.active?.isConnected() ?? false;
   }
 
-  getConnectionMode(): 'websocket' | 'polling' | 'none' {
+  getConnectionMode(): ConnectionMode {
     return this.connectionMode;
   }
 
+  /**
+   * The protocol version and capabilities agreed with the server behind the active transport
+   */
+  getProtocol(): { version: number; capabilities: ProtocolCapability[] } {
+    return { version: this.protocolVersion, capabilities: Array.from(this.capabilities) };
+  }
+
+  getStats(): ConnectionStats {
+    return this.stats.getStats(this.isConnected(), this.active?.getWireFormat());
+  }
+
   // Cleanup
   disconnect(): void {
     this.leaveSession();
     
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    this.batcher.clear();
+    this.outbox = [];
+    this.unacknowledged.forEach(({ timer }) => timer && clearTimeout(timer));
+    this.unacknowledged.clear();
+    this.failedMessages.clear();
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
     }
-    
-    this.pollingClient.disconnect();
+    this.deactivate();
+    this.transports.forEach((transport) => transport.close());
     this.messageHandlers.clear();
-    this.connectionMode = 'none';
   }
 }
 
@@ -464,19 +1108,26 @@ let hybridClientInstance: HybridClient | null = null;
 export function getHybridClient(): HybridClient {
   // Only create instance on client side
   if (typeof window === 'undefined') {
-    console.log('🔒 SSR: Returning dummy hybrid client');
+    log.debug('SSR: returning dummy hybrid client');
     // Return a dummy client for SSR
     return {
       joinSession: () => {},
       sendDrawingEvent: () => {},
       sendCursorMove: () => {},
-      sendChatMessage: () => {},
-      sendStateUpdate: () => {},
+      sendChatMessage: () => null,
+      retry: () => false,
+      request: () => Promise.reject(new RpcError('unavailable', 'Not available during server rendering')),
+      sendStateUpdate: () => null,
+      getPublishedState: () => null,
       sendWebRTCSignal: () => {},
+      send: () => {},
+      setPeerRoute: () => {},
+      receiveFromPeer: () => {},
       on: () => {},
       off: () => {},
       isConnected: () => false,
       getConnectionMode: () => 'none',
+      getStats: () => new ConnectionStatsTracker().getStats(false),
       disconnect: () => {}
     } as any;
   }
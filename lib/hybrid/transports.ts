@@ -0,0 +1,58 @@
+import { ApiGatewayTransport } from '@/lib/aws/websocket';
+import { PollingTransport } from '@/lib/polling/polling-transport';
+import { Transport } from '@/lib/realtime/transport';
+import { SocketIOTransport } from '@/lib/socket/socket-io-transport';
+import { SSETransport } from '@/lib/sse/sse-transport';
+import { WebSocketTransport } from '@/lib/websocket/websocket-transport';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('transports');
+
+const LOCAL_WEBSOCKET_URL = 'ws://localhost:8081';
+
+// Preference order when NEXT_PUBLIC_REALTIME_TRANSPORTS isn't set
+const DEFAULT_TRANSPORTS = ['websocket', 'aws-websocket', 'sse', 'polling'];
+
+const TRANSPORT_FACTORIES: Record<string, () => Transport> = {
+  websocket: () => new WebSocketTransport('websocket', LOCAL_WEBSOCKET_URL, { prepare: startLocalWebSocketServer, binary: true }),
+  'aws-websocket': () => new ApiGatewayTransport(),
+  'socket.io': () => new SocketIOTransport(),
+  sse: () => new SSETransport(),
+  polling: () => new PollingTransport(),
+};
+
+/**
+ * The local WebSocket server runs inside the Next.js process and is started on demand
+ */
+async function startLocalWebSocketServer(): Promise<void> {
+  try {
+    log.info('Starting local WebSocket server');
+    const response = await fetch('/api/websocket/start', { method: 'POST' });
+    const result = await response.json();
+
+    if (result.success) {
+      log.info('Local WebSocket server started', { url: result.url });
+    } else {
+      log.warn('Failed to start local WebSocket server', { error: result.error });
+    }
+  } catch (error) {
+    log.warn('Could not start local WebSocket server', { error });
+  }
+}
+
+/**
+ * Transports in order of preference, from a comma-separated list of names
+ * (NEXT_PUBLIC_REALTIME_TRANSPORTS by default, e.g. `websocket,sse,polling`)
+ */
+export function createTransports(names: string | undefined = process.env.NEXT_PUBLIC_REALTIME_TRANSPORTS): Transport[] {
+  const requested = names ? names.split(',').map((name) => name.trim()).filter(Boolean) : DEFAULT_TRANSPORTS;
+
+  return requested.flatMap((name) => {
+    const create = TRANSPORT_FACTORIES[name];
+    if (!create) {
+      log.warn('Unknown realtime transport, skipping it', { name });
+      return [];
+    }
+    return [create()];
+  });
+}
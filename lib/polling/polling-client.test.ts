@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ClientMessage } from '@/lib/realtime/protocol';
+import { PollingClient } from '@/lib/polling/polling-client';
+
+const SESSION_ID = 'session-1';
+
+/**
+ * Stands in for the state route: polls wait until aborted, posts until released
+ */
+function stubStateRoute() {
+  const posts: Array<{ message: ClientMessage; release: () => void }> = [];
+
+  vi.stubGlobal('fetch', (_url: string, init: RequestInit) => {
+    if (init.method !== 'POST') {
+      return new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(new Error('Aborted'))));
+    }
+
+    return new Promise<Response>((resolve) => {
+      posts.push({
+        message: JSON.parse(init.body as string),
+        release: () => resolve(new Response(JSON.stringify({ success: true }))),
+      });
+    });
+  });
+
+  return posts;
+}
+
+function patch(baseVersion: number): ClientMessage {
+  return { type: 'state-patch', sessionId: SESSION_ID, baseVersion, version: baseVersion + 1, patch: [], timestamp: Date.now() };
+}
+
+describe('PollingClient', () => {
+  const clients: PollingClient[] = [];
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.detachSession());
+    vi.unstubAllGlobals();
+  });
+
+  it('posts one message at a time, in the order they were sent', async () => {
+    const posts = stubStateRoute();
+    const client = new PollingClient();
+    clients.push(client);
+
+    client.joinSession(SESSION_ID, 'host-1', true);
+    client.send(patch(1));
+    client.send(patch(2));
+
+    await vi.waitFor(() => expect(posts).toHaveLength(1));
+    expect(posts[0].message.type).toBe('join-session');
+
+    for (const expected of [1, 2]) {
+      posts[posts.length - 1].release();
+      await vi.waitFor(() => expect(posts).toHaveLength(expected + 1));
+      // Nothing else goes out until this one is answered
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(posts).toHaveLength(expected + 1);
+      expect(posts[expected].message).toMatchObject({ type: 'state-patch', baseVersion: expected });
+    }
+
+    posts[posts.length - 1].release();
+  });
+});
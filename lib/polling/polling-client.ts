@@ -1,39 +1,54 @@
-export interface PollingMessage {
-  type: string;
-  sessionId?: string;
-  userId?: string;
-  timestamp: number;
-  [key: string]: any;
-}
+import {
+  ClientMessage,
+  DrawingEventPayload,
+  ServerMessage,
+  ServerMessageMap,
+  SignalType,
+  createAckMessage,
+  createPongMessage,
+  parseServerMessage,
+} from '@/lib/realtime/protocol';
+import { getStoredTokens } from '@/lib/utils/auth-helpers';
+import { createLogger } from '@/lib/utils/logger';
+import { SessionState } from '@/types';
 
-export interface DrawingMessage extends PollingMessage {
-  event: any;
-}
+const log = createLogger('polling-client');
 
-export interface CursorMessage extends PollingMessage {
-  x: number;
-  y: number;
-}
+/**
+ * Events emitted by the polling client: every server message type plus `connect`
+ */
+export type PollingEventMap = ServerMessageMap & {
+  connect: Record<string, never>;
+  // Every server message, whatever its type
+  message: ServerMessage;
+};
 
-export interface ChatMessage extends PollingMessage {
-  id: string;
-  message: string;
-  userName?: string;
-}
+export type PollingEvent = keyof PollingEventMap;
+
+export type PollingEventHandler<E extends PollingEvent> = (data: PollingEventMap[E]) => void;
+
+// How long the state route may hold each poll open waiting for new messages
+const LONG_POLL_WAIT_MS = 25000;
+// Pause before polling again after a failed request
+const POLL_RETRY_DELAY_MS = 1000;
 
 export class PollingClient {
   private currentSessionId: string | null = null;
-  private messageHandlers: Map<string, Set<(data: any) => void>> = new Map();
-  private pollingInterval: NodeJS.Timeout | null = null;
+  private messageHandlers: Map<PollingEvent, Set<(data: any) => void>> = new Map();
+  private pollAbortController: AbortController | null = null;
+  // Bumped on every stop so a loop from a previous session exits instead of running alongside a new one
+  private pollGeneration = 0;
   private lastMessageTimestamp = 0;
   private userId: string | null = null;
   private isHost = false;
   private isPolling = false;
+  // Posts go out one at a time, so the route receives messages in the order they were sent
+  private sendQueue: Promise<void> = Promise.resolve();
 
   constructor() {
     // Only start polling on client side
     if (typeof window !== 'undefined') {
-      console.log('🔄 HTTP Polling client initialized');
+      log.debug('HTTP polling client initialized');
     }
   }
 
@@ -41,42 +56,55 @@ export class PollingClient {
     if (this.isPolling || !this.currentSessionId) return;
     
     this.isPolling = true;
-    console.log('🔄 Starting HTTP polling for session:', this.currentSessionId);
+    log.info('Starting HTTP long polling', { sessionId: this.currentSessionId });
     
-    this.pollingInterval = setInterval(async () => {
-      try {
-        await this.pollForUpdates();
-      } catch (error) {
-        console.error('❌ Polling error:', error);
+    this.pollLoop(this.pollGeneration);
+  }
+
+  private async pollLoop(generation: number): Promise<void> {
+    // Back-to-back long polls: the server holds each request until there is something new
+    while (this.isPolling && generation === this.pollGeneration) {
+      const succeeded = await this.pollForUpdates();
+
+      if (!succeeded && this.isPolling && generation === this.pollGeneration) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_RETRY_DELAY_MS));
       }
-    }, 1000); // Poll every second
+    }
   }
 
   private stopPolling(): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
+    this.pollGeneration++;
+    if (this.pollAbortController) {
+      this.pollAbortController.abort();
+      this.pollAbortController = null;
     }
     this.isPolling = false;
-    console.log('⏹️ Stopped HTTP polling');
+    log.info('Stopped HTTP polling');
   }
 
-  private async pollForUpdates(): Promise<void> {
-    if (!this.currentSessionId) return;
+  private async pollForUpdates(): Promise<boolean> {
+    if (!this.currentSessionId) return false;
+
+    const controller = new AbortController();
+    this.pollAbortController = controller;
 
     try {
-      const response = await fetch(`/api/sessions/${this.currentSessionId}/state?since=${this.lastMessageTimestamp}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const response = await fetch(
+        `/api/sessions/${this.currentSessionId}/state?since=${this.lastMessageTimestamp}&wait=${LONG_POLL_WAIT_MS}`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          signal: controller.signal,
+        }
+      );
 
       if (!response.ok) {
         if (response.status === 404) {
-          console.warn('Session not found, stopping polling');
+          log.warn('Session not found, stopping polling', { sessionId: this.currentSessionId });
           this.stopPolling();
-          return;
+          return false;
         }
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -84,74 +112,118 @@ export class PollingClient {
       const data = await response.json();
       
       if (data.updates && Array.isArray(data.updates)) {
-        data.updates.forEach((update: PollingMessage) => {
-          if (update.timestamp > this.lastMessageTimestamp) {
-            this.lastMessageTimestamp = update.timestamp;
-            this.handleMessage(update);
+        data.updates.forEach((update: unknown) => {
+          const result = parseServerMessage(update);
+          if (!result.ok) {
+            log.error('Rejected message', { reason: result.error.message });
+            return;
+          }
+
+          if (result.message.timestamp > this.lastMessageTimestamp) {
+            this.lastMessageTimestamp = result.message.timestamp;
+            this.handleMessage(result.message);
           }
         });
       }
+
+      return true;
     } catch (error) {
-      console.error('❌ Error polling for updates:', error);
+      if (!controller.signal.aborted) {
+        log.error('Error polling for updates', { error });
+      }
+      return false;
+    } finally {
+      if (this.pollAbortController === controller) {
+        this.pollAbortController = null;
+      }
     }
   }
 
-  private handleMessage(message: PollingMessage): void {
-    console.log('📨 Received polling message:', message.type);
-    
-    switch (message.type) {
-      case 'drawing-event':
-        this.emit('drawing-event', message);
-        break;
-      case 'cursor-moved':
-        this.emit('cursor-moved', message);
-        break;
-      case 'chat-message':
-        this.emit('chat-message', message);
-        break;
-      case 'user-joined':
-        this.emit('user-joined', message);
-        break;
-      case 'user-left':
-        this.emit('user-left', message);
-        break;
-      case 'session-state-updated':
-        this.emit('session-state-updated', message);
-        break;
-      case 'webrtc-signal':
-        this.emit('webrtc-signal', message);
-        break;
-      default:
-        console.log('Unknown polling message type:', message.type);
+  private handleMessage(message: ServerMessage): void {
+    log.debug('Message received', { type: message.type });
+
+    // Every poller sees every stored message, so drop signals addressed to someone else
+    if (message.type === 'webrtc-signal' && message.to && message.to !== this.userId) {
+      return;
     }
+
+    this.dispatch(message);
   }
 
-  private async sendMessage(message: PollingMessage): Promise<void> {
-    if (!this.currentSessionId) {
-      console.error('❌ Cannot send message: no current session');
-      return;
+  private dispatch(message: ServerMessage): void {
+    this.emit(message.type, message);
+    this.emit('message', message);
+  }
+
+  private sendMessage(message: ClientMessage): Promise<void> {
+    const sessionId = this.currentSessionId;
+    if (!sessionId) {
+      log.error('Cannot send message: no current session');
+      return Promise.resolve();
     }
 
+    const sent = this.sendQueue.then(() => this.postMessage(sessionId, message));
+    this.sendQueue = sent;
+    return sent;
+  }
+
+  /**
+   * Post a message to the session's state route; never rejects, since failures are logged here
+   */
+  private async postMessage(sessionId: string, message: ClientMessage): Promise<void> {
+    // Signed-in senders prove who they are, for messages that need more than a viewer's permissions
+    const { accessToken } = getStoredTokens();
+
     try {
-      const response = await fetch(`/api/sessions/${this.currentSessionId}/state`, {
+      const response = await fetch(`/api/sessions/${sessionId}/state`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
         },
         body: JSON.stringify(message),
       });
 
+      if (response.status === 400 || response.status === 401 || response.status === 403 || response.status === 409 || response.status === 426) {
+        // The route answers rejected messages with a structured error frame
+        const result = parseServerMessage(await response.json());
+        if (result.ok && result.message.type === 'error') {
+          this.dispatch(result.message);
+          return;
+        }
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
+
+      // The route has accepted the message, which is all an ack would say
+      if (message.messageId) {
+        this.dispatch(createAckMessage(message.messageId));
+      }
+      // Likewise the response to a posted ping is its pong
+      if (message.type === 'ping') {
+        this.dispatch(createPongMessage(message.pingId));
+      }
+      // Routes that predate the handshake accept a hello without answering it
+      if (message.type === 'hello') {
+        const result = parseServerMessage(await response.json());
+        if (result.ok && result.message.type === 'welcome') {
+          this.dispatch(result.message);
+        }
+      }
     } catch (error) {
-      console.error('❌ Error sending message:', error);
+      log.error('Error sending message', { error });
     }
   }
 
+  send(message: ClientMessage): void {
+    this.sendMessage(message);
+  }
+
   // Session management
   joinSession(sessionId: string, userId?: string, isHost = false): void {
-    console.log('🔗 Joining HTTP polling session:', sessionId, 'as', isHost ? 'host' : 'viewer');
+    log.info('Joining session', { sessionId, isHost });
     
     if (this.currentSessionId && this.currentSessionId !== sessionId) {
       this.leaveSession();
@@ -194,14 +266,24 @@ export class PollingClient {
     }
   }
 
+  /**
+   * Stop polling the session without announcing a leave, e.g. after another transport took over
+   */
+  detachSession(): void {
+    this.stopPolling();
+    this.currentSessionId = null;
+    this.userId = null;
+    this.isHost = false;
+  }
+
   // Drawing events
-  sendDrawingEvent(event: any, userId?: string): void {
+  sendDrawingEvent(event: DrawingEventPayload, userId?: string): void {
     if (!this.currentSessionId) {
-      console.error('❌ Cannot send drawing event: no current session');
+      log.error('Cannot send drawing event: no current session');
       return;
     }
     
-    console.log('📤 Sending drawing event via HTTP:', event.type);
+    log.debug('Sending drawing event', { type: event.type });
     
     this.sendMessage({
       type: 'drawing-event',
@@ -241,7 +323,7 @@ export class PollingClient {
   }
 
   // State updates
-  sendStateUpdate(state: any): void {
+  sendStateUpdate(state: SessionState): void {
     if (!this.currentSessionId) return;
     
     this.sendMessage({
@@ -253,7 +335,7 @@ export class PollingClient {
   }
 
   // WebRTC signaling
-  sendWebRTCSignal(signal: any, type: 'offer' | 'answer' | 'ice-candidate', to?: string): void {
+  sendWebRTCSignal(signal: any, type: SignalType, to?: string): void {
     if (!this.currentSessionId) return;
     
     this.sendMessage({
@@ -262,33 +344,34 @@ export class PollingClient {
       signal,
       signalType: type,
       to,
+      userId: this.userId ?? undefined,
       timestamp: Date.now()
     });
   }
 
   // Event handling
-  on(event: string, handler: (data: any) => void): void {
+  on<E extends PollingEvent>(event: E, handler: PollingEventHandler<E>): void {
     if (!this.messageHandlers.has(event)) {
       this.messageHandlers.set(event, new Set());
     }
     this.messageHandlers.get(event)!.add(handler);
   }
 
-  off(event: string, handler: (data: any) => void): void {
+  off<E extends PollingEvent>(event: E, handler: PollingEventHandler<E>): void {
     const handlers = this.messageHandlers.get(event);
     if (handlers) {
       handlers.delete(handler);
     }
   }
 
-  private emit(event: string, data: any): void {
+  private emit<E extends PollingEvent>(event: E, data: PollingEventMap[E]): void {
     const handlers = this.messageHandlers.get(event);
     if (handlers) {
       handlers.forEach(handler => {
         try {
           handler(data);
         } catch (error) {
-          console.error('Error in polling event handler:', error);
+          log.error('Error in event handler', { event, error });
         }
       });
     }
@@ -312,7 +395,7 @@ let pollingClientInstance: PollingClient | null = null;
 export function getPollingClient(): PollingClient {
   // Only create instance on client side
   if (typeof window === 'undefined') {
-    console.log('🔒 SSR: Returning dummy polling client');
+    log.debug('SSR: returning dummy polling client');
     // Return a dummy client for SSR
     return {
       joinSession: () => {},
@@ -321,6 +404,7 @@ export function getPollingClient(): PollingClient {
       sendChatMessage: () => {},
       sendStateUpdate: () => {},
       sendWebRTCSignal: () => {},
+      send: () => {},
       on: () => {},
       off: () => {},
       isConnected: () => false,
@@ -0,0 +1,58 @@
+import { getPollingClient, PollingClient } from '@/lib/polling/polling-client';
+import { ClientMessage, ServerMessage } from '@/lib/realtime/protocol';
+import { Transport, TransportEmitter } from '@/lib/realtime/transport';
+import { WireFormat } from '@/lib/realtime/wire-format';
+
+/**
+ * Transport over HTTP long polling, the fallback that works wherever fetch does
+ */
+export class PollingTransport extends TransportEmitter implements Transport {
+  readonly name = 'polling';
+  readonly mode = 'polling' as const;
+  readonly duplex = false;
+  readonly probeable = false;
+
+  constructor(private client: PollingClient = getPollingClient()) {
+    super();
+
+    this.client.on('message', (message: ServerMessage) => this.emit('message', message));
+  }
+
+  isAvailable(): boolean {
+    return typeof fetch !== 'undefined';
+  }
+
+  // Polling starts when a session is joined
+  async connect(): Promise<void> {}
+
+  send(message: ClientMessage): boolean {
+    switch (message.type) {
+      case 'join-session':
+        this.client.joinSession(message.sessionId, message.userId, message.isHost);
+        break;
+      case 'leave-session':
+        this.client.leaveSession();
+        break;
+      default:
+        this.client.send(message);
+        break;
+    }
+    return true;
+  }
+
+  detach(): void {
+    this.client.detachSession();
+  }
+
+  close(): void {
+    this.client.detachSession();
+  }
+
+  isConnected(): boolean {
+    return this.client.isConnected();
+  }
+
+  getWireFormat(): WireFormat {
+    return 'json';
+  }
+}
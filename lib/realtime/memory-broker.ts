@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+import { ServerMessage } from '@/lib/realtime/protocol';
+import { BrokerListener, MessageBroker, SESSION_MESSAGE_LIMIT } from '@/lib/realtime/message-broker';
+
+/**
+ * Message broker for a single server process.
+ * Fine for local development; use the Redis broker once there is more than one process.
+ */
+export class InMemoryMessageBroker implements MessageBroker {
+  private messages: Map<string, ServerMessage[]> = new Map();
+  private emitter = new EventEmitter();
+
+  constructor(private limit: number = SESSION_MESSAGE_LIMIT) {
+    // One listener per open stream, so the default cap of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(sessionId: string, message: ServerMessage, origin?: string): Promise<ServerMessage> {
+    if (!this.messages.has(sessionId)) {
+      this.messages.set(sessionId, []);
+    }
+
+    const messages = this.messages.get(sessionId)!;
+
+    // Timestamps are the readers' cursor, so keep them strictly increasing
+    // even when several messages (e.g. an unpacked batch) land in the same millisecond
+    const last = messages[messages.length - 1];
+    if (last && message.timestamp <= last.timestamp) {
+      message = { ...message, timestamp: last.timestamp + 1 };
+    }
+
+    messages.push(message);
+
+    // Keep only the last N messages
+    if (messages.length > this.limit) {
+      messages.splice(0, messages.length - this.limit);
+    }
+
+    this.emitter.emit(sessionId, message, origin);
+    return message;
+  }
+
+  async since(sessionId: string, timestamp: number): Promise<ServerMessage[]> {
+    const messages = this.messages.get(sessionId) || [];
+    return messages.filter((message) => message.timestamp > timestamp);
+  }
+
+  async lastTimestamp(sessionId: string): Promise<number | null> {
+    const messages = this.messages.get(sessionId);
+    return messages && messages.length > 0 ? messages[messages.length - 1].timestamp : null;
+  }
+
+  subscribe(sessionId: string, listener: BrokerListener): () => void {
+    this.emitter.on(sessionId, listener);
+    return () => {
+      this.emitter.off(sessionId, listener);
+    };
+  }
+}
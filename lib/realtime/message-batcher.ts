@@ -0,0 +1,120 @@
+import {
+  BatchableMessage,
+  ClientMessage,
+  CursorMoveMessage,
+  DrawingEventMessage,
+  MAX_BATCH_SIZE,
+} from '@/lib/realtime/protocol';
+
+// Fallback frame length when requestAnimationFrame is unavailable
+const FRAME_MS = 16;
+
+/**
+ * Coalesces high-frequency messages before they reach the wire.
+ * Cursor moves keep only the latest position per user and drawing events queue
+ * in order; whatever is pending goes out once per animation frame (or per
+ * interval, for transports where every send is a request) as one `batch` envelope.
+ */
+export class MessageBatcher {
+  private sessionId: string | null = null;
+  private drawingEvents: DrawingEventMessage[] = [];
+  private cursors: Map<string, CursorMoveMessage> = new Map();
+  private frameHandle: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param send Delivers a single message or a batch envelope
+   * @param getIntervalMs Flush delay to use instead of the next animation frame; 0 means per frame
+   */
+  constructor(
+    private send: (message: ClientMessage) => void,
+    private getIntervalMs: () => number = () => 0
+  ) {}
+
+  queue(message: BatchableMessage): void {
+    // A batch belongs to one session
+    if (this.sessionId && this.sessionId !== message.sessionId) {
+      this.flush();
+    }
+    this.sessionId = message.sessionId;
+
+    if (message.type === 'cursor-move') {
+      this.cursors.set(message.userId ?? '', message);
+    } else {
+      this.drawingEvents.push(message);
+    }
+
+    if (this.drawingEvents.length + this.cursors.size >= MAX_BATCH_SIZE) {
+      this.flush();
+      return;
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Send everything pending now, e.g. before a message that must not overtake it
+   */
+  flush(): void {
+    this.cancelScheduled();
+
+    const sessionId = this.sessionId;
+    const messages: BatchableMessage[] = [...this.drawingEvents, ...this.cursors.values()];
+
+    this.sessionId = null;
+    this.drawingEvents = [];
+    this.cursors.clear();
+
+    if (!sessionId || messages.length === 0) return;
+
+    if (messages.length === 1) {
+      this.send(messages[0]);
+      return;
+    }
+
+    this.send({
+      type: 'batch',
+      sessionId,
+      messages,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Drop anything pending without sending it
+   */
+  clear(): void {
+    this.cancelScheduled();
+    this.sessionId = null;
+    this.drawingEvents = [];
+    this.cursors.clear();
+  }
+
+  private schedule(): void {
+    if (this.frameHandle !== null || this.timer !== null) return;
+
+    const intervalMs = this.getIntervalMs();
+    if (intervalMs <= 0 && typeof requestAnimationFrame === 'function') {
+      this.frameHandle = requestAnimationFrame(() => {
+        this.frameHandle = null;
+        this.flush();
+      });
+    } else {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, intervalMs > 0 ? intervalMs : FRAME_MS);
+    }
+  }
+
+  private cancelScheduled(): void {
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { DrawingEventMessage, ServerMessage } from '@/lib/realtime/protocol';
+import { MessageBroker, waitForMessages } from '@/lib/realtime/message-broker';
+import { InMemoryMessageBroker } from '@/lib/realtime/memory-broker';
+import { RedisMessageBroker } from '@/lib/realtime/redis-broker';
+import { RedisStandIn } from '@/lib/realtime/redis-stand-in';
+
+interface BrokerFactory {
+  name: string;
+  create(limit?: number): MessageBroker;
+  // Resolves once subscriptions made so far receive messages
+  subscribed(): Promise<void>;
+  // Whether separate instances (i.e. server processes) share messages
+  shared: boolean;
+}
+
+const standIn = new RedisStandIn(0);
+const redisBrokers: RedisMessageBroker[] = [];
+
+const factories: BrokerFactory[] = [
+  {
+    name: 'in-memory',
+    create: (limit) => new InMemoryMessageBroker(limit),
+    subscribed: async () => {},
+    shared: false,
+  },
+  {
+    name: 'redis (stand-in)',
+    create: (limit) => {
+      const broker = new RedisMessageBroker(standIn.url, limit);
+      redisBrokers.push(broker);
+      return broker;
+    },
+    // SUBSCRIBE goes out on its own connection, with nothing to await
+    subscribed: () => new Promise((resolve) => setTimeout(resolve, 50)),
+    shared: true,
+  },
+];
+
+let nextSession = 0;
+
+function drawing(timestamp: number, id: string): DrawingEventMessage {
+  return { type: 'drawing-event', sessionId: 'unused', event: { id }, userId: 'user-1', timestamp };
+}
+
+function ids(messages: ServerMessage[]): string[] {
+  return messages.map((message) => (message as DrawingEventMessage).event.id!);
+}
+
+beforeAll(() => standIn.start());
+
+afterEach(() => {
+  redisBrokers.splice(0).forEach((broker) => broker.close());
+});
+
+afterAll(() => standIn.stop());
+
+describe.each(factories)('$name message broker', (factory) => {
+  let sessionId: string;
+
+  beforeAll(() => {
+    sessionId = `session-${nextSession++}`;
+  });
+
+  it('returns messages newer than a timestamp, in order', async () => {
+    const broker = factory.create();
+
+    await broker.publish(sessionId, drawing(1000, 'a'));
+    await broker.publish(sessionId, drawing(2000, 'b'));
+    await broker.publish(sessionId, drawing(3000, 'c'));
+
+    expect(ids(await broker.since(sessionId, 0))).toEqual(['a', 'b', 'c']);
+    expect(ids(await broker.since(sessionId, 1000))).toEqual(['b', 'c']);
+    expect(await broker.since(sessionId, 3000)).toEqual([]);
+    expect(await broker.lastTimestamp(sessionId)).toBe(3000);
+  });
+
+  it('keeps timestamps strictly increasing within a session', async () => {
+    const broker = factory.create();
+    const session = `${sessionId}-timestamps`;
+
+    const first = await broker.publish(session, drawing(5000, 'a'));
+    const second = await broker.publish(session, drawing(5000, 'b'));
+    const third = await broker.publish(session, drawing(4000, 'c'));
+
+    expect([first.timestamp, second.timestamp, third.timestamp]).toEqual([5000, 5001, 5002]);
+    expect(ids(await broker.since(session, 5000))).toEqual(['b', 'c']);
+  });
+
+  it('gives messages published at once distinct timestamps, in order', async () => {
+    const broker = factory.create();
+    const session = `${sessionId}-concurrent`;
+
+    const published = await Promise.all(['a', 'b', 'c', 'd', 'e'].map((id) => broker.publish(session, drawing(7000, id))));
+
+    expect(published.map((message) => message.timestamp)).toEqual([7000, 7001, 7002, 7003, 7004]);
+    expect(ids(await broker.since(session, 7000))).toEqual(['b', 'c', 'd', 'e']);
+  });
+
+  it('keeps only the most recent messages', async () => {
+    const broker = factory.create(3);
+    const session = `${sessionId}-limit`;
+
+    for (let i = 1; i <= 5; i++) {
+      await broker.publish(session, drawing(i * 100, String(i)));
+    }
+
+    expect(ids(await broker.since(session, 0))).toEqual(['3', '4', '5']);
+  });
+
+  it('keeps sessions apart', async () => {
+    const broker = factory.create();
+
+    await broker.publish(`${sessionId}-one`, drawing(100, 'one'));
+
+    expect(await broker.since(`${sessionId}-two`, 0)).toEqual([]);
+    expect(await broker.lastTimestamp(`${sessionId}-two`)).toBeNull();
+  });
+
+  it('pushes published messages, with their origin, to subscribers until they unsubscribe', async () => {
+    const broker = factory.create();
+    const session = `${sessionId}-subscribe`;
+    const received: Array<{ id: string; origin?: string }> = [];
+
+    const unsubscribe = broker.subscribe(session, (message, origin) => {
+      received.push({ id: (message as DrawingEventMessage).event.id!, origin });
+    });
+    await factory.subscribed();
+
+    await broker.publish(session, drawing(100, 'a'), 'relay-1');
+    await broker.publish(`${session}-other`, drawing(100, 'elsewhere'));
+    await expect.poll(() => received).toEqual([{ id: 'a', origin: 'relay-1' }]);
+
+    unsubscribe();
+    await factory.subscribed();
+    await broker.publish(session, drawing(200, 'b'));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(received).toEqual([{ id: 'a', origin: 'relay-1' }]);
+  });
+
+  it.runIf(factory.shared)('shares messages between instances', async () => {
+    const publisher = factory.create();
+    const subscriber = factory.create();
+    const session = `${sessionId}-shared`;
+    const received: string[] = [];
+
+    subscriber.subscribe(session, (message) => received.push((message as DrawingEventMessage).event.id!));
+    await factory.subscribed();
+
+    await publisher.publish(session, drawing(100, 'a'));
+
+    await expect.poll(() => received).toEqual(['a']);
+    expect(ids(await subscriber.since(session, 0))).toEqual(['a']);
+  });
+
+  it('waits for messages until one is published', async () => {
+    const broker = factory.create();
+    const session = `${sessionId}-wait`;
+    await broker.publish(session, drawing(100, 'old'));
+
+    const waiting = waitForMessages(broker, session, 100, 5000);
+    await factory.subscribed();
+    await broker.publish(session, drawing(200, 'new'));
+
+    expect(ids(await waiting)).toEqual(['new']);
+  });
+
+  it('stops waiting once the timeout passes', async () => {
+    const broker = factory.create();
+
+    expect(await waitForMessages(broker, `${sessionId}-timeout`, 0, 20)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { ServerMessage } from '@/lib/realtime/protocol';
+import { InMemoryMessageBroker } from '@/lib/realtime/memory-broker';
+import { RedisMessageBroker } from '@/lib/realtime/redis-broker';
+
+// Keep last 100 messages per session
+export const SESSION_MESSAGE_LIMIT = 100;
+
+/**
+ * Receives every message published to a session. `origin` identifies the publisher,
+ * so a relay that both publishes and subscribes can skip its own messages.
+ */
+export type BrokerListener = (message: ServerMessage, origin?: string) => void;
+
+/**
+ * Session message fan-out shared by every transport.
+ * Keeps a short per-session history, ordered by timestamp, for pollers and stream
+ * resumes, and pushes new messages to subscribers in every server process.
+ */
+export interface MessageBroker {
+  /**
+   * Store and fan out a message. Resolves with the stored message, whose timestamp
+   * may have been moved forward so timestamps stay strictly increasing per session.
+   */
+  publish(sessionId: string, message: ServerMessage, origin?: string): Promise<ServerMessage>;
+
+  /**
+   * Retained messages newer than `timestamp`
+   */
+  since(sessionId: string, timestamp: number): Promise<ServerMessage[]>;
+
+  lastTimestamp(sessionId: string): Promise<number | null>;
+
+  subscribe(sessionId: string, listener: BrokerListener): () => void;
+}
+
+/**
+ * Resolve with messages newer than `timestamp` as soon as there are any,
+ * or with an empty list once `timeoutMs` passes or `signal` aborts
+ */
+export async function waitForMessages(
+  broker: MessageBroker,
+  sessionId: string,
+  timestamp: number,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ServerMessage[]> {
+  let wake: () => void = () => {};
+  const woken = new Promise<void>((resolve) => {
+    wake = resolve;
+  });
+
+  // Subscribe before reading so nothing published in between is missed
+  const unsubscribe = broker.subscribe(sessionId, () => wake());
+
+  try {
+    const pending = await broker.since(sessionId, timestamp);
+    if (pending.length > 0 || timeoutMs <= 0 || signal?.aborted) {
+      return pending;
+    }
+
+    const timer = setTimeout(wake, timeoutMs);
+    signal?.addEventListener('abort', wake);
+
+    await woken;
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', wake);
+
+    // Wait a tick so messages published together are returned together
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return broker.since(sessionId, timestamp);
+  } finally {
+    unsubscribe();
+  }
+}
+
+// Route handlers can be bundled separately, so share one broker through globalThis
+const globalForBroker = globalThis as typeof globalThis & {
+  messageBroker?: MessageBroker;
+};
+
+/**
+ * The process-wide broker: Redis when REDIS_URL is set, in-memory otherwise
+ */
+export function getMessageBroker(): MessageBroker {
+  if (!globalForBroker.messageBroker) {
+    const redisUrl = process.env.REDIS_URL;
+    globalForBroker.messageBroker = redisUrl
+      ? new RedisMessageBroker(redisUrl)
+      : new InMemoryMessageBroker();
+  }
+  return globalForBroker.messageBroker;
+}
@@ -0,0 +1,158 @@
+/**
+ * Metrics for the realtime servers, rendered in the Prometheus text format
+ */
+
+export type MetricLabels = Record<string, string>;
+
+interface Sample {
+  labels: MetricLabels;
+  value: number;
+}
+
+// Window message rates are measured over
+const RATE_WINDOW_MS = 5000;
+
+/**
+ * Events per second over a sliding window, counted in one-second buckets
+ */
+export class RateMeter {
+  private buckets: Array<{ second: number; count: number }> = [];
+
+  constructor(private windowMs: number = RATE_WINDOW_MS) {}
+
+  record(count = 1): void {
+    const second = Math.floor(Date.now() / 1000);
+    const last = this.buckets[this.buckets.length - 1];
+
+    if (last && last.second === second) {
+      last.count += count;
+    } else {
+      this.buckets.push({ second, count });
+    }
+    this.prune();
+  }
+
+  perSecond(): number {
+    this.prune();
+    const total = this.buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+    return Math.round((total / (this.windowMs / 1000)) * 10) / 10;
+  }
+
+  private prune(): void {
+    const oldest = Math.floor((Date.now() - this.windowMs) / 1000);
+    while (this.buckets.length > 0 && this.buckets[0].second < oldest) {
+      this.buckets.shift();
+    }
+  }
+}
+
+export class Counter {
+  private values: Map<string, Sample> = new Map();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  samples(): Sample[] {
+    return Array.from(this.values.values());
+  }
+}
+
+/**
+ * A gauge read when metrics are scraped, e.g. the current number of connections
+ */
+export class Gauge {
+  private collectors: Set<() => Sample[]> = new Set();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  // Returns a function that removes the collector again
+  collect(collector: () => Sample[]): () => void {
+    this.collectors.add(collector);
+    return () => this.collectors.delete(collector);
+  }
+
+  samples(): Sample[] {
+    return Array.from(this.collectors).flatMap((collector) => collector());
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Counter | Gauge> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help)) as Counter;
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help)) as Gauge;
+  }
+
+  /**
+   * Every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    this.metrics.forEach((metric) => {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric instanceof Counter ? 'counter' : 'gauge'}`);
+      metric.samples().forEach(({ labels, value }) => {
+        lines.push(`${metric.name}${formatLabels(labels)} ${value}`);
+      });
+    });
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register(name: string, create: () => Counter | Gauge): Counter | Gauge {
+    if (!this.metrics.has(name)) {
+      this.metrics.set(name, create());
+    }
+    return this.metrics.get(name)!;
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels).sort().map((key) => `${key}=${labels[key]}`).join(',');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  const escaped = entries.map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${escaped.join(',')}}`;
+}
+
+/**
+ * The metrics every realtime server reports, labelled by transport
+ */
+export class RealtimeMetrics {
+  readonly registry = new MetricsRegistry();
+  readonly messagesReceived = this.registry.counter('realtime_messages_received_total', 'Client messages received, by transport and type');
+  readonly messagesSent = this.registry.counter('realtime_messages_sent_total', 'Messages sent to clients, by transport and type');
+  readonly messagesRejected = this.registry.counter('realtime_messages_rejected_total', 'Client messages answered with an error, by transport and code');
+  readonly connections = this.registry.gauge('realtime_connections', 'Open connections, by transport');
+  readonly sessions = this.registry.gauge('realtime_sessions', 'Sessions with at least one connection, by transport');
+}
+
+// Route handlers can be bundled separately, so share one set of metrics through globalThis
+const globalForMetrics = globalThis as typeof globalThis & {
+  realtimeMetrics?: RealtimeMetrics;
+};
+
+export function getRealtimeMetrics(): RealtimeMetrics {
+  if (!globalForMetrics.realtimeMetrics) {
+    globalForMetrics.realtimeMetrics = new RealtimeMetrics();
+  }
+  return globalForMetrics.realtimeMetrics;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { GrantableRole, RoleChangedMessage } from '@/lib/realtime/protocol';
+import { InMemoryMessageBroker } from '@/lib/realtime/memory-broker';
+import { SESSION_MESSAGE_LIMIT } from '@/lib/realtime/message-broker';
+import { SessionIdentity, SessionPermissions, SessionRoleStore } from '@/lib/realtime/permissions';
+import { SessionFanout } from '@/lib/realtime/session-fanout';
+
+const SESSION_ID = 'session-1';
+
+/**
+ * Role store kept in memory, standing in for the session records
+ */
+function createStore(initial: Record<string, Record<string, GrantableRole>> = {}) {
+  const sessions = new Map(Object.entries(initial));
+  const store: SessionRoleStore = {
+    load: async (sessionId) => ({ ...sessions.get(sessionId) }),
+    save: async (sessionId, userId, role) => {
+      const roles = { ...sessions.get(sessionId) };
+      if (role === 'viewer') {
+        delete roles[userId];
+      } else {
+        roles[userId] = role;
+      }
+      sessions.set(sessionId, roles);
+    },
+  };
+  return { store, sessions };
+}
+
+function verified(userId: string): SessionIdentity {
+  return { userId, isHost: false, verified: true };
+}
+
+function roleChanged(userId: string, role: GrantableRole): RoleChangedMessage {
+  return { type: 'role-changed', sessionId: SESSION_ID, userId, role, by: 'host-1', timestamp: Date.now() };
+}
+
+describe('SessionPermissions', () => {
+  it('loads grants from the store, however much the session has sent since', async () => {
+    const fanout = new SessionFanout(new InMemoryMessageBroker());
+    const { store } = createStore({ [SESSION_ID]: { 'drawer-1': 'drawer' } });
+
+    // The broadcast grant falls out of the session's history
+    await fanout.publish(SESSION_ID, roleChanged('drawer-1', 'drawer'));
+    for (let i = 0; i <= SESSION_MESSAGE_LIMIT; i++) {
+      await fanout.publish(SESSION_ID, { type: 'cursor-moved', x: i, y: i, userId: 'viewer-1', timestamp: Date.now() });
+    }
+
+    const policy = await new SessionPermissions(fanout, store).get(SESSION_ID);
+    expect(policy.roleOf(verified('drawer-1'))).toBe('drawer');
+    expect(policy.roleOf(verified('viewer-1'))).toBe('viewer');
+  });
+
+  it('gives grants only to verified users', async () => {
+    const fanout = new SessionFanout(new InMemoryMessageBroker());
+    const { store } = createStore({ [SESSION_ID]: { 'co-host-1': 'co-host' } });
+
+    const policy = await new SessionPermissions(fanout, store).get(SESSION_ID);
+
+    expect(policy.roleOf({ userId: 'co-host-1', isHost: false, verified: false })).toBe('viewer');
+    expect(policy.roleOf({ userId: 'host-1', isHost: true, verified: true })).toBe('host');
+  });
+
+  it('stores grants, so another process loading the session sees them', async () => {
+    const fanout = new SessionFanout(new InMemoryMessageBroker());
+    const { store, sessions } = createStore();
+
+    await new SessionPermissions(fanout, store).grant(SESSION_ID, 'co-host-1', 'co-host');
+
+    expect(sessions.get(SESSION_ID)).toEqual({ 'co-host-1': 'co-host' });
+    const policy = await new SessionPermissions(new SessionFanout(new InMemoryMessageBroker()), store).get(SESSION_ID);
+    expect(policy.roleOf(verified('co-host-1'))).toBe('co-host');
+  });
+
+  it('applies role changes broadcast by other processes', async () => {
+    const fanout = new SessionFanout(new InMemoryMessageBroker());
+    const { store } = createStore({ [SESSION_ID]: { 'drawer-1': 'drawer' } });
+    const policy = await new SessionPermissions(fanout, store).get(SESSION_ID);
+
+    await fanout.publish(SESSION_ID, roleChanged('drawer-1', 'viewer'));
+    await fanout.publish(SESSION_ID, roleChanged('drawer-2', 'drawer'));
+
+    await expect.poll(() => [policy.roleOf(verified('drawer-1')), policy.roleOf(verified('drawer-2'))]).toEqual(['viewer', 'drawer']);
+  });
+
+  it('loads again after a failed load', async () => {
+    const fanout = new SessionFanout(new InMemoryMessageBroker());
+    const { store } = createStore({ [SESSION_ID]: { 'drawer-1': 'drawer' } });
+    let failures = 1;
+    const permissions = new SessionPermissions(fanout, {
+      ...store,
+      load: async (sessionId) => {
+        if (failures-- > 0) throw new Error('Store unavailable');
+        return store.load(sessionId);
+      },
+    });
+
+    await expect(permissions.get(SESSION_ID)).rejects.toThrow('Store unavailable');
+    expect((await permissions.get(SESSION_ID)).roleOf(verified('drawer-1'))).toBe('drawer');
+  });
+});
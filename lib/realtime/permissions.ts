@@ -0,0 +1,262 @@
+import { AccessTokenVerifier, getAccessTokenVerifier } from '@/lib/aws/access-token';
+import { getSessionRoles, setSessionRole } from '@/lib/aws/dynamodb';
+import {
+  ClientMessage,
+  ErrorMessage,
+  GrantableRole,
+  ParticipantRole,
+  RoleChangedMessage,
+  createErrorMessage,
+  unpackBatch,
+} from '@/lib/realtime/protocol';
+import { SessionFanout, getSessionFanout } from '@/lib/realtime/session-fanout';
+
+/**
+ * Role-based permissions for session messages.
+ * The host is whoever the session was created by; everyone else is a viewer
+ * until the host (or a co-host) grants them another role.
+ */
+
+export type SessionAction =
+  | 'draw'
+  | 'clear'
+  | 'viewport'
+  | 'cursor'
+  | 'state'
+  | 'chat'
+  | 'react'
+  | 'signal'
+  | 'assign-roles';
+
+export const ROLE_PERMISSIONS: Record<ParticipantRole, readonly SessionAction[]> = {
+  host: ['draw', 'clear', 'viewport', 'cursor', 'state', 'chat', 'react', 'signal', 'assign-roles'],
+  'co-host': ['draw', 'clear', 'viewport', 'cursor', 'state', 'chat', 'react', 'signal', 'assign-roles'],
+  drawer: ['draw', 'cursor', 'chat', 'react', 'signal'],
+  viewer: ['cursor', 'chat', 'react', 'signal'],
+};
+
+const ACTION_DESCRIPTIONS: Record<SessionAction, string> = {
+  draw: 'draw on the canvas',
+  clear: 'clear the canvas',
+  viewport: 'move everyone\'s viewport',
+  cursor: 'share a cursor',
+  state: 'update the session state',
+  chat: 'send chat messages',
+  react: 'send reactions',
+  signal: 'send WebRTC signals',
+  'assign-roles': 'assign roles',
+};
+
+/**
+ * What sending a message amounts to; joining and leaving need no permission
+ */
+export function getMessageActions(message: ClientMessage): SessionAction[] {
+  switch (message.type) {
+    case 'drawing-event':
+      if (message.event.type === 'clear') return ['clear'];
+      if (message.event.type === 'viewport-sync') return ['viewport'];
+      return ['draw'];
+    case 'cursor-move':
+      return ['cursor'];
+    case 'chat-message':
+      return ['chat'];
+    case 'state-update':
+    case 'state-patch':
+      return ['state'];
+    case 'webrtc-signal':
+      return ['signal'];
+    case 'reaction':
+      return ['react'];
+    case 'set-role':
+      return ['assign-roles'];
+    case 'batch':
+      return Array.from(new Set(unpackBatch(message).flatMap(getMessageActions)));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check a message against the sender's role; returns the error to send back when denied.
+ * Pass the session's host id to also stop anyone changing the host's role.
+ */
+export function authorizeMessage(
+  role: ParticipantRole,
+  message: ClientMessage,
+  hostId?: string | null
+): ErrorMessage | null {
+  const denied = getMessageActions(message).find((action) => !ROLE_PERMISSIONS[role].includes(action));
+  if (denied) {
+    return createErrorMessage('forbidden', `A ${role} may not ${ACTION_DESCRIPTIONS[denied]}`, message.type);
+  }
+
+  if (message.type === 'set-role' && hostId && message.targetUserId === hostId) {
+    return createErrorMessage('forbidden', 'The host\'s role can\'t be changed', message.type);
+  }
+  return null;
+}
+
+/**
+ * Who a participant is. Only an access token verifies the user id; without one
+ * it is whatever the client claimed.
+ */
+export interface SessionIdentity {
+  userId?: string;
+  isHost: boolean;
+  verified: boolean;
+}
+
+export type IdentityResult =
+  | ({ ok: true } & SessionIdentity)
+  | { ok: false; reason: string };
+
+/**
+ * Work out who a participant is: verified users from their access token, anyone
+ * else by the user id they claim, which can't be the host's. Only the session's
+ * host, proven by token, is the host.
+ */
+export async function identifyParticipant(
+  { accessToken, claimedUserId, hostId }: { accessToken?: string; claimedUserId?: string; hostId: string | null },
+  verifier: AccessTokenVerifier | null = getAccessTokenVerifier()
+): Promise<IdentityResult> {
+  if (accessToken) {
+    if (!verifier) {
+      return { ok: false, reason: 'Token verification is not configured on this server' };
+    }
+
+    try {
+      const claims = await verifier.verify(accessToken);
+      const userId = claims.username ?? claims.sub;
+      return { ok: true, userId, isHost: hostId !== null && userId === hostId, verified: true };
+    } catch (error) {
+      return { ok: false, reason: error instanceof Error ? error.message : 'Invalid access token' };
+    }
+  }
+
+  if (claimedUserId && claimedUserId === hostId) {
+    return { ok: false, reason: 'Acting as the session host requires an access token' };
+  }
+  return { ok: true, userId: claimedUserId, isHost: false, verified: false };
+}
+
+/**
+ * Roles granted in one session
+ */
+export class SessionPolicy {
+  private grants: Map<string, GrantableRole> = new Map();
+
+  /**
+   * Grants only apply to verified users, so claiming a granted user's id gets a viewer nothing
+   */
+  roleOf(identity: SessionIdentity): ParticipantRole {
+    if (identity.isHost) return 'host';
+    return (identity.verified && identity.userId && this.grants.get(identity.userId)) || 'viewer';
+  }
+
+  grant(userId: string, role: GrantableRole): void {
+    if (role === 'viewer') {
+      this.grants.delete(userId);
+    } else {
+      this.grants.set(userId, role);
+    }
+  }
+}
+
+/**
+ * Where a session's grants are kept, so they outlive the processes that saw them made
+ */
+export interface SessionRoleStore {
+  load(sessionId: string): Promise<Record<string, GrantableRole>>;
+  save(sessionId: string, userId: string, role: GrantableRole): Promise<void>;
+}
+
+// Grants are kept on the session record
+const sessionRecordRoles: SessionRoleStore = {
+  load: getSessionRoles,
+  save: setSessionRole,
+};
+
+/**
+ * Per-session policies for a process, loaded from the role store. Grants made
+ * elsewhere travel as `role-changed` messages through the fan-out, so every
+ * transport and process keeps applying the same ones.
+ */
+export class SessionPermissions {
+  private policies: Map<string, Promise<SessionPolicy>> = new Map();
+  private subscriptions: Map<string, () => void> = new Map();
+
+  constructor(
+    private fanout: SessionFanout = getSessionFanout(),
+    private store: SessionRoleStore = sessionRecordRoles
+  ) {}
+
+  /**
+   * Policy for a session, with the grants made before this process saw it
+   */
+  get(sessionId: string): Promise<SessionPolicy> {
+    if (!this.policies.has(sessionId)) {
+      this.policies.set(sessionId, this.load(sessionId).catch((error) => {
+        // Not kept, so the next caller tries loading again
+        this.release(sessionId);
+        throw error;
+      }));
+    }
+    return this.policies.get(sessionId)!;
+  }
+
+  /**
+   * Store a grant and apply it here; other processes apply it from the `role-changed` broadcast
+   */
+  async grant(sessionId: string, userId: string, role: GrantableRole): Promise<void> {
+    await this.store.save(sessionId, userId, role);
+    (await this.get(sessionId)).grant(userId, role);
+  }
+
+  release(sessionId: string): void {
+    this.subscriptions.get(sessionId)?.();
+    this.subscriptions.delete(sessionId);
+    this.policies.delete(sessionId);
+  }
+
+  close(): void {
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions.clear();
+    this.policies.clear();
+  }
+
+  private async load(sessionId: string): Promise<SessionPolicy> {
+    const policy = new SessionPolicy();
+    // Changes broadcast while the stored grants load are newer, so they apply after them
+    let pending: RoleChangedMessage[] | null = [];
+    this.subscriptions.set(sessionId, this.fanout.subscribe(sessionId, (message) => {
+      if (message.type !== 'role-changed') return;
+      if (pending) {
+        pending.push(message);
+      } else {
+        this.apply(policy, message);
+      }
+    }));
+
+    const roles = await this.store.load(sessionId);
+    Object.entries(roles).forEach(([userId, role]) => policy.grant(userId, role));
+    pending.forEach((message) => this.apply(policy, message));
+    pending = null;
+    return policy;
+  }
+
+  private apply(policy: SessionPolicy, message: RoleChangedMessage): void {
+    policy.grant(message.userId, message.role);
+  }
+}
+
+// Route handlers can be bundled separately, so share one registry through globalThis
+const globalForPermissions = globalThis as typeof globalThis & {
+  sessionPermissions?: SessionPermissions;
+};
+
+export function getSessionPermissions(): SessionPermissions {
+  if (!globalForPermissions.sessionPermissions) {
+    globalForPermissions.sessionPermissions = new SessionPermissions();
+  }
+  return globalForPermissions.sessionPermissions;
+}
@@ -0,0 +1,825 @@
+import { SessionState } from '@/types';
+
+/**
+ * Shared realtime message protocol
+ * Every transport (local WebSocket server, Next.js socket handlers, polling route,
+ * Lambda handler) speaks these message shapes and validates them on entry.
+ */
+
+export type SignalType = 'offer' | 'answer' | 'ice-candidate';
+
+export interface DrawingEventPayload {
+  type?: string;
+  id?: string;
+  [key: string]: any;
+}
+
+interface BaseMessage {
+  timestamp: number;
+  // Session sequence number, assigned by relays that keep a replayable session log
+  seq?: number;
+  // Client-chosen id; servers acknowledge (or reject) messages that carry one by this id
+  messageId?: string;
+}
+
+// Client -> server messages
+
+export interface JoinSessionMessage extends BaseMessage {
+  type: 'join-session';
+  sessionId: string;
+  userId?: string;
+  isHost?: boolean;
+  // Last sequence number seen before a reconnect; the server replays anything newer
+  lastSeq?: number;
+  // Cognito access token; servers that verify it take identity and host role from it
+  accessToken?: string;
+}
+
+export interface LeaveSessionMessage extends BaseMessage {
+  type: 'leave-session';
+  sessionId?: string;
+  userId?: string;
+}
+
+export interface DrawingEventMessage extends BaseMessage {
+  type: 'drawing-event';
+  sessionId: string;
+  event: DrawingEventPayload;
+  userId?: string;
+}
+
+export interface CursorMoveMessage extends BaseMessage {
+  type: 'cursor-move';
+  sessionId: string;
+  x: number;
+  y: number;
+  userId?: string;
+}
+
+export interface ChatSendMessage extends BaseMessage {
+  type: 'chat-message';
+  sessionId: string;
+  message: string;
+  userId?: string;
+  userName?: string;
+}
+
+export interface StateUpdateMessage extends BaseMessage {
+  type: 'state-update';
+  sessionId: string;
+  state: SessionState;
+  // Version this state is numbered as; later patches build on it
+  version?: number;
+}
+
+/**
+ * A JSON Patch (RFC 6902) operation on session state; `path` is a JSON Pointer
+ */
+export type StatePatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+/**
+ * Changes from one version of the session state to the next. Servers holding a
+ * different version reject it with `version-mismatch`, and the host resends in full.
+ */
+export interface StatePatchMessage extends BaseMessage {
+  type: 'state-patch';
+  sessionId: string;
+  baseVersion: number;
+  version: number;
+  patch: StatePatchOperation[];
+}
+
+export interface WebRTCSignalSendMessage extends BaseMessage {
+  type: 'webrtc-signal';
+  sessionId: string;
+  signal: any;
+  signalType: SignalType;
+  to?: string;
+  userId?: string;
+}
+
+export interface ReactionSendMessage extends BaseMessage {
+  type: 'reaction';
+  sessionId: string;
+  reaction: string;
+  x?: number;
+  y?: number;
+  userId?: string;
+}
+
+// Roles the host (or a co-host) may hand out; there is only ever one host
+export type GrantableRole = 'co-host' | 'drawer' | 'viewer';
+
+export type ParticipantRole = 'host' | GrantableRole;
+
+export interface SetRoleMessage extends BaseMessage {
+  type: 'set-role';
+  sessionId: string;
+  targetUserId: string;
+  role: GrantableRole;
+  userId?: string;
+}
+
+/**
+ * Methods a client may call with `rpc-request`, with their params and results
+ */
+export interface RpcMethodMap {
+  // Everyone currently connected to the session
+  'session.participants': { params: Record<string, never>; result: { participants: PresenceParticipant[] } };
+  // The session's current state and its version, and the sequence number it is current as of when the server keeps a log
+  'session.snapshot': { params: Record<string, never>; result: { state: SessionState | null; version?: number | null; seq?: number } };
+}
+
+export type RpcMethod = keyof RpcMethodMap;
+
+export type RpcParams<M extends RpcMethod> = RpcMethodMap[M]['params'];
+
+export type RpcResult<M extends RpcMethod> = RpcMethodMap[M]['result'];
+
+export interface RpcRequestMessage extends BaseMessage {
+  type: 'rpc-request';
+  // Correlates the response with the request
+  requestId: string;
+  sessionId: string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Measures round-trip latency; the server echoes the id back in a `pong`
+ */
+export interface PingMessage extends BaseMessage {
+  type: 'ping';
+  pingId: string;
+}
+
+// Protocol version spoken by this build
+export const PROTOCOL_VERSION = 2;
+
+// Version of clients that predate the `hello` handshake and never announce one
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+// Oldest client version servers still understand by default; older clients are told to upgrade.
+// Raise it (or a server's own minimum) once no client that old is still in use.
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Optional features a connection can use once both sides support them:
+ * batch envelopes, binary frames (WebSocket only) and per-message acks
+ */
+export type ProtocolCapability = 'batching' | 'binary' | 'acks';
+
+// What version 1 servers, which don't answer `hello`, support
+export const LEGACY_CAPABILITIES: readonly ProtocolCapability[] = ['batching', 'acks'];
+
+/**
+ * Opens a connection: the client's protocol version and the capabilities it supports.
+ * The server answers with a `welcome`, or an `upgrade-required` error.
+ */
+export interface HelloMessage extends BaseMessage {
+  type: 'hello';
+  protocolVersion: number;
+  capabilities: ProtocolCapability[];
+}
+
+// High-frequency messages a client may coalesce into a batch
+export type BatchableMessage = DrawingEventMessage | CursorMoveMessage;
+
+export type BatchableMessageType = BatchableMessage['type'];
+
+/**
+ * Envelope carrying several drawing events and cursor moves in one frame.
+ * Relays unpack it and handle each message as if it had been sent alone.
+ */
+export interface BatchMessage extends BaseMessage {
+  type: 'batch';
+  sessionId: string;
+  messages: BatchableMessage[];
+}
+
+export type ClientMessage =
+  | JoinSessionMessage
+  | LeaveSessionMessage
+  | DrawingEventMessage
+  | CursorMoveMessage
+  | ChatSendMessage
+  | StateUpdateMessage
+  | StatePatchMessage
+  | WebRTCSignalSendMessage
+  | ReactionSendMessage
+  | SetRoleMessage
+  | RpcRequestMessage
+  | PingMessage
+  | HelloMessage
+  | BatchMessage;
+
+export type ClientMessageType = ClientMessage['type'];
+
+// Server -> client messages
+
+export interface ConnectedMessage extends BaseMessage {
+  type: 'connected';
+  connectionId?: string;
+}
+
+export interface SessionJoinedMessage extends BaseMessage {
+  type: 'session-joined';
+  sessionId: string;
+  userId?: string;
+  isHost?: boolean;
+}
+
+/**
+ * Sent instead of a replay when the requested gap is older than the session log
+ */
+export interface SessionSnapshotMessage extends BaseMessage {
+  type: 'session-snapshot';
+  sessionId: string;
+  seq: number;
+  state: SessionState | null;
+  version?: number | null;
+}
+
+export interface UserJoinedMessage extends BaseMessage {
+  type: 'user-joined';
+  userId?: string;
+  isHost?: boolean;
+  socketId?: string;
+}
+
+export interface UserLeftMessage extends BaseMessage {
+  type: 'user-left';
+  userId?: string;
+  socketId?: string;
+}
+
+export interface DrawingBroadcastMessage extends BaseMessage {
+  type: 'drawing-event';
+  event: DrawingEventPayload;
+  sessionId?: string;
+  userId?: string;
+  socketId?: string;
+}
+
+export interface CursorMovedMessage extends BaseMessage {
+  type: 'cursor-moved';
+  x: number;
+  y: number;
+  sessionId?: string;
+  userId?: string;
+  socketId?: string;
+}
+
+export interface ChatBroadcastMessage extends BaseMessage {
+  type: 'chat-message';
+  id: string;
+  message: string;
+  sessionId?: string;
+  userId?: string;
+  userName?: string;
+  socketId?: string;
+}
+
+export interface SessionStateUpdatedMessage extends BaseMessage {
+  type: 'session-state-updated';
+  state: SessionState;
+  version?: number;
+}
+
+export interface SessionStatePatchedMessage extends BaseMessage {
+  type: 'session-state-patched';
+  baseVersion: number;
+  version: number;
+  patch: StatePatchOperation[];
+}
+
+export interface WebRTCSignalBroadcastMessage extends BaseMessage {
+  type: 'webrtc-signal';
+  signal: any;
+  signalType: SignalType;
+  from?: string;
+  to?: string;
+}
+
+export interface ReactionBroadcastMessage extends BaseMessage {
+  type: 'reaction';
+  id: string;
+  reaction: string;
+  x?: number;
+  y?: number;
+  userId?: string;
+  socketId?: string;
+}
+
+export interface RoleChangedMessage extends BaseMessage {
+  type: 'role-changed';
+  sessionId: string;
+  userId: string;
+  role: GrantableRole;
+  // Who granted the role
+  by?: string;
+}
+
+export interface PresenceParticipant {
+  // User id, or the connection id for anonymous participants
+  id: string;
+  role: ParticipantRole;
+  joinedAt: number;
+  lastActiveAt: number;
+  // Joined without a user id, so nothing can be addressed to them by id
+  anonymous?: boolean;
+}
+
+/**
+ * Everyone currently connected to a session, sent whenever membership changes
+ */
+export interface PresenceMessage extends BaseMessage {
+  type: 'presence';
+  sessionId: string;
+  participants: PresenceParticipant[];
+}
+
+/**
+ * Confirms a client message carrying a `messageId` was accepted
+ */
+export interface AckMessage extends BaseMessage {
+  type: 'ack';
+  messageId: string;
+}
+
+/**
+ * Answers a `hello` with the version both sides speak and the capabilities both support
+ */
+export interface WelcomeMessage extends BaseMessage {
+  type: 'welcome';
+  protocolVersion: number;
+  capabilities: ProtocolCapability[];
+}
+
+export interface PongMessage extends BaseMessage {
+  type: 'pong';
+  pingId: string;
+}
+
+export interface RpcResponseMessage extends BaseMessage {
+  type: 'rpc-response';
+  requestId: string;
+  result: unknown;
+}
+
+export type RpcErrorCode =
+  | 'method-not-found'
+  | 'invalid-params'
+  | 'forbidden'
+  | 'timeout'
+  | 'unavailable'
+  | 'internal-error';
+
+export interface RpcErrorMessage extends BaseMessage {
+  type: 'rpc-error';
+  requestId: string;
+  code: RpcErrorCode;
+  message: string;
+}
+
+export type ProtocolErrorCode =
+  | 'invalid-json'
+  | 'invalid-message'
+  | 'unknown-type'
+  | 'unauthorized'
+  | 'forbidden'
+  // A state patch didn't build on the version the server holds
+  | 'version-mismatch'
+  // The client's protocol version is older than the server understands
+  | 'upgrade-required';
+
+export interface ErrorMessage extends BaseMessage {
+  type: 'error';
+  code: ProtocolErrorCode;
+  message: string;
+  // Type of the rejected message, when it could be read
+  ref?: string;
+}
+
+export type ServerMessage =
+  | ConnectedMessage
+  | SessionJoinedMessage
+  | SessionSnapshotMessage
+  | UserJoinedMessage
+  | UserLeftMessage
+  | DrawingBroadcastMessage
+  | CursorMovedMessage
+  | ChatBroadcastMessage
+  | SessionStateUpdatedMessage
+  | SessionStatePatchedMessage
+  | WebRTCSignalBroadcastMessage
+  | ReactionBroadcastMessage
+  | PresenceMessage
+  | RoleChangedMessage
+  | AckMessage
+  | WelcomeMessage
+  | PongMessage
+  | RpcResponseMessage
+  | RpcErrorMessage
+  | ErrorMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+/**
+ * Map of server message type to its message shape, used for typed `on` handlers
+ */
+export type ServerMessageMap = {
+  [T in ServerMessageType]: Extract<ServerMessage, { type: T }>;
+};
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; error: ErrorMessage };
+
+// Field validators
+
+type FieldCheck = (value: unknown) => boolean;
+type Schema = Record<string, FieldCheck>;
+
+const isString: FieldCheck = (value) => typeof value === 'string';
+const isNonEmptyString: FieldCheck = (value) => typeof value === 'string' && value.length > 0;
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+const isObject: FieldCheck = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isPresent: FieldCheck = (value) => value !== undefined && value !== null;
+const isSignalType: FieldCheck = (value) =>
+  value === 'offer' || value === 'answer' || value === 'ice-candidate';
+const isGrantableRole: FieldCheck = (value) =>
+  value === 'co-host' || value === 'drawer' || value === 'viewer';
+const isParticipantRole: FieldCheck = (value) => value === 'host' || isGrantableRole(value);
+const optional = (check: FieldCheck): FieldCheck => (value) =>
+  value === undefined || value === null || check(value);
+
+// Hosts may publish partial state (e.g. only components), so both arrays are optional
+const isSessionState: FieldCheck = (value) =>
+  isObject(value) &&
+  optional(Array.isArray)((value as Record<string, unknown>).components) &&
+  optional(Array.isArray)((value as Record<string, unknown>).canvasData);
+
+const isStatePatch: FieldCheck = (value) =>
+  Array.isArray(value) &&
+  value.every((operation) =>
+    isObject(operation) &&
+    isString(operation.path) &&
+    (operation.op === 'remove' || ((operation.op === 'add' || operation.op === 'replace') && 'value' in operation))
+  );
+
+// Unknown capabilities are allowed, so newer clients can offer features older servers ignore
+const isCapabilityList: FieldCheck = (value) => Array.isArray(value) && value.every(isString);
+
+// Upper bound on messages in one batch envelope
+export const MAX_BATCH_SIZE = 200;
+
+const batchableSchemas: Record<BatchableMessageType, Schema> = {
+  'drawing-event': { event: isObject, userId: optional(isString) },
+  'cursor-move': { x: isNumber, y: isNumber, userId: optional(isString) },
+};
+
+// Inner messages take their session from the envelope, so only their own fields are checked
+const isBatchList: FieldCheck = (value) =>
+  Array.isArray(value) &&
+  value.length <= MAX_BATCH_SIZE &&
+  value.every((item) => validate(item, batchableSchemas).ok);
+
+const isParticipantList: FieldCheck = (value) =>
+  Array.isArray(value) &&
+  value.every((item) =>
+    isObject(item) &&
+    isNonEmptyString(item.id) &&
+    isParticipantRole(item.role) &&
+    isNumber(item.joinedAt) &&
+    isNumber(item.lastActiveAt) &&
+    (item.anonymous === undefined || typeof item.anonymous === 'boolean')
+  );
+
+const clientSchemas: Record<ClientMessageType, Schema> = {
+  'join-session': {
+    sessionId: isNonEmptyString,
+    userId: optional(isString),
+    isHost: optional(isBoolean),
+    lastSeq: optional(isNumber),
+    accessToken: optional(isString),
+  },
+  'leave-session': { sessionId: optional(isString), userId: optional(isString) },
+  'drawing-event': { sessionId: isNonEmptyString, event: isObject, userId: optional(isString) },
+  'cursor-move': { sessionId: isNonEmptyString, x: isNumber, y: isNumber, userId: optional(isString) },
+  'chat-message': {
+    sessionId: isNonEmptyString,
+    message: isNonEmptyString,
+    userId: optional(isString),
+    userName: optional(isString),
+  },
+  'state-update': { sessionId: isNonEmptyString, state: isSessionState, version: optional(isNumber) },
+  'state-patch': { sessionId: isNonEmptyString, baseVersion: isNumber, version: isNumber, patch: isStatePatch },
+  'webrtc-signal': {
+    sessionId: isNonEmptyString,
+    signal: isPresent,
+    signalType: isSignalType,
+    to: optional(isString),
+    userId: optional(isString),
+  },
+  reaction: {
+    sessionId: isNonEmptyString,
+    reaction: isNonEmptyString,
+    x: optional(isNumber),
+    y: optional(isNumber),
+    userId: optional(isString),
+  },
+  'set-role': {
+    sessionId: isNonEmptyString,
+    targetUserId: isNonEmptyString,
+    role: isGrantableRole,
+    userId: optional(isString),
+  },
+  'rpc-request': {
+    requestId: isNonEmptyString,
+    sessionId: isNonEmptyString,
+    method: isNonEmptyString,
+    params: optional(isObject),
+  },
+  ping: { pingId: isNonEmptyString },
+  hello: { protocolVersion: isNumber, capabilities: isCapabilityList },
+  batch: { sessionId: isNonEmptyString, messages: isBatchList },
+};
+
+const serverSchemas: Record<ServerMessageType, Schema> = {
+  connected: { connectionId: optional(isString) },
+  'session-joined': { sessionId: isNonEmptyString, userId: optional(isString), isHost: optional(isBoolean) },
+  'session-snapshot': { sessionId: isNonEmptyString, seq: isNumber, state: optional(isSessionState), version: optional(isNumber) },
+  'user-joined': { userId: optional(isString), isHost: optional(isBoolean) },
+  'user-left': { userId: optional(isString) },
+  'drawing-event': { event: isObject, userId: optional(isString) },
+  'cursor-moved': { x: isNumber, y: isNumber, userId: optional(isString) },
+  'chat-message': { id: isNonEmptyString, message: isString, userId: optional(isString), userName: optional(isString) },
+  'session-state-updated': { state: isSessionState, version: optional(isNumber) },
+  'session-state-patched': { baseVersion: isNumber, version: isNumber, patch: isStatePatch },
+  'webrtc-signal': { signal: isPresent, signalType: isSignalType, from: optional(isString) },
+  reaction: { id: isNonEmptyString, reaction: isNonEmptyString, x: optional(isNumber), y: optional(isNumber) },
+  presence: { sessionId: isNonEmptyString, participants: isParticipantList },
+  ack: { messageId: isNonEmptyString },
+  welcome: { protocolVersion: isNumber, capabilities: isCapabilityList },
+  pong: { pingId: isNonEmptyString },
+  'rpc-response': { requestId: isNonEmptyString },
+  'rpc-error': { requestId: isNonEmptyString, code: isNonEmptyString, message: isString },
+  'role-changed': { sessionId: isNonEmptyString, userId: isNonEmptyString, role: isGrantableRole, by: optional(isString) },
+  error: { code: isNonEmptyString, message: isString },
+};
+
+/**
+ * Build a structured error frame to send back to the peer
+ */
+export function createErrorMessage(code: ProtocolErrorCode, message: string, ref?: string): ErrorMessage {
+  return {
+    type: 'error',
+    code,
+    message,
+    ...(ref ? { ref } : {}),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Acknowledge a client message that carried a `messageId`
+ */
+export function createAckMessage(messageId: string): AckMessage {
+  return { type: 'ack', messageId, timestamp: Date.now() };
+}
+
+/**
+ * Answer a client's `ping`
+ */
+export function createPongMessage(pingId: string): PongMessage {
+  return { type: 'pong', pingId, timestamp: Date.now() };
+}
+
+/**
+ * Open a connection, offering every capability this client can use on it
+ */
+export function createHelloMessage(capabilities: ProtocolCapability[]): HelloMessage {
+  return { type: 'hello', protocolVersion: PROTOCOL_VERSION, capabilities, timestamp: Date.now() };
+}
+
+/**
+ * The error for messages from a client older than the server understands, or null.
+ * `ref` names the rejected message's type.
+ */
+export function checkProtocolVersion(protocolVersion: number, ref: string, minimum: number = MIN_PROTOCOL_VERSION): ErrorMessage | null {
+  if (protocolVersion >= minimum) return null;
+  return createErrorMessage(
+    'upgrade-required',
+    `Protocol version ${protocolVersion} is no longer supported (minimum ${minimum}); reload to update`,
+    ref
+  );
+}
+
+/**
+ * Answer a client's `hello` with what the server supports out of what the client offered
+ */
+export function negotiateProtocol(
+  hello: HelloMessage,
+  supported: readonly ProtocolCapability[],
+  minimum: number = MIN_PROTOCOL_VERSION
+): WelcomeMessage | ErrorMessage {
+  const outdated = checkProtocolVersion(hello.protocolVersion, hello.type, minimum);
+  if (outdated) return outdated;
+
+  return {
+    type: 'welcome',
+    protocolVersion: Math.min(hello.protocolVersion, PROTOCOL_VERSION),
+    capabilities: supported.filter((capability) => hello.capabilities.includes(capability)),
+    timestamp: Date.now(),
+  };
+}
+
+function validate<T extends { type: string }>(
+  raw: unknown,
+  schemas: Record<string, Schema>
+): ParseResult<T> {
+  if (!isObject(raw)) {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Message must be a JSON object') };
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  const { type } = candidate;
+
+  if (typeof type !== 'string') {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Message is missing a string "type" field') };
+  }
+
+  const schema = Object.prototype.hasOwnProperty.call(schemas, type) ? schemas[type] : undefined;
+  if (!schema) {
+    return { ok: false, error: createErrorMessage('unknown-type', `Unknown message type: ${type}`, type) };
+  }
+
+  for (const [field, check] of Object.entries(schema)) {
+    if (!check(candidate[field])) {
+      return {
+        ok: false,
+        error: createErrorMessage('invalid-message', `Invalid or missing field "${field}" for ${type}`, type),
+      };
+    }
+  }
+
+  if (candidate.timestamp !== undefined && !isNumber(candidate.timestamp)) {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Field "timestamp" must be a number', type) };
+  }
+
+  if (candidate.seq !== undefined && !isNumber(candidate.seq)) {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Field "seq" must be a number', type) };
+  }
+
+  if (candidate.messageId !== undefined && !isNonEmptyString(candidate.messageId)) {
+    return { ok: false, error: createErrorMessage('invalid-message', 'Field "messageId" must be a non-empty string', type) };
+  }
+
+  return {
+    ok: true,
+    message: {
+      ...candidate,
+      timestamp: (candidate.timestamp as number | undefined) ?? Date.now(),
+    } as unknown as T,
+  };
+}
+
+/**
+ * Validate a message sent by a client to a server entry point
+ */
+export function parseClientMessage(raw: unknown): ParseResult<ClientMessage> {
+  return validate<ClientMessage>(raw, clientSchemas);
+}
+
+/**
+ * Validate a message received by a client from a server
+ */
+export function parseServerMessage(raw: unknown): ParseResult<ServerMessage> {
+  return validate<ServerMessage>(raw, serverSchemas);
+}
+
+/**
+ * Decode and validate a raw client frame (JSON text)
+ */
+export function decodeClientMessage(data: string): ParseResult<ClientMessage> {
+  try {
+    return parseClientMessage(JSON.parse(data));
+  } catch {
+    return { ok: false, error: createErrorMessage('invalid-json', 'Message is not valid JSON') };
+  }
+}
+
+/**
+ * Decode and validate a raw server frame (JSON text)
+ */
+export function decodeServerMessage(data: string): ParseResult<ServerMessage> {
+  try {
+    return parseServerMessage(JSON.parse(data));
+  } catch {
+    return { ok: false, error: createErrorMessage('invalid-json', 'Message is not valid JSON') };
+  }
+}
+
+/**
+ * Expand a validated batch envelope into its messages, each bound to the envelope's session
+ */
+export function unpackBatch(batch: BatchMessage): BatchableMessage[] {
+  return batch.messages.map((message) => ({
+    ...message,
+    sessionId: batch.sessionId,
+    timestamp: message.timestamp ?? batch.timestamp,
+  }));
+}
+
+/**
+ * Generate an id for a relayed chat message
+ */
+export function generateChatMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Generate a `messageId` for a client message that should be acknowledged
+ */
+export function generateClientMessageId(): string {
+  return `cmsg_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Who the relay knows a message to be from, as opposed to what the message claims
+ */
+export interface BroadcastSender {
+  userId?: string;
+  isHost?: boolean;
+}
+
+/**
+ * Translate a client message into the message a relay broadcasts to the session.
+ * Returns null for messages that are not broadcast as-is.
+ */
+export function toBroadcastMessage(message: ClientMessage, sender: BroadcastSender = {}): ServerMessage | null {
+  const timestamp = Date.now();
+
+  switch (message.type) {
+    case 'join-session':
+      // Anyone can claim to be the host; only the relay's own check of the sender counts
+      return { type: 'user-joined', userId: message.userId, isHost: sender.isHost ?? false, timestamp };
+    case 'leave-session':
+      return { type: 'user-left', userId: message.userId, timestamp };
+    case 'drawing-event':
+      return { type: 'drawing-event', sessionId: message.sessionId, event: message.event, userId: message.userId, timestamp };
+    case 'cursor-move':
+      return { type: 'cursor-moved', sessionId: message.sessionId, x: message.x, y: message.y, userId: message.userId, timestamp };
+    case 'chat-message':
+      return {
+        type: 'chat-message',
+        id: generateChatMessageId(),
+        sessionId: message.sessionId,
+        message: message.message,
+        userId: message.userId,
+        userName: message.userName,
+        // Lets the sender match the echo to the message it sent
+        messageId: message.messageId,
+        timestamp,
+      };
+    case 'state-update':
+      return { type: 'session-state-updated', state: message.state, version: message.version, timestamp };
+    case 'state-patch':
+      return { type: 'session-state-patched', baseVersion: message.baseVersion, version: message.version, patch: message.patch, timestamp };
+    case 'webrtc-signal':
+      return {
+        type: 'webrtc-signal',
+        signal: message.signal,
+        signalType: message.signalType,
+        from: sender.userId ?? message.userId,
+        to: message.to,
+        timestamp,
+      };
+    case 'reaction':
+      return {
+        type: 'reaction',
+        id: `reaction_${timestamp}_${Math.random().toString(36).substring(2, 11)}`,
+        reaction: message.reaction,
+        x: message.x,
+        y: message.y,
+        userId: message.userId,
+        timestamp,
+      };
+    case 'set-role':
+      return {
+        type: 'role-changed',
+        sessionId: message.sessionId,
+        userId: message.targetUserId,
+        role: message.role,
+        by: message.userId,
+        timestamp,
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,144 @@
+import { EventEmitter } from 'events';
+import { ServerMessage } from '@/lib/realtime/protocol';
+import { BrokerListener, MessageBroker, SESSION_MESSAGE_LIMIT } from '@/lib/realtime/message-broker';
+import { RespClient } from '@/lib/realtime/resp';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('redis-broker');
+
+const KEY_PREFIX = 'inkstream:session:';
+// Idle sessions' history is dropped after an hour
+const MESSAGE_TTL_SECONDS = 60 * 60;
+
+interface BrokerEnvelope {
+  origin?: string;
+  message: ServerMessage;
+}
+
+/**
+ * Message broker backed by any server speaking the Redis protocol.
+ * History lives in a capped list per session; fan-out uses PUBLISH/SUBSCRIBE
+ * so every server process sees every message.
+ */
+export class RedisMessageBroker implements MessageBroker {
+  private commands: RespClient;
+  private subscriber: RespClient;
+  private emitter = new EventEmitter();
+  // Last publish started per session; the next waits for it, so its timestamp is read after the push
+  private publishing: Map<string, Promise<ServerMessage>> = new Map();
+
+  constructor(url: string, private limit: number = SESSION_MESSAGE_LIMIT) {
+    this.emitter.setMaxListeners(0);
+    this.commands = new RespClient(url);
+    // Subscribed connections can't run other commands, so fan-out gets its own
+    this.subscriber = new RespClient(url, {
+      onMessage: (channel, payload) => this.handleMessage(channel, payload),
+      onConnect: () => this.resubscribe(),
+    });
+  }
+
+  publish(sessionId: string, message: ServerMessage, origin?: string): Promise<ServerMessage> {
+    // Publishes that overlap (e.g. an unpacked batch, published without waiting) would
+    // otherwise all read the same last timestamp
+    const previous = this.publishing.get(sessionId);
+    const published = previous
+      ? previous.catch(() => undefined).then(() => this.append(sessionId, message, origin))
+      : this.append(sessionId, message, origin);
+
+    this.publishing.set(sessionId, published);
+    published
+      .catch(() => undefined)
+      .then(() => {
+        if (this.publishing.get(sessionId) === published) {
+          this.publishing.delete(sessionId);
+        }
+      });
+
+    return published;
+  }
+
+  private async append(sessionId: string, message: ServerMessage, origin?: string): Promise<ServerMessage> {
+    const key = this.messagesKey(sessionId);
+
+    // Keep timestamps strictly increasing per session: publishes from this process run
+    // one at a time, those from other processes are best effort
+    const last = await this.lastTimestamp(sessionId);
+    if (last !== null && message.timestamp <= last) {
+      message = { ...message, timestamp: last + 1 };
+    }
+
+    const envelope: BrokerEnvelope = { origin, message };
+    await Promise.all([
+      this.commands.command('RPUSH', key, JSON.stringify(message)),
+      this.commands.command('LTRIM', key, -this.limit, -1),
+      this.commands.command('EXPIRE', key, MESSAGE_TTL_SECONDS),
+      this.commands.command('PUBLISH', this.channel(sessionId), JSON.stringify(envelope)),
+    ]);
+
+    return message;
+  }
+
+  async since(sessionId: string, timestamp: number): Promise<ServerMessage[]> {
+    const entries = await this.commands.command('LRANGE', this.messagesKey(sessionId), 0, -1);
+    if (!Array.isArray(entries)) return [];
+
+    return entries
+      .map((entry) => JSON.parse(String(entry)) as ServerMessage)
+      .filter((message) => message.timestamp > timestamp);
+  }
+
+  async lastTimestamp(sessionId: string): Promise<number | null> {
+    const last = await this.commands.command('LINDEX', this.messagesKey(sessionId), -1);
+    return typeof last === 'string' ? (JSON.parse(last) as ServerMessage).timestamp : null;
+  }
+
+  subscribe(sessionId: string, listener: BrokerListener): () => void {
+    this.emitter.on(sessionId, listener);
+    if (this.emitter.listenerCount(sessionId) === 1) {
+      this.subscriber.command('SUBSCRIBE', this.channel(sessionId)).catch((error) => {
+        log.error('Error subscribing to session', { sessionId, error });
+      });
+    }
+
+    return () => {
+      this.emitter.off(sessionId, listener);
+      if (this.emitter.listenerCount(sessionId) === 0) {
+        this.subscriber.command('UNSUBSCRIBE', this.channel(sessionId)).catch((error) => {
+          log.error('Error unsubscribing from session', { sessionId, error });
+        });
+      }
+    };
+  }
+
+  close(): void {
+    this.commands.close();
+    this.subscriber.close();
+    this.emitter.removeAllListeners();
+  }
+
+  private handleMessage(channel: string, payload: string): void {
+    if (!channel.startsWith(KEY_PREFIX)) return;
+
+    try {
+      const { origin, message } = JSON.parse(payload) as BrokerEnvelope;
+      this.emitter.emit(channel.slice(KEY_PREFIX.length), message, origin);
+    } catch (error) {
+      log.error('Rejected broker message', { error });
+    }
+  }
+
+  // Subscriptions don't survive a dropped connection
+  private resubscribe(): void {
+    for (const sessionId of this.emitter.eventNames()) {
+      this.subscriber.command('SUBSCRIBE', this.channel(String(sessionId))).catch(() => {});
+    }
+  }
+
+  private messagesKey(sessionId: string): string {
+    return `${KEY_PREFIX}${sessionId}:messages`;
+  }
+
+  private channel(sessionId: string): string {
+    return `${KEY_PREFIX}${sessionId}`;
+  }
+}
@@ -0,0 +1,171 @@
+import net from 'net';
+import { RespValue, parseValue } from '@/lib/realtime/resp';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('redis-stand-in');
+
+/**
+ * In-process stand-in for a Redis server, speaking just enough of the protocol
+ * for the Redis message broker (lists, expiry, pub/sub). Point REDIS_URL at it
+ * to exercise the multi-process broker path locally without installing Redis.
+ */
+export class RedisStandIn {
+  private server: net.Server | null = null;
+  private lists: Map<string, string[]> = new Map();
+  private expiryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private subscriptions: Map<string, Set<net.Socket>> = new Map();
+
+  // Port 0 picks a free one, which `url` reports once started
+  constructor(private port: number = 6390) {}
+
+  get url(): string {
+    const address = this.server?.address();
+    const port = address && typeof address === 'object' ? address.port : this.port;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = net.createServer((socket) => this.handleConnection(socket));
+      this.server.once('error', reject);
+      this.server.listen(this.port, () => {
+        log.info('Redis stand-in listening', { url: this.url });
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    this.expiryTimers.forEach((timer) => clearTimeout(timer));
+    this.expiryTimers.clear();
+    this.lists.clear();
+    this.subscriptions.forEach((sockets) => sockets.forEach((socket) => socket.destroy()));
+    this.subscriptions.clear();
+
+    return new Promise((resolve) => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let offset = 0;
+      try {
+        while (offset < buffer.length) {
+          const parsed = parseValue(buffer, offset);
+          if (!parsed) break;
+          offset = parsed.offset;
+
+          if (Array.isArray(parsed.value)) {
+            this.execute(socket, parsed.value.map(String));
+          }
+        }
+      } catch {
+        socket.destroy();
+        return;
+      }
+
+      buffer = buffer.subarray(offset);
+    });
+
+    socket.on('close', () => {
+      this.subscriptions.forEach((sockets) => sockets.delete(socket));
+    });
+    socket.on('error', () => {});
+  }
+
+  private execute(socket: net.Socket, [name, ...args]: string[]): void {
+    const reply = (value: RespValue | Error) => {
+      socket.write(encodeReply(value));
+    };
+
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return reply('PONG');
+      case 'AUTH':
+      case 'SELECT':
+        return reply('OK');
+      case 'RPUSH': {
+        const list = this.lists.get(args[0]) ?? [];
+        list.push(...args.slice(1));
+        this.lists.set(args[0], list);
+        return reply(list.length);
+      }
+      case 'LTRIM': {
+        const list = this.lists.get(args[0]) ?? [];
+        this.lists.set(args[0], slice(list, Number(args[1]), Number(args[2])));
+        return reply('OK');
+      }
+      case 'LRANGE':
+        return reply(slice(this.lists.get(args[0]) ?? [], Number(args[1]), Number(args[2])));
+      case 'LINDEX': {
+        const list = this.lists.get(args[0]) ?? [];
+        const index = Number(args[1]);
+        return reply(list[index < 0 ? list.length + index : index] ?? null);
+      }
+      case 'DEL':
+        return reply(args.filter((key) => this.lists.delete(key)).length);
+      case 'EXPIRE': {
+        if (!this.lists.has(args[0])) return reply(0);
+        clearTimeout(this.expiryTimers.get(args[0]));
+        this.expiryTimers.set(args[0], setTimeout(() => {
+          this.expiryTimers.delete(args[0]);
+          this.lists.delete(args[0]);
+        }, Number(args[1]) * 1000));
+        return reply(1);
+      }
+      case 'PUBLISH': {
+        const subscribers = this.subscriptions.get(args[0]) ?? new Set();
+        subscribers.forEach((subscriber) => subscriber.write(encodeReply(['message', args[0], args[1]])));
+        return reply(subscribers.size);
+      }
+      case 'SUBSCRIBE':
+        args.forEach((channel) => {
+          if (!this.subscriptions.has(channel)) {
+            this.subscriptions.set(channel, new Set());
+          }
+          this.subscriptions.get(channel)!.add(socket);
+          reply(['subscribe', channel, this.countSubscriptions(socket)]);
+        });
+        return;
+      case 'UNSUBSCRIBE':
+        args.forEach((channel) => {
+          this.subscriptions.get(channel)?.delete(socket);
+          reply(['unsubscribe', channel, this.countSubscriptions(socket)]);
+        });
+        return;
+      default:
+        return reply(new Error(`ERR unknown command '${name}'`));
+    }
+  }
+
+  private countSubscriptions(socket: net.Socket): number {
+    let count = 0;
+    this.subscriptions.forEach((sockets) => {
+      if (sockets.has(socket)) count++;
+    });
+    return count;
+  }
+}
+
+// LRANGE/LTRIM semantics: inclusive bounds, negative indexes count from the end
+function slice(list: string[], start: number, stop: number): string[] {
+  const from = start < 0 ? Math.max(list.length + start, 0) : start;
+  const to = stop < 0 ? list.length + stop : Math.min(stop, list.length - 1);
+  return from > to ? [] : list.slice(from, to + 1);
+}
+
+function encodeReply(value: RespValue | Error): string {
+  if (value instanceof Error) return `-${value.message}\r\n`;
+  if (value === null) return '$-1\r\n';
+  if (typeof value === 'number') return `:${value}\r\n`;
+  if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encodeReply).join('')}`;
+  if (value === 'OK' || value === 'PONG') return `+${value}\r\n`;
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
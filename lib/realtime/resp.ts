@@ -0,0 +1,196 @@
+import net from 'net';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('redis');
+
+/**
+ * Minimal client for the Redis serialization protocol (RESP2).
+ * Covers what the Redis message broker needs: request/reply commands on one
+ * connection and SUBSCRIBE push messages on another, without a client library.
+ */
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface ParsedValue {
+  value: RespValue;
+  offset: number;
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Parse one RESP value starting at `offset`, or return null if the buffer
+ * does not hold a complete value yet
+ */
+export function parseValue(buffer: Buffer, offset = 0): ParsedValue | null {
+  if (offset >= buffer.length) return null;
+
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseValue(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new RespError(`Unexpected RESP type byte: ${prefix}`);
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export interface RespClientOptions {
+  // Called with messages published to subscribed channels
+  onMessage?: (channel: string, payload: string) => void;
+  // Called after every (re)connect, e.g. to restore subscriptions
+  onConnect?: () => void;
+}
+
+/**
+ * One RESP connection. Connects lazily and reconnects on the next command after a drop.
+ */
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private url: URL;
+
+  constructor(url: string, private options: RespClientOptions = {}) {
+    this.url = new URL(url);
+  }
+
+  command(...args: Array<string | number>): Promise<RespValue> {
+    const socket = this.connect();
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        resolve: (value) => (value instanceof RespError ? reject(value) : resolve(value)),
+        reject,
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.end();
+      this.socket = null;
+    }
+  }
+
+  private connect(): net.Socket {
+    if (this.socket) return this.socket;
+
+    const socket = net.connect({
+      host: this.url.hostname || '127.0.0.1',
+      port: Number(this.url.port) || 6379,
+    });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => this.handleData(chunk));
+    socket.on('error', (error) => {
+      log.error('Redis connection error', { error });
+    });
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      const pending = this.pending;
+      this.pending = [];
+      pending.forEach(({ reject }) => reject(new RespError('Redis connection closed')));
+    });
+
+    // Queued ahead of whatever command triggered the connect
+    if (this.url.password) {
+      this.sendInternal(socket, ['AUTH', decodeURIComponent(this.url.password)]);
+    }
+    const db = this.url.pathname.replace('/', '');
+    if (db) {
+      this.sendInternal(socket, ['SELECT', db]);
+    }
+
+    this.options.onConnect?.();
+    return socket;
+  }
+
+  private sendInternal(socket: net.Socket, args: Array<string | number>): void {
+    this.pending.push({
+      resolve: (value) => {
+        if (value instanceof RespError) {
+          log.error('Redis command failed', { command: args[0], reason: value.message });
+        }
+      },
+      reject: () => {},
+    });
+    socket.write(encodeCommand(args));
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const parsed = parseValue(this.buffer, offset);
+      if (!parsed) break;
+      offset = parsed.offset;
+
+      const { value } = parsed;
+      if (Array.isArray(value) && value[0] === 'message' && this.options.onMessage) {
+        this.options.onMessage(String(value[1]), String(value[2]));
+        continue;
+      }
+
+      this.pending.shift()?.resolve(value);
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+}
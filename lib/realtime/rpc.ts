@@ -0,0 +1,183 @@
+import {
+  RpcErrorCode,
+  RpcErrorMessage,
+  RpcMethod,
+  RpcParams,
+  RpcRequestMessage,
+  RpcResponseMessage,
+  RpcResult,
+} from '@/lib/realtime/protocol';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('rpc');
+
+/**
+ * Request/response calls over the realtime channel.
+ * Requests carry a correlation id; the server answers with `rpc-response` or a typed `rpc-error`.
+ */
+
+// How long a request waits for its response unless the caller says otherwise
+export const DEFAULT_RPC_TIMEOUT_MS = 10000;
+// How long a server method may run before the request is answered with a timeout
+const DEFAULT_HANDLER_TIMEOUT_MS = 5000;
+
+export class RpcError extends Error {
+  constructor(public code: RpcErrorCode, message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export interface RpcRequestOptions {
+  timeout?: number;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: RpcError) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Client side of RPC: sends requests and matches responses to them
+ */
+export class RpcChannel {
+  private pending: Map<string, PendingRequest> = new Map();
+
+  // `send` returns false when the request couldn't be handed to a transport
+  constructor(private send: (request: RpcRequestMessage) => boolean) {}
+
+  request<M extends RpcMethod>(
+    sessionId: string,
+    method: M,
+    params: RpcParams<M>,
+    options: RpcRequestOptions = {}
+  ): Promise<RpcResult<M>> {
+    const requestId = `rpc_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const timeout = options.timeout ?? DEFAULT_RPC_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new RpcError('timeout', `${method} got no response within ${timeout}ms`));
+      }, timeout);
+
+      this.pending.set(requestId, { resolve, reject, timer });
+
+      const sent = this.send({
+        type: 'rpc-request',
+        requestId,
+        sessionId,
+        method,
+        params,
+        timestamp: Date.now(),
+      });
+      if (!sent) {
+        this.settle(requestId, undefined, new RpcError('unavailable', 'No connection to send the request on'));
+      }
+    });
+  }
+
+  /**
+   * Settle the request a response belongs to; returns false for unknown (e.g. timed out) requests
+   */
+  handleResponse(message: RpcResponseMessage | RpcErrorMessage): boolean {
+    if (!this.pending.has(message.requestId)) return false;
+
+    if (message.type === 'rpc-error') {
+      this.settle(message.requestId, undefined, new RpcError(message.code, message.message));
+    } else {
+      this.settle(message.requestId, message.result);
+    }
+    return true;
+  }
+
+  /**
+   * Fail every outstanding request, e.g. when the connection they were sent on is gone
+   */
+  rejectAll(code: RpcErrorCode, reason: string): void {
+    Array.from(this.pending.keys()).forEach((requestId) => {
+      this.settle(requestId, undefined, new RpcError(code, reason));
+    });
+  }
+
+  private settle(requestId: string, result: unknown, error?: RpcError): void {
+    const request = this.pending.get(requestId);
+    if (!request) return;
+
+    clearTimeout(request.timer);
+    this.pending.delete(requestId);
+
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(result);
+    }
+  }
+}
+
+/**
+ * Who is calling: the requester's connection as the server knows it
+ */
+export interface RpcContext {
+  sessionId: string;
+  connectionId: string;
+  userId?: string;
+}
+
+export type RpcHandler<M extends RpcMethod> = (
+  params: RpcParams<M>,
+  context: RpcContext
+) => RpcResult<M> | Promise<RpcResult<M>>;
+
+/**
+ * Server side of RPC: methods by name, answering each request with a response or typed error
+ */
+export class RpcRegistry {
+  private handlers: Map<string, RpcHandler<any>> = new Map();
+
+  constructor(private timeoutMs: number = DEFAULT_HANDLER_TIMEOUT_MS) {}
+
+  register<M extends RpcMethod>(method: M, handler: RpcHandler<M>): this {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  async handle(request: RpcRequestMessage, context: RpcContext): Promise<RpcResponseMessage | RpcErrorMessage> {
+    const handler = this.handlers.get(request.method);
+    if (!handler) {
+      return this.error(request, new RpcError('method-not-found', `Unknown method: ${request.method}`));
+    }
+
+    let timer: NodeJS.Timeout | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new RpcError('timeout', `${request.method} took longer than ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([Promise.resolve(handler(request.params ?? {}, context)), timeout]);
+      return { type: 'rpc-response', requestId: request.requestId, result, timestamp: Date.now() };
+    } catch (error) {
+      if (error instanceof RpcError) {
+        return this.error(request, error);
+      }
+
+      log.error('Error in RPC method', { method: request.method, error });
+      return this.error(request, new RpcError('internal-error', `${request.method} failed`));
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  private error(request: RpcRequestMessage, error: RpcError): RpcErrorMessage {
+    return {
+      type: 'rpc-error',
+      requestId: request.requestId,
+      code: error.code,
+      message: error.message,
+      timestamp: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ChatBroadcastMessage, ClientMessage, ServerMessage } from '@/lib/realtime/protocol';
+import { LocalWebSocketServer } from '@/lib/websocket/websocket-server';
+import { WebSocketParticipant } from '@/lib/websocket/test-participant';
+import { GET, POST } from '@/app/api/sessions/[id]/state/route';
+
+// Sessions come from DynamoDB; these tests only need one to exist
+vi.mock('@/lib/aws/dynamodb', () => ({
+  getSessionById: async (id: string) => ({ id, hostId: 'host-1' }),
+  getStoredSessionState: async () => null,
+  updateSessionState: async () => {},
+  appendStatePatch: async () => Date.now(),
+  getSessionRoles: async () => ({}),
+  setSessionRole: async () => {},
+}));
+
+const SESSION_ID = 'mixed-session';
+
+/**
+ * A participant on HTTP polling, through the session state route
+ */
+const polling = {
+  async post(message: ClientMessage): Promise<Response> {
+    const request = new NextRequest(`http://localhost/api/sessions/${SESSION_ID}/state`, {
+      method: 'POST',
+      body: JSON.stringify(message),
+    });
+    return POST(request, { params: Promise.resolve({ id: SESSION_ID }) });
+  },
+
+  async poll(since: number): Promise<ServerMessage[]> {
+    const request = new NextRequest(`http://localhost/api/sessions/${SESSION_ID}/state?since=${since}`);
+    const response = await GET(request, { params: Promise.resolve({ id: SESSION_ID }) });
+    return (await response.json()).updates;
+  },
+};
+
+function chat(userId: string, message: string): ClientMessage {
+  return { type: 'chat-message', sessionId: SESSION_ID, userId, message, timestamp: Date.now() };
+}
+
+describe('session fan-out across transports', () => {
+  const server = new LocalWebSocketServer(0, {
+    verifier: null,
+    getSessionHostId: async () => 'host-1',
+    heartbeatIntervalMs: 60000,
+  });
+  const participants: WebSocketParticipant[] = [];
+
+  const connect = () => {
+    const participant = new WebSocketParticipant(`ws://127.0.0.1:${server.getPort()}`);
+    participants.push(participant);
+    return participant;
+  };
+
+  beforeAll(() => server.start());
+
+  afterEach(async () => {
+    await Promise.all(participants.splice(0).map((participant) => participant.close()));
+  });
+
+  afterAll(() => server.stop());
+
+  it('delivers messages posted over polling to WebSocket participants', async () => {
+    const viewer = connect();
+    await viewer.join(SESSION_ID, { userId: 'ws-user' });
+
+    const response = await polling.post(chat('poll-user', 'hello from polling'));
+    expect(response.status).toBe(200);
+
+    const received = await viewer.next((message) => message.type === 'chat-message');
+    expect(received).toMatchObject({ userId: 'poll-user', message: 'hello from polling' });
+    expect(received.seq).toBeGreaterThan(0);
+  });
+
+  it('delivers messages sent over a WebSocket to polling participants', async () => {
+    const since = Date.now() - 1;
+    const viewer = connect();
+    await viewer.join(SESSION_ID, { userId: 'ws-user' });
+
+    viewer.send(chat('ws-user', 'hello from a WebSocket'));
+
+    await expect.poll(async () => {
+      const updates = await polling.poll(since);
+      return updates.filter((message) => message.type === 'chat-message');
+    }).toEqual([expect.objectContaining({ userId: 'ws-user', message: 'hello from a WebSocket', seq: expect.any(Number) })]);
+  });
+
+  it('replays by sequence number what a WebSocket participant missed while disconnected', async () => {
+    const first = connect();
+    await first.join(SESSION_ID, { userId: 'ws-user' });
+
+    await polling.post(chat('poll-user', 'before'));
+    const before = await first.next((message) => message.type === 'chat-message' && message.message === 'before');
+    await first.close();
+
+    await polling.post(chat('poll-user', 'missed 1'));
+    await polling.post(chat('poll-user', 'missed 2'));
+
+    const second = connect();
+    await second.join(SESSION_ID, { userId: 'ws-user', lastSeq: before.seq });
+
+    const missed = second.received.filter((message): message is ChatBroadcastMessage => message.type === 'chat-message');
+    expect(missed.map((message) => message.message)).toEqual(['missed 1', 'missed 2']);
+    expect(missed[0].seq).toBeGreaterThan(before.seq!);
+    expect(missed[1].seq).toBeGreaterThan(missed[0].seq!);
+
+    // And it is live again afterwards, in both directions
+    await polling.post(chat('poll-user', 'live'));
+    await second.next((message) => message.type === 'chat-message' && message.message === 'live');
+
+    const since = Date.now() - 1;
+    second.send(chat('ws-user', 'back'));
+    await expect.poll(async () => (await polling.poll(since)).some((message) => message.type === 'chat-message' && message.message === 'back')).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { ServerMessage } from '@/lib/realtime/protocol';
+import {
+  BrokerListener,
+  MessageBroker,
+  getMessageBroker,
+  waitForMessages,
+} from '@/lib/realtime/message-broker';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('session-fanout');
+
+/**
+ * Hands a message to a transport's own participants in a session
+ */
+export type RelayDelivery = (sessionId: string, message: ServerMessage) => void;
+
+/**
+ * A push transport's membership in the fan-out (e.g. a WebSocket server).
+ * Messages it publishes reach every other transport; messages anyone else
+ * publishes are handed to `deliver` for the sessions it has joined.
+ */
+export class SessionRelay {
+  readonly origin: string;
+  private subscriptions: Map<string, () => void> = new Map();
+
+  constructor(private fanout: SessionFanout, name: string, private deliver: RelayDelivery) {
+    this.origin = `${name}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  publish(sessionId: string, message: ServerMessage): void {
+    this.fanout.publish(sessionId, message, this.origin).catch((error) => {
+      log.error('Error publishing message', { sessionId, type: message.type, error });
+    });
+  }
+
+  /**
+   * Start receiving other transports' messages for a session
+   */
+  join(sessionId: string): void {
+    if (this.subscriptions.has(sessionId)) return;
+
+    const unsubscribe = this.fanout.subscribe(sessionId, (message, origin) => {
+      // Our own participants already have what we published
+      if (origin !== this.origin) {
+        this.deliver(sessionId, message);
+      }
+    });
+    this.subscriptions.set(sessionId, unsubscribe);
+  }
+
+  leave(sessionId: string): void {
+    this.subscriptions.get(sessionId)?.();
+    this.subscriptions.delete(sessionId);
+  }
+
+  close(): void {
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions.clear();
+  }
+}
+
+/**
+ * Single fan-out point for session messages across transports.
+ * Push transports take part through a relay; HTTP transports (polling, SSE)
+ * publish directly and read the broker's per-session history.
+ */
+export class SessionFanout {
+  constructor(private broker: MessageBroker = getMessageBroker()) {}
+
+  createRelay(name: string, deliver: RelayDelivery): SessionRelay {
+    return new SessionRelay(this, name, deliver);
+  }
+
+  /**
+   * Deliver a message to every participant of the session, whatever their transport
+   */
+  publish(sessionId: string, message: ServerMessage, origin?: string): Promise<ServerMessage> {
+    return this.broker.publish(sessionId, message, origin);
+  }
+
+  since(sessionId: string, timestamp: number): Promise<ServerMessage[]> {
+    return this.broker.since(sessionId, timestamp);
+  }
+
+  waitForMessages(sessionId: string, timestamp: number, timeoutMs: number, signal?: AbortSignal): Promise<ServerMessage[]> {
+    return waitForMessages(this.broker, sessionId, timestamp, timeoutMs, signal);
+  }
+
+  subscribe(sessionId: string, listener: BrokerListener): () => void {
+    return this.broker.subscribe(sessionId, listener);
+  }
+}
+
+// Route handlers can be bundled separately, so share one fan-out through globalThis
+const globalForFanout = globalThis as typeof globalThis & {
+  sessionFanout?: SessionFanout;
+};
+
+export function getSessionFanout(): SessionFanout {
+  if (!globalForFanout.sessionFanout) {
+    globalForFanout.sessionFanout = new SessionFanout();
+  }
+  return globalForFanout.sessionFanout;
+}
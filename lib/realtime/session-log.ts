@@ -0,0 +1,100 @@
+import { ServerMessage, ServerMessageType } from '@/lib/realtime/protocol';
+
+// High-frequency or point-in-time messages that are delivered live but never replayed
+const EPHEMERAL_TYPES: ReadonlySet<ServerMessageType> = new Set([
+  'cursor-moved',
+  'webrtc-signal',
+  'presence',
+  'error',
+]);
+
+export interface SessionLogOptions {
+  // Maximum number of messages retained per session
+  maxEntries?: number;
+}
+
+interface SessionEntries {
+  nextSeq: number;
+  messages: ServerMessage[];
+}
+
+/**
+ * Per-session message log with monotonically increasing sequence numbers.
+ * Lets a reconnecting client replay what it missed since its last-seen sequence.
+ */
+export class SessionLog {
+  private sessions: Map<string, SessionEntries> = new Map();
+  private maxEntries: number;
+
+  constructor(options: SessionLogOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+  }
+
+  /**
+   * Stamp a message with the next sequence number for its session and retain it.
+   * Ephemeral messages are returned unchanged.
+   */
+  append<T extends ServerMessage>(sessionId: string, message: T): T {
+    if (EPHEMERAL_TYPES.has(message.type)) {
+      return message;
+    }
+
+    const entries = this.getOrCreate(sessionId);
+    const stamped = { ...message, seq: entries.nextSeq++ };
+
+    entries.messages.push(stamped);
+    if (entries.messages.length > this.maxEntries) {
+      entries.messages.splice(0, entries.messages.length - this.maxEntries);
+    }
+
+    return stamped;
+  }
+
+  /**
+   * Messages after `lastSeq`, or null when the gap can no longer be replayed
+   * (messages were evicted, or the log was reset since the client last saw it).
+   */
+  since(sessionId: string, lastSeq: number): ServerMessage[] | null {
+    const entries = this.sessions.get(sessionId);
+    const head = this.head(sessionId);
+
+    if (lastSeq > head) {
+      return null;
+    }
+    if (!entries || entries.messages.length === 0) {
+      return lastSeq === head ? [] : null;
+    }
+
+    const oldest = entries.messages[0].seq!;
+    if (lastSeq < oldest - 1) {
+      return null;
+    }
+
+    return entries.messages.filter((message) => message.seq! > lastSeq);
+  }
+
+  /**
+   * Sequence number of the most recent message, 0 if none
+   */
+  head(sessionId: string): number {
+    const entries = this.sessions.get(sessionId);
+    return entries ? entries.nextSeq - 1 : 0;
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private getOrCreate(sessionId: string): SessionEntries {
+    let entries = this.sessions.get(sessionId);
+    if (!entries) {
+      entries = { nextSeq: 1, messages: [] };
+      this.sessions.set(sessionId, entries);
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,301 @@
+import {
+  ServerMessage,
+  SessionStatePatchedMessage,
+  SessionStateUpdatedMessage,
+  StatePatchOperation,
+} from '@/lib/realtime/protocol';
+import { SessionState } from '@/types';
+
+/**
+ * Delta encoding of session state. Hosts number each version of the state and
+ * send JSON Patch (RFC 6902) operations from one version to the next instead of
+ * the whole state; anyone not holding a patch's base version needs a full snapshot.
+ */
+
+export class StatePatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatePatchError';
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqual(a[key], b[key]));
+  }
+
+  return false;
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into its unescaped segments
+ */
+export function parsePointer(path: string): string[] {
+  if (path === '') return [];
+  if (!path.startsWith('/')) {
+    throw new StatePatchError(`Invalid path "${path}"`);
+  }
+  return path.substring(1).split('/').map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function diffValue(base: unknown, next: unknown, path: string, patch: StatePatchOperation[]): void {
+  if (isEqual(base, next)) return;
+
+  if (Array.isArray(base) && Array.isArray(next)) {
+    const shared = Math.min(base.length, next.length);
+    for (let index = 0; index < shared; index++) {
+      diffValue(base[index], next[index], `${path}/${index}`, patch);
+    }
+    for (let index = shared; index < next.length; index++) {
+      patch.push({ op: 'add', path: `${path}/${index}`, value: next[index] });
+    }
+    // From the end, so earlier indices stay valid
+    for (let index = base.length - 1; index >= next.length; index--) {
+      patch.push({ op: 'remove', path: `${path}/${index}` });
+    }
+    return;
+  }
+
+  if (isPlainObject(base) && isPlainObject(next)) {
+    Object.keys(base).forEach((key) => {
+      if (!(key in next)) {
+        patch.push({ op: 'remove', path: `${path}/${escapeSegment(key)}` });
+      }
+    });
+    Object.keys(next).forEach((key) => {
+      if (key in base) {
+        diffValue(base[key], next[key], `${path}/${escapeSegment(key)}`, patch);
+      } else {
+        patch.push({ op: 'add', path: `${path}/${escapeSegment(key)}`, value: next[key] });
+      }
+    });
+    return;
+  }
+
+  patch.push({ op: 'replace', path, value: next });
+}
+
+/**
+ * Operations that turn `base` into `next`. Arrays are compared by position,
+ * which suits append-mostly lists like canvas elements.
+ */
+export function diffState(base: unknown, next: unknown): StatePatchOperation[] {
+  const patch: StatePatchOperation[] = [];
+  diffValue(base, next, '', patch);
+  return patch;
+}
+
+function applyOperation(target: unknown, segments: string[], operation: StatePatchOperation): unknown {
+  if (segments.length === 0) {
+    if (operation.op === 'remove') {
+      throw new StatePatchError('Cannot remove the whole state');
+    }
+    return operation.value;
+  }
+
+  if (typeof target !== 'object' || target === null) {
+    throw new StatePatchError(`Path ${operation.path} does not exist`);
+  }
+
+  // Copy only the containers along the path; everything else is shared with the base
+  const [segment, ...rest] = segments;
+  const copy: Container = Array.isArray(target) ? [...target] : { ...(target as Record<string, unknown>) };
+
+  if (Array.isArray(copy)) {
+    const index = segment === '-' ? copy.length : Number(segment);
+    const last = rest.length === 0;
+    const limit = last && operation.op === 'add' ? copy.length : copy.length - 1;
+    if (!Number.isInteger(index) || index < 0 || index > limit) {
+      throw new StatePatchError(`Path ${operation.path} is out of range`);
+    }
+
+    if (!last) {
+      copy[index] = applyOperation(copy[index], rest, operation);
+    } else if (operation.op === 'add') {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === 'remove') {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = operation.value;
+    }
+    return copy;
+  }
+
+  if (rest.length > 0) {
+    if (!(segment in copy)) {
+      throw new StatePatchError(`Path ${operation.path} does not exist`);
+    }
+    copy[segment] = applyOperation(copy[segment], rest, operation);
+  } else if (operation.op === 'remove') {
+    if (!(segment in copy)) {
+      throw new StatePatchError(`Path ${operation.path} does not exist`);
+    }
+    delete copy[segment];
+  } else {
+    if (operation.op === 'replace' && !(segment in copy)) {
+      throw new StatePatchError(`Path ${operation.path} does not exist`);
+    }
+    copy[segment] = operation.value;
+  }
+  return copy;
+}
+
+/**
+ * Apply operations to a value without modifying it; throws a StatePatchError
+ * when an operation doesn't fit, leaving the base untouched
+ */
+export function applyStatePatch<T>(base: T, patch: StatePatchOperation[]): T {
+  return patch.reduce<unknown>(
+    (value, operation) => applyOperation(value, parsePointer(operation.path), operation),
+    base
+  ) as T;
+}
+
+export type EncodedState =
+  | { kind: 'full'; version: number; state: SessionState }
+  | { kind: 'patch'; baseVersion: number; version: number; patch: StatePatchOperation[] };
+
+/**
+ * The publishing side: numbers each state it is given and encodes it as a patch
+ * from the previous one, or in full when there is no agreed base yet
+ */
+export class StateDeltaEncoder {
+  private version = 0;
+  private state: SessionState | null = null;
+  // Whether receivers are known to hold `state`, so patches against it make sense
+  private synced = false;
+
+  /**
+   * Encode the next state. Hosts may publish partial state (e.g. only components),
+   * which is merged into the previous state the way servers merge it.
+   * Returns null when nothing changed.
+   */
+  encode(update: Partial<SessionState>): EncodedState | null {
+    const next = { ...this.state, ...update } as SessionState;
+
+    if (this.state && this.synced) {
+      const patch = diffState(this.state, next);
+      if (patch.length === 0) return null;
+
+      // A patch rewriting most of the state is no smaller than the state itself
+      if (JSON.stringify(patch).length < JSON.stringify(next).length) {
+        const baseVersion = this.version;
+        this.version++;
+        this.state = next;
+        return { kind: 'patch', baseVersion, version: this.version, patch };
+      }
+    }
+
+    this.state = next;
+    return this.snapshot()!;
+  }
+
+  /**
+   * The current state in full under a new version, e.g. after the server rejected a patch
+   */
+  snapshot(): EncodedState | null {
+    if (!this.state) return null;
+
+    this.version++;
+    this.synced = true;
+    return { kind: 'full', version: this.version, state: this.state };
+  }
+
+  /**
+   * The latest encoded state and its version, without starting a new version
+   */
+  current(): { version: number; state: SessionState } | null {
+    return this.state ? { version: this.version, state: this.state } : null;
+  }
+
+  /**
+   * Send the next state in full, e.g. after rejoining a session
+   */
+  resync(): void {
+    this.synced = false;
+  }
+}
+
+export type StateDecodeResult = 'applied' | 'duplicate' | 'out-of-sync';
+
+/**
+ * The receiving side (viewers and servers): keeps the latest state and its version
+ * and folds full updates and patches into it
+ */
+export class StateDeltaDecoder {
+  private current: SessionState | null = null;
+  private currentVersion: number | null = null;
+
+  get state(): SessionState | null {
+    return this.current;
+  }
+
+  get version(): number | null {
+    return this.currentVersion;
+  }
+
+  reset(state: SessionState | null, version?: number | null): void {
+    this.current = state;
+    this.currentVersion = version ?? null;
+  }
+
+  update(message: SessionStateUpdatedMessage | SessionStatePatchedMessage): StateDecodeResult {
+    if (message.type === 'session-state-updated') {
+      // Partial state from hosts that don't version theirs is merged, as it always was
+      this.current = { ...this.current, ...message.state } as SessionState;
+      this.currentVersion = message.version ?? null;
+      return 'applied';
+    }
+
+    // The same patch can arrive twice, e.g. over a WebSocket and from the state route
+    if (this.currentVersion !== null && message.version === this.currentVersion) {
+      return 'duplicate';
+    }
+
+    if (!this.current || message.baseVersion !== this.currentVersion) {
+      return 'out-of-sync';
+    }
+
+    try {
+      this.current = applyStatePatch(this.current, message.patch);
+      this.currentVersion = message.version;
+      return 'applied';
+    } catch (error) {
+      if (error instanceof StatePatchError) return 'out-of-sync';
+      throw error;
+    }
+  }
+}
+
+/**
+ * Rebuild the latest state from a session's message history, for servers that
+ * keep no state of their own. Null when the history holds no full update to start from.
+ */
+export function foldStateHistory(messages: ServerMessage[]): { state: SessionState; version: number | null } | null {
+  const decoder = new StateDeltaDecoder();
+
+  messages.forEach((message) => {
+    if (message.type === 'session-state-updated' || message.type === 'session-state-patched') {
+      decoder.update(message);
+    }
+  });
+
+  return decoder.state ? { state: decoder.state, version: decoder.version } : null;
+}
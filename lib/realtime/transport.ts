@@ -0,0 +1,81 @@
+import { ClientMessage, ServerMessage } from '@/lib/realtime/protocol';
+import { WireFormat } from '@/lib/realtime/wire-format';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('transport');
+
+/**
+ * How a transport reaches the server, as reported to the UI
+ */
+export type TransportMode = 'websocket' | 'sse' | 'polling';
+
+/**
+ * Events every transport emits: validated server messages and losing the connection
+ */
+export type TransportEventMap = {
+  message: ServerMessage;
+  // The transport stopped carrying messages; `permanent` when it can't be used again (e.g. SSE blocked by a proxy)
+  close: { transport: string; reason?: string; permanent: boolean };
+};
+
+export type TransportEvent = keyof TransportEventMap;
+
+export type TransportEventHandler<E extends TransportEvent> = (data: TransportEventMap[E]) => void;
+
+/**
+ * One way of reaching the realtime servers. HybridClient picks between
+ * transports in order of preference and moves between them as they fail or recover.
+ */
+export interface Transport {
+  // Identifies the transport in logs and configuration, e.g. `aws-websocket`
+  readonly name: string;
+  readonly mode: TransportMode;
+  // Whether the server can answer this connection directly (RPC responses); HTTP transports only see the session's broadcasts
+  readonly duplex: boolean;
+  // Whether it is worth probing for this transport again while on a less preferred one
+  readonly probeable: boolean;
+
+  // Whether this environment can use the transport at all (browser support, configuration)
+  isAvailable(): boolean;
+  // Resolves once the transport can carry messages; rejects when it can't be opened in time
+  connect(timeoutMs: number): Promise<void>;
+  // Hand a message to the transport; false when it couldn't (not connected, or unsupported here)
+  send(message: ClientMessage): boolean;
+  // Stop carrying the session without announcing a leave, since it continues on another transport
+  detach(): void;
+  close(): void;
+  isConnected(): boolean;
+  // How messages are encoded on the current connection
+  getWireFormat(): WireFormat;
+
+  on<E extends TransportEvent>(event: E, handler: TransportEventHandler<E>): void;
+  off<E extends TransportEvent>(event: E, handler: TransportEventHandler<E>): void;
+}
+
+/**
+ * Event plumbing shared by the transport adapters
+ */
+export abstract class TransportEmitter {
+  private handlers: Map<TransportEvent, Set<(data: any) => void>> = new Map();
+
+  on<E extends TransportEvent>(event: E, handler: TransportEventHandler<E>): void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+  }
+
+  off<E extends TransportEvent>(event: E, handler: TransportEventHandler<E>): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  protected emit<E extends TransportEvent>(event: E, data: TransportEventMap[E]): void {
+    this.handlers.get(event)?.forEach((handler) => {
+      try {
+        handler(data);
+      } catch (error) {
+        log.error('Error in event handler', { event, error });
+      }
+    });
+  }
+}
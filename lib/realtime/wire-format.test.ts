@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { ClientMessage, CursorMoveMessage } from '@/lib/realtime/protocol';
+import { BinaryCodec, WireFormatError } from '@/lib/realtime/wire-format';
+
+const SESSION_ID = 'session-1';
+
+// Tags the tests look for in frames
+const TAG_FLOAT32 = 0x05;
+const TAG_FLOAT64 = 0x06;
+const TAG_STRING = 0x07;
+const TAG_STRING_INTERN = 0x08;
+const TAG_STRING_REF = 0x09;
+const TAG_SMALL_REF = 0x80;
+
+/**
+ * Both ends of one connection: what one side encodes, the other decodes, in order
+ */
+function connection() {
+  const sender = new BinaryCodec();
+  const receiver = new BinaryCodec();
+
+  return {
+    send(value: unknown) {
+      const frame = sender.encode(value as ClientMessage);
+      return { frame, decoded: receiver.decode(frame) };
+    },
+  };
+}
+
+function cursor(x: number, y: number): CursorMoveMessage {
+  return { type: 'cursor-move', sessionId: SESSION_ID, x, y, userId: 'viewer-1', timestamp: 1700000000000 };
+}
+
+function distinctStrings(count: number, prefix: string): string[] {
+  return Array.from({ length: count }, (_, index) => `${prefix}-${index}`);
+}
+
+describe('BinaryCodec', () => {
+  describe('round trip', () => {
+    it.each([
+      ['null', null],
+      ['false', false],
+      ['true', true],
+      ['a small integer', 63],
+      ['an integer past the tag', 64],
+      ['a negative integer', -1],
+      ['an integer past 32 bits', 2 ** 32 + 1],
+      ['the largest safe integer', Number.MAX_SAFE_INTEGER],
+      ['the smallest safe integer', -Number.MAX_SAFE_INTEGER],
+      ['an integer past the safe range', 2 ** 60],
+      ['a float', 0.1],
+      ['an empty string', ''],
+      ['a non-ASCII string', 'héllo ✏️'],
+      ['a nested value', { points: [[0.5, 1], [2, -3.25]], meta: { tool: 'pen', closed: false } }],
+      ['a message', cursor(120.5, 48)],
+    ])('keeps %s', (_, value) => {
+      expect(connection().send(value).decoded).toEqual(value);
+    });
+
+    it('keeps the sign of negative zero', () => {
+      expect(Object.is(connection().send(-0).decoded, -0)).toBe(true);
+    });
+
+    it('sends floats a float32 holds exactly in four bytes, and others in eight', () => {
+      const link = connection();
+
+      const exact = link.send(0.5);
+      expect(exact.frame[0]).toBe(TAG_FLOAT32);
+      expect(exact.frame).toHaveLength(5);
+      expect(exact.decoded).toBe(0.5);
+
+      const inexact = link.send(0.1);
+      expect(inexact.frame[0]).toBe(TAG_FLOAT64);
+      expect(inexact.frame).toHaveLength(9);
+      expect(inexact.decoded).toBe(0.1);
+    });
+
+    it('treats what JSON can\'t hold the way JSON.stringify does', () => {
+      const value = { x: NaN, y: Infinity, left: undefined, items: [undefined, -Infinity], run: () => {} };
+
+      expect(connection().send(value).decoded).toEqual(JSON.parse(JSON.stringify(value)));
+      expect(connection().send(value).decoded).not.toHaveProperty('left');
+    });
+  });
+
+  describe('string table', () => {
+    it('sends a string in full twice, then as a reference', () => {
+      const link = connection();
+
+      const first = link.send('pen');
+      const second = link.send('pen');
+      const third = link.send('pen');
+
+      expect(first.frame[0]).toBe(TAG_STRING);
+      expect(second.frame[0]).toBe(TAG_STRING_INTERN);
+      expect(Array.from(third.frame)).toEqual([TAG_SMALL_REF | 0]);
+      expect([first.decoded, second.decoded, third.decoded]).toEqual(['pen', 'pen', 'pen']);
+    });
+
+    it('makes repeated messages smaller', () => {
+      const link = connection();
+
+      const sizes = [cursor(1, 2), cursor(3, 4), cursor(5, 6)].map((message) => {
+        const { frame, decoded } = link.send(message);
+        expect(decoded).toEqual(message);
+        return frame.length;
+      });
+
+      expect(sizes[2]).toBeLessThan(sizes[0] / 2);
+    });
+
+    it('refers to strings past the first 128 with a varint index', () => {
+      const link = connection();
+      const strings = distinctStrings(130, 'key');
+      strings.forEach((value) => {
+        link.send(value);
+        link.send(value);
+      });
+
+      const early = link.send(strings[127]);
+      const late = link.send(strings[129]);
+
+      expect(Array.from(early.frame)).toEqual([TAG_SMALL_REF | 127]);
+      expect(Array.from(late.frame)).toEqual([TAG_STRING_REF, 0x81, 0x01]);
+      expect(late.decoded).toBe(strings[129]);
+    });
+
+    it('leaves long strings out of the table', () => {
+      const link = connection();
+      const long = 'x'.repeat(65);
+
+      link.send(long);
+      const second = link.send(long);
+
+      expect(second.frame[0]).toBe(TAG_STRING);
+      expect(second.decoded).toBe(long);
+    });
+
+    it('sends new strings in full once the table is full', () => {
+      const link = connection();
+      distinctStrings(4096, 'key').forEach((value) => {
+        link.send(value);
+        link.send(value);
+      });
+
+      const frames = [link.send('late'), link.send('late'), link.send('late')];
+
+      frames.forEach(({ frame, decoded }) => {
+        expect(frame[0]).toBe(TAG_STRING);
+        expect(decoded).toBe('late');
+      });
+      // What was interned before still is
+      expect(link.send('key-0').frame[0]).toBe(TAG_SMALL_REF | 0);
+    });
+
+    it('forgets strings seen once when too many have been', () => {
+      const link = connection();
+
+      link.send('pen');
+      distinctStrings(4096, 'once').forEach((value) => link.send(value));
+
+      expect(link.send('pen').frame[0]).toBe(TAG_STRING);
+      expect(link.send('pen').frame[0]).toBe(TAG_STRING_INTERN);
+    });
+  });
+
+  describe('malformed frames', () => {
+    it('rejects every truncation of a frame', () => {
+      const frame = new BinaryCodec().encode(cursor(120.5, 0.1));
+
+      for (let length = 0; length < frame.length; length++) {
+        expect(() => new BinaryCodec().decode(frame.slice(0, length))).toThrow(WireFormatError);
+      }
+    });
+
+    it('rejects data after the message', () => {
+      const frame = new BinaryCodec().encode(cursor(1, 2));
+
+      expect(() => new BinaryCodec().decode(Uint8Array.of(...frame, 0x00))).toThrow(WireFormatError);
+    });
+
+    it('rejects references to strings it was never sent', () => {
+      expect(() => new BinaryCodec().decode(Uint8Array.of(TAG_SMALL_REF | 0))).toThrow(WireFormatError);
+      expect(() => new BinaryCodec().decode(Uint8Array.of(TAG_STRING_REF, 0x81, 0x01))).toThrow(WireFormatError);
+    });
+
+    it('rejects references decoded out of order', () => {
+      const sender = new BinaryCodec();
+      const frames = ['pen', 'pen', 'pen'].map((value) => sender.encode(value as unknown as ClientMessage));
+
+      expect(() => new BinaryCodec().decode(frames[2])).toThrow('Unknown string 0');
+    });
+
+    it('rejects unknown tags, integers past the safe range and invalid UTF-8', () => {
+      expect(() => new BinaryCodec().decode(Uint8Array.of(0x0c))).toThrow(WireFormatError);
+      expect(() => new BinaryCodec().decode(Uint8Array.of(0x03, ...new Array(9).fill(0xff), 0x01))).toThrow(WireFormatError);
+      expect(() => new BinaryCodec().decode(Uint8Array.of(TAG_STRING, 0x01, 0xff))).toThrow(WireFormatError);
+    });
+
+    it('rejects object keys that are not strings', () => {
+      // An object with one field whose key is `true`
+      expect(() => new BinaryCodec().decode(Uint8Array.of(0x0b, 0x01, 0x02, 0x00))).toThrow(WireFormatError);
+    });
+  });
+});
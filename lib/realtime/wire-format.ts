@@ -0,0 +1,375 @@
+import type { ClientMessage, ServerMessage } from '@/lib/realtime/protocol';
+
+/**
+ * Wire formats for realtime WebSocket connections. Every server speaks JSON; servers
+ * that support it also negotiate a binary format as a WebSocket subprotocol, used
+ * for the high-frequency messages (cursor moves and drawing events).
+ *
+ * Text frames are always JSON, so a binary connection still sends everything else
+ * as JSON. Binary frames hold one message encoded as a tagged value tree, close to
+ * MessagePack, with one addition: strings seen more than once on a connection are
+ * added to a string table and sent as an index from then on, so keys like `type`
+ * and `sessionId` and repeated values like the session id cost a byte or two.
+ * The tables make each codec specific to one connection.
+ */
+
+export type WireFormat = 'json' | 'binary';
+
+export const JSON_SUBPROTOCOL = 'canvas-stream.json.v1';
+export const BINARY_SUBPROTOCOL = 'canvas-stream.binary.v1';
+
+// Messages sent as binary frames on a binary connection
+const BINARY_MESSAGE_TYPES: ReadonlySet<string> = new Set(['cursor-move', 'cursor-moved', 'drawing-event', 'batch']);
+
+export function isBinaryMessage(message: ClientMessage | ServerMessage): boolean {
+  return BINARY_MESSAGE_TYPES.has(message.type);
+}
+
+/**
+ * The subprotocol a server answers with, from those a client offers; false for none
+ */
+export function selectSubprotocol(offered: Iterable<string>, binary: boolean): string | false {
+  const protocols = new Set(offered);
+  if (binary && protocols.has(BINARY_SUBPROTOCOL)) return BINARY_SUBPROTOCOL;
+  if (protocols.has(JSON_SUBPROTOCOL)) return JSON_SUBPROTOCOL;
+  return false;
+}
+
+export function formatForSubprotocol(protocol: string | undefined): WireFormat {
+  return protocol === BINARY_SUBPROTOCOL ? 'binary' : 'json';
+}
+
+export class WireFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WireFormatError';
+  }
+}
+
+// Value tags
+const TAG_NULL = 0x00;
+const TAG_FALSE = 0x01;
+const TAG_TRUE = 0x02;
+const TAG_UINT = 0x03;
+const TAG_NEGATIVE_INT = 0x04;
+const TAG_FLOAT32 = 0x05;
+const TAG_FLOAT64 = 0x06;
+// A string sent in full, and a string sent in full that both sides then add to their table
+const TAG_STRING = 0x07;
+const TAG_STRING_INTERN = 0x08;
+const TAG_STRING_REF = 0x09;
+const TAG_ARRAY = 0x0a;
+const TAG_OBJECT = 0x0b;
+// Integers 0-63 fit in the tag
+const TAG_SMALL_UINT = 0x40;
+const SMALL_UINT_LIMIT = 0x40;
+// The first 128 table entries fit in the tag
+const TAG_SMALL_REF = 0x80;
+const SMALL_REF_LIMIT = 0x80;
+
+// Longer strings (chat text, ids of one-off elements) are rarely worth a table entry
+const MAX_INTERNED_LENGTH = 64;
+const MAX_TABLE_SIZE = 4096;
+// Strings seen once, remembered so the second sighting can intern them
+const MAX_CANDIDATES = 4096;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  // Unsigned LEB128; arithmetic rather than bit operations so it holds past 32 bits
+  varint(value: number): void {
+    while (value >= 0x80) {
+      this.byte((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  float32(value: number): void {
+    this.reserve(4);
+    this.view.setFloat32(this.length, value);
+    this.length += 4;
+  }
+
+  float64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.varint(value.length);
+    this.reserve(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.length + count) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+class Reader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  byte(): number {
+    this.need(1);
+    return this.data[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new WireFormatError('Integer out of range');
+      }
+    }
+  }
+
+  float32(): number {
+    this.need(4);
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  float64(): number {
+    this.need(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  string(): string {
+    const length = this.varint();
+    this.need(length);
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    try {
+      return textDecoder.decode(bytes);
+    } catch {
+      throw new WireFormatError('Invalid UTF-8 in string');
+    }
+  }
+
+  private need(count: number): void {
+    if (this.offset + count > this.data.length) {
+      throw new WireFormatError('Frame ended early');
+    }
+  }
+}
+
+/**
+ * Encodes and decodes binary frames for one connection. Each side keeps the table
+ * of strings it has sent and the table of strings it has received, which mirror the
+ * other side's; frames must be decoded in the order they were encoded.
+ */
+export class BinaryCodec {
+  private sentStrings: Map<string, number> = new Map();
+  private candidates: Set<string> = new Set();
+  private receivedStrings: string[] = [];
+
+  encode(message: ClientMessage | ServerMessage): Uint8Array {
+    const writer = new Writer();
+    this.writeValue(writer, message);
+    return writer.finish();
+  }
+
+  /**
+   * The message a frame holds, not yet validated. Throws a WireFormatError for
+   * malformed frames, after which the tables can no longer be trusted.
+   */
+  decode(data: ArrayBuffer | Uint8Array): unknown {
+    const reader = new Reader(data instanceof Uint8Array ? data : new Uint8Array(data));
+    const value = this.readValue(reader);
+    if (!reader.done) {
+      throw new WireFormatError('Unexpected data after message');
+    }
+    return value;
+  }
+
+  // Mirrors JSON.stringify: undefined object fields are left out, and values JSON can't hold become null
+  private writeValue(writer: Writer, value: unknown): void {
+    if (value === null || value === undefined) {
+      writer.byte(TAG_NULL);
+    } else if (typeof value === 'boolean') {
+      writer.byte(value ? TAG_TRUE : TAG_FALSE);
+    } else if (typeof value === 'number') {
+      this.writeNumber(writer, value);
+    } else if (typeof value === 'string') {
+      this.writeString(writer, value);
+    } else if (Array.isArray(value)) {
+      writer.byte(TAG_ARRAY);
+      writer.varint(value.length);
+      value.forEach((item) => this.writeValue(writer, item));
+    } else if (typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>).filter(
+        ([, item]) => item !== undefined && typeof item !== 'function'
+      );
+      writer.byte(TAG_OBJECT);
+      writer.varint(entries.length);
+      entries.forEach(([key, item]) => {
+        this.writeString(writer, key);
+        this.writeValue(writer, item);
+      });
+    } else {
+      writer.byte(TAG_NULL);
+    }
+  }
+
+  private writeNumber(writer: Writer, value: number): void {
+    if (!Number.isFinite(value)) {
+      writer.byte(TAG_NULL);
+    } else if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+      if (value >= 0 && value < SMALL_UINT_LIMIT) {
+        writer.byte(TAG_SMALL_UINT | value);
+      } else {
+        writer.byte(value >= 0 ? TAG_UINT : TAG_NEGATIVE_INT);
+        writer.varint(Math.abs(value));
+      }
+    } else if (Math.fround(value) === value) {
+      writer.byte(TAG_FLOAT32);
+      writer.float32(value);
+    } else {
+      writer.byte(TAG_FLOAT64);
+      writer.float64(value);
+    }
+  }
+
+  private writeString(writer: Writer, value: string): void {
+    const index = this.sentStrings.get(value);
+    if (index !== undefined) {
+      if (index < SMALL_REF_LIMIT) {
+        writer.byte(TAG_SMALL_REF | index);
+      } else {
+        writer.byte(TAG_STRING_REF);
+        writer.varint(index);
+      }
+      return;
+    }
+
+    writer.byte(this.shouldIntern(value) ? TAG_STRING_INTERN : TAG_STRING);
+    writer.bytes(textEncoder.encode(value));
+  }
+
+  // Interns a string the second time it is sent, so one-off values don't fill the table
+  private shouldIntern(value: string): boolean {
+    if (value.length > MAX_INTERNED_LENGTH || this.sentStrings.size >= MAX_TABLE_SIZE) return false;
+
+    if (!this.candidates.has(value)) {
+      if (this.candidates.size >= MAX_CANDIDATES) this.candidates.clear();
+      this.candidates.add(value);
+      return false;
+    }
+
+    this.candidates.delete(value);
+    this.sentStrings.set(value, this.sentStrings.size);
+    return true;
+  }
+
+  private readValue(reader: Reader): unknown {
+    const tag = reader.byte();
+
+    if (tag >= TAG_SMALL_REF) return this.lookupString(tag - TAG_SMALL_REF);
+    if (tag >= TAG_SMALL_UINT) return tag - TAG_SMALL_UINT;
+
+    switch (tag) {
+      case TAG_NULL:
+        return null;
+      case TAG_FALSE:
+        return false;
+      case TAG_TRUE:
+        return true;
+      case TAG_UINT:
+        return reader.varint();
+      case TAG_NEGATIVE_INT:
+        return -reader.varint();
+      case TAG_FLOAT32:
+        return reader.float32();
+      case TAG_FLOAT64:
+        return reader.float64();
+      case TAG_STRING:
+      case TAG_STRING_INTERN:
+      case TAG_STRING_REF:
+        return this.readString(reader, tag);
+      case TAG_ARRAY: {
+        const length = reader.varint();
+        const items: unknown[] = [];
+        for (let index = 0; index < length; index++) {
+          items.push(this.readValue(reader));
+        }
+        return items;
+      }
+      case TAG_OBJECT: {
+        const count = reader.varint();
+        const object: Record<string, unknown> = {};
+        for (let index = 0; index < count; index++) {
+          const keyTag = reader.byte();
+          const key = keyTag >= TAG_SMALL_REF ? this.lookupString(keyTag - TAG_SMALL_REF) : this.readString(reader, keyTag);
+          object[key] = this.readValue(reader);
+        }
+        return object;
+      }
+      default:
+        throw new WireFormatError(`Unknown tag 0x${tag.toString(16)}`);
+    }
+  }
+
+  private readString(reader: Reader, tag: number): string {
+    switch (tag) {
+      case TAG_STRING:
+        return reader.string();
+      case TAG_STRING_INTERN: {
+        const value = reader.string();
+        this.receivedStrings.push(value);
+        return value;
+      }
+      case TAG_STRING_REF:
+        return this.lookupString(reader.varint());
+      default:
+        throw new WireFormatError(`Expected a string, got tag 0x${tag.toString(16)}`);
+    }
+  }
+
+  private lookupString(index: number): string {
+    if (index >= this.receivedStrings.length) {
+      throw new WireFormatError(`Unknown string ${index}`);
+    }
+    return this.receivedStrings[index];
+  }
+}
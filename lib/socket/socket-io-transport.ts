@@ -0,0 +1,215 @@
+import { io, Socket } from 'socket.io-client';
+import {
+  ClientMessage,
+  ServerMessage,
+  createAckMessage,
+  createErrorMessage,
+  parseServerMessage,
+  unpackBatch,
+} from '@/lib/realtime/protocol';
+import { StatePatchError, applyStatePatch } from '@/lib/realtime/state-delta';
+import { Transport, TransportEmitter } from '@/lib/realtime/transport';
+import { WireFormat } from '@/lib/realtime/wire-format';
+import { createLogger } from '@/lib/utils/logger';
+import { SessionState } from '@/types';
+
+const log = createLogger('socket.io');
+
+// Events the Socket.IO server (pages/api/socket.ts) emits, by protocol message type
+const SERVER_EVENTS = [
+  'session-state-updated',
+  'user-joined',
+  'user-left',
+  'webrtc-signal',
+  'cursor-moved',
+  'drawing-event',
+  'chat-message',
+  'reaction',
+  'welcome',
+  'error',
+] as const;
+
+/**
+ * Transport over the Socket.IO server. Its events predate the shared protocol,
+ * so messages are translated both ways; it has no acks, roles or RPC of its own.
+ * The server only knows whole states, so state patches are applied here first.
+ */
+export class SocketIOTransport extends TransportEmitter implements Transport {
+  readonly name = 'socket.io';
+  // Socket.IO upgrades to a WebSocket when it can
+  readonly mode = 'websocket' as const;
+  readonly duplex = false;
+  readonly probeable = true;
+  private socket: Socket | null = null;
+  // The state as last sent to the server, which patches apply to
+  private sentState: SessionState | null = null;
+
+  constructor(private path = '/api/socket') {
+    super();
+  }
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined';
+  }
+
+  connect(timeoutMs: number): Promise<void> {
+    if (this.isConnected()) return Promise.resolve();
+    this.close();
+
+    const socket = io(`${window.location.protocol}//${window.location.host}`, {
+      path: this.path,
+      transports: ['polling', 'websocket'], // Try polling first for Next.js dev
+      upgrade: true,
+      timeout: timeoutMs,
+      forceNew: true,
+      // Reconnecting is HybridClient's job
+      reconnection: false,
+    });
+    this.socket = socket;
+
+    SERVER_EVENTS.forEach((event) => {
+      socket.on(event, (payload: any) => {
+        if (this.socket !== socket) return;
+
+        const result = parseServerMessage(toServerMessage(event, payload));
+        if (!result.ok) {
+          log.error('Rejected message', { reason: result.error.message });
+          return;
+        }
+        this.emit('message', result.message);
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      socket.once('connect', () => {
+        log.info('Connected', { socketId: socket.id });
+        resolve();
+      });
+
+      socket.once('connect_error', (error) => {
+        if (this.socket === socket) this.socket = null;
+        socket.disconnect();
+        reject(error);
+      });
+
+      socket.on('disconnect', (reason) => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+
+        log.info('Disconnected', { reason });
+        this.emit('close', { transport: this.name, reason, permanent: false });
+      });
+    });
+  }
+
+  send(message: ClientMessage): boolean {
+    if (!this.socket?.connected) return false;
+
+    switch (message.type) {
+      case 'join-session':
+      case 'leave-session':
+        if (!message.sessionId) return false;
+        this.sentState = null;
+        this.socket.emit(message.type, message.sessionId);
+        break;
+      case 'state-update':
+        this.sentState = { ...this.sentState, ...message.state } as SessionState;
+        this.socket.emit('session-state-update', { sessionId: message.sessionId, state: message.state });
+        break;
+      case 'state-patch': {
+        let state: SessionState;
+        try {
+          if (!this.sentState) throw new StatePatchError('No state to patch');
+          state = applyStatePatch(this.sentState, message.patch);
+        } catch (error) {
+          if (!(error instanceof StatePatchError)) throw error;
+
+          // Answer the way the other servers do, so the host sends the state in full
+          const rejection = {
+            ...createErrorMessage('version-mismatch', error.message, message.type),
+            ...(message.messageId ? { messageId: message.messageId } : {}),
+          };
+          setTimeout(() => this.emit('message', rejection), 0);
+          return true;
+        }
+        this.sentState = state;
+        this.socket.emit('session-state-update', { sessionId: message.sessionId, state });
+        break;
+      }
+      case 'webrtc-signal':
+        this.socket.emit('webrtc-signal', {
+          sessionId: message.sessionId,
+          signal: message.signal,
+          type: message.signalType,
+          to: message.to,
+        });
+        break;
+      case 'drawing-event':
+      case 'cursor-move':
+      case 'chat-message':
+      case 'reaction': {
+        const { type, timestamp, messageId, ...payload } = message;
+        this.socket.emit(type, payload);
+        break;
+      }
+      case 'batch':
+        unpackBatch(message).forEach(({ type, timestamp, ...payload }) => this.socket!.emit(type, payload));
+        break;
+      case 'hello':
+        this.socket.emit('hello', { protocolVersion: message.protocolVersion, capabilities: message.capabilities });
+        return true;
+      default:
+        return false;
+    }
+
+    // The server never acknowledges, but Socket.IO delivers in order once connected
+    if (message.messageId) {
+      const ack = createAckMessage(message.messageId);
+      setTimeout(() => this.emit('message', ack), 0);
+    }
+    return true;
+  }
+
+  // Leaving the room is part of the session moving elsewhere
+  detach(): void {
+    this.close();
+  }
+
+  close(): void {
+    this.sentState = null;
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.disconnect();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.socket?.connected ?? false;
+  }
+
+  // Socket.IO frames its own packets; the payloads are JSON
+  getWireFormat(): WireFormat {
+    return 'json';
+  }
+}
+
+/**
+ * Shape a Socket.IO event into the protocol message it corresponds to
+ */
+function toServerMessage(event: (typeof SERVER_EVENTS)[number], payload: any): unknown {
+  const timestamp = payload?.timestamp ?? Date.now();
+
+  switch (event) {
+    case 'session-state-updated':
+      // Sent as the bare state
+      return { type: event, state: payload, timestamp };
+    case 'user-joined':
+    case 'user-left':
+      return { type: event, userId: payload?.socketId, timestamp };
+    case 'webrtc-signal':
+      return { type: event, signal: payload?.signal, signalType: payload?.type, from: payload?.from, timestamp };
+    default:
+      return { ...payload, type: event, timestamp };
+  }
+}
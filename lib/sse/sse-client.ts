@@ -0,0 +1,297 @@
+import {
+  ClientMessage,
+  ServerMessage,
+  ServerMessageMap,
+  createAckMessage,
+  createPongMessage,
+  parseServerMessage,
+} from '@/lib/realtime/protocol';
+import { getStoredTokens } from '@/lib/utils/auth-helpers';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('sse-client');
+
+/**
+ * Events emitted by the SSE client: every server message type plus stream lifecycle
+ */
+export type SSEEventMap = ServerMessageMap & {
+  connect: Record<string, never>;
+  // Every server message, whatever its type
+  message: ServerMessage;
+  connect_error: { reason: string };
+};
+
+export type SSEEvent = keyof SSEEventMap;
+
+export type SSEEventHandler<E extends SSEEvent> = (data: SSEEventMap[E]) => void;
+
+/**
+ * Server-Sent Events client: session messages stream down over EventSource,
+ * outgoing messages go up as HTTP POSTs to the state route.
+ */
+export class SSEClient {
+  private eventSource: EventSource | null = null;
+  private currentSessionId: string | null = null;
+  private messageHandlers: Map<SSEEvent, Set<(data: any) => void>> = new Map();
+  private lastMessageTimestamp = 0;
+  private userId: string | null = null;
+  private isOpen = false;
+  private hasOpened = false;
+  // Posts go out one at a time, so the route receives messages in the order they were sent
+  private sendQueue: Promise<void> = Promise.resolve();
+
+  private openStream(): void {
+    if (!this.currentSessionId) return;
+
+    this.closeStream();
+
+    const url = `/api/sessions/${this.currentSessionId}/events?since=${this.lastMessageTimestamp}`;
+    log.info('Opening SSE stream', { url });
+
+    this.eventSource = new EventSource(url);
+
+    this.eventSource.onopen = () => {
+      log.info('SSE stream open', { sessionId: this.currentSessionId });
+      this.isOpen = true;
+      if (!this.hasOpened) {
+        this.hasOpened = true;
+        this.emit('connect', {});
+      }
+    };
+
+    this.eventSource.onmessage = (event) => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(event.data);
+      } catch {
+        log.error('Rejected message: not valid JSON');
+        return;
+      }
+
+      const result = parseServerMessage(raw);
+      if (!result.ok) {
+        log.error('Rejected message', { reason: result.error.message });
+        return;
+      }
+
+      if (result.message.timestamp > this.lastMessageTimestamp) {
+        this.lastMessageTimestamp = result.message.timestamp;
+        this.handleMessage(result.message);
+      }
+    };
+
+    this.eventSource.onerror = () => {
+      this.isOpen = false;
+
+      // EventSource retries on its own once the stream has worked;
+      // a stream that never opened means SSE is unusable here
+      if (!this.hasOpened || this.eventSource?.readyState === EventSource.CLOSED) {
+        log.warn('SSE stream failed');
+        this.closeStream();
+        this.emit('connect_error', { reason: 'SSE stream could not be opened' });
+      }
+    };
+  }
+
+  private closeStream(): void {
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+    this.isOpen = false;
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    log.debug('Message received', { type: message.type });
+
+    // Every subscriber sees every stored message, so drop signals addressed to someone else
+    if (message.type === 'webrtc-signal' && message.to && message.to !== this.userId) {
+      return;
+    }
+
+    this.dispatch(message);
+  }
+
+  private dispatch(message: ServerMessage): void {
+    this.emit(message.type, message);
+    this.emit('message', message);
+  }
+
+  private sendMessage(message: ClientMessage): Promise<void> {
+    const sessionId = this.currentSessionId;
+    if (!sessionId) {
+      log.error('Cannot send message: no current session');
+      return Promise.resolve();
+    }
+
+    const sent = this.sendQueue.then(() => this.postMessage(sessionId, message));
+    this.sendQueue = sent;
+    return sent;
+  }
+
+  /**
+   * Post a message to the session's state route; never rejects, since failures are logged here
+   */
+  private async postMessage(sessionId: string, message: ClientMessage): Promise<void> {
+    // Signed-in senders prove who they are, for messages that need more than a viewer's permissions
+    const { accessToken } = getStoredTokens();
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/state`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body: JSON.stringify(message),
+      });
+
+      if (response.status === 400 || response.status === 401 || response.status === 403 || response.status === 409 || response.status === 426) {
+        // The route answers rejected messages with a structured error frame
+        const result = parseServerMessage(await response.json());
+        if (result.ok && result.message.type === 'error') {
+          this.dispatch(result.message);
+          return;
+        }
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      // The route has accepted the message, which is all an ack would say
+      if (message.messageId) {
+        this.dispatch(createAckMessage(message.messageId));
+      }
+      // Likewise the response to a posted ping is its pong
+      if (message.type === 'ping') {
+        this.dispatch(createPongMessage(message.pingId));
+      }
+      // Routes that predate the handshake accept a hello without answering it
+      if (message.type === 'hello') {
+        const result = parseServerMessage(await response.json());
+        if (result.ok && result.message.type === 'welcome') {
+          this.dispatch(result.message);
+        }
+      }
+    } catch (error) {
+      log.error('Error sending message', { error });
+    }
+  }
+
+  send(message: ClientMessage): void {
+    this.sendMessage(message);
+  }
+
+  // Session management
+  joinSession(sessionId: string, userId?: string, isHost = false): void {
+    log.info('Joining session', { sessionId, isHost });
+
+    if (this.currentSessionId && this.currentSessionId !== sessionId) {
+      this.leaveSession();
+    }
+
+    this.currentSessionId = sessionId;
+    this.userId = userId || null;
+    this.lastMessageTimestamp = Date.now();
+
+    this.sendMessage({
+      type: 'join-session',
+      sessionId,
+      userId,
+      isHost,
+      timestamp: Date.now()
+    });
+
+    this.openStream();
+  }
+
+  leaveSession(): void {
+    if (this.currentSessionId) {
+      this.sendMessage({
+        type: 'leave-session',
+        sessionId: this.currentSessionId,
+        userId: this.userId ?? undefined,
+        timestamp: Date.now()
+      });
+
+      this.closeStream();
+      this.currentSessionId = null;
+      this.userId = null;
+    }
+  }
+
+  /**
+   * Stop streaming the session without announcing a leave, e.g. after another transport took over
+   */
+  detachSession(): void {
+    this.closeStream();
+    this.currentSessionId = null;
+    this.userId = null;
+  }
+
+  // Event handling
+  on<E extends SSEEvent>(event: E, handler: SSEEventHandler<E>): void {
+    if (!this.messageHandlers.has(event)) {
+      this.messageHandlers.set(event, new Set());
+    }
+    this.messageHandlers.get(event)!.add(handler);
+  }
+
+  off<E extends SSEEvent>(event: E, handler: SSEEventHandler<E>): void {
+    const handlers = this.messageHandlers.get(event);
+    if (handlers) {
+      handlers.delete(handler);
+    }
+  }
+
+  private emit<E extends SSEEvent>(event: E, data: SSEEventMap[E]): void {
+    const handlers = this.messageHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => {
+        try {
+          handler(data);
+        } catch (error) {
+          log.error('Error in event handler', { event, error });
+        }
+      });
+    }
+  }
+
+  // Connection status
+  isConnected(): boolean {
+    return this.isOpen && this.currentSessionId !== null;
+  }
+
+  // Cleanup
+  disconnect(): void {
+    this.leaveSession();
+    this.closeStream();
+    this.hasOpened = false;
+    this.messageHandlers.clear();
+  }
+}
+
+/**
+ * Whether the browser can use the SSE transport
+ */
+export function isSSESupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.EventSource !== 'undefined';
+}
+
+// Singleton instance
+let sseClientInstance: SSEClient | null = null;
+
+export function getSSEClient(): SSEClient {
+  if (!sseClientInstance) {
+    sseClientInstance = new SSEClient();
+  }
+  return sseClientInstance;
+}
+
+export function closeSSEClient(): void {
+  if (sseClientInstance) {
+    sseClientInstance.disconnect();
+    sseClientInstance = null;
+  }
+}
@@ -0,0 +1,63 @@
+import { ClientMessage, ServerMessage } from '@/lib/realtime/protocol';
+import { Transport, TransportEmitter } from '@/lib/realtime/transport';
+import { WireFormat } from '@/lib/realtime/wire-format';
+import { getSSEClient, isSSESupported, SSEClient } from '@/lib/sse/sse-client';
+
+/**
+ * Transport over Server-Sent Events: the stream opens when a session is joined,
+ * and a stream that never opens (e.g. blocked by a proxy) rules SSE out for good
+ */
+export class SSETransport extends TransportEmitter implements Transport {
+  readonly name = 'sse';
+  readonly mode = 'sse' as const;
+  readonly duplex = false;
+  readonly probeable = false;
+
+  constructor(private client: SSEClient = getSSEClient()) {
+    super();
+
+    this.client.on('message', (message: ServerMessage) => this.emit('message', message));
+    this.client.on('connect_error', ({ reason }) => {
+      this.client.leaveSession();
+      this.emit('close', { transport: this.name, reason, permanent: true });
+    });
+  }
+
+  isAvailable(): boolean {
+    return isSSESupported();
+  }
+
+  // Nothing to open until there is a session to stream
+  async connect(): Promise<void> {}
+
+  send(message: ClientMessage): boolean {
+    switch (message.type) {
+      case 'join-session':
+        this.client.joinSession(message.sessionId, message.userId, message.isHost);
+        break;
+      case 'leave-session':
+        this.client.leaveSession();
+        break;
+      default:
+        this.client.send(message);
+        break;
+    }
+    return true;
+  }
+
+  detach(): void {
+    this.client.detachSession();
+  }
+
+  close(): void {
+    this.client.detachSession();
+  }
+
+  isConnected(): boolean {
+    return this.client.isConnected();
+  }
+
+  getWireFormat(): WireFormat {
+    return 'json';
+  }
+}
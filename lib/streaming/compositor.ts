@@ -0,0 +1,256 @@
+import { ComponentTile } from '@/types';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('compositor');
+
+/**
+ * Broadcast compositor: paints the canvas layers and every visible tile, at the
+ * position and size stored for it, into one output canvas whose stream is what
+ * the host publishes. Tiles are DOM, not pixels, so each one registers a draw
+ * function for its content; the compositor adds the frame and title around it.
+ */
+
+// Draw a tile's content into a box of the given size, with the origin at its top left
+export type TileDraw = (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+
+export interface TileSource {
+  title: string;
+  draw?: TileDraw;
+}
+
+export interface BroadcastCompositorOptions {
+  frameRate?: number;
+  // The output is scaled down, keeping its aspect ratio, to fit within these
+  maxWidth?: number;
+  maxHeight?: number;
+}
+
+// Matches the tile header in TileWrapper
+const TILE_HEADER_HEIGHT = 40;
+const BACKGROUND_COLOR = '#111827';
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+
+// Tile id -> its source, registered by the tile while it is mounted
+const tileSources: Map<string, TileSource> = new Map();
+
+/**
+ * Register how a tile is drawn. Returns a function that unregisters it.
+ */
+export function registerTileSource(id: string, source: TileSource): () => void {
+  tileSources.set(id, source);
+
+  return () => {
+    if (tileSources.get(id) === source) {
+      tileSources.delete(id);
+    }
+  };
+}
+
+/**
+ * Draw an image or video frame as large as fits in the box, centred, like object-fit: contain
+ */
+export function drawContained(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number
+): void {
+  if (!sourceWidth || !sourceHeight) return;
+
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+/**
+ * Draw lines of text from the top left, clipped to the box
+ */
+export function drawTextLines(
+  ctx: CanvasRenderingContext2D,
+  lines: string[],
+  width: number,
+  height: number,
+  options: { font?: string; color?: string; lineHeight?: number; padding?: number } = {}
+): void {
+  const { font = `14px ${FONT_FAMILY}`, color = '#111827', lineHeight = 20, padding = 12 } = options;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.clip();
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'top';
+
+  for (let i = 0; i < lines.length; i++) {
+    const y = padding + i * lineHeight;
+    if (y > height) break;
+    ctx.fillText(lines[i], padding, y, width - padding * 2);
+  }
+  ctx.restore();
+}
+
+/**
+ * Draw one or two lines of text centred in the box, e.g. a clock or a placeholder
+ */
+export function drawCenteredText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  width: number,
+  height: number,
+  options: { font?: string; color?: string; caption?: string } = {}
+): void {
+  const { font = `16px ${FONT_FAMILY}`, color = '#9ca3af', caption } = options;
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.fillText(text, width / 2, caption ? height / 2 - 16 : height / 2, width);
+
+  if (caption) {
+    ctx.font = `18px ${FONT_FAMILY}`;
+    ctx.fillStyle = '#4b5563';
+    ctx.fillText(caption, width / 2, height / 2 + 28, width);
+  }
+  ctx.restore();
+}
+
+export class BroadcastCompositor {
+  private output: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private tiles: ComponentTile[] = [];
+  private frameTimer: ReturnType<typeof setInterval> | null = null;
+  private stream: MediaStream | null = null;
+  private frameRate: number;
+  private maxWidth: number;
+  private maxHeight: number;
+
+  /**
+   * @param container The element holding the canvas layers; tile positions are relative to it
+   */
+  constructor(private container: HTMLElement, options: BroadcastCompositorOptions = {}) {
+    this.frameRate = options.frameRate ?? 30;
+    this.maxWidth = options.maxWidth ?? 1920;
+    this.maxHeight = options.maxHeight ?? 1080;
+
+    this.output = document.createElement('canvas');
+    const ctx = this.output.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    this.ctx = ctx;
+  }
+
+  /**
+   * The tiles to draw: visible ones only, lowest zIndex first, in list order where they tie
+   */
+  setTiles(tiles: ComponentTile[]): void {
+    this.tiles = tiles
+      .map((tile, index) => ({ tile, index }))
+      .filter(({ tile }) => tile.isVisible)
+      .sort((a, b) => (a.tile.zIndex ?? 0) - (b.tile.zIndex ?? 0) || a.index - b.index)
+      .map(({ tile }) => tile);
+  }
+
+  /**
+   * Start painting frames; returns the stream to publish
+   */
+  start(): MediaStream {
+    if (this.stream) return this.stream;
+
+    this.renderFrame();
+    this.frameTimer = setInterval(() => this.renderFrame(), 1000 / this.frameRate);
+    this.stream = this.output.captureStream(this.frameRate);
+    return this.stream;
+  }
+
+  stop(): void {
+    if (this.frameTimer) {
+      clearInterval(this.frameTimer);
+      this.frameTimer = null;
+    }
+
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+
+  private renderFrame(): void {
+    const bounds = this.container.getBoundingClientRect();
+    if (bounds.width === 0 || bounds.height === 0) return;
+
+    // Follow the host's window size, within the output limits
+    const scale = Math.min(1, this.maxWidth / bounds.width, this.maxHeight / bounds.height);
+    const width = Math.round(bounds.width * scale);
+    const height = Math.round(bounds.height * scale);
+    if (this.output.width !== width || this.output.height !== height) {
+      this.output.width = width;
+      this.output.height = height;
+    }
+
+    const ctx = this.ctx;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, bounds.width, bounds.height);
+
+    // Canvas layers in DOM order, which is the order they stack in
+    this.container.querySelectorAll('canvas').forEach((canvas) => {
+      const rect = canvas.getBoundingClientRect();
+      if (canvas.width === 0 || canvas.height === 0 || rect.width === 0 || rect.height === 0) return;
+      ctx.drawImage(canvas, rect.left - bounds.left, rect.top - bounds.top, rect.width, rect.height);
+    });
+
+    this.tiles.forEach((tile) => this.drawTile(tile));
+  }
+
+  private drawTile(tile: ComponentTile): void {
+    const ctx = this.ctx;
+    const { x, y } = tile.position;
+    const { width, height } = tile.size;
+    const source = tileSources.get(tile.id);
+
+    ctx.save();
+    ctx.translate(x, y);
+
+    // Frame and header, as the tile looks on the host's screen
+    ctx.beginPath();
+    ctx.roundRect(0, 0, width, height, 8);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.clip();
+
+    ctx.fillStyle = '#f3f4f6';
+    ctx.fillRect(0, 0, width, TILE_HEADER_HEIGHT);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(0, TILE_HEADER_HEIGHT - 1, width, 1);
+
+    ctx.font = `600 16px ${FONT_FAMILY}`;
+    ctx.fillStyle = '#1f2937';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(source?.title ?? tile.type, 16, TILE_HEADER_HEIGHT / 2, width - 32);
+
+    // Content below the header
+    const contentHeight = height - TILE_HEADER_HEIGHT;
+    ctx.translate(0, TILE_HEADER_HEIGHT);
+    ctx.beginPath();
+    ctx.rect(0, 0, width, contentHeight);
+    ctx.clip();
+
+    try {
+      if (source?.draw) {
+        source.draw(ctx, width, contentHeight);
+      } else {
+        drawCenteredText(ctx, tile.type, width, contentHeight);
+      }
+    } catch (error) {
+      // One tile failing to draw shouldn't take the rest of the frame with it
+      log.warn('Could not draw tile', { tileId: tile.id, error });
+    }
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { DEFAULT_STUN_URLS, IceServerConfig, RtcConfig } from './rtc-config';
+
+/**
+ * ICE servers for peer connections, from the environment:
+ *
+ *   ICE_STUN_URLS         comma-separated STUN URLs (Google's public servers when unset)
+ *   TURN_URLS             comma-separated TURN URLs, e.g. turn:turn.example.com:3478?transport=udp
+ *   TURN_SHARED_SECRET    secret shared with the TURN server (coturn's static-auth-secret);
+ *                         each client gets its own credentials, valid for TURN_CREDENTIAL_TTL seconds
+ *   TURN_USERNAME / TURN_CREDENTIAL   fixed credentials, for TURN servers without a shared secret
+ *   ICE_TRANSPORT_POLICY  `relay` to send everything through TURN, e.g. to test it
+ */
+
+const DEFAULT_CREDENTIAL_TTL = 24 * 60 * 60;
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Time-limited TURN credentials in the shared-secret scheme TURN servers check
+ * without a user database: the username is the expiry time (Unix seconds), with
+ * an optional `:user` suffix, and the password is the base64 HMAC-SHA1 of the
+ * username keyed with the shared secret.
+ */
+export function createTurnCredentials(
+  secret: string,
+  ttlSeconds: number,
+  userId?: string,
+  now: number = Date.now()
+): { username: string; credential: string } {
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds;
+  const username = userId ? `${expiresAt}:${userId}` : String(expiresAt);
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+
+  return { username, credential };
+}
+
+/**
+ * The ICE configuration to hand one client, with TURN credentials of its own
+ */
+export function getRtcConfig(userId?: string): RtcConfig {
+  const stunUrls = process.env.ICE_STUN_URLS !== undefined ? parseList(process.env.ICE_STUN_URLS) : DEFAULT_STUN_URLS;
+  const turnUrls = parseList(process.env.TURN_URLS);
+
+  const iceServers: IceServerConfig[] = stunUrls.length > 0 ? [{ urls: stunUrls }] : [];
+  let ttl: number | null = null;
+
+  if (turnUrls.length > 0) {
+    const secret = process.env.TURN_SHARED_SECRET;
+    if (secret) {
+      ttl = Number(process.env.TURN_CREDENTIAL_TTL) > 0 ? Number(process.env.TURN_CREDENTIAL_TTL) : DEFAULT_CREDENTIAL_TTL;
+      iceServers.push({ urls: turnUrls, ...createTurnCredentials(secret, ttl, userId) });
+    } else if (process.env.TURN_USERNAME && process.env.TURN_CREDENTIAL) {
+      iceServers.push({ urls: turnUrls, username: process.env.TURN_USERNAME, credential: process.env.TURN_CREDENTIAL });
+    } else {
+      iceServers.push({ urls: turnUrls });
+    }
+  }
+
+  return {
+    iceServers,
+    iceTransportPolicy: process.env.ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all',
+    ttl,
+  };
+}
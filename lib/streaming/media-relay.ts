@@ -0,0 +1,393 @@
+import crypto from 'crypto';
+import {
+  MediaStreamTrack,
+  RTCPeerConnection,
+  RTCRtpTransceiver,
+  RtpPacket,
+  useOPUS,
+  useVP8,
+} from 'werift';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('media-relay');
+
+/**
+ * Selective forwarding relay for session media
+ * The host publishes its stream once over a single peer connection; every viewer
+ * gets its own peer connection from the relay, which forwards the host's RTP
+ * packets to it unchanged apart from SSRC, payload type and sequence numbering.
+ * Nothing is decoded or transcoded, so any Linux host runs it without media
+ * services. Signaling is one offer and one answer per peer, with all candidates
+ * gathered up front, so it fits a plain HTTP request.
+ */
+
+export type RelayRole = 'publisher' | 'subscriber';
+
+type MediaKind = 'audio' | 'video';
+
+const MEDIA_KINDS: MediaKind[] = ['audio', 'video'];
+
+export interface RelayAnswer {
+  peerId: string;
+  type: 'answer';
+  sdp: string;
+}
+
+export interface MediaRelayOptions {
+  // UDP ports ICE may use, so a firewall can be opened for just these
+  icePortRange?: [number, number];
+  // Addresses to offer besides the machine's own, e.g. a public IP in front of NAT
+  announcedAddresses?: string[];
+  // Viewers per session; further subscriptions are refused
+  maxSubscribers?: number;
+}
+
+export class MediaRelayError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'MediaRelayError';
+  }
+}
+
+// How long a peer may take to connect after its answer before it is dropped
+const CONNECT_TIMEOUT_MS = 30000;
+// How long to gather candidates before answering with those found so far
+const ICE_GATHERING_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_SUBSCRIBERS = 200;
+
+interface RelayPeer {
+  id: string;
+  role: RelayRole;
+  userId?: string;
+  pc: RTCPeerConnection;
+  createdAt: number;
+  connectedAt?: number;
+  connectTimer: NodeJS.Timeout | null;
+}
+
+interface Subscriber extends RelayPeer {
+  role: 'subscriber';
+  // Local tracks the relay writes the publisher's packets into, one per kind
+  tracks: Record<MediaKind, MediaStreamTrack>;
+}
+
+interface Publisher extends RelayPeer {
+  role: 'publisher';
+  // Asks the host's browser for a keyframe, once its video track has arrived
+  requestKeyframe: (() => void) | null;
+}
+
+interface RelayRoom {
+  sessionId: string;
+  publisher: Publisher | null;
+  subscribers: Map<string, Subscriber>;
+  // Kinds whose next packet starts a new source, so subscribers' numbering is continued across it
+  sourceChanged: Set<MediaKind>;
+}
+
+export class MediaRelay {
+  private rooms: Map<string, RelayRoom> = new Map();
+  private icePortRange?: [number, number];
+  private announcedAddresses: string[];
+  private maxSubscribers: number;
+
+  constructor(options: MediaRelayOptions = {}) {
+    this.icePortRange = options.icePortRange;
+    this.announcedAddresses = options.announcedAddresses ?? [];
+    this.maxSubscribers = options.maxSubscribers ?? DEFAULT_MAX_SUBSCRIBERS;
+  }
+
+  /**
+   * Take the host's offer and answer it. A new publisher replaces the previous one;
+   * viewers keep their connections and carry on with the new stream.
+   */
+  async publish(sessionId: string, offerSdp: string, userId?: string): Promise<RelayAnswer> {
+    const room = this.getRoom(sessionId);
+    const pc = this.createPeerConnection();
+    const publisher: Publisher = {
+      id: generatePeerId(),
+      role: 'publisher',
+      userId,
+      pc,
+      createdAt: Date.now(),
+      connectTimer: null,
+      requestKeyframe: null,
+    };
+
+    pc.onRemoteTransceiverAdded.subscribe((transceiver) => {
+      transceiver.onTrack.subscribe((track) => this.forwardTrack(room, publisher, transceiver, track));
+    });
+
+    const previous = room.publisher;
+    room.publisher = publisher;
+    room.sourceChanged = new Set(MEDIA_KINDS);
+    if (previous) {
+      log.info('Replacing publisher', { sessionId, previous: previous.id, next: publisher.id });
+      this.closePeer(previous);
+    }
+
+    return this.answer(room, publisher, offerSdp);
+  }
+
+  /**
+   * Take a viewer's offer, which should ask to receive audio and video, and answer
+   * it. Viewers may subscribe before the host publishes; media starts once it does.
+   */
+  async subscribe(sessionId: string, offerSdp: string, userId?: string): Promise<RelayAnswer> {
+    const room = this.getRoom(sessionId);
+    if (room.subscribers.size >= this.maxSubscribers) {
+      throw new MediaRelayError(`The relay is full (${this.maxSubscribers} viewers)`, 503);
+    }
+
+    const pc = this.createPeerConnection();
+    const subscriber: Subscriber = {
+      id: generatePeerId(),
+      role: 'subscriber',
+      userId,
+      pc,
+      createdAt: Date.now(),
+      connectTimer: null,
+      tracks: {
+        audio: new MediaStreamTrack({ kind: 'audio' }),
+        video: new MediaStreamTrack({ kind: 'video' }),
+      },
+    };
+    room.subscribers.set(subscriber.id, subscriber);
+
+    return this.answer(room, subscriber, offerSdp, async () => {
+      // Send the viewer's m-lines the relay's tracks instead of receiving on them
+      for (const transceiver of pc.getTransceivers()) {
+        const track = subscriber.tracks[transceiver.kind as MediaKind];
+        if (!track) continue;
+
+        transceiver.setDirection('sendonly');
+        await transceiver.sender.replaceTrack(track);
+        // Both tracks in one stream, so the viewer's browser plays them together
+        transceiver.sender.streamId = subscriber.id;
+        // The viewer lost a frame; only the host can produce a new keyframe
+        transceiver.sender.onPictureLossIndication.subscribe(() => room.publisher?.requestKeyframe?.());
+      }
+    });
+  }
+
+  /**
+   * Close one peer; returns false if the session has no such peer
+   */
+  close(sessionId: string, peerId: string): boolean {
+    const room = this.rooms.get(sessionId);
+    const peer = room?.publisher?.id === peerId ? room.publisher : room?.subscribers.get(peerId);
+    if (!room || !peer) return false;
+
+    this.closePeer(peer);
+    return true;
+  }
+
+  /**
+   * Close every peer in a session, e.g. when the host ends it
+   */
+  closeSession(sessionId: string): void {
+    const room = this.rooms.get(sessionId);
+    if (!room) return;
+
+    if (room.publisher) this.closePeer(room.publisher);
+    Array.from(room.subscribers.values()).forEach((subscriber) => this.closePeer(subscriber));
+    this.rooms.delete(sessionId);
+  }
+
+  getStats(sessionId?: string) {
+    const rooms = sessionId ? [this.rooms.get(sessionId)].filter((room): room is RelayRoom => !!room) : Array.from(this.rooms.values());
+
+    return rooms.map((room) => ({
+      sessionId: room.sessionId,
+      publisher: room.publisher ? describePeer(room.publisher) : null,
+      subscribers: Array.from(room.subscribers.values()).map(describePeer),
+    }));
+  }
+
+  private getRoom(sessionId: string): RelayRoom {
+    let room = this.rooms.get(sessionId);
+    if (!room) {
+      room = { sessionId, publisher: null, subscribers: new Map(), sourceChanged: new Set(MEDIA_KINDS) };
+      this.rooms.set(sessionId, room);
+    }
+    return room;
+  }
+
+  // VP8 and Opus only, so every browser negotiates the same codecs and packets forward as they are
+  private createPeerConnection(): RTCPeerConnection {
+    return new RTCPeerConnection({
+      codecs: {
+        audio: [useOPUS()],
+        video: [useVP8()],
+      },
+      ...(this.icePortRange ? { icePortRange: this.icePortRange } : {}),
+      ...(this.announcedAddresses.length > 0 ? { iceAdditionalHostAddresses: this.announcedAddresses } : {}),
+    });
+  }
+
+  /**
+   * Apply an offer and answer it once every local candidate is in the answer
+   */
+  private async answer(room: RelayRoom, peer: RelayPeer, offerSdp: string, beforeAnswer?: () => Promise<void>): Promise<RelayAnswer> {
+    const { pc } = peer;
+
+    pc.connectionStateChange.subscribe((state) => {
+      if (state === 'connected') {
+        peer.connectedAt = Date.now();
+        if (peer.connectTimer) clearTimeout(peer.connectTimer);
+        peer.connectTimer = null;
+        log.info('Peer connected', { sessionId: room.sessionId, peerId: peer.id, role: peer.role });
+
+        // A new viewer can only start decoding from a keyframe
+        if (peer.role === 'subscriber') room.publisher?.requestKeyframe?.();
+      } else if (state === 'failed' || state === 'closed') {
+        this.closePeer(peer);
+      }
+    });
+
+    try {
+      await pc.setRemoteDescription({ type: 'offer', sdp: offerSdp });
+      await beforeAnswer?.();
+      await pc.setLocalDescription(await pc.createAnswer());
+      await waitForIceGathering(pc);
+    } catch (error) {
+      this.closePeer(peer);
+      throw new MediaRelayError(error instanceof Error ? error.message : 'Invalid offer', 400);
+    }
+
+    peer.connectTimer = setTimeout(() => {
+      log.warn('Peer never connected, dropping it', { sessionId: room.sessionId, peerId: peer.id, role: peer.role });
+      this.closePeer(peer);
+    }, CONNECT_TIMEOUT_MS);
+
+    log.info('Peer answered', { sessionId: room.sessionId, peerId: peer.id, role: peer.role, userId: peer.userId });
+    return { peerId: peer.id, type: 'answer', sdp: pc.localDescription!.sdp };
+  }
+
+  /**
+   * Copy every packet of one of the publisher's tracks to each viewer
+   */
+  private forwardTrack(room: RelayRoom, publisher: Publisher, transceiver: RTCRtpTransceiver, track: MediaStreamTrack): void {
+    const kind = track.kind as MediaKind;
+    log.info('Publisher track received', { sessionId: room.sessionId, peerId: publisher.id, kind });
+
+    if (kind === 'video') {
+      publisher.requestKeyframe = () => {
+        if (track.ssrc !== undefined) {
+          transceiver.receiver.sendRtcpPLI(track.ssrc).catch(() => {});
+        }
+      };
+    }
+
+    track.onReceiveRtp.subscribe((rtp: RtpPacket) => {
+      if (room.publisher !== publisher) return;
+
+      if (room.sourceChanged.delete(kind)) {
+        // Viewers' decoders expect numbering to carry on from the previous publisher
+        room.subscribers.forEach((subscriber) => {
+          subscriber.tracks[kind].onSourceChanged.execute({
+            sequenceNumber: rtp.header.sequenceNumber,
+            timestamp: rtp.header.timestamp,
+          });
+        });
+        if (kind === 'video') publisher.requestKeyframe?.();
+      }
+
+      // Each viewer's sender rewrites the header in place, so each gets its own copy
+      const packet = rtp.serialize();
+      room.subscribers.forEach((subscriber) => {
+        if (subscriber.connectedAt) subscriber.tracks[kind].writeRtp(packet);
+      });
+    });
+  }
+
+  private closePeer(peer: RelayPeer): void {
+    if (peer.connectTimer) {
+      clearTimeout(peer.connectTimer);
+      peer.connectTimer = null;
+    }
+
+    for (const room of this.rooms.values()) {
+      if (room.publisher === peer) {
+        room.publisher = null;
+      } else if (!room.subscribers.delete(peer.id)) {
+        continue;
+      }
+
+      log.info('Peer closed', { sessionId: room.sessionId, peerId: peer.id, role: peer.role });
+      if (!room.publisher && room.subscribers.size === 0) {
+        this.rooms.delete(room.sessionId);
+      }
+      break;
+    }
+
+    if (peer.pc.connectionState !== 'closed') {
+      peer.pc.close().catch((error) => log.warn('Error closing peer connection', { peerId: peer.id, error }));
+    }
+  }
+}
+
+function generatePeerId(): string {
+  return `peer_${crypto.randomUUID()}`;
+}
+
+function describePeer(peer: RelayPeer) {
+  return {
+    id: peer.id,
+    userId: peer.userId ?? null,
+    state: peer.pc.connectionState,
+    createdAt: peer.createdAt,
+    connectedAt: peer.connectedAt ?? null,
+  };
+}
+
+function waitForIceGathering(pc: RTCPeerConnection, timeoutMs = ICE_GATHERING_TIMEOUT_MS): Promise<void> {
+  if (pc.iceGatheringState === 'complete') return Promise.resolve();
+
+  return new Promise((resolve) => {
+    // A STUN server that never answers would otherwise hold the request open for good
+    const timer = setTimeout(() => {
+      unSubscribe();
+      log.warn('ICE gathering timed out, answering with the candidates found so far', { timeoutMs });
+      resolve();
+    }, timeoutMs);
+
+    const { unSubscribe } = pc.iceGatheringStateChange.subscribe((state) => {
+      if (state === 'complete') {
+        clearTimeout(timer);
+        unSubscribe();
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Relay settings from the environment: MEDIA_RELAY_PORT_RANGE (e.g. `40000-40100`),
+ * MEDIA_RELAY_ANNOUNCED_ADDRESSES (comma-separated) and MEDIA_RELAY_MAX_VIEWERS
+ */
+function optionsFromEnvironment(): MediaRelayOptions {
+  const [min, max] = (process.env.MEDIA_RELAY_PORT_RANGE ?? '').split('-').map(Number);
+  const addresses = (process.env.MEDIA_RELAY_ANNOUNCED_ADDRESSES ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  return {
+    ...(min > 0 && max >= min ? { icePortRange: [min, max] as [number, number] } : {}),
+    announcedAddresses: addresses,
+    ...(Number(process.env.MEDIA_RELAY_MAX_VIEWERS) > 0 ? { maxSubscribers: Number(process.env.MEDIA_RELAY_MAX_VIEWERS) } : {}),
+  };
+}
+
+// Route handlers can be bundled separately, so share one relay through globalThis
+const globalForRelay = globalThis as typeof globalThis & {
+  mediaRelay?: MediaRelay;
+};
+
+export function getMediaRelay(): MediaRelay {
+  if (!globalForRelay.mediaRelay) {
+    globalForRelay.mediaRelay = new MediaRelay(optionsFromEnvironment());
+  }
+  return globalForRelay.mediaRelay;
+}
@@ -0,0 +1,152 @@
+import SimplePeer from 'simple-peer';
+import { ServerMessage, parseServerMessage } from '@/lib/realtime/protocol';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('peer-channels');
+
+/**
+ * Data channels riding on the media peer connections, so the host's drawing events,
+ * cursor and state reach viewers directly as well as through the realtime server.
+ * State and drawing events take simple-peer's own channel, which is ordered and
+ * reliable; cursors take a second, unordered channel that never retransmits, since
+ * a late position is worth less than the next one.
+ */
+
+export type PeerChannelKind = 'reliable' | 'cursors';
+
+// Messages the host may send viewers directly; anything else only goes through the server
+const PEER_MESSAGE_TYPES: ReadonlySet<ServerMessage['type']> = new Set([
+  'drawing-event',
+  'cursor-moved',
+  'session-state-updated',
+  'session-state-patched',
+]);
+
+// Both ends open the cursor channel themselves under this id, so it needs no negotiation
+const CURSOR_CHANNEL_ID = 16;
+
+export function isPeerMessage(message: ServerMessage): boolean {
+  return PEER_MESSAGE_TYPES.has(message.type);
+}
+
+export function channelKindOf(message: ServerMessage): PeerChannelKind {
+  return message.type === 'cursor-moved' ? 'cursors' : 'reliable';
+}
+
+interface PeerChannelPair {
+  peer: SimplePeer.Instance;
+  cursors: RTCDataChannel | null;
+}
+
+export class PeerChannels {
+  // Remote user id -> that peer's channels
+  private channels: Map<string, PeerChannelPair> = new Map();
+
+  /**
+   * @param onMessage Called with every valid message a peer sends
+   */
+  constructor(private onMessage: (remoteId: string, message: ServerMessage) => void) {}
+
+  /**
+   * Create a peer connection with its channels open. simple-peer only exposes its own
+   * channel, so it is handed an RTCPeerConnection that opens the cursor channel as it's made.
+   */
+  createPeer(remoteId: string, options: SimplePeer.Options): SimplePeer.Instance {
+    const wrtc = options.wrtc ?? { RTCPeerConnection, RTCSessionDescription, RTCIceCandidate };
+    const opened: RTCDataChannel[] = [];
+
+    class CursorPeerConnection extends wrtc.RTCPeerConnection {
+      constructor(configuration?: RTCConfiguration) {
+        super(configuration);
+        try {
+          opened.push(this.createDataChannel('cursors', {
+            negotiated: true,
+            id: CURSOR_CHANNEL_ID,
+            ordered: false,
+            maxRetransmits: 0,
+          }));
+        } catch (error) {
+          log.warn('Could not open cursor channel', { remoteId, error });
+        }
+      }
+    }
+
+    const peer = new SimplePeer({ ...options, wrtc: { ...wrtc, RTCPeerConnection: CursorPeerConnection } });
+    const cursors = opened[0] ?? null;
+
+    // A replaced connection may still deliver a message or two; only the current one counts
+    const isCurrent = () => this.channels.get(remoteId)?.peer === peer;
+
+    if (cursors) {
+      cursors.onmessage = (event) => isCurrent() && this.receive(remoteId, event.data);
+    }
+    peer.on('data', (data: string | Uint8Array) => isCurrent() && this.receive(remoteId, data));
+
+    this.channels.set(remoteId, { peer, cursors });
+    return peer;
+  }
+
+  detach(remoteId: string): void {
+    const pair = this.channels.get(remoteId);
+    if (!pair) return;
+
+    this.channels.delete(remoteId);
+    if (pair.cursors && pair.cursors.readyState !== 'closed') {
+      pair.cursors.close();
+    }
+  }
+
+  isOpen(remoteId: string, kind: PeerChannelKind): boolean {
+    const pair = this.channels.get(remoteId);
+    if (!pair || pair.peer.destroyed) return false;
+
+    return kind === 'cursors' ? pair.cursors?.readyState === 'open' : pair.peer.connected;
+  }
+
+  /**
+   * Send to one peer; false if its channel for the message isn't open
+   */
+  send(remoteId: string, message: ServerMessage): boolean {
+    const kind = channelKindOf(message);
+    if (!this.isOpen(remoteId, kind)) return false;
+
+    const pair = this.channels.get(remoteId)!;
+    const data = JSON.stringify(message);
+
+    try {
+      if (kind === 'cursors') {
+        pair.cursors!.send(data);
+      } else {
+        pair.peer.send(data);
+      }
+      return true;
+    } catch (error) {
+      log.warn('Data channel send failed', { remoteId, error });
+      return false;
+    }
+  }
+
+  clear(): void {
+    Array.from(this.channels.keys()).forEach((remoteId) => this.detach(remoteId));
+  }
+
+  private receive(remoteId: string, data: string | Uint8Array | ArrayBuffer): void {
+    const text = typeof data === 'string' ? data : new TextDecoder().decode(data);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      log.warn('Ignoring data channel message that is not JSON', { remoteId });
+      return;
+    }
+
+    const result = parseServerMessage(raw);
+    if (!result.ok || !isPeerMessage(result.message)) {
+      log.warn('Ignoring unexpected data channel message', { remoteId });
+      return;
+    }
+
+    this.onMessage(remoteId, result.message);
+  }
+}
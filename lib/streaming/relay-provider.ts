@@ -0,0 +1,306 @@
+import SimplePeer from 'simple-peer';
+import { StreamProvider } from './stream-provider';
+import { SessionState } from '@/types';
+import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import { getStoredTokens } from '@/lib/utils/auth-helpers';
+import { listenForSessionState, publishSessionState } from './session-state';
+import { getCachedRtcConfiguration, getRtcConfiguration } from './rtc-config';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('relay-provider');
+
+interface RelayResponse {
+  success: boolean;
+  peerId?: string;
+  answer?: SimplePeer.SignalData;
+  error?: string;
+}
+
+/**
+ * Relay Stream Provider Implementation
+ * The host publishes its stream once, to the media relay behind /api/sessions/[id]/relay,
+ * and each viewer gets it from there over its own peer connection, so the host's upload
+ * no longer grows with the audience. Each connection is negotiated with a single
+ * offer/answer POST; session state still travels over the hybrid client.
+ */
+export class RelayProvider extends StreamProvider {
+  private peer: SimplePeer.Instance | null = null;
+  // The relay's id for this client's peer connection, for closing it
+  private peerId: string | null = null;
+  private localStream: MediaStream | null = null;
+  private remoteStream: MediaStream | null = null;
+  private isHost: boolean = false;
+  private userId: string | null = null;
+  private hybridClient = getHybridClient();
+  private connectionAttempts: number = 0;
+  private maxConnectionAttempts: number = 3;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopStateListener: (() => void) | null = null;
+
+  /**
+   * Initialize as host
+   */
+  async initializeHost(sessionId: string, userId?: string): Promise<void> {
+    this.sessionId = sessionId;
+    this.isHost = true;
+    this.userId = userId ?? null;
+
+    log.info('Host initialized for relayed session', { sessionId });
+
+    // Join hybrid client room for this session; nothing is published until there is media
+    this.hybridClient.joinSession(sessionId, userId, true);
+  }
+
+  /**
+   * Publish media stream (host)
+   */
+  async publishMedia(stream: MediaStream): Promise<void> {
+    if (!this.isHost) {
+      throw new Error('Only host can publish media');
+    }
+
+    if (this.localStream === stream && this.peer && !this.peer.destroyed) return;
+
+    // A new stream is published afresh; the relay moves its viewers over to it
+    this.localStream = stream;
+    this.connectionAttempts = 0;
+    this.connect();
+  }
+
+  /**
+   * Publish session state (host)
+   */
+  async publishState(state: SessionState): Promise<void> {
+    if (!this.isHost) {
+      throw new Error('Only host can publish state');
+    }
+
+    await publishSessionState(this.sessionId, state);
+  }
+
+  /**
+   * End session (host)
+   */
+  async endSession(): Promise<void> {
+    await this.closePeer();
+
+    if (this.localStream) {
+      this.localStream.getTracks().forEach((track) => track.stop());
+      this.localStream = null;
+    }
+
+    // Leave hybrid client room
+    this.hybridClient.leaveSession();
+
+    this.cleanup();
+  }
+
+  /**
+   * Join session as viewer
+   */
+  async joinSession(sessionId: string, userId?: string): Promise<void> {
+    this.sessionId = sessionId;
+    this.isHost = false;
+    this.userId = userId ?? null;
+
+    log.info('Viewer joining relayed session', { sessionId });
+
+    // Join hybrid client room for this session
+    this.hybridClient.joinSession(sessionId, userId);
+
+    // Listen for state updates
+    this.stopStateListener = listenForSessionState((state) => this.stateCallback?.(state));
+
+    // The relay answers even before the host publishes; media starts once they do
+    this.connectionAttempts = 0;
+    this.connect();
+  }
+
+  /**
+   * Subscribe to media stream (viewer)
+   */
+  subscribeToMedia(callback: (stream: MediaStream) => void): void {
+    this.mediaCallback = callback;
+
+    // The stream may have arrived before anyone asked for it
+    if (this.remoteStream) {
+      callback(this.remoteStream);
+    }
+  }
+
+  /**
+   * Subscribe to state updates (viewer)
+   */
+  subscribeToState(callback: (state: SessionState) => void): void {
+    this.stateCallback = callback;
+  }
+
+  /**
+   * Leave session (viewer)
+   */
+  async leaveSession(): Promise<void> {
+    await this.closePeer();
+
+    // Leave hybrid client room
+    this.hybridClient.leaveSession();
+
+    this.cleanup();
+  }
+
+  /**
+   * Open a peer connection with the relay, publishing (host) or subscribing (viewer)
+   */
+  private async connect(): Promise<void> {
+    // ICE servers, with TURN credentials, before the offer gathers its candidates
+    await getRtcConfiguration(this.sessionId, this.userId);
+    // The broadcast ended while it was fetched
+    if (this.isHost && !this.localStream) return;
+    this.closePeer();
+
+    const role = this.isHost ? 'publish' : 'subscribe';
+    log.info('Connecting to media relay', { role });
+
+    // Candidates all go in the one offer, so the relay can answer in the same request
+    const peer = new SimplePeer({
+      initiator: true,
+      trickle: false,
+      stream: this.isHost ? this.localStream || undefined : undefined,
+      offerOptions: this.isHost ? undefined : { offerToReceiveAudio: true, offerToReceiveVideo: true },
+      config: getCachedRtcConfiguration(),
+    });
+    this.peer = peer;
+
+    // Events from a peer that has since been replaced are ignored
+    const isCurrent = () => this.peer === peer;
+
+    peer.on('signal', (data: SimplePeer.SignalData) => {
+      if (!isCurrent() || data.type !== 'offer') return;
+
+      this.negotiate(role, data.sdp ?? '')
+        .then((result) => {
+          if (!isCurrent() || peer.destroyed) return;
+          this.peerId = result.peerId ?? null;
+          peer.signal(result.answer!);
+        })
+        .catch((error) => {
+          log.error('Media relay refused the connection', { role, error });
+          if (isCurrent()) {
+            this.handleConnectionError();
+          }
+        });
+    });
+
+    peer.on('connect', () => {
+      log.info('Connected to media relay', { role });
+      this.connectionAttempts = 0;
+    });
+
+    peer.on('stream', (stream: MediaStream) => {
+      log.info('Received relayed stream');
+      if (!isCurrent()) return;
+
+      this.remoteStream = stream;
+      if (this.mediaCallback) {
+        this.mediaCallback(stream);
+      }
+    });
+
+    peer.on('error', (err) => {
+      log.error('Relay peer error', { error: err });
+      if (isCurrent()) {
+        this.handleConnectionError();
+      }
+    });
+
+    peer.on('close', () => {
+      log.info('Relay peer connection closed');
+      if (isCurrent()) {
+        this.peer = null;
+        this.peerId = null;
+      }
+    });
+  }
+
+  private async negotiate(role: 'publish' | 'subscribe', sdp: string): Promise<RelayResponse> {
+    // Publishing is for the host only, which the route checks against their token
+    const { accessToken } = getStoredTokens();
+
+    const response = await fetch(`/api/sessions/${this.sessionId}/relay`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify({ role, sdp, ...(this.userId ? { userId: this.userId } : {}) }),
+    });
+    const result: RelayResponse = await response.json();
+
+    if (!response.ok || !result.success || !result.answer) {
+      throw new Error(result.error || `Relay responded with ${response.status}`);
+    }
+    return result;
+  }
+
+  /**
+   * Handle connection errors: try again a few times, then give up
+   */
+  private handleConnectionError(): void {
+    this.connectionAttempts++;
+    log.warn('Relay connection attempt failed', { attempt: this.connectionAttempts, maxAttempts: this.maxConnectionAttempts });
+
+    this.closePeer();
+
+    if (this.connectionAttempts < this.maxConnectionAttempts) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        if (!this.isHost || this.localStream) {
+          this.connect();
+        }
+      }, 2000);
+    } else {
+      log.error('Max relay connection attempts reached, giving up');
+    }
+  }
+
+  /**
+   * Close the peer connection, and tell the relay so it can let go of its end straight away
+   */
+  private async closePeer(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const peer = this.peer;
+    const peerId = this.peerId;
+    this.peer = null;
+    this.peerId = null;
+
+    if (peer && !peer.destroyed) {
+      peer.destroy();
+    }
+
+    if (peerId) {
+      try {
+        await fetch(`/api/sessions/${this.sessionId}/relay?peerId=${encodeURIComponent(peerId)}`, { method: 'DELETE' });
+      } catch (error) {
+        log.warn('Error closing relay peer', { peerId, error });
+      }
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  private cleanup(): void {
+    this.stopStateListener?.();
+    this.stopStateListener = null;
+
+    // Reset connection state
+    this.connectionAttempts = 0;
+    this.remoteStream = null;
+
+    this.mediaCallback = null;
+    this.stateCallback = null;
+  }
+}
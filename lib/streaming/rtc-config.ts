@@ -0,0 +1,81 @@
+import { getStoredTokens } from '@/lib/utils/auth-helpers';
+import { createLogger } from '@/lib/utils/logger';
+
+/**
+ * Peer connection configuration from /api/rtc-config, fetched once and reused
+ * until its TURN credentials are nearing expiry
+ */
+
+const log = createLogger('rtc-config');
+
+export interface IceServerConfig {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+// What /api/rtc-config responds with
+export interface RtcConfig {
+  iceServers: IceServerConfig[];
+  iceTransportPolicy: 'all' | 'relay';
+  // Seconds the TURN credentials stay valid, or null when they don't expire
+  ttl: number | null;
+}
+
+export const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'];
+
+const FALLBACK_CONFIG: RTCConfiguration = {
+  iceServers: [{ urls: DEFAULT_STUN_URLS }],
+};
+
+let cached: { config: RTCConfiguration; refreshAt: number } | null = null;
+let pending: Promise<RTCConfiguration> | null = null;
+
+/**
+ * The current ICE configuration. Falls back to public STUN servers when the
+ * route can't be reached, which still connects viewers outside restrictive NATs.
+ */
+export function getRtcConfiguration(sessionId: string, userId?: string | null): Promise<RTCConfiguration> {
+  if (cached && Date.now() < cached.refreshAt) {
+    return Promise.resolve(cached.config);
+  }
+
+  if (!pending) {
+    pending = fetchRtcConfiguration(sessionId, userId).finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
+
+/**
+ * The last configuration fetched, for peers that have to be created without waiting
+ */
+export function getCachedRtcConfiguration(): RTCConfiguration {
+  return cached?.config ?? FALLBACK_CONFIG;
+}
+
+async function fetchRtcConfiguration(sessionId: string, userId?: string | null): Promise<RTCConfiguration> {
+  try {
+    // Credentials are only handed to a session's participants, checked against their token if they have one
+    const { accessToken } = getStoredTokens();
+    const query = new URLSearchParams({ sessionId, ...(userId ? { userId } : {}) });
+
+    const response = await fetch(`/api/rtc-config?${query}`, {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    });
+    if (!response.ok) {
+      throw new Error(`RTC config responded with ${response.status}`);
+    }
+
+    const { iceServers, iceTransportPolicy, ttl }: RtcConfig = await response.json();
+    const config: RTCConfiguration = { iceServers, iceTransportPolicy };
+
+    // Fetch new credentials with a quarter of their lifetime to spare
+    cached = { config, refreshAt: ttl ? Date.now() + ttl * 750 : Infinity };
+    return config;
+  } catch (error) {
+    log.error('Error fetching RTC config, using public STUN servers', { sessionId, error });
+    return cached?.config ?? FALLBACK_CONFIG;
+  }
+}
@@ -0,0 +1,95 @@
+import { SessionState } from '@/types';
+import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import {
+  SessionSnapshotMessage,
+  SessionStateUpdatedMessage,
+  StatePatchMessage,
+  StateUpdateMessage,
+} from '@/lib/realtime/protocol';
+import { getStoredTokens } from '@/lib/utils/auth-helpers';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('session-state');
+
+/**
+ * Session state for stream providers, whichever way they carry media: the host
+ * sends it over the hybrid client and persists it to the state route; viewers
+ * take it from the hybrid client's updates and snapshots.
+ */
+
+/**
+ * Send the host's state to viewers and store it (host)
+ */
+export async function publishSessionState(sessionId: string, state: SessionState): Promise<void> {
+  const hybridClient = getHybridClient();
+
+  // Send real-time state update via hybrid client, as a patch when it can
+  const message = hybridClient.sendStateUpdate(state);
+
+  // Over HTTP transports the message was posted to the state route already
+  const mode = hybridClient.getConnectionMode();
+  if (!message || mode === 'sse' || mode === 'polling') return;
+
+  // Also persist to database for reliability
+  try {
+    const response = await persistState(sessionId, message);
+
+    // The stored state is behind the one the patch builds on, so store it whole
+    if (response.status === 409) {
+      await storePublishedState(sessionId);
+    }
+  } catch (error) {
+    log.error('Error persisting state', { sessionId, error });
+  }
+}
+
+/**
+ * Store the whole of the last state published, e.g. after sending patches the
+ * server never saw (host)
+ */
+export async function storePublishedState(sessionId: string): Promise<void> {
+  const published = getHybridClient().getPublishedState();
+  if (published) {
+    await persistState(sessionId, published);
+  }
+}
+
+function persistState(sessionId: string, message: StateUpdateMessage | StatePatchMessage): Promise<Response> {
+  // Only the host may update state, which the route checks against their token
+  const { accessToken } = getStoredTokens();
+
+  return fetch(`/api/sessions/${sessionId}/state`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(message),
+  });
+}
+
+/**
+ * Call back with every state the host publishes (viewer). Returns a function that stops listening.
+ */
+export function listenForSessionState(callback: (state: SessionState) => void): () => void {
+  const hybridClient = getHybridClient();
+
+  const handleStateUpdated = (message: SessionStateUpdatedMessage) => {
+    callback(message.state);
+  };
+
+  // After a long disconnect the server sends a snapshot instead of replaying updates
+  const handleSnapshot = (message: SessionSnapshotMessage) => {
+    if (message.state) {
+      callback(message.state);
+    }
+  };
+
+  hybridClient.on('session-state-updated', handleStateUpdated);
+  hybridClient.on('session-snapshot', handleSnapshot);
+
+  return () => {
+    hybridClient.off('session-state-updated', handleStateUpdated);
+    hybridClient.off('session-snapshot', handleSnapshot);
+  };
+}
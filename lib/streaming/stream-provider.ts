@@ -10,13 +10,13 @@ export abstract class StreamProvider implements IStreamProvider {
   protected stateCallback: ((state: SessionState) => void) | null = null;
 
   // Host methods
-  abstract initializeHost(sessionId: string): Promise<void>;
+  abstract initializeHost(sessionId: string, userId?: string): Promise<void>;
   abstract publishMedia(stream: MediaStream): Promise<void>;
   abstract publishState(state: SessionState): Promise<void>;
   abstract endSession(): Promise<void>;
 
   // Viewer methods
-  abstract joinSession(sessionId: string): Promise<void>;
+  abstract joinSession(sessionId: string, userId?: string): Promise<void>;
   abstract subscribeToMedia(callback: (stream: MediaStream) => void): void;
   abstract subscribeToState(callback: (state: SessionState) => void): void;
   abstract leaveSession(): Promise<void>;
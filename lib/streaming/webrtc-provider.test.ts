@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PeerRoute } from '@/lib/hybrid/hybrid-client';
+import { ClientMessage, PresenceParticipant } from '@/lib/realtime/protocol';
+import { SessionState } from '@/types';
+import { publishSessionState } from './session-state';
+import { WebRTCProvider } from './webrtc-provider';
+
+const SESSION_ID = 'session-1';
+
+const { FakePeer, peers, hybridClient } = vi.hoisted(() => {
+  const { EventEmitter } = require('events') as typeof import('events');
+  const peers: InstanceType<typeof FakePeer>[] = [];
+
+  /**
+   * Peer connection that is open once `open()` is called, keeping what it's sent
+   */
+  class FakePeer extends EventEmitter {
+    connected = false;
+    destroyed = false;
+    readonly sent: unknown[] = [];
+
+    constructor(options: { wrtc: { RTCPeerConnection: new (config?: RTCConfiguration) => unknown }; config?: RTCConfiguration }) {
+      super();
+      new options.wrtc.RTCPeerConnection(options.config);
+      peers.push(this);
+    }
+
+    open(): void {
+      this.connected = true;
+      this.emit('connect');
+    }
+
+    send(data: string): void {
+      this.sent.push(JSON.parse(data));
+    }
+
+    signal(): void {}
+
+    destroy(): void {
+      this.destroyed = true;
+    }
+  }
+
+  const handlers = new Map<string, (data: any) => void>();
+  const hybridClient = {
+    handlers,
+    route: null as PeerRoute | null,
+    joinSession: () => {},
+    leaveSession: () => {},
+    setPeerRoute(route: PeerRoute | null) {
+      hybridClient.route = route;
+    },
+    on: (event: string, handler: (data: any) => void) => handlers.set(event, handler),
+    off: (event: string) => handlers.delete(event),
+    sendStateUpdate: vi.fn((state: Partial<SessionState>) => {
+      hybridClient.route?.send({ type: 'state-update', sessionId: SESSION_ID, state, version: 1, timestamp: Date.now() } as ClientMessage);
+      return null;
+    }),
+    getPublishedState: () => null,
+    sendWebRTCSignal: () => {},
+  };
+
+  return { FakePeer, peers, hybridClient };
+});
+
+vi.mock('simple-peer', () => ({ default: FakePeer }));
+vi.mock('@/lib/hybrid/hybrid-client', () => ({ getHybridClient: () => hybridClient }));
+vi.mock('./rtc-config', () => ({
+  getRtcConfiguration: async () => ({}),
+  getCachedRtcConfiguration: () => ({}),
+}));
+vi.mock('./session-state', () => ({
+  publishSessionState: vi.fn(async () => {}),
+  storePublishedState: vi.fn(async () => {}),
+  listenForSessionState: () => () => {},
+}));
+
+/**
+ * Connection the cursor channel is opened on; its channels open at once
+ */
+class FakePeerConnection {
+  createDataChannel() {
+    return Object.assign(new EventEmitter(), { readyState: 'open', send: () => {}, close: () => {} });
+  }
+}
+
+function stroke(id: string): ClientMessage {
+  return { type: 'drawing-event', sessionId: SESSION_ID, event: { type: 'stroke', id }, userId: 'host-1', timestamp: Date.now() };
+}
+
+function viewer(id: string, anonymous = false): PresenceParticipant {
+  return { id, role: 'viewer', joinedAt: 0, lastActiveAt: 0, anonymous };
+}
+
+const state: SessionState = { sessionId: SESSION_ID, components: [], canvasData: [], timestamp: 0 };
+
+describe('WebRTCProvider routing', () => {
+  let provider: WebRTCProvider;
+
+  beforeEach(async () => {
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+    vi.stubGlobal('RTCSessionDescription', class {});
+    vi.stubGlobal('RTCIceCandidate', class {});
+
+    provider = new WebRTCProvider();
+    await provider.initializeHost(SESSION_ID, 'host-1');
+  });
+
+  afterEach(async () => {
+    await provider.endSession();
+    peers.splice(0);
+    hybridClient.sendStateUpdate.mockClear();
+    vi.mocked(publishSessionState).mockClear();
+    vi.unstubAllGlobals();
+  });
+
+  async function join(...participants: PresenceParticipant[]): Promise<void> {
+    const connected = peers.length + participants.filter((participant) => !participant.anonymous).length;
+    hybridClient.handlers.get('presence')!({ type: 'presence', sessionId: SESSION_ID, participants, timestamp: Date.now() });
+    await vi.waitFor(() => expect(peers).toHaveLength(connected));
+  }
+
+  it('sends over the data channels once every viewer has one open', async () => {
+    await join(viewer('viewer-1'), viewer('viewer-2'));
+    peers.forEach((peer) => peer.open());
+
+    expect(hybridClient.route!.send(stroke('a'))).toBe(true);
+    peers.forEach((peer) => expect(peer.sent).toContainEqual(expect.objectContaining({ type: 'drawing-event' })));
+
+    await provider.publishState(state);
+    expect(hybridClient.sendStateUpdate).toHaveBeenCalled();
+    expect(publishSessionState).not.toHaveBeenCalled();
+  });
+
+  it('leaves messages to the server while a viewer has no open channel', async () => {
+    await join(viewer('viewer-1'), viewer('viewer-2'));
+    peers[0].open();
+
+    expect(hybridClient.route!.send(stroke('a'))).toBe(false);
+
+    await provider.publishState(state);
+    expect(hybridClient.sendStateUpdate).not.toHaveBeenCalled();
+    expect(publishSessionState).toHaveBeenCalledWith(SESSION_ID, state);
+  });
+
+  it('leaves messages to the server while an anonymous viewer is in the session', async () => {
+    await join(viewer('viewer-1'), viewer('conn-1', true));
+    peers[0].open();
+
+    expect(hybridClient.route!.send(stroke('a'))).toBe(false);
+  });
+});
@@ -1,36 +1,94 @@
 import SimplePeer from 'simple-peer';
 import { StreamProvider } from './stream-provider';
-import { SessionState, SignalingData } from '@/types';
+import { RelayProvider } from './relay-provider';
+import { SessionState } from '@/types';
 import { getHybridClient } from '@/lib/hybrid/hybrid-client';
+import {
+  ClientMessage,
+  PresenceMessage,
+  ServerMessage,
+  UserJoinedMessage,
+  UserLeftMessage,
+  WebRTCSignalBroadcastMessage,
+  toBroadcastMessage,
+  unpackBatch,
+} from '@/lib/realtime/protocol';
+import { listenForSessionState, publishSessionState, storePublishedState } from './session-state';
+import { PeerChannelKind, PeerChannels, channelKindOf, isPeerMessage } from './peer-channels';
+import { getCachedRtcConfiguration, getRtcConfiguration } from './rtc-config';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('webrtc-provider');
+
+export interface WebRTCProviderOptions {
+  // Viewers the host streams to at once; each is its own peer connection from the host's browser
+  maxViewers?: number;
+}
+
+const DEFAULT_MAX_VIEWERS = Number(process.env.NEXT_PUBLIC_WEBRTC_MAX_VIEWERS) || 8;
+// While data channels carry the state, the stored copy is brought up to date this often
+const STATE_STORE_INTERVAL_MS = 5000;
 
 /**
  * WebRTC Stream Provider Implementation
- * Uses simple-peer for WebRTC connections and hybrid (WebSocket/polling) for real-time signaling
+ * Uses simple-peer for WebRTC connections and hybrid (WebSocket/polling) for real-time signaling.
+ * The host keeps one peer connection per viewer, keyed by the viewer's user id; viewers keep
+ * one to the host. Signals are addressed to the other end with `to`.
+ * Once every viewer in the session has an open data channel, the host's drawing
+ * events, cursor and state go over the channels instead of the realtime server.
  */
 export class WebRTCProvider extends StreamProvider {
-  private peer: SimplePeer.Instance | null = null;
+  // Remote user id -> peer connection
+  private peers: Map<string, SimplePeer.Instance> = new Map();
+  // Failed attempts per remote user, reset once connected
+  private connectionAttempts: Map<string, number> = new Map();
   private localStream: MediaStream | null = null;
   private isHost: boolean = false;
+  private userId: string | null = null;
   private hybridClient = getHybridClient();
-  private isConnecting: boolean = false;
-  private connectionAttempts: number = 0;
   private maxConnectionAttempts: number = 3;
+  private maxViewers: number;
+  private stopStateListener: (() => void) | null = null;
+  // Viewers in the session, as the host has seen them join and leave
+  private audience: Set<string> = new Set();
+  // Viewers turned away at the viewer limit, connected in the order they came as slots free up
+  private waitingViewers: Set<string> = new Set();
+  // Viewers without a user id, whom no data channel reaches
+  private anonymousViewers = 0;
+  private channels = new PeerChannels((remoteId, message) => this.handleChannelMessage(remoteId, message));
+  private stateStoreTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: WebRTCProviderOptions = {}) {
+    super();
+    this.maxViewers = options.maxViewers ?? DEFAULT_MAX_VIEWERS;
+  }
 
   /**
    * Initialize as host
    */
-  async initializeHost(sessionId: string): Promise<void> {
+  async initializeHost(sessionId: string, userId?: string): Promise<void> {
     this.sessionId = sessionId;
     this.isHost = true;
+    this.userId = userId ?? null;
+
+    log.info('Host initialized for session', { sessionId });
 
-    console.log('Host initialized for session:', sessionId);
+    // Presence on joining lists the viewers who were already in the session
+    this.hybridClient.on('presence', this.handlePresence);
     
     // Join hybrid client room for this session
-    this.hybridClient.joinSession(sessionId);
+    this.hybridClient.joinSession(sessionId, userId, true);
+
+    // ICE servers, with TURN credentials, before any peer connection is created
+    await getRtcConfiguration(sessionId, userId);
+
+    // Drawing events, cursor and state take the data channels whenever they reach everyone
+    this.hybridClient.setPeerRoute({ send: this.routeMessage });
     
-    // Listen for WebRTC signals and viewer connections
-    this.hybridClient.on('webrtc-signal', this.handleWebRTCSignal.bind(this));
-    this.hybridClient.on('user-joined', this.handleUserJoined.bind(this));
+    // Listen for WebRTC signals and viewers coming and going
+    this.hybridClient.on('webrtc-signal', this.handleWebRTCSignal);
+    this.hybridClient.on('user-joined', this.handleUserJoined);
+    this.hybridClient.on('user-left', this.handleUserLeft);
   }
 
   /**
@@ -41,12 +99,19 @@ export class WebRTCProvider extends StreamProvider {
       throw new Error('Only host can publish media');
     }
 
+    const previous = this.localStream;
     this.localStream = stream;
 
-    // If peer already exists, add stream
-    if (this.peer) {
-      this.peer.addStream(stream);
-    }
+    // Viewers already connected switch to the new stream
+    this.peers.forEach((peer) => {
+      if (peer.destroyed) return;
+      if (previous && previous !== stream) {
+        peer.removeStream(previous);
+      }
+      if (previous !== stream) {
+        peer.addStream(stream);
+      }
+    });
   }
 
   /**
@@ -57,30 +122,38 @@ export class WebRTCProvider extends StreamProvider {
       throw new Error('Only host can publish state');
     }
 
-    // Send real-time state update via hybrid client
-    this.hybridClient.sendStateUpdate(state);
-    
-    // Also persist to database for reliability
-    try {
-      await fetch(`/api/sessions/${this.sessionId}/state`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ state }),
-      });
-    } catch (error) {
-      console.error('Error persisting state:', error);
+    if (this.reachesAudience('reliable')) {
+      // Routed over the data channels; the stored copy only needs to catch up now and then
+      this.hybridClient.sendStateUpdate(state);
+      this.scheduleStateStore();
+      return;
     }
+
+    await publishSessionState(this.sessionId, state);
+  }
+
+  private scheduleStateStore(): void {
+    if (this.stateStoreTimer) return;
+
+    this.stateStoreTimer = setTimeout(() => {
+      this.stateStoreTimer = null;
+      storePublishedState(this.sessionId).catch((error) => log.error('Error persisting state', { sessionId: this.sessionId, error }));
+    }, STATE_STORE_INTERVAL_MS);
   }
 
   /**
    * End session (host)
    */
   async endSession(): Promise<void> {
-    if (this.peer) {
-      this.peer.destroy();
-      this.peer = null;
+    // State that only went over the data channels is stored before the session closes
+    if (this.stateStoreTimer) {
+      clearTimeout(this.stateStoreTimer);
+      this.stateStoreTimer = null;
+      await storePublishedState(this.sessionId).catch((error) => log.error('Error persisting state', { sessionId: this.sessionId, error }));
     }
 
+    this.destroyPeers();
+
     if (this.localStream) {
       this.localStream.getTracks().forEach((track) => track.stop());
       this.localStream = null;
@@ -95,26 +168,25 @@ export class WebRTCProvider extends StreamProvider {
   /**
    * Join session as viewer
    */
-  async joinSession(sessionId: string): Promise<void> {
+  async joinSession(sessionId: string, userId?: string): Promise<void> {
     this.sessionId = sessionId;
     this.isHost = false;
+    this.userId = userId ?? null;
 
-    console.log('Viewer joining session:', sessionId);
+    log.info('Viewer joining session', { sessionId });
 
-    // Join hybrid client room for this session
-    this.hybridClient.joinSession(sessionId);
+    // Join hybrid client room for this session; the host addresses its offer to this user id
+    this.hybridClient.joinSession(sessionId, userId);
+
+    // ICE servers, with TURN credentials, before the host's offer arrives
+    await getRtcConfiguration(sessionId, userId);
     
     // Listen for state updates and WebRTC signals
-    this.hybridClient.on('session-state-updated', (state: SessionState) => {
-      if (this.stateCallback) {
-        this.stateCallback(state);
-      }
-    });
+    this.stopStateListener = listenForSessionState((state) => this.stateCallback?.(state));
     
-    this.hybridClient.on('webrtc-signal', this.handleWebRTCSignal.bind(this));
-    
-    // Initialize peer connection as viewer
-    this.initializePeer(false);
+    // The host opens the connection with an offer; its peer is created then
+    this.hybridClient.on('webrtc-signal', this.handleWebRTCSignal);
+    this.hybridClient.on('user-left', this.handleUserLeft);
   }
 
   /**
@@ -135,10 +207,7 @@ export class WebRTCProvider extends StreamProvider {
    * Leave session (viewer)
    */
   async leaveSession(): Promise<void> {
-    if (this.peer) {
-      this.peer.destroy();
-      this.peer = null;
-    }
+    this.destroyPeers();
 
     // Leave hybrid client room
     this.hybridClient.leaveSession();
@@ -146,185 +215,333 @@ export class WebRTCProvider extends StreamProvider {
     this.cleanup();
   }
 
+  /**
+   * Number of viewers the host currently has a peer connection with
+   */
+  getViewerCount(): number {
+    return this.isHost ? this.peers.size : 0;
+  }
+
   /**
    * Handle WebRTC signaling
    */
-  private handleWebRTCSignal(data: { signal: any; from: string; signalType: string }): void {
-    console.log('Received WebRTC signal:', data.signalType, 'from:', data.from);
-    
-    // Ignore signals if we're in the middle of connecting
-    if (this.isConnecting) {
-      console.log('Ignoring signal while connecting...');
-      return;
-    }
+  private handleWebRTCSignal = (data: WebRTCSignalBroadcastMessage): void => {
+    // Addressed to another participant; some relays deliver to the whole session
+    if (data.to && data.to !== this.userId) return;
+    if (!data.from || data.from === this.userId) return;
 
-    // Handle offer for viewers
-    if (!this.isHost && data.signalType === 'offer') {
-      if (!this.peer || this.peer.destroyed) {
-        console.log('Creating peer connection for offer');
-        this.initializePeer(false);
-      }
+    log.debug('Received WebRTC signal', { signalType: data.signalType, from: data.from });
+
+    let peer = this.peers.get(data.from);
+
+    // Handle offer for viewers: the host is (re)connecting
+    if (!this.isHost && data.signalType === 'offer' && (!peer || peer.destroyed)) {
+      log.debug('Creating peer connection for offer', { from: data.from });
+      peer = this.initializePeer(data.from, false);
     }
 
     // Handle answer for hosts
-    if (this.isHost && data.signalType === 'answer') {
-      if (!this.peer || this.peer.destroyed) {
-        console.log('No peer connection available for answer');
-        return;
-      }
+    if (!peer || peer.destroyed) {
+      log.debug('No peer connection for signal', { from: data.from });
+      return;
     }
 
     // Process signal with safety checks
-    if (this.peer && !this.peer.destroyed) {
-      try {
-        console.log('Processing signal:', data.signalType);
-        this.peer.signal(data.signal);
-      } catch (error) {
-        console.error('Error processing WebRTC signal:', error);
-        this.handleConnectionError();
-      }
+    try {
+      peer.signal(data.signal);
+    } catch (error) {
+      log.error('Error processing WebRTC signal', { from: data.from, error });
+      this.handleConnectionError(data.from);
     }
-  }
+  };
 
   /**
    * Handle user joined (for host)
    */
-  private handleUserJoined(data: { userId: string }): void {
+  private handleUserJoined = (data: UserJoinedMessage): void => {
     if (!this.isHost) return;
 
-    console.log('User joined, checking peer connection for:', data.userId);
-    
-    // Only create peer if we don't have one or it's destroyed
-    if (!this.peer || this.peer.destroyed) {
-      console.log('Creating new peer connection for user:', data.userId);
-      this.initializePeer(true);
-    } else {
-      console.log('Peer connection already exists, not creating new one');
+    // Anonymous participants can't be addressed, and the host doesn't stream to itself
+    if (!data.userId || data.isHost || data.userId === this.userId) return;
+
+    log.debug('User joined, checking peer connection', { remoteId: data.userId });
+    this.audience.add(data.userId);
+    this.connectViewer(data.userId);
+  };
+
+  /**
+   * Handle presence (host): viewers who joined before the host get a peer connection too
+   */
+  private handlePresence = (data: PresenceMessage): void => {
+    if (!this.isHost) return;
+
+    this.anonymousViewers = data.participants.filter((participant) => participant.anonymous).length;
+
+    data.participants.forEach((participant) => {
+      if (participant.anonymous || participant.role === 'host' || participant.id === this.userId) return;
+      if (this.audience.has(participant.id)) return;
+
+      this.audience.add(participant.id);
+      this.connectViewer(participant.id);
+    });
+  };
+
+  /**
+   * Open a peer connection to a viewer (host), once the ICE configuration is current;
+   * past the viewer limit the viewer waits for a slot instead
+   */
+  private async connectViewer(remoteId: string): Promise<void> {
+    // TURN credentials expire, so they may need fetching again first
+    await getRtcConfiguration(this.sessionId, this.userId);
+    if (!this.isHost) return;
+
+    const existing = this.peers.get(remoteId);
+    if (existing && !existing.destroyed) {
+      log.debug('Peer connection already exists', { remoteId });
+      return;
+    }
+
+    if (this.peers.size >= this.maxViewers) {
+      log.warn('Viewer limit reached, queueing viewer', { remoteId, maxViewers: this.maxViewers });
+      this.waitingViewers.add(remoteId);
+      return;
     }
+    this.waitingViewers.delete(remoteId);
+
+    log.debug('Creating new peer connection', { remoteId });
+    this.initializePeer(remoteId, true);
   }
 
   /**
-   * Handle connection errors
+   * Handle user left: tear down the peer connection with them
    */
-  private handleConnectionError(): void {
-    this.connectionAttempts++;
-    console.log(`Connection attempt ${this.connectionAttempts}/${this.maxConnectionAttempts} failed`);
-    
-    if (this.connectionAttempts < this.maxConnectionAttempts) {
-      // Clean up current peer and retry
-      if (this.peer) {
-        this.peer.destroy();
-        this.peer = null;
+  private handleUserLeft = (data: UserLeftMessage): void => {
+    if (!data.userId) return;
+    this.audience.delete(data.userId);
+    this.waitingViewers.delete(data.userId);
+    this.destroyPeer(data.userId);
+    this.admitWaitingViewers();
+  };
+
+  /**
+   * Connect viewers waiting on the viewer limit, oldest first, to the slots that are free (host)
+   */
+  private admitWaitingViewers(): void {
+    if (!this.isHost) return;
+
+    const free = this.maxViewers - this.peers.size;
+    Array.from(this.waitingViewers).slice(0, Math.max(free, 0)).forEach((remoteId) => {
+      this.waitingViewers.delete(remoteId);
+      if (this.audience.has(remoteId)) {
+        this.connectViewer(remoteId);
       }
-      
+    });
+  }
+
+  /**
+   * Handle connection errors
+   */
+  private handleConnectionError(remoteId: string): void {
+    const attempts = (this.connectionAttempts.get(remoteId) ?? 0) + 1;
+    log.warn('Connection attempt failed', { remoteId, attempt: attempts, maxAttempts: this.maxConnectionAttempts });
+
+    // Clean up the current peer; the host retries, viewers wait for its next offer
+    this.destroyPeer(remoteId, false);
+
+    if (attempts < this.maxConnectionAttempts) {
+      this.connectionAttempts.set(remoteId, attempts);
+
       setTimeout(() => {
-        if (this.isHost) {
-          this.initializePeer(true);
+        if (this.isHost && !this.peers.has(remoteId)) {
+          this.connectViewer(remoteId);
         }
       }, 2000);
     } else {
-      console.error('Max connection attempts reached, giving up');
-      this.connectionAttempts = 0;
+      log.error('Max connection attempts reached, giving up', { remoteId });
+      this.connectionAttempts.delete(remoteId);
+      this.admitWaitingViewers();
     }
   }
 
   /**
-   * Initialize WebRTC peer connection
+   * Initialize a WebRTC peer connection with one remote participant
    */
-  private initializePeer(isInitiator: boolean): void {
-    // Prevent multiple peer creation
-    if (this.isConnecting) {
-      console.log('Already connecting, skipping peer creation');
-      return;
-    }
-
+  private initializePeer(remoteId: string, isInitiator: boolean): SimplePeer.Instance {
     // Clean up existing peer
-    if (this.peer && !this.peer.destroyed) {
-      console.log('Cleaning up existing peer');
-      this.peer.destroy();
-    }
+    this.destroyPeer(remoteId, false);
 
-    this.isConnecting = true;
-    console.log(`Initializing ${isInitiator ? 'host' : 'viewer'} peer connection`);
+    log.debug('Initializing peer connection', { remoteId, initiator: isInitiator });
 
     const config: SimplePeer.Options = {
       initiator: isInitiator,
       trickle: true,
       stream: this.localStream || undefined,
-      config: {
-        iceServers: [
-          { urls: 'stun:stun.l.google.com:19302' },
-          { urls: 'stun:stun1.l.google.com:19302' },
-        ],
-      },
+      // Fetched when the session was joined; viewers answer offers without waiting on a request
+      config: getCachedRtcConfiguration(),
     };
 
-    this.peer = new SimplePeer(config);
+    const peer = this.channels.createPeer(remoteId, config);
+    this.peers.set(remoteId, peer);
+
+    // Events from a peer that has since been replaced are ignored
+    const isCurrent = () => this.peers.get(remoteId) === peer;
 
     // Handle peer events
-    this.peer.on('signal', (data) => {
+    peer.on('signal', (data) => {
+      if (!isCurrent()) return;
+
       const signalType = data.type === 'offer' ? 'offer' : 
                         data.type === 'answer' ? 'answer' : 'ice-candidate';
       
-      console.log('Sending WebRTC signal:', signalType);
-      this.hybridClient.sendWebRTCSignal(data, signalType);
+      log.debug('Sending WebRTC signal', { signalType, to: remoteId });
+      this.hybridClient.sendWebRTCSignal(data, signalType, remoteId);
     });
 
-    this.peer.on('connect', () => {
-      console.log('✅ Peer connected successfully');
-      this.isConnecting = false;
-      this.connectionAttempts = 0;
+    peer.on('connect', () => {
+      log.info('Peer connected', { remoteId });
+      this.connectionAttempts.delete(remoteId);
+
+      // Patches sent over the channel build on the whole state, which the viewer may not have yet
+      const published = this.isHost ? this.hybridClient.getPublishedState() : null;
+      const full = published && toBroadcastMessage(published, { userId: this.userId ?? undefined });
+      if (full && isCurrent()) {
+        this.channels.send(remoteId, full);
+      }
     });
 
-    this.peer.on('stream', (stream: MediaStream) => {
-      console.log('📹 Received remote stream');
-      this.isConnecting = false;
-      if (this.mediaCallback) {
+    peer.on('stream', (stream: MediaStream) => {
+      log.info('Received remote stream', { remoteId });
+      if (isCurrent() && this.mediaCallback) {
         this.mediaCallback(stream);
       }
     });
 
-    this.peer.on('error', (err) => {
-      console.error('❌ Peer error:', err);
-      this.isConnecting = false;
-      this.handleConnectionError();
+    peer.on('error', (err) => {
+      log.error('Peer error', { remoteId, error: err });
+      if (isCurrent()) {
+        this.handleConnectionError(remoteId);
+      }
     });
 
-    this.peer.on('close', () => {
-      console.log('🔴 Peer connection closed');
-      this.isConnecting = false;
+    peer.on('close', () => {
+      log.info('Peer connection closed', { remoteId });
+      if (isCurrent()) {
+        this.peers.delete(remoteId);
+        this.channels.detach(remoteId);
+        this.admitWaitingViewers();
+      }
     });
+
+    return peer;
+  }
+
+  private destroyPeer(remoteId: string, forget = true): void {
+    const peer = this.peers.get(remoteId);
+    if (!peer) return;
+
+    this.peers.delete(remoteId);
+    this.channels.detach(remoteId);
+    if (forget) {
+      this.connectionAttempts.delete(remoteId);
+    }
+    if (!peer.destroyed) {
+      log.debug('Cleaning up peer connection', { remoteId });
+      peer.destroy();
+    }
+  }
+
+  private destroyPeers(): void {
+    Array.from(this.peers.keys()).forEach((remoteId) => this.destroyPeer(remoteId));
+  }
+
+  /**
+   * Peer route for the hybrid client (host): send a message over the data channels
+   * when every viewer has the channel it needs open
+   */
+  private routeMessage = (message: ClientMessage): boolean => {
+    const messages: ClientMessage[] = message.type === 'batch' ? unpackBatch(message) : [message];
+    const broadcasts = messages.map((inner) => toBroadcastMessage(inner, { userId: this.userId ?? undefined }));
+
+    if (!broadcasts.every((broadcast): broadcast is ServerMessage => broadcast !== null && isPeerMessage(broadcast))) {
+      return false;
+    }
+    if (!broadcasts.every((broadcast) => this.reachesAudience(channelKindOf(broadcast)))) {
+      return false;
+    }
+
+    this.audience.forEach((remoteId) => {
+      broadcasts.forEach((broadcast) => this.channels.send(remoteId, broadcast));
+    });
+    return true;
+  };
+
+  private reachesAudience(kind: PeerChannelKind): boolean {
+    if (!this.isHost || this.audience.size === 0 || this.anonymousViewers > 0) return false;
+    return Array.from(this.audience).every((remoteId) => this.channels.isOpen(remoteId, kind));
+  }
+
+  /**
+   * Messages from the other end of a data channel. Viewers take the host's as if
+   * the server had relayed them; the host takes nothing this way.
+   */
+  private handleChannelMessage(remoteId: string, message: ServerMessage): void {
+    if (this.isHost) {
+      log.warn('Ignoring data channel message from viewer', { remoteId });
+      return;
+    }
+    this.hybridClient.receiveFromPeer(message);
   }
 
   /**
    * Cleanup resources
    */
   private cleanup(): void {
+    if (this.isHost) {
+      this.hybridClient.setPeerRoute(null);
+    }
+    this.channels.clear();
+    this.audience.clear();
+    this.waitingViewers.clear();
+    this.anonymousViewers = 0;
+    if (this.stateStoreTimer) {
+      clearTimeout(this.stateStoreTimer);
+      this.stateStoreTimer = null;
+    }
+
     // Remove hybrid client event listeners
-    this.hybridClient.off('webrtc-signal', this.handleWebRTCSignal.bind(this));
-    this.hybridClient.off('user-joined', this.handleUserJoined.bind(this));
-    this.hybridClient.off('session-state-updated', () => {});
+    this.hybridClient.off('webrtc-signal', this.handleWebRTCSignal);
+    this.hybridClient.off('user-joined', this.handleUserJoined);
+    this.hybridClient.off('user-left', this.handleUserLeft);
+    this.hybridClient.off('presence', this.handlePresence);
+    this.stopStateListener?.();
+    this.stopStateListener = null;
     
     // Reset connection state
-    this.isConnecting = false;
-    this.connectionAttempts = 0;
+    this.connectionAttempts.clear();
     
     this.mediaCallback = null;
     this.stateCallback = null;
   }
 }
 
+export type StreamProviderType = 'webrtc' | 'relay' | 'ivs';
+
+// Relay for audiences past what the host's own connection can stream to directly
+const DEFAULT_PROVIDER_TYPE: StreamProviderType =
+  process.env.NEXT_PUBLIC_STREAM_PROVIDER === 'relay' ? 'relay' : 'webrtc';
+
 /**
  * Factory function to create stream provider
- * Can be extended to support different providers (WebRTC, IVS, etc.)
+ * Can be extended to support different providers (WebRTC, relay, IVS, etc.)
  */
-export function createStreamProvider(type: 'webrtc' | 'ivs' = 'webrtc'): StreamProvider {
+export function createStreamProvider(type: StreamProviderType = DEFAULT_PROVIDER_TYPE, options: WebRTCProviderOptions = {}): StreamProvider {
   switch (type) {
     case 'webrtc':
-      return new WebRTCProvider();
+      return new WebRTCProvider(options);
+    case 'relay':
     case 'ivs':
-      // TODO: Implement IVS provider
-      throw new Error('IVS provider not implemented yet');
+      // The relay serves large audiences until there is an IVS provider
+      return new RelayProvider();
     default:
       throw new Error(`Unknown provider type: ${type}`);
   }
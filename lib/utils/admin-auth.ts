@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Bearer-token check for operator endpoints. The token is ADMIN_API_TOKEN;
+ * without it set the endpoints stay disabled rather than open.
+ * Returns the response to send when the request isn't allowed, or null.
+ */
+export function checkAdminRequest(request: NextRequest): NextResponse | null {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return NextResponse.json(
+      { error: 'Admin endpoints are disabled; set ADMIN_API_TOKEN to enable them' },
+      { status: 503 }
+    );
+  }
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '') ?? '';
+  if (!tokensMatch(token, expected)) {
+    return NextResponse.json(
+      { error: 'Invalid admin token' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  return null;
+}
+
+// Digests are equal length, so the comparison takes the same time however much of the token is right
+function tokensMatch(token: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(expected));
+}
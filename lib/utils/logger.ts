@@ -0,0 +1,73 @@
+/**
+ * Leveled logger. On the server each entry is one JSON line (for log aggregation);
+ * in the browser entries go to the console prefixed with their scope.
+ * Set LOG_LEVEL (server) or NEXT_PUBLIC_LOG_LEVEL (browser) to debug, info, warn or error.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVEL_ORDER;
+}
+
+function configuredLevel(): LogLevel {
+  const level = typeof window === 'undefined'
+    ? process.env.LOG_LEVEL ?? process.env.NEXT_PUBLIC_LOG_LEVEL
+    : process.env.NEXT_PUBLIC_LOG_LEVEL;
+  return isLogLevel(level) ? level : 'info';
+}
+
+// Errors don't survive JSON.stringify, so keep what is useful about them
+function serializeFields(fields: LogFields): LogFields {
+  const serialized: LogFields = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    serialized[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+  });
+  return serialized;
+}
+
+function write(level: LogLevel, scope: string, message: string, fields?: LogFields): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[configuredLevel()]) return;
+
+  if (typeof window === 'undefined') {
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      scope,
+      msg: message,
+      ...(fields ? serializeFields(fields) : {}),
+    });
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+    return;
+  }
+
+  const args: unknown[] = [`[${scope}] ${message}`];
+  if (fields) args.push(fields);
+  console[level](...args);
+}
+
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', scope, message, fields),
+    info: (message, fields) => write('info', scope, message, fields),
+    warn: (message, fields) => write('warn', scope, message, fields),
+    error: (message, fields) => write('error', scope, message, fields),
+  };
+}
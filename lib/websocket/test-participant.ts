@@ -0,0 +1,51 @@
+import { once } from 'events';
+import WebSocket from 'ws';
+import { vi } from 'vitest';
+import { ClientMessage, JoinSessionMessage, ServerMessage } from '@/lib/realtime/protocol';
+
+/**
+ * A session participant on a WebSocket server, for tests. Keeps every message
+ * it receives so tests can wait for the one they expect.
+ */
+export class WebSocketParticipant {
+  readonly received: ServerMessage[] = [];
+  private socket: WebSocket;
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url);
+    this.socket.on('message', (data) => this.received.push(JSON.parse(data.toString())));
+  }
+
+  /**
+   * Join a session; resolves with the server's answer, `session-joined` or an error
+   */
+  async join(sessionId: string, fields: Partial<JoinSessionMessage> = {}): Promise<ServerMessage> {
+    await this.opened();
+    this.send({ type: 'join-session', sessionId, timestamp: Date.now(), ...fields });
+    return this.next((message) => message.type === 'session-joined' || (message.type === 'error' && message.ref === 'join-session'));
+  }
+
+  send(message: ClientMessage): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  next(predicate: (message: ServerMessage) => boolean): Promise<ServerMessage> {
+    return vi.waitFor(() => {
+      const message = this.received.find(predicate);
+      if (!message) throw new Error('Not received yet');
+      return message;
+    });
+  }
+
+  async opened(): Promise<void> {
+    if (this.socket.readyState !== WebSocket.OPEN) {
+      await once(this.socket, 'open');
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.socket.readyState === WebSocket.CLOSED) return;
+    this.socket.close();
+    await once(this.socket, 'close');
+  }
+}
@@ -0,0 +1,218 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { AccessTokenVerifier, LocalKeySet } from '@/lib/aws/access-token';
+import { InMemoryMessageBroker } from '@/lib/realtime/memory-broker';
+import { PROTOCOL_VERSION } from '@/lib/realtime/protocol';
+import { SessionFanout } from '@/lib/realtime/session-fanout';
+import { LocalWebSocketServer } from '@/lib/websocket/websocket-server';
+import { WebSocketParticipant } from '@/lib/websocket/test-participant';
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_test';
+const SESSION_ID = 'session-1';
+const HOST_ID = 'host-1';
+const DRAWER_ID = 'drawer-1';
+
+describe('LocalWebSocketServer', () => {
+  const keySet = new LocalKeySet();
+  const server = new LocalWebSocketServer(0, {
+    fanout: new SessionFanout(new InMemoryMessageBroker()),
+    verifier: new AccessTokenVerifier({ issuer: ISSUER, keySet }),
+    getSessionHostId: async () => HOST_ID,
+    roles: { load: async () => ({ [DRAWER_ID]: 'drawer' }), save: async () => {} },
+    heartbeatIntervalMs: 60000,
+  });
+  const participants: WebSocketParticipant[] = [];
+
+  const connect = () => {
+    const participant = new WebSocketParticipant(`ws://127.0.0.1:${server.getPort()}`);
+    participants.push(participant);
+    return participant;
+  };
+
+  const tokenFor = (username: string) => keySet.issueToken({ sub: `sub-${username}`, username, iss: ISSUER });
+
+  beforeAll(() => server.start());
+
+  afterEach(async () => {
+    await Promise.all(participants.splice(0).map((participant) => participant.close()));
+  });
+
+  afterAll(() => server.stop());
+
+  describe('joining', () => {
+    it('makes the session host the host only with their access token', async () => {
+      const host = connect();
+
+      const joined = await host.join(SESSION_ID, { userId: 'someone-else', isHost: false, accessToken: tokenFor(HOST_ID) });
+
+      expect(joined).toMatchObject({ type: 'session-joined', userId: HOST_ID, isHost: true });
+    });
+
+    it('ignores a claim to be host without a token', async () => {
+      const viewer = connect();
+
+      const joined = await viewer.join(SESSION_ID, { userId: 'viewer-1', isHost: true });
+
+      expect(joined).toMatchObject({ type: 'session-joined', userId: 'viewer-1', isHost: false });
+    });
+
+    it('rejects the host\'s id without their token', async () => {
+      const impostor = connect();
+
+      const joined = await impostor.join(SESSION_ID, { userId: HOST_ID, isHost: true });
+
+      expect(joined).toMatchObject({ type: 'error', code: 'unauthorized' });
+    });
+
+    it('rejects an invalid token', async () => {
+      const participant = connect();
+
+      const joined = await participant.join(SESSION_ID, { accessToken: new LocalKeySet().issueToken({ username: HOST_ID, iss: ISSUER }) });
+
+      expect(joined).toMatchObject({ type: 'error', code: 'unauthorized' });
+    });
+  });
+
+  describe('granted roles', () => {
+    const stroke = (userId: string) => ({
+      type: 'drawing-event' as const,
+      sessionId: SESSION_ID,
+      event: { type: 'stroke', id: `stroke-${userId}` },
+      userId,
+      timestamp: Date.now(),
+    });
+
+    it('apply to a user who joins with their token', async () => {
+      const viewer = connect();
+      await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+      const drawer = connect();
+      await drawer.join(SESSION_ID, { accessToken: tokenFor(DRAWER_ID) });
+
+      drawer.send(stroke(DRAWER_ID));
+
+      const drawn = await viewer.next((message) => message.type === 'drawing-event');
+      expect(drawn).toMatchObject({ userId: DRAWER_ID });
+    });
+
+    it('don\'t apply to someone claiming the user\'s id without a token', async () => {
+      const impostor = connect();
+      await impostor.join(SESSION_ID, { userId: DRAWER_ID });
+
+      impostor.send(stroke(DRAWER_ID));
+
+      const denied = await impostor.next((message) => message.type === 'error');
+      expect(denied).toMatchObject({ code: 'forbidden', ref: 'drawing-event' });
+    });
+  });
+
+  describe('leaving', () => {
+    it('ignores a leave from a connection that has not joined', async () => {
+      const viewer = connect();
+      await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+      const stranger = connect();
+      await stranger.opened();
+
+      stranger.send({ type: 'leave-session', sessionId: SESSION_ID, userId: 'viewer-1', timestamp: Date.now() });
+      // Anything the stranger caused would arrive before this
+      const pinged = connect();
+      await pinged.join(SESSION_ID, { userId: 'viewer-2' });
+      await viewer.next((message) => message.type === 'user-joined' && message.userId === 'viewer-2');
+
+      expect(viewer.received.filter((message) => message.type === 'user-left')).toEqual([]);
+    });
+
+    it('leaves as the joined user, whatever the message claims', async () => {
+      const viewer = connect();
+      await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+      const leaver = connect();
+      await leaver.join(SESSION_ID, { userId: 'viewer-2' });
+
+      leaver.send({ type: 'leave-session', sessionId: 'another-session', userId: 'viewer-1', timestamp: Date.now() });
+
+      const left = await viewer.next((message) => message.type === 'user-left');
+      expect(left).toMatchObject({ userId: 'viewer-2' });
+    });
+
+    it('stops relaying from a connection once it has left', async () => {
+      const viewer = connect();
+      await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+      const leaver = connect();
+      await leaver.join(SESSION_ID, { userId: 'viewer-2' });
+
+      leaver.send({ type: 'leave-session', sessionId: SESSION_ID, userId: 'viewer-2', timestamp: Date.now() });
+      leaver.send({ type: 'cursor-move', sessionId: SESSION_ID, x: 1, y: 1, timestamp: Date.now() });
+
+      await leaver.next((message) => message.type === 'error' && message.ref === 'cursor-move');
+      const pinged = connect();
+      await pinged.join(SESSION_ID, { userId: 'viewer-3' });
+      await viewer.next((message) => message.type === 'user-joined' && message.userId === 'viewer-3');
+      expect(viewer.received.filter((message) => message.type === 'cursor-moved')).toEqual([]);
+    });
+
+    it('leaves the previous session when joining another', async () => {
+      const viewer = connect();
+      await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+      const mover = connect();
+      await mover.join(SESSION_ID, { userId: 'viewer-2' });
+
+      await mover.join(`${SESSION_ID}-other`, { userId: 'viewer-2' });
+
+      const left = await viewer.next((message) => message.type === 'user-left');
+      expect(left).toMatchObject({ userId: 'viewer-2' });
+    });
+  });
+
+  describe('protocol versions', () => {
+    // Accepts only clients that say hello with version 2 or later
+    const strictServer = new LocalWebSocketServer(0, {
+      fanout: new SessionFanout(new InMemoryMessageBroker()),
+      verifier: null,
+      getSessionHostId: async () => HOST_ID,
+      roles: { load: async () => ({}), save: async () => {} },
+      heartbeatIntervalMs: 60000,
+      minProtocolVersion: 2,
+    });
+
+    const connectStrict = () => {
+      const participant = new WebSocketParticipant(`ws://127.0.0.1:${strictServer.getPort()}`);
+      participants.push(participant);
+      return participant;
+    };
+
+    const hello = (participant: WebSocketParticipant, protocolVersion: number) => {
+      participant.send({ type: 'hello', protocolVersion, capabilities: [], timestamp: Date.now() });
+      return participant.next((message) => message.type === 'welcome' || (message.type === 'error' && message.ref === 'hello'));
+    };
+
+    beforeAll(() => strictServer.start());
+
+    afterAll(() => strictServer.stop());
+
+    it('lets clients that never say hello in by default', async () => {
+      const legacy = connect();
+
+      expect(await legacy.join(SESSION_ID, { userId: 'viewer-1' })).toMatchObject({ type: 'session-joined' });
+    });
+
+    it('tells a client older than the minimum to upgrade', async () => {
+      const legacy = connectStrict();
+
+      expect(await legacy.join(SESSION_ID, { userId: 'viewer-1' })).toMatchObject({ type: 'error', code: 'upgrade-required' });
+    });
+
+    it('tells a client that says hello with an old version to upgrade', async () => {
+      const outdated = connectStrict();
+      await outdated.opened();
+
+      expect(await hello(outdated, 1)).toMatchObject({ type: 'error', code: 'upgrade-required' });
+      expect(await outdated.join(SESSION_ID, { userId: 'viewer-1' })).toMatchObject({ type: 'error', code: 'upgrade-required' });
+    });
+
+    it('lets a current client in', async () => {
+      const current = connectStrict();
+      await current.opened();
+
+      expect(await hello(current, PROTOCOL_VERSION)).toMatchObject({ type: 'welcome', protocolVersion: PROTOCOL_VERSION });
+      expect(await current.join(SESSION_ID, { userId: 'viewer-1' })).toMatchObject({ type: 'session-joined' });
+    });
+  });
+});
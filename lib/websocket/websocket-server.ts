@@ -1,6 +1,85 @@
-import { WebSocketServer, WebSocket } from 'ws';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
 import { IncomingMessage } from 'http';
 import { URL } from 'url';
+import {
+  BatchMessage,
+  ChatSendMessage,
+  ClientMessage,
+  CursorMoveMessage,
+  DrawingEventMessage,
+  ErrorMessage,
+  HelloMessage,
+  JoinSessionMessage,
+  LEGACY_CAPABILITIES,
+  LEGACY_PROTOCOL_VERSION,
+  LeaveSessionMessage,
+  MIN_PROTOCOL_VERSION,
+  ParseResult,
+  ParticipantRole,
+  PresenceParticipant,
+  ProtocolCapability,
+  ReactionSendMessage,
+  RpcMethod,
+  RpcRequestMessage,
+  ServerMessage,
+  SetRoleMessage,
+  StatePatchMessage,
+  StateUpdateMessage,
+  WebRTCSignalSendMessage,
+  checkProtocolVersion,
+  createAckMessage,
+  createPongMessage,
+  createErrorMessage,
+  decodeClientMessage,
+  generateChatMessageId,
+  negotiateProtocol,
+  parseClientMessage,
+  toBroadcastMessage,
+  unpackBatch,
+} from '@/lib/realtime/protocol';
+import { AccessTokenVerifier, getAccessTokenVerifier } from '@/lib/aws/access-token';
+import { getSessionById } from '@/lib/aws/dynamodb';
+import { SessionPermissions, SessionRoleStore, authorizeMessage, identifyParticipant } from '@/lib/realtime/permissions';
+import { RpcHandler, RpcRegistry } from '@/lib/realtime/rpc';
+import { SessionFanout, SessionRelay, getSessionFanout } from '@/lib/realtime/session-fanout';
+import { SessionLog } from '@/lib/realtime/session-log';
+import { RateMeter, getRealtimeMetrics } from '@/lib/realtime/metrics';
+import { StateDeltaDecoder } from '@/lib/realtime/state-delta';
+import {
+  BinaryCodec,
+  WireFormatError,
+  formatForSubprotocol,
+  isBinaryMessage,
+  selectSubprotocol,
+} from '@/lib/realtime/wire-format';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('websocket-server');
+const metrics = getRealtimeMetrics();
+
+// How long a session's replay log outlives its last connection
+const SESSION_LOG_RETENTION_MS = 5 * 60 * 1000;
+
+export interface LocalWebSocketServerOptions {
+  // How often every connection is pinged
+  heartbeatIntervalMs?: number;
+  // Connections silent (no pong or message) for longer than this are evicted
+  heartbeatTimeoutMs?: number;
+  // Shares session messages with the other transports; defaults to the process-wide fan-out
+  fanout?: SessionFanout;
+  // Verifies join tokens; defaults to the configured Cognito user pool
+  verifier?: AccessTokenVerifier | null;
+  // Looks up who hosts a session; defaults to the session record in DynamoDB
+  getSessionHostId?: (sessionId: string) => Promise<string | null>;
+  // Keeps the roles granted in sessions; defaults to the session record in DynamoDB
+  roles?: SessionRoleStore;
+  // How long an RPC method may run before the request is answered with a timeout
+  rpcTimeoutMs?: number;
+  // Accept clients offering the binary wire format; on by default
+  binary?: boolean;
+  // Oldest protocol version accepted; clients that never say hello are version 1
+  minProtocolVersion?: number;
+}
 
 interface WebSocketConnection {
   id: string;
@@ -8,36 +87,86 @@ interface WebSocketConnection {
   sessionId?: string;
   userId?: string;
   isHost?: boolean;
+  role?: ParticipantRole;
   connectedAt: number;
-}
-
-interface WebSocketMessage {
-  type: string;
-  sessionId?: string;
-  userId?: string;
-  timestamp: number;
-  [key: string]: any;
+  joinedAt?: number;
+  // Last pong or message, used to detect half-open sockets
+  lastSeenAt: number;
+  // Last message sent by the participant, reported in presence
+  lastActiveAt: number;
+  // Messages are handled in order, waiting on any join still being verified
+  queue: Promise<void>;
+  messagesReceived: number;
+  messagesSent: number;
+  receivedRate: RateMeter;
+  sentRate: RateMeter;
+  // Set when the client negotiated the binary wire format
+  codec: BinaryCodec | null;
+  // Agreed in the client's `hello`; legacy until then
+  protocolVersion: number;
+  capabilities: ReadonlySet<ProtocolCapability>;
 }
 
 export class LocalWebSocketServer {
   private wss: WebSocketServer | null = null;
   private connections: Map<string, WebSocketConnection> = new Map();
   private sessionConnections: Map<string, Set<string>> = new Map();
+  private sessionLog = new SessionLog();
+  // Latest state per session and its version, for snapshots and checking patches
+  private sessionStates: Map<string, StateDeltaDecoder> = new Map();
+  private sessionExpiryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private relay: SessionRelay;
+  private permissions: SessionPermissions;
+  private rpc: RpcRegistry;
+  private verifier: AccessTokenVerifier | null;
+  private getSessionHostId: (sessionId: string) => Promise<string | null>;
+  private heartbeatIntervalMs: number;
+  private heartbeatTimeoutMs: number;
   private port: number;
-
-  constructor(port: number = 8081) {
+  private binary: boolean;
+  private minProtocolVersion: number;
+  private receivedRate = new RateMeter();
+  private sentRate = new RateMeter();
+  private messagesReceived = 0;
+  private messagesSent = 0;
+  private unregisterGauges: Array<() => void> = [];
+
+  constructor(port: number = 8081, options: LocalWebSocketServerOptions = {}) {
     this.port = port;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15000;
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 35000;
+    this.binary = options.binary ?? true;
+    this.minProtocolVersion = options.minProtocolVersion ?? MIN_PROTOCOL_VERSION;
+    const fanout = options.fanout ?? getSessionFanout();
+    this.relay = fanout.createRelay(
+      'local-ws',
+      (sessionId, message) => this.relayFromFanout(sessionId, message)
+    );
+    this.permissions = new SessionPermissions(fanout, options.roles);
+    this.rpc = new RpcRegistry(options.rpcTimeoutMs)
+      .register('session.participants', (_, { sessionId }) => ({
+        participants: this.getParticipants(sessionId),
+      }))
+      .register('session.snapshot', (_, { sessionId }) => ({
+        state: this.sessionStates.get(sessionId)?.state ?? null,
+        version: this.sessionStates.get(sessionId)?.version ?? null,
+        seq: this.sessionLog.head(sessionId),
+      }));
+    this.verifier = options.verifier !== undefined ? options.verifier : getAccessTokenVerifier();
+    this.getSessionHostId = options.getSessionHostId ?? (async (sessionId) => {
+      const session = await getSessionById(sessionId);
+      return session?.hostId ?? null;
+    });
   }
 
   start(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.wss = new WebSocketServer({ 
+        // Anyone may connect; identity and host role are established by an authenticated join
+        this.wss = new WebSocketServer({
           port: this.port,
-          verifyClient: () => {
-            // Allow all connections for now
-            return true;
-          }
+          handleProtocols: (protocols) => selectSubprotocol(protocols, this.binary)
         });
 
         this.wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
@@ -45,12 +174,14 @@ export class LocalWebSocketServer {
         });
 
         this.wss.on('listening', () => {
-          console.log(`🚀 WebSocket server running on port ${this.port}`);
+          log.info('WebSocket server listening', { port: this.port });
+          this.startHeartbeat();
+          this.registerGauges();
           resolve();
         });
 
         this.wss.on('error', (error) => {
-          console.error('❌ WebSocket server error:', error);
+          log.error('WebSocket server error', { error });
           reject(error);
         });
 
@@ -65,28 +196,76 @@ export class LocalWebSocketServer {
     const url = new URL(request.url || '', `http://${request.headers.host}`);
     const sessionId = url.searchParams.get('sessionId');
 
-    console.log(`🔗 New WebSocket connection: ${connectionId}`, {
-      sessionId,
-      origin: request.headers.origin
-    });
+    log.info('Connection opened', { connectionId, sessionId, origin: request.headers.origin, format: formatForSubprotocol(socket.protocol) });
 
+    const now = Date.now();
     const connection: WebSocketConnection = {
       id: connectionId,
       socket,
       sessionId: sessionId || undefined,
-      connectedAt: Date.now()
+      connectedAt: now,
+      lastSeenAt: now,
+      lastActiveAt: now,
+      queue: Promise.resolve(),
+      messagesReceived: 0,
+      messagesSent: 0,
+      receivedRate: new RateMeter(),
+      sentRate: new RateMeter(),
+      codec: formatForSubprotocol(socket.protocol) === 'binary' ? new BinaryCodec() : null,
+      protocolVersion: LEGACY_PROTOCOL_VERSION,
+      capabilities: new Set(LEGACY_CAPABILITIES)
     };
 
     this.connections.set(connectionId, connection);
 
+    socket.on('pong', () => {
+      connection.lastSeenAt = Date.now();
+    });
+
     // Handle incoming messages
-    socket.on('message', (data) => {
-      try {
-        const message = JSON.parse(data.toString()) as WebSocketMessage;
-        this.handleMessage(connectionId, message);
-      } catch (error) {
-        console.error('❌ Error parsing WebSocket message:', error);
+    socket.on('message', (data, isBinary) => {
+      connection.lastSeenAt = connection.lastActiveAt = Date.now();
+      this.recordReceived(connection);
+
+      const result = isBinary ? this.decodeBinary(connection, data) : decodeClientMessage(data.toString());
+      if (!result) {
+        // The string tables are out of step; only a new connection resets them
+        socket.close(1007, 'Malformed binary frame');
+        return;
+      }
+      metrics.messagesReceived.inc({ transport: 'websocket', type: result.ok ? result.message.type : 'invalid' });
+      if (!result.ok) {
+        log.warn('Rejected message', { connectionId, reason: result.error.message });
+        this.sendToConnection(connectionId, result.error);
+        return;
+      }
+
+      // Queued behind slow lookups, a ping would measure those instead of the connection
+      if (result.message.type === 'ping') {
+        this.sendToConnection(connectionId, createPongMessage(result.message.pingId));
+        return;
+      }
+
+      if (result.message.type === 'hello') {
+        this.handleHello(connection, result.message);
+        return;
       }
+
+      const outdated = checkProtocolVersion(connection.protocolVersion, result.message.type, this.minProtocolVersion);
+      if (outdated) {
+        log.warn('Rejected message from outdated client', { connectionId, protocolVersion: connection.protocolVersion });
+        this.sendToConnection(connectionId, {
+          ...outdated,
+          ...(result.message.messageId ? { messageId: result.message.messageId } : {}),
+        });
+        return;
+      }
+
+      connection.queue = connection.queue
+        .then(() => this.handleMessage(connectionId, result.message))
+        .catch((error) => {
+          log.error('Error handling message', { connectionId, type: result.message.type, error });
+        });
     });
 
     // Handle disconnection
@@ -95,7 +274,7 @@ export class LocalWebSocketServer {
     });
 
     socket.on('error', (error) => {
-      console.error(`❌ WebSocket error for ${connectionId}:`, error);
+      log.error('Socket error', { connectionId, error });
       this.handleDisconnection(connectionId);
     });
 
@@ -107,18 +286,31 @@ export class LocalWebSocketServer {
     });
   }
 
-  private handleMessage(connectionId: string, message: WebSocketMessage): void {
+  private async handleMessage(connectionId: string, message: ClientMessage): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (!connection) {
-      console.error(`❌ Connection ${connectionId} not found`);
+      log.error('Connection not found', { connectionId });
       return;
     }
 
-    console.log(`📨 Message from ${connectionId}:`, message.type);
+    log.debug('Message received', { connectionId, type: message.type });
+    message = this.withIdentity(connection, message);
+
+    if (message.type !== 'join-session' && message.type !== 'leave-session') {
+      const denied = await this.authorize(connection, message);
+      if (denied) {
+        log.warn('Denied message', { connectionId, type: message.type, reason: denied.message });
+        this.sendToConnection(connectionId, {
+          ...denied,
+          ...(message.messageId ? { messageId: message.messageId } : {}),
+        });
+        return;
+      }
+    }
 
     switch (message.type) {
       case 'join-session':
-        this.handleJoinSession(connectionId, message);
+        if (!(await this.handleJoinSession(connectionId, message))) return;
         break;
 
       case 'leave-session':
@@ -141,34 +333,136 @@ export class LocalWebSocketServer {
         this.handleStateUpdate(connectionId, message);
         break;
 
+      case 'state-patch':
+        if (!this.handleStatePatch(connectionId, message)) return;
+        break;
+
       case 'webrtc-signal':
         this.handleWebRTCSignal(connectionId, message);
         break;
 
-      default:
-        console.log(`❓ Unknown message type: ${message.type}`);
+      case 'reaction':
+        this.handleReaction(connectionId, message);
+        break;
+
+      case 'set-role':
+        await this.handleSetRole(connectionId, message);
+        break;
+
+      case 'rpc-request':
+        // Answered whenever the method finishes, without holding up later messages
+        this.handleRpcRequest(connectionId, message);
+        break;
+
+      case 'batch':
+        this.handleBatch(connectionId, message);
+        break;
+    }
+
+    if (message.messageId && connection.capabilities.has('acks')) {
+      this.sendToConnection(connectionId, createAckMessage(message.messageId));
+    }
+  }
+
+  /**
+   * Agree a protocol version and capabilities with the client; binary only when its
+   * subprotocol was negotiated on this connection
+   */
+  private handleHello(connection: WebSocketConnection, message: HelloMessage): void {
+    const supported: ProtocolCapability[] = connection.codec ? ['batching', 'acks', 'binary'] : ['batching', 'acks'];
+    const reply = negotiateProtocol(message, supported, this.minProtocolVersion);
+
+    if (reply.type === 'welcome') {
+      connection.protocolVersion = reply.protocolVersion;
+      connection.capabilities = new Set(reply.capabilities);
+      log.debug('Protocol negotiated', { connectionId: connection.id, protocolVersion: reply.protocolVersion, capabilities: reply.capabilities });
+    } else {
+      log.warn('Client protocol is outdated', { connectionId: connection.id, protocolVersion: message.protocolVersion });
+    }
+
+    this.sendToConnection(connection.id, reply);
+  }
+
+  /**
+   * Check a message against the sender's role in the session it targets
+   */
+  private async authorize(connection: WebSocketConnection, message: ClientMessage): Promise<ErrorMessage | null> {
+    const sessionId = 'sessionId' in message ? message.sessionId : undefined;
+    if (!connection.sessionId || !connection.role || (sessionId && sessionId !== connection.sessionId)) {
+      return createErrorMessage('unauthorized', 'Join the session before sending to it', message.type);
+    }
+
+    // Only role changes need to know who the host is
+    const hostId = message.type === 'set-role' ? await this.getSessionHostId(connection.sessionId) : null;
+    return authorizeMessage(connection.role, message, hostId);
+  }
+
+  /**
+   * Replace client-claimed user ids with the one established at join
+   */
+  private withIdentity<T extends ClientMessage>(connection: WebSocketConnection, message: T): T {
+    if (!connection.sessionId || message.type === 'join-session' || message.type === 'state-update' || message.type === 'state-patch' || message.type === 'batch') {
+      return message;
     }
+    return { ...message, userId: connection.userId };
   }
 
-  private handleJoinSession(connectionId: string, message: WebSocketMessage): void {
+  /**
+   * Returns whether the connection joined
+   */
+  private async handleJoinSession(connectionId: string, message: JoinSessionMessage): Promise<boolean> {
+    // Anonymous users pick their own id and join as viewers
+    const identity = await identifyParticipant({
+      accessToken: message.accessToken,
+      claimedUserId: message.userId,
+      hostId: await this.getSessionHostId(message.sessionId),
+    }, this.verifier);
+
     const connection = this.connections.get(connectionId);
-    if (!connection) return;
+    if (!connection) return false;
+
+    if (!identity.ok) {
+      log.warn('Rejected join', { connectionId, reason: identity.reason });
+      this.sendToConnection(connectionId, {
+        ...createErrorMessage('unauthorized', identity.reason, message.type),
+        ...(message.messageId ? { messageId: message.messageId } : {}),
+      });
+      return false;
+    }
+
+    const { sessionId } = message;
+    const { userId, isHost } = identity;
+    const role = (await this.permissions.get(sessionId)).roleOf(identity);
 
-    const { sessionId, userId, isHost } = message;
+    // A connection is in one session at a time
+    if (connection.sessionId && connection.sessionId !== sessionId) {
+      this.leaveSession(connection);
+    }
     
-    console.log(`👤 ${userId} joining session ${sessionId} as ${isHost ? 'host' : 'viewer'}`);
+    log.info('Joining session', { connectionId, sessionId, userId, role });
 
     // Update connection info
     connection.sessionId = sessionId;
     connection.userId = userId;
     connection.isHost = isHost;
+    connection.role = role;
+    connection.joinedAt = Date.now();
 
     // Add to session connections
     if (sessionId) {
       if (!this.sessionConnections.has(sessionId)) {
         this.sessionConnections.set(sessionId, new Set());
+        this.relay.join(sessionId);
       }
       this.sessionConnections.get(sessionId)!.add(connectionId);
+      this.cancelSessionExpiry(sessionId);
+
+      // A reconnecting client first gets the gap it missed; anyone else starts from the current state
+      if (message.lastSeq !== undefined) {
+        this.resumeSession(connectionId, sessionId, message.lastSeq);
+      } else if (this.sessionStates.get(sessionId)?.state) {
+        this.sendSnapshot(connectionId, sessionId);
+      }
 
       // Broadcast join event to other participants
       this.broadcastToSession(sessionId, {
@@ -185,51 +479,105 @@ export class LocalWebSocketServer {
       sessionId,
       userId,
       isHost,
+      seq: this.sessionLog.head(sessionId),
+      timestamp: Date.now()
+    });
+
+    this.broadcastPresence(sessionId);
+    return true;
+  }
+
+  private resumeSession(connectionId: string, sessionId: string, lastSeq: number): void {
+    const missed = this.sessionLog.since(sessionId, lastSeq);
+
+    if (missed) {
+      log.info('Replaying missed messages', { connectionId, count: missed.length, afterSeq: lastSeq });
+      missed.forEach((message) => this.sendToConnection(connectionId, message));
+      return;
+    }
+
+    log.info('Gap too old to replay, sending snapshot', { connectionId, afterSeq: lastSeq });
+    this.sendSnapshot(connectionId, sessionId);
+  }
+
+  private sendSnapshot(connectionId: string, sessionId: string): void {
+    const current = this.sessionStates.get(sessionId);
+
+    this.sendToConnection(connectionId, {
+      type: 'session-snapshot',
+      sessionId,
+      seq: this.sessionLog.head(sessionId),
+      state: current?.state ?? null,
+      version: current?.version ?? null,
       timestamp: Date.now()
     });
   }
 
-  private handleLeaveSession(connectionId: string, message: WebSocketMessage): void {
+  private getSessionState(sessionId: string): StateDeltaDecoder {
+    let state = this.sessionStates.get(sessionId);
+    if (!state) {
+      state = new StateDeltaDecoder();
+      this.sessionStates.set(sessionId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Leave the session this connection joined; the session and user in the message
+   * are the client's claim, so they're ignored
+   */
+  private handleLeaveSession(connectionId: string, message: LeaveSessionMessage): void {
     const connection = this.connections.get(connectionId);
     if (!connection) return;
 
-    const { sessionId, userId } = message;
-    
-    console.log(`👋 ${userId} leaving session ${sessionId}`);
+    if (!connection.sessionId || !connection.role) {
+      log.debug('Ignoring leave from a connection that has not joined', { connectionId, sessionId: message.sessionId });
+      return;
+    }
 
-    if (sessionId) {
-      // Remove from session connections
-      const sessionConns = this.sessionConnections.get(sessionId);
-      if (sessionConns) {
-        sessionConns.delete(connectionId);
-        if (sessionConns.size === 0) {
-          this.sessionConnections.delete(sessionId);
-        }
-      }
+    this.leaveSession(connection);
+  }
 
-      // Broadcast leave event
-      this.broadcastToSession(sessionId, {
-        type: 'user-left',
-        userId,
-        timestamp: Date.now()
-      }, connectionId);
+  private leaveSession(connection: WebSocketConnection): void {
+    const { id: connectionId, sessionId, userId } = connection;
+    if (!sessionId) return;
+
+    log.info('Leaving session', { sessionId, userId });
+
+    // Remove from session connections
+    const sessionConns = this.sessionConnections.get(sessionId);
+    if (sessionConns) {
+      sessionConns.delete(connectionId);
+      if (sessionConns.size === 0) {
+        this.sessionConnections.delete(sessionId);
+        this.scheduleSessionExpiry(sessionId);
+      }
     }
 
+    // Broadcast leave event
+    this.broadcastToSession(sessionId, {
+      type: 'user-left',
+      userId,
+      timestamp: Date.now()
+    }, connectionId);
+    this.broadcastPresence(sessionId);
+
     // Update connection
     connection.sessionId = undefined;
     connection.userId = undefined;
     connection.isHost = undefined;
+    connection.role = undefined;
+    connection.joinedAt = undefined;
   }
 
-  private handleDrawingEvent(connectionId: string, message: WebSocketMessage): void {
+  private handleDrawingEvent(connectionId: string, message: DrawingEventMessage): void {
     const { sessionId } = message;
     if (!sessionId) return;
 
-    console.log(`🎨 Drawing event in session ${sessionId}`);
     this.broadcastToSession(sessionId, message, connectionId);
   }
 
-  private handleCursorMove(connectionId: string, message: WebSocketMessage): void {
+  private handleCursorMove(connectionId: string, message: CursorMoveMessage): void {
     const { sessionId } = message;
     if (!sessionId) return;
 
@@ -240,15 +588,26 @@ export class LocalWebSocketServer {
     }, connectionId);
   }
 
-  private handleChatMessage(connectionId: string, message: WebSocketMessage): void {
+  private handleBatch(connectionId: string, message: BatchMessage): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    for (const inner of unpackBatch(message).map((item) => this.withIdentity(connection, item))) {
+      if (inner.type === 'drawing-event') {
+        this.handleDrawingEvent(connectionId, inner);
+      } else {
+        this.handleCursorMove(connectionId, inner);
+      }
+    }
+  }
+
+  private handleChatMessage(connectionId: string, message: ChatSendMessage): void {
     const { sessionId } = message;
     if (!sessionId) return;
 
-    console.log(`💬 Chat message in session ${sessionId}`);
-    
-    const chatMessage = {
+    const chatMessage: ServerMessage = {
       ...message,
-      id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      id: generateChatMessageId(),
       timestamp: Date.now()
     };
 
@@ -256,75 +615,251 @@ export class LocalWebSocketServer {
     this.broadcastToSession(sessionId, chatMessage);
   }
 
-  private handleStateUpdate(connectionId: string, message: WebSocketMessage): void {
+  private handleStateUpdate(connectionId: string, message: StateUpdateMessage): void {
     const { sessionId } = message;
     if (!sessionId) return;
 
-    console.log(`📊 State update in session ${sessionId}`);
-    this.broadcastToSession(sessionId, {
+    const stateMessage: ServerMessage = {
       type: 'session-state-updated',
       state: message.state,
+      version: message.version,
       timestamp: Date.now()
-    }, connectionId);
+    };
+
+    // Hosts may publish partial state, which is merged into the state kept for snapshots
+    this.getSessionState(sessionId).update(stateMessage);
+    this.broadcastToSession(sessionId, stateMessage, connectionId);
+  }
+
+  /**
+   * Returns whether the patch applied; one that doesn't build on the state
+   * held here is rejected so the host sends its state in full
+   */
+  private handleStatePatch(connectionId: string, message: StatePatchMessage): boolean {
+    const { sessionId } = message;
+    const patchMessage: ServerMessage = {
+      type: 'session-state-patched',
+      baseVersion: message.baseVersion,
+      version: message.version,
+      patch: message.patch,
+      timestamp: Date.now()
+    };
+
+    const state = this.getSessionState(sessionId);
+    const result = state.update(patchMessage);
+    if (result === 'out-of-sync') {
+      log.info('Rejected state patch', { connectionId, sessionId, baseVersion: message.baseVersion, version: state.version });
+      this.sendToConnection(connectionId, {
+        ...createErrorMessage('version-mismatch', `State is at version ${state.version ?? 'none'}, not ${message.baseVersion}`, message.type),
+        ...(message.messageId ? { messageId: message.messageId } : {}),
+      });
+      return false;
+    }
+
+    if (result === 'applied') {
+      this.broadcastToSession(sessionId, patchMessage, connectionId);
+    }
+    return true;
   }
 
-  private handleWebRTCSignal(connectionId: string, message: WebSocketMessage): void {
+  private handleWebRTCSignal(connectionId: string, message: WebRTCSignalSendMessage): void {
     const { sessionId, to } = message;
     if (!sessionId) return;
 
-    console.log(`📡 WebRTC signal in session ${sessionId}`);
-    
     const connection = this.connections.get(connectionId);
-    const signalMessage = {
+    const signalMessage: ServerMessage = {
       type: 'webrtc-signal',
       signal: message.signal,
       signalType: message.signalType,
       from: connection?.userId || connectionId,
+      to,
       timestamp: Date.now()
     };
 
     if (to) {
-      // Send to specific user
-      this.sendToUser(sessionId, to, signalMessage);
+      // Send to specific user, who may be on an HTTP transport
+      if (!this.sendToUser(sessionId, to, signalMessage)) {
+        this.relay.publish(sessionId, signalMessage);
+      }
     } else {
       // Broadcast to all other participants
       this.broadcastToSession(sessionId, signalMessage, connectionId);
     }
   }
 
+  private handleReaction(connectionId: string, message: ReactionSendMessage): void {
+    const reactionMessage = toBroadcastMessage(message);
+    if (!reactionMessage) return;
+
+    this.broadcastToSession(message.sessionId, reactionMessage, connectionId);
+  }
+
+  private async handleSetRole(connectionId: string, message: SetRoleMessage): Promise<void> {
+    const { sessionId, targetUserId, role } = message;
+
+    log.info('Role changed', { sessionId, by: message.userId, targetUserId, role });
+
+    await this.permissions.grant(sessionId, targetUserId, role);
+    this.applyRoleChange(sessionId, targetUserId, role);
+
+    const roleChanged = toBroadcastMessage(message);
+    if (roleChanged) {
+      // The sender sees the change confirmed too
+      this.broadcastToSession(sessionId, roleChanged);
+    }
+    this.broadcastPresence(sessionId);
+  }
+
+  private async handleRpcRequest(connectionId: string, message: RpcRequestMessage): Promise<void> {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    log.debug('RPC request', { connectionId, method: message.method });
+
+    const response = await this.rpc.handle(message, {
+      sessionId: message.sessionId,
+      connectionId,
+      userId: connection.userId,
+    });
+    this.sendToConnection(connectionId, response);
+  }
+
+  /**
+   * Give a user's connections their new role; the host keeps theirs
+   */
+  private applyRoleChange(sessionId: string, userId: string, role: ParticipantRole): void {
+    this.sessionConnections.get(sessionId)?.forEach((connId) => {
+      const connection = this.connections.get(connId);
+      if (connection?.userId === userId && !connection.isHost) {
+        connection.role = role;
+      }
+    });
+  }
+
   private handleDisconnection(connectionId: string): void {
     const connection = this.connections.get(connectionId);
     if (!connection) return;
 
-    console.log(`❌ Connection ${connectionId} disconnected`);
+    log.info('Connection closed', { connectionId });
+
+    // Remove connection
+    this.connections.delete(connectionId);
 
     // Remove from session if in one
-    if (connection.sessionId && connection.userId) {
+    if (connection.sessionId) {
       const sessionConns = this.sessionConnections.get(connection.sessionId);
       if (sessionConns) {
         sessionConns.delete(connectionId);
         if (sessionConns.size === 0) {
           this.sessionConnections.delete(connection.sessionId);
+          this.scheduleSessionExpiry(connection.sessionId);
         }
       }
 
       // Notify other participants
-      this.broadcastToSession(connection.sessionId, {
-        type: 'user-left',
-        userId: connection.userId,
-        timestamp: Date.now()
-      }, connectionId);
+      if (connection.userId) {
+        this.broadcastToSession(connection.sessionId, {
+          type: 'user-left',
+          userId: connection.userId,
+          timestamp: Date.now()
+        }, connectionId);
+      }
+      this.broadcastPresence(connection.sessionId);
     }
+  }
 
-    // Remove connection
-    this.connections.delete(connectionId);
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), this.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Evict connections that stopped answering pings and ping the rest.
+   * A half-open socket never reports `close`, so this is the only way it leaves its session.
+   */
+  private checkHeartbeats(): void {
+    const now = Date.now();
+
+    for (const connection of Array.from(this.connections.values())) {
+      if (now - connection.lastSeenAt > this.heartbeatTimeoutMs) {
+        log.warn('Evicting unresponsive connection', { connectionId: connection.id });
+        connection.socket.terminate();
+        this.handleDisconnection(connection.id);
+        continue;
+      }
+
+      try {
+        connection.socket.ping();
+      } catch (error) {
+        log.error('Error pinging connection', { connectionId: connection.id, error });
+      }
+    }
+
+    // Refresh last-activity times for every session
+    this.sessionConnections.forEach((_, sessionId) => this.broadcastPresence(sessionId));
+  }
+
+  private getParticipants(sessionId: string): PresenceParticipant[] {
+    const participants: Map<string, PresenceParticipant> = new Map();
+
+    this.sessionConnections.get(sessionId)?.forEach((connId) => {
+      const connection = this.connections.get(connId);
+      if (!connection) return;
+
+      // A user with several tabs open is one participant
+      const id = connection.userId ?? connection.id;
+      const existing = participants.get(id);
+      const joinedAt = connection.joinedAt ?? connection.connectedAt;
+
+      participants.set(id, {
+        id,
+        role: existing?.role === 'host' ? 'host' : connection.role ?? 'viewer',
+        joinedAt: existing ? Math.min(existing.joinedAt, joinedAt) : joinedAt,
+        lastActiveAt: existing ? Math.max(existing.lastActiveAt, connection.lastActiveAt) : connection.lastActiveAt,
+        anonymous: !connection.userId,
+      });
+    });
+
+    return Array.from(participants.values());
+  }
+
+  private broadcastPresence(sessionId: string): void {
+    if (!this.sessionConnections.has(sessionId)) return;
+
+    this.broadcastToSession(sessionId, {
+      type: 'presence',
+      sessionId,
+      participants: this.getParticipants(sessionId),
+      timestamp: Date.now()
+    });
+  }
+
+  private broadcastToSession(sessionId: string, message: ServerMessage, excludeConnectionId?: string): void {
+    message = this.deliverToSession(sessionId, message, excludeConnectionId);
+
+    if (message.type !== 'error') {
+      this.relay.publish(sessionId, message);
+    }
   }
 
-  private broadcastToSession(sessionId: string, message: any, excludeConnectionId?: string): void {
+  /**
+   * Send a message to this server's connections in a session, returning it as logged
+   */
+  private deliverToSession(sessionId: string, message: ServerMessage, excludeConnectionId?: string): ServerMessage {
+    // Log before delivery so clients that are reconnecting can replay it
+    message = this.sessionLog.append(sessionId, message);
+
     const sessionConns = this.sessionConnections.get(sessionId);
     if (!sessionConns || sessionConns.size === 0) {
-      console.log(`📊 No connections in session ${sessionId}`);
-      return;
+      log.debug('No connections in session', { sessionId });
+      return message;
     }
 
     let sentCount = 0;
@@ -336,73 +871,217 @@ export class LocalWebSocketServer {
       }
     }
 
-    console.log(`📊 Broadcast ${message.type} to ${sentCount}/${sessionConns.size} connections in session ${sessionId}`);
+    log.debug('Broadcast', { sessionId, type: message.type, delivered: sentCount, connections: sessionConns.size });
+    return message;
   }
 
-  private sendToUser(sessionId: string, userId: string, message: any): void {
+  private sendToUser(sessionId: string, userId: string, message: ServerMessage): boolean {
     const sessionConns = this.sessionConnections.get(sessionId);
-    if (!sessionConns) return;
+    if (!sessionConns) return false;
 
     for (const connId of sessionConns) {
       const connection = this.connections.get(connId);
       if (connection?.userId === userId) {
         this.sendToConnection(connId, message);
-        console.log(`📤 Sent ${message.type} to user ${userId}`);
-        return;
+        log.debug('Sent to user', { sessionId, userId, type: message.type });
+        return true;
       }
     }
 
-    console.log(`❓ User ${userId} not found in session ${sessionId}`);
+    log.debug('User not connected here', { sessionId, userId });
+    return false;
+  }
+
+  /**
+   * Deliver a message published by another transport (e.g. a polling client's POST)
+   */
+  private relayFromFanout(sessionId: string, message: ServerMessage): void {
+    if (message.type === 'webrtc-signal' && message.to) {
+      this.sendToUser(sessionId, message.to, message);
+      return;
+    }
+
+    // The host's state route echoes what it also sent here, so skip patches already applied
+    if (message.type === 'session-state-updated' || message.type === 'session-state-patched') {
+      if (this.getSessionState(sessionId).update(message) === 'duplicate') return;
+    }
+
+    this.deliverToSession(sessionId, message);
+
+    if (message.type === 'role-changed') {
+      this.applyRoleChange(sessionId, message.userId, message.role);
+      this.broadcastPresence(sessionId);
+    }
   }
 
-  private sendToConnection(connectionId: string, message: any): boolean {
+  private sendToConnection(connectionId: string, message: ServerMessage): boolean {
     const connection = this.connections.get(connectionId);
     if (!connection || connection.socket.readyState !== WebSocket.OPEN) {
       return false;
     }
 
     try {
-      connection.socket.send(JSON.stringify(message));
+      connection.socket.send(
+        connection.codec && isBinaryMessage(message) ? connection.codec.encode(message) : JSON.stringify(message)
+      );
+      connection.messagesSent++;
+      connection.sentRate.record();
+      this.messagesSent++;
+      this.sentRate.record();
+      metrics.messagesSent.inc({ transport: 'websocket', type: message.type });
+      if (message.type === 'error') {
+        metrics.messagesRejected.inc({ transport: 'websocket', code: message.code });
+      }
       return true;
     } catch (error) {
-      console.error(`❌ Error sending to ${connectionId}:`, error);
+      log.error('Error sending', { connectionId, error });
       return false;
     }
   }
 
+  // Null when the frame can't be decoded at all
+  private decodeBinary(connection: WebSocketConnection, data: RawData): ParseResult<ClientMessage> | null {
+    if (!connection.codec) {
+      return { ok: false, error: createErrorMessage('invalid-message', 'Binary frames need the binary subprotocol') };
+    }
+
+    try {
+      const bytes = Array.isArray(data) ? Buffer.concat(data) : data;
+      return parseClientMessage(connection.codec.decode(bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes));
+    } catch (error) {
+      if (!(error instanceof WireFormatError)) throw error;
+      log.warn('Malformed binary frame', { connectionId: connection.id, reason: error.message });
+      return null;
+    }
+  }
+
+  private recordReceived(connection: WebSocketConnection): void {
+    connection.messagesReceived++;
+    connection.receivedRate.record();
+    this.messagesReceived++;
+    this.receivedRate.record();
+  }
+
+  /**
+   * Report open connections and sessions whenever metrics are scraped
+   */
+  private registerGauges(): void {
+    this.unregisterGauges.push(
+      metrics.connections.collect(() => [{ labels: { transport: 'websocket' }, value: this.connections.size }]),
+      metrics.sessions.collect(() => [{ labels: { transport: 'websocket' }, value: this.sessionConnections.size }])
+    );
+  }
+
+  /**
+   * Keep logging what other transports publish while nobody is connected here,
+   * so a client that reconnects in time can still replay it
+   */
+  private scheduleSessionExpiry(sessionId: string): void {
+    this.cancelSessionExpiry(sessionId);
+    this.sessionExpiryTimers.set(sessionId, setTimeout(() => {
+      this.sessionExpiryTimers.delete(sessionId);
+      this.relay.leave(sessionId);
+      this.sessionLog.delete(sessionId);
+      this.sessionStates.delete(sessionId);
+      this.permissions.release(sessionId);
+    }, SESSION_LOG_RETENTION_MS));
+  }
+
+  private cancelSessionExpiry(sessionId: string): void {
+    const timer = this.sessionExpiryTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.sessionExpiryTimers.delete(sessionId);
+    }
+  }
+
+  /**
+   * The port listened on, e.g. the free one picked when constructed with port 0
+   */
+  getPort(): number {
+    const address = this.wss?.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
   private generateConnectionId(): string {
     return `conn_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
   stop(): void {
     if (this.wss) {
-      console.log('🔴 Stopping WebSocket server...');
+      log.info('Stopping WebSocket server');
+      this.stopHeartbeat();
+      this.unregisterGauges.forEach((unregister) => unregister());
+      this.unregisterGauges = [];
+      this.relay.close();
+      this.permissions.close();
       this.wss.close();
+      this.wss = null;
       this.connections.clear();
       this.sessionConnections.clear();
+      this.sessionExpiryTimers.forEach((timer) => clearTimeout(timer));
+      this.sessionExpiryTimers.clear();
+      this.sessionLog.clear();
+      this.sessionStates.clear();
     }
   }
 
+  /**
+   * Answer `rpc-request`s for a method, replacing any existing handler
+   */
+  registerMethod<M extends RpcMethod>(method: M, handler: RpcHandler<M>): void {
+    this.rpc.register(method, handler);
+  }
+
   getStats() {
     return {
+      running: this.wss !== null,
       totalConnections: this.connections.size,
       activeSessions: this.sessionConnections.size,
-      connectionsPerSession: Array.from(this.sessionConnections.entries()).map(([sessionId, conns]) => ({
-        sessionId,
-        connections: conns.size
+      messagesReceived: this.messagesReceived,
+      messagesSent: this.messagesSent,
+      receivedPerSecond: this.receivedRate.perSecond(),
+      sentPerSecond: this.sentRate.perSecond(),
+      connectionsPerSession: Array.from(this.sessionConnections.entries()).map(([sessionId, conns]) => {
+        const sessionConnections = Array.from(conns).flatMap((connId) => this.connections.get(connId) ?? []);
+        return {
+          sessionId,
+          connections: conns.size,
+          participants: this.getParticipants(sessionId).length,
+          seq: this.sessionLog.head(sessionId),
+          receivedPerSecond: sessionConnections.reduce((sum, connection) => sum + connection.receivedRate.perSecond(), 0),
+          sentPerSecond: sessionConnections.reduce((sum, connection) => sum + connection.sentRate.perSecond(), 0)
+        };
+      }),
+      connections: Array.from(this.connections.values()).map((connection) => ({
+        id: connection.id,
+        sessionId: connection.sessionId ?? null,
+        userId: connection.userId ?? null,
+        role: connection.role ?? null,
+        format: connection.codec ? 'binary' : 'json',
+        protocolVersion: connection.protocolVersion,
+        connectedAt: connection.connectedAt,
+        lastSeenAt: connection.lastSeenAt,
+        lastActiveAt: connection.lastActiveAt,
+        messagesReceived: connection.messagesReceived,
+        messagesSent: connection.messagesSent,
+        receivedPerSecond: connection.receivedRate.perSecond(),
+        sentPerSecond: connection.sentRate.perSecond()
       }))
     };
   }
 }
 
-// Singleton instance
-let serverInstance: LocalWebSocketServer | null = null;
+// The start and admin routes can be bundled separately, so share one server through globalThis
+const globalForServer = globalThis as typeof globalThis & {
+  localWebSocketServer?: LocalWebSocketServer;
+};
 
 export function getWebSocketServer(): LocalWebSocketServer {
-  if (!serverInstance) {
-    serverInstance = new LocalWebSocketServer();
+  if (!globalForServer.localWebSocketServer) {
+    globalForServer.localWebSocketServer = new LocalWebSocketServer();
   }
-  return serverInstance;
+  return globalForServer.localWebSocketServer;
 }
 
 export function startWebSocketServer(): Promise<void> {
@@ -411,8 +1090,8 @@ export function startWebSocketServer(): Promise<void> {
 }
 
 export function stopWebSocketServer(): void {
-  if (serverInstance) {
-    serverInstance.stop();
-    serverInstance = null;
+  if (globalForServer.localWebSocketServer) {
+    globalForServer.localWebSocketServer.stop();
+    globalForServer.localWebSocketServer = undefined;
   }
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { ClientMessage, ParseResult, ServerMessage, createErrorMessage, decodeServerMessage, parseServerMessage } from '@/lib/realtime/protocol';
+import { Transport, TransportEmitter } from '@/lib/realtime/transport';
+import {
+  BINARY_SUBPROTOCOL,
+  BinaryCodec,
+  JSON_SUBPROTOCOL,
+  WireFormat,
+  WireFormatError,
+  formatForSubprotocol,
+  isBinaryMessage,
+} from '@/lib/realtime/wire-format';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger('websocket-transport');
+
+export interface WebSocketTransportOptions {
+  // Runs once before the first connection attempt, e.g. to start a local server
+  prepare?: () => Promise<void>;
+  // Offer the binary wire format. Only for servers that negotiate subprotocols:
+  // browsers refuse connections to servers that ignore the offer.
+  binary?: boolean;
+}
+
+/**
+ * Transport over a raw WebSocket speaking the realtime protocol, e.g. the local server
+ */
+export class WebSocketTransport extends TransportEmitter implements Transport {
+  readonly mode = 'websocket' as const;
+  readonly duplex = true;
+  readonly probeable = true;
+  private ws: WebSocket | null = null;
+  private prepared: Promise<void> | null = null;
+  // Set while the connection speaks the binary format
+  private codec: BinaryCodec | null = null;
+
+  constructor(readonly name: string, protected url: string, private options: WebSocketTransportOptions = {}) {
+    super();
+  }
+
+  isAvailable(): boolean {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  async connect(timeoutMs: number): Promise<void> {
+    if (this.options.prepare) {
+      this.prepared ??= this.options.prepare();
+      await this.prepared;
+    }
+
+    if (this.isConnected()) return;
+    this.close();
+
+    log.info('Connecting', { transport: this.name, url: this.url });
+
+    return new Promise((resolve, reject) => {
+      let ws: WebSocket;
+      try {
+        ws = this.options.binary ? new WebSocket(this.url, [BINARY_SUBPROTOCOL, JSON_SUBPROTOCOL]) : new WebSocket(this.url);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      ws.binaryType = 'arraybuffer';
+      this.ws = ws;
+      this.codec = null;
+      let opened = false;
+
+      const timer = setTimeout(() => {
+        reject(new Error(`${this.name} did not open within ${timeoutMs}ms`));
+        if (this.ws === ws) this.ws = null;
+        ws.close();
+      }, timeoutMs);
+
+      ws.onopen = () => {
+        clearTimeout(timer);
+        if (this.ws !== ws) return;
+
+        const format = formatForSubprotocol(ws.protocol);
+        this.codec = format === 'binary' ? new BinaryCodec() : null;
+
+        log.info('Connected', { transport: this.name, url: this.url, format });
+        opened = true;
+        resolve();
+      };
+
+      ws.onmessage = (event) => {
+        if (this.ws !== ws) return;
+
+        const result = this.decode(event.data);
+        if (!result) {
+          // The string tables are out of step; only a new connection resets them
+          ws.close(1007, 'Malformed binary frame');
+          return;
+        }
+        if (!result.ok) {
+          log.error('Rejected message', { transport: this.name, reason: result.error.message });
+          return;
+        }
+
+        log.debug('Message received', { transport: this.name, type: result.message.type });
+        this.emit('message', result.message);
+      };
+
+      // Browsers give no detail on errors; the close that follows carries the code
+      ws.onerror = () => {
+        log.error('Socket error', { transport: this.name, readyState: ws.readyState });
+      };
+
+      ws.onclose = (event) => {
+        clearTimeout(timer);
+
+        if (!opened) {
+          reject(new Error(`${this.name} closed before opening (${event.code})`));
+          return;
+        }
+
+        // Ignore sockets we have already replaced or closed
+        if (this.ws !== ws) return;
+        this.ws = null;
+
+        log.info('Disconnected', { transport: this.name, code: event.code, reason: event.reason });
+        this.emit('close', { transport: this.name, reason: `${event.code} ${event.reason}`.trim(), permanent: false });
+      };
+    });
+  }
+
+  send(message: ClientMessage): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+
+    this.ws.send(this.codec && isBinaryMessage(message) ? this.codec.encode(message) : JSON.stringify(message));
+    return true;
+  }
+
+  /**
+   * The format the current connection negotiated
+   */
+  getWireFormat(): WireFormat {
+    return this.codec ? 'binary' : 'json';
+  }
+
+  // Null when a binary frame can't be decoded at all
+  private decode(data: string | ArrayBuffer): ParseResult<ServerMessage> | null {
+    if (typeof data === 'string') {
+      return decodeServerMessage(data);
+    }
+
+    if (!this.codec) {
+      return { ok: false, error: createErrorMessage('invalid-message', 'Binary frame on a JSON connection') };
+    }
+
+    try {
+      return parseServerMessage(this.codec.decode(data));
+    } catch (error) {
+      if (!(error instanceof WireFormatError)) throw error;
+      log.error('Malformed binary frame', { transport: this.name, reason: error.message });
+      return null;
+    }
+  }
+
+  // The server notices the socket going away; there is no session to hand over on our side
+  detach(): void {
+    this.close();
+  }
+
+  close(): void {
+    this.codec = null;
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+}
@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // The media relay's WebRTC stack (UDP sockets, DTLS) is loaded by Node as installed, not bundled
+  serverExternalPackages: ['werift'],
 };
 
 export default nextConfig;
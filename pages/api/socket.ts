@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { Server as IOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import type { Socket } from 'net';
+import { ClientMessage, ClientMessageType, negotiateProtocol, parseClientMessage } from '@/lib/realtime/protocol';
 
 // Extend the response object to include socket server
 interface NextApiResponseWithSocket extends NextApiResponse {
@@ -32,8 +33,30 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
     io.on('connection', (socket) => {
       console.log('Client connected:', socket.id);
 
+      // Validate an event payload against the shared protocol, replying with an error frame on failure
+      const accept = <T extends ClientMessageType>(type: T, payload: unknown) => {
+        const result = parseClientMessage({ ...(payload as object), type });
+        if (!result.ok) {
+          console.warn(`Rejected ${type} from ${socket.id}:`, result.error.message);
+          socket.emit('error', result.error);
+          return null;
+        }
+        return result.message as Extract<ClientMessage, { type: T }>;
+      };
+
+      // Agree a protocol version; these events have no acks or batches of their own
+      socket.on('hello', (data: { protocolVersion: number; capabilities: string[] }) => {
+        const hello = accept('hello', data);
+        if (!hello) return;
+
+        const reply = negotiateProtocol(hello, []);
+        socket.emit(reply.type, reply);
+      });
+
       // Join session room
       socket.on('join-session', (sessionId: string) => {
+        if (!accept('join-session', { sessionId })) return;
+
         socket.join(sessionId);
         console.log(`Socket ${socket.id} joined session ${sessionId}`);
         
@@ -46,6 +69,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
 
       // Leave session room  
       socket.on('leave-session', (sessionId: string) => {
+        if (!accept('leave-session', { sessionId })) return;
+
         socket.leave(sessionId);
         console.log(`Socket ${socket.id} left session ${sessionId}`);
         
@@ -58,6 +83,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
 
       // Handle session state updates
       socket.on('session-state-update', (data: { sessionId: string; state: any }) => {
+        if (!accept('state-update', data)) return;
+
         console.log('State update for session:', data.sessionId);
         socket.to(data.sessionId).emit('session-state-updated', data.state);
       });
@@ -69,6 +96,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
         to?: string;
         type: 'offer' | 'answer' | 'ice-candidate';
       }) => {
+        if (!accept('webrtc-signal', { ...data, signalType: data?.type })) return;
+
         console.log('WebRTC signal:', data.type, 'for session:', data.sessionId);
         
         if (data.to) {
@@ -95,6 +124,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
         y: number; 
         userId?: string;
       }) => {
+        if (!accept('cursor-move', data)) return;
+
         socket.to(data.sessionId).emit('cursor-moved', {
           ...data,
           socketId: socket.id,
@@ -108,6 +139,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
         event: any;
         userId?: string;
       }) => {
+        if (!accept('drawing-event', data)) return;
+
         console.log(`Drawing event from ${socket.id} in session ${data.sessionId}:`, data.event.type, 'userId:', data.userId);
         
         const eventData = {
@@ -127,6 +160,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
         userId?: string;
         userName?: string;
       }) => {
+        if (!accept('chat-message', data)) return;
+
         const messageData = {
           ...data,
           socketId: socket.id,
@@ -146,6 +181,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithSoc
         y?: number;
         userId?: string;
       }) => {
+        if (!accept('reaction', data)) return;
+
         socket.to(data.sessionId).emit('reaction', {
           ...data,
           socketId: socket.id,
@@ -0,0 +1,91 @@
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { WebSocketParticipant } from '@/lib/websocket/test-participant';
+import handler from '@/pages/api/websocket';
+
+vi.mock('@/lib/aws/dynamodb', () => ({
+  getSessionById: async () => null,
+  getSessionRoles: async () => ({}),
+  setSessionRole: async () => {},
+}));
+
+const SESSION_ID = 'next-ws-session';
+
+function cursor(x: number) {
+  return { type: 'cursor-move' as const, sessionId: SESSION_ID, x, y: x, timestamp: Date.now() };
+}
+
+describe('Next.js WebSocket route', () => {
+  const server = createServer();
+  const participants: WebSocketParticipant[] = [];
+
+  const connect = () => {
+    const participant = new WebSocketParticipant(`ws://127.0.0.1:${(server.address() as AddressInfo).port}/api/websocket`);
+    participants.push(participant);
+    return participant;
+  };
+
+  // Anything a participant's earlier messages caused arrives before this
+  const settled = async (observer: WebSocketParticipant, userId: string) => {
+    const pinged = connect();
+    await pinged.join(SESSION_ID, { userId });
+    await observer.next((message) => message.type === 'user-joined' && message.userId === userId);
+  };
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    // The route attaches its WebSocket server to the HTTP server it is first called on
+    handler({} as never, { socket: { server }, end: () => {} } as never);
+  });
+
+  afterEach(async () => {
+    await Promise.all(participants.splice(0).map((participant) => participant.close()));
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('stops relaying from a connection once it has left', async () => {
+    const viewer = connect();
+    await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+    const leaver = connect();
+    await leaver.join(SESSION_ID, { userId: 'viewer-2' });
+
+    leaver.send({ type: 'leave-session', sessionId: SESSION_ID, userId: 'viewer-2', timestamp: Date.now() });
+    leaver.send(cursor(1));
+
+    const denied = await leaver.next((message) => message.type === 'error');
+    expect(denied).toMatchObject({ code: 'unauthorized', ref: 'cursor-move' });
+    await settled(viewer, 'viewer-3');
+    expect(viewer.received.filter((message) => message.type === 'cursor-moved')).toEqual([]);
+  });
+
+  it('announces a leave once, not again when the connection closes', async () => {
+    const viewer = connect();
+    await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+    const leaver = connect();
+    await leaver.join(SESSION_ID, { userId: 'viewer-2' });
+
+    leaver.send({ type: 'leave-session', sessionId: SESSION_ID, userId: 'viewer-2', timestamp: Date.now() });
+    await viewer.next((message) => message.type === 'user-left');
+    await leaver.close();
+
+    await settled(viewer, 'viewer-3');
+    expect(viewer.received.filter((message) => message.type === 'user-left')).toHaveLength(1);
+  });
+
+  it('leaves the previous session when joining another', async () => {
+    const viewer = connect();
+    await viewer.join(SESSION_ID, { userId: 'viewer-1' });
+    const mover = connect();
+    await mover.join(SESSION_ID, { userId: 'viewer-2' });
+
+    await mover.join(`${SESSION_ID}-other`, { userId: 'viewer-2' });
+    viewer.send(cursor(1));
+
+    const left = await viewer.next((message) => message.type === 'user-left');
+    expect(left).toMatchObject({ userId: 'viewer-2' });
+    await settled(viewer, 'viewer-3');
+    expect(mover.received.filter((message) => message.type === 'cursor-moved')).toEqual([]);
+  });
+});
@@ -1,6 +1,31 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { Server as HTTPServer } from 'http';
 import { parse } from 'url';
+import { getSessionById } from '@/lib/aws/dynamodb';
+import { authorizeMessage, getSessionPermissions, identifyParticipant } from '@/lib/realtime/permissions';
+import {
+  ClientMessage,
+  ErrorMessage,
+  LEGACY_CAPABILITIES,
+  LEGACY_PROTOCOL_VERSION,
+  ParticipantRole,
+  PresenceParticipant,
+  ProtocolCapability,
+  ServerMessage,
+  checkProtocolVersion,
+  createAckMessage,
+  createErrorMessage,
+  createPongMessage,
+  decodeClientMessage,
+  negotiateProtocol,
+  toBroadcastMessage,
+  unpackBatch,
+} from '@/lib/realtime/protocol';
+import { getRealtimeMetrics } from '@/lib/realtime/metrics';
+import { RpcRegistry } from '@/lib/realtime/rpc';
+import { foldStateHistory } from '@/lib/realtime/state-delta';
+import { getSessionFanout } from '@/lib/realtime/session-fanout';
+import { createLogger } from '@/lib/utils/logger';
 
 const ws = require('ws');
 
@@ -13,40 +38,200 @@ interface NextApiResponseWithWebSocket extends NextApiResponse {
   };
 }
 
+interface ClientInfo {
+  userId?: string;
+  isHost: boolean;
+  role?: ParticipantRole;
+  joinedAt?: number;
+}
+
 interface SessionRoom {
   sessionId: string;
-  clients: Map<any, { userId?: string; isHost?: boolean }>;
+  clients: Map<any, ClientInfo>;
 }
 
 const sessions = new Map<string, SessionRoom>();
 
+// A connection before it joins a session, and again once it leaves
+function notJoined(): ClientInfo {
+  return { isHost: false };
+}
+
+const log = createLogger('next-ws');
+const metrics = getRealtimeMetrics();
+
 export default function handler(req: NextApiRequest, res: NextApiResponseWithWebSocket) {
   if (!res.socket.server.wss) {
-    console.log('Initializing WebSocket server...');
-    
+    log.info('Initializing WebSocket server');
+
     const wss = new ws.Server({
       server: res.socket.server,
       path: '/api/websocket',
     });
 
+    metrics.connections.collect(() => [{ labels: { transport: 'next-ws' }, value: wss.clients.size }]);
+    metrics.sessions.collect(() => [{ labels: { transport: 'next-ws' }, value: sessions.size }]);
+
+    const permissions = getSessionPermissions();
+    const fanout = getSessionFanout();
+
+    // Methods clients can call with `rpc-request`
+    const rpc = new RpcRegistry()
+      .register('session.participants', (_, { sessionId }) => ({
+        participants: getParticipants(sessionId),
+      }))
+      .register('session.snapshot', async (_, { sessionId }) => {
+        // This server keeps no state of its own; the history's updates and patches fold into it
+        const latest = foldStateHistory(await fanout.since(sessionId, 0));
+        return { state: latest?.state ?? null, version: latest?.version ?? null };
+      });
+
+    // Bridge this server's rooms with the other transports
+    const relay = fanout.createRelay('next-ws', (sessionId, message) => {
+      if (message.type === 'webrtc-signal' && message.to) {
+        sendToUser(sessionId, message.to, message);
+      } else {
+        deliverToSession(sessionId, message);
+      }
+
+      if (message.type === 'role-changed') {
+        applyRoleChange(sessionId, message.userId, message.role);
+      }
+    });
+
     wss.on('connection', (ws: any, request: any) => {
-      console.log('🔗 WebSocket client connected from:', request.headers['user-agent']?.substring(0, 50));
-      
+      const connectionId = `conn_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+      log.info('Connection opened', { connectionId, userAgent: request.headers['user-agent']?.substring(0, 50) });
+
       let currentSessionId: string | null = null;
-      let clientInfo = { userId: undefined as string | undefined, isHost: false };
+      let clientInfo = notJoined();
+      // Agreed in the client's `hello`; legacy until then
+      let protocolVersion = LEGACY_PROTOCOL_VERSION;
+      let capabilities: ReadonlySet<ProtocolCapability> = new Set(LEGACY_CAPABILITIES);
+      // Messages are handled one at a time, in order, since some need lookups first
+      let queue = Promise.resolve();
 
       ws.on('message', (message: Buffer) => {
+        queue = queue.then(() => handleClientMessage(message));
+      });
+
+      // Take the connection out of the session it joined and tell the others it left
+      function leaveCurrentSession() {
+        if (!currentSessionId) return;
+
+        const sessionId = currentSessionId;
+        const session = sessions.get(sessionId);
+        if (session) {
+          session.clients.delete(ws);
+          if (session.clients.size === 0) {
+            sessions.delete(sessionId);
+            relay.leave(sessionId);
+          }
+        }
+
+        broadcastToSession(sessionId, {
+          type: 'user-left',
+          userId: clientInfo.userId,
+          timestamp: Date.now()
+        }, ws);
+
+        currentSessionId = null;
+        clientInfo = notJoined();
+      }
+
+      // Check a message against the sender's role in the session it targets
+      async function authorize(data: ClientMessage): Promise<ErrorMessage | null> {
+        const targetSessionId = 'sessionId' in data ? data.sessionId : undefined;
+        if (!currentSessionId || !clientInfo.role || (targetSessionId && targetSessionId !== currentSessionId)) {
+          return createErrorMessage('unauthorized', 'Join the session before sending to it', data.type);
+        }
+
+        // Only role changes need to know who the host is
+        const hostId = data.type === 'set-role' ? (await getSessionById(currentSessionId))?.hostId : null;
+        return authorizeMessage(clientInfo.role, data, hostId);
+      }
+
+      async function handleClientMessage(message: Buffer) {
         try {
-          const data = JSON.parse(message.toString());
-          console.log('Received WebSocket message:', data.type);
+          const result = decodeClientMessage(message.toString());
+          metrics.messagesReceived.inc({ transport: 'next-ws', type: result.ok ? result.message.type : 'invalid' });
+          if (!result.ok) {
+            log.warn('Rejected message', { connectionId, reason: result.error.message });
+            sendMessage(ws, result.error);
+            return;
+          }
+
+          const data = result.message;
+          log.debug('Message received', { connectionId, type: data.type });
+
+          if (data.type === 'ping') {
+            sendMessage(ws, createPongMessage(data.pingId));
+            return;
+          }
+
+          // No binary frames here, so only batching and acks are on offer
+          if (data.type === 'hello') {
+            const reply = negotiateProtocol(data, ['batching', 'acks']);
+            if (reply.type === 'welcome') {
+              protocolVersion = reply.protocolVersion;
+              capabilities = new Set(reply.capabilities);
+            } else {
+              log.warn('Client protocol is outdated', { connectionId, protocolVersion: data.protocolVersion });
+            }
+            sendMessage(ws, reply);
+            return;
+          }
+
+          const outdated = checkProtocolVersion(protocolVersion, data.type);
+          if (outdated) {
+            sendMessage(ws, {
+              ...outdated,
+              ...(data.messageId ? { messageId: data.messageId } : {}),
+            });
+            return;
+          }
+
+          if (data.type !== 'join-session' && data.type !== 'leave-session') {
+            const denied = await authorize(data);
+            if (denied) {
+              log.warn('Denied message', { connectionId, type: data.type, reason: denied.message });
+              sendMessage(ws, {
+                ...denied,
+                ...(data.messageId ? { messageId: data.messageId } : {}),
+              });
+              return;
+            }
+          }
 
           switch (data.type) {
             case 'join-session':
+              // Only the host's access token makes them host; anyone without one joins as a viewer
+              const identity = await identifyParticipant({
+                accessToken: data.accessToken,
+                claimedUserId: data.userId,
+                hostId: (await getSessionById(data.sessionId))?.hostId ?? null,
+              });
+              if (!identity.ok) {
+                log.warn('Rejected join', { connectionId, reason: identity.reason });
+                sendMessage(ws, {
+                  ...createErrorMessage('unauthorized', identity.reason, data.type),
+                  ...(data.messageId ? { messageId: data.messageId } : {}),
+                });
+                return;
+              }
+
+              // A connection is in one session at a time
+              if (currentSessionId !== data.sessionId) {
+                leaveCurrentSession();
+              }
+
               currentSessionId = data.sessionId;
-              clientInfo.userId = data.userId;
-              clientInfo.isHost = data.isHost || false;
+              clientInfo.userId = identity.userId;
+              clientInfo.isHost = identity.isHost;
+              clientInfo.joinedAt = Date.now();
               
               const sessionId = data.sessionId as string;
+              clientInfo.role = (await permissions.get(sessionId)).roleOf(identity);
               
               // Create session if it doesn't exist
               if (!sessions.has(sessionId)) {
@@ -54,13 +239,13 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
                   sessionId: sessionId,
                   clients: new Map()
                 });
+                relay.join(sessionId);
               }
               
               const session = sessions.get(sessionId)!;
               session.clients.set(ws, clientInfo);
               
-              console.log(`👤 Client ${clientInfo.userId} joined session ${sessionId} as ${clientInfo.isHost ? 'host' : 'viewer'}`);
-              console.log(`📊 Session ${sessionId} now has ${session.clients.size} clients`);
+              log.info('Joined session', { connectionId, sessionId, userId: clientInfo.userId, role: clientInfo.role, clients: session.clients.size });
               
               // Notify others in the session
               broadcastToSession(sessionId, {
@@ -69,40 +254,30 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
                 isHost: clientInfo.isHost,
                 timestamp: Date.now()
               }, ws);
+
+              // Confirm join
+              sendMessage(ws, {
+                type: 'session-joined',
+                sessionId,
+                userId: clientInfo.userId,
+                isHost: clientInfo.isHost,
+                timestamp: Date.now()
+              });
               break;
 
             case 'leave-session':
-              if (currentSessionId) {
-                const session = sessions.get(currentSessionId);
-                if (session) {
-                  session.clients.delete(ws);
-                  if (session.clients.size === 0) {
-                    sessions.delete(currentSessionId);
-                  }
-                }
-                
-                broadcastToSession(currentSessionId, {
-                  type: 'user-left',
-                  userId: clientInfo.userId,
-                  timestamp: Date.now()
-                }, ws);
-              }
+              leaveCurrentSession();
               break;
 
+            // Messages go out as the user who joined, whatever id they claim
             case 'drawing-event':
               if (currentSessionId) {
-                const session = sessions.get(currentSessionId);
-                console.log(`🎨 Broadcasting drawing event from ${clientInfo.userId} (${clientInfo.isHost ? 'host' : 'viewer'}) in session ${currentSessionId}`);
-                console.log(`📡 Event type: ${data.event?.type}, Session has ${session?.clients.size} clients`);
-                
                 broadcastToSession(currentSessionId, {
                   type: 'drawing-event',
                   event: data.event,
-                  userId: data.userId,
+                  userId: clientInfo.userId,
                   timestamp: Date.now()
                 }, ws);
-                
-                console.log(`✅ Drawing event broadcasted to other clients`);
               }
               break;
 
@@ -112,7 +287,7 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
                   type: 'cursor-moved',
                   x: data.x,
                   y: data.y,
-                  userId: data.userId,
+                  userId: clientInfo.userId,
                   timestamp: Date.now()
                 }, ws);
               }
@@ -123,8 +298,9 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
                 broadcastToSession(currentSessionId, {
                   type: 'chat-message',
                   message: data.message,
-                  userId: data.userId,
+                  userId: clientInfo.userId,
                   userName: data.userName,
+                  messageId: data.messageId,
                   timestamp: Date.now(),
                   id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
                 }, null); // Include sender in chat messages
@@ -136,6 +312,20 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
                 broadcastToSession(currentSessionId, {
                   type: 'session-state-updated',
                   state: data.state,
+                  ...(data.version !== undefined ? { version: data.version } : {}),
+                  timestamp: Date.now()
+                }, ws);
+              }
+              break;
+
+            case 'state-patch':
+              // Without state to check patches against, receivers spot gaps by version
+              if (currentSessionId) {
+                broadcastToSession(currentSessionId, {
+                  type: 'session-state-patched',
+                  baseVersion: data.baseVersion,
+                  version: data.version,
+                  patch: data.patch,
                   timestamp: Date.now()
                 }, ws);
               }
@@ -143,23 +333,19 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
 
             case 'webrtc-signal':
               if (currentSessionId) {
-                const targetData = {
+                const targetData: ServerMessage = {
                   type: 'webrtc-signal',
                   signal: data.signal,
                   signalType: data.signalType,
                   from: clientInfo.userId,
+                  to: data.to,
                   timestamp: Date.now()
                 };
 
                 if (data.to) {
-                  // Send to specific user
-                  const session = sessions.get(currentSessionId);
-                  if (session) {
-                    session.clients.forEach((info, client) => {
-                      if (info.userId === data.to && client.readyState === 1) { // 1 = OPEN
-                        client.send(JSON.stringify(targetData));
-                      }
-                    });
+                  // Send to specific user, who may be on another transport
+                  if (!sendToUser(currentSessionId, data.to, targetData)) {
+                    relay.publish(currentSessionId, targetData);
                   }
                 } else {
                   // Broadcast to all other clients
@@ -168,48 +354,131 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
               }
               break;
 
-            default:
-              console.log('Unknown message type:', data.type);
+            case 'reaction':
+              if (currentSessionId) {
+                const reaction = toBroadcastMessage({ ...data, userId: clientInfo.userId });
+                if (reaction) {
+                  broadcastToSession(currentSessionId, reaction, ws);
+                }
+              }
+              break;
+
+            case 'set-role': {
+              await permissions.grant(data.sessionId, data.targetUserId, data.role);
+              applyRoleChange(data.sessionId, data.targetUserId, data.role);
+
+              // The sender sees the change confirmed too
+              const roleChanged = toBroadcastMessage({ ...data, userId: clientInfo.userId });
+              if (roleChanged) {
+                broadcastToSession(data.sessionId, roleChanged, null);
+              }
+              break;
+            }
+
+            case 'rpc-request':
+              // Answered without holding up the messages queued behind it
+              rpc.handle(data, { sessionId: data.sessionId, connectionId, userId: clientInfo.userId })
+                .then((response) => sendMessage(ws, response));
+              break;
+
+            case 'batch':
+              if (currentSessionId) {
+                for (const inner of unpackBatch(data)) {
+                  const relayed = toBroadcastMessage({ ...inner, userId: clientInfo.userId });
+                  if (relayed) {
+                    broadcastToSession(currentSessionId, relayed, ws);
+                  }
+                }
+              }
+              break;
+          }
+
+          if (data.messageId && capabilities.has('acks')) {
+            sendMessage(ws, createAckMessage(data.messageId));
           }
         } catch (error) {
-          console.error('Error processing WebSocket message:', error);
+          log.error('Error handling message', { connectionId, error });
         }
-      });
+      }
 
       ws.on('close', () => {
-        console.log('WebSocket client disconnected');
-        if (currentSessionId) {
-          const session = sessions.get(currentSessionId);
-          if (session) {
-            session.clients.delete(ws);
-            if (session.clients.size === 0) {
-              sessions.delete(currentSessionId);
-            }
-            
-            broadcastToSession(currentSessionId, {
-              type: 'user-left',
-              userId: clientInfo.userId,
-              timestamp: Date.now()
-            }, ws);
-          }
-        }
+        log.info('Connection closed', { connectionId });
+        leaveCurrentSession();
       });
 
       ws.on('error', (error: unknown) => {
-        console.error('WebSocket error:', error);
+        log.error('Socket error', { connectionId, error });
       });
 
       // Send connection confirmation
-      ws.send(JSON.stringify({
+      sendMessage(ws, {
         type: 'connected',
         timestamp: Date.now()
-      }));
+      });
     });
 
-    function broadcastToSession(sessionId: string, message: any, excludeClient?: WebSocket | null) {
+    function broadcastToSession(sessionId: string, message: ServerMessage, excludeClient?: WebSocket | null) {
+      deliverToSession(sessionId, message, excludeClient);
+
+      if (message.type !== 'error') {
+        relay.publish(sessionId, message);
+      }
+    }
+
+    function sendMessage(client: any, message: ServerMessage) {
+      client.send(JSON.stringify(message));
+      metrics.messagesSent.inc({ transport: 'next-ws', type: message.type });
+      if (message.type === 'error') {
+        metrics.messagesRejected.inc({ transport: 'next-ws', code: message.code });
+      }
+    }
+
+    function sendToUser(sessionId: string, userId: string, message: ServerMessage): boolean {
+      let sent = false;
+      sessions.get(sessionId)?.clients.forEach((info, client) => {
+        if (info.userId === userId && client.readyState === 1) { // 1 = OPEN
+          sendMessage(client, message);
+          sent = true;
+        }
+      });
+      return sent;
+    }
+
+    // Everyone in a room, one entry per user however many clients they have open
+    function getParticipants(sessionId: string): PresenceParticipant[] {
+      const participants = new Map<string, PresenceParticipant>();
+      let anonymous = 0;
+
+      sessions.get(sessionId)?.clients.forEach((info) => {
+        const id = info.userId ?? `anonymous_${++anonymous}`;
+        const existing = participants.get(id);
+        const joinedAt = info.joinedAt ?? Date.now();
+
+        participants.set(id, {
+          id,
+          role: existing?.role === 'host' ? 'host' : info.role ?? 'viewer',
+          joinedAt: existing ? Math.min(existing.joinedAt, joinedAt) : joinedAt,
+          lastActiveAt: existing ? Math.max(existing.lastActiveAt, joinedAt) : joinedAt,
+          anonymous: !info.userId,
+        });
+      });
+
+      return Array.from(participants.values());
+    }
+
+    // Give a user's clients their new role; the host keeps theirs
+    function applyRoleChange(sessionId: string, userId: string, role: ParticipantRole) {
+      sessions.get(sessionId)?.clients.forEach((info) => {
+        if (info.userId === userId && !info.isHost) {
+          info.role = role;
+        }
+      });
+    }
+
+    function deliverToSession(sessionId: string, message: ServerMessage, excludeClient?: WebSocket | null) {
       const session = sessions.get(sessionId);
       if (!session) {
-        console.log(`❌ Session ${sessionId} not found for broadcast`);
+        log.debug('No clients in session', { sessionId });
         return;
       }
 
@@ -221,19 +490,19 @@ export default function handler(req: NextApiRequest, res: NextApiResponseWithWeb
           try {
             client.send(messageStr);
             sentCount++;
-            console.log(`📤 Sent ${message.type} to ${clientInfo.userId} (${clientInfo.isHost ? 'host' : 'viewer'})`);
           } catch (error) {
-            console.error('❌ Error sending message to client:', error);
+            log.error('Error sending', { sessionId, userId: clientInfo.userId, error });
             session.clients.delete(client);
           }
         }
       });
-      
-      console.log(`📊 Broadcast complete: sent to ${sentCount} clients`);
+
+      metrics.messagesSent.inc({ transport: 'next-ws', type: message.type }, sentCount);
+      log.debug('Broadcast', { sessionId, type: message.type, delivered: sentCount });
     }
 
     res.socket.server.wss = wss;
-    console.log('WebSocket server initialized');
+    log.info('WebSocket server initialized');
   }
 
   res.end();
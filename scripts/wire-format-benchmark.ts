@@ -0,0 +1,166 @@
+import type { BatchableMessage, ClientMessage, DrawingEventPayload, ServerMessage } from '../lib/realtime/protocol';
+import { BinaryCodec, isBinaryMessage } from '../lib/realtime/wire-format';
+
+/**
+ * Compares the JSON and binary wire formats on a simulated drawing session: a host
+ * moving their cursor (10 updates a second, as LiveCursors sends them) and drawing
+ * pen strokes point by point, sent through the same per-frame batching as HybridClient.
+ *
+ *   npm run bench:wire-format
+ */
+
+const SESSION_SECONDS = 120;
+const FRAME_MS = 1000 / 60;
+const CURSOR_INTERVAL_MS = 100;
+// The host draws for this long, then pauses, then starts the next stroke
+const STROKE_MS = 1500;
+const PAUSE_MS = 800;
+const ZOOM = 1.1;
+
+const SESSION_ID = 'session_1760000000000_k3j9x2m1q';
+const USER_ID = 'user_8f14e45fceea167a5a36dedd4bea2543';
+
+// Deterministic, so runs compare like for like
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+interface SimulatedFrame {
+  time: number;
+  client: ClientMessage;
+  server: ServerMessage[];
+}
+
+/**
+ * The messages of one session, as the host sends them and as a viewer receives them
+ */
+function simulateSession(): SimulatedFrame[] {
+  const random = createRandom(42);
+  const frames: SimulatedFrame[] = [];
+  let x = 400;
+  let y = 300;
+  let lastCursorAt = -Infinity;
+  let strokeStartedAt = 0;
+  let stroke: Array<{ x: number; y: number }> = [];
+  let strokeCount = 0;
+
+  for (let time = 0; time < SESSION_SECONDS * 1000; time += FRAME_MS) {
+    const timestamp = 1760000000000 + Math.round(time);
+    x = Math.min(Math.max(x + (random() - 0.5) * 24, 0), 1280);
+    y = Math.min(Math.max(y + (random() - 0.5) * 24, 0), 720);
+
+    const pending: BatchableMessage[] = [];
+    const drawing = time - strokeStartedAt < STROKE_MS;
+
+    if (drawing) {
+      // Canvas coordinates, as the pointer position comes out of the viewport transform
+      stroke.push({ x: x / ZOOM, y: y / ZOOM });
+    } else if (stroke.length > 0) {
+      const element: DrawingEventPayload = {
+        id: `element_${timestamp}_${strokeCount++}`,
+        type: 'pen',
+        points: stroke,
+        color: '#1f2937',
+        strokeWidth: 3,
+        timestamp,
+        userId: USER_ID,
+      };
+      pending.push({ type: 'drawing-event', sessionId: SESSION_ID, event: element, userId: USER_ID, timestamp });
+      stroke = [];
+    } else if (time - strokeStartedAt >= STROKE_MS + PAUSE_MS) {
+      strokeStartedAt = time;
+    }
+
+    if (time - lastCursorAt >= CURSOR_INTERVAL_MS) {
+      pending.push({ type: 'cursor-move', sessionId: SESSION_ID, x, y, userId: USER_ID, timestamp });
+      lastCursorAt = time;
+    }
+
+    if (pending.length === 0) continue;
+
+    frames.push({
+      time,
+      client: pending.length === 1 ? pending[0] : { type: 'batch', sessionId: SESSION_ID, messages: pending, timestamp },
+      server: pending.map((message): ServerMessage =>
+        message.type === 'cursor-move'
+          ? { type: 'cursor-moved', sessionId: SESSION_ID, x: message.x, y: message.y, userId: USER_ID, timestamp }
+          : { type: 'drawing-event', sessionId: SESSION_ID, event: message.event, userId: USER_ID, timestamp }
+      ),
+    });
+  }
+
+  return frames;
+}
+
+interface DirectionResult {
+  messages: number;
+  jsonBytes: number;
+  binaryBytes: number;
+  encodeMs: number;
+  decodeMs: number;
+}
+
+function measure(messages: Array<ClientMessage | ServerMessage>): DirectionResult {
+  const jsonBytes = messages.reduce((sum, message) => sum + Buffer.byteLength(JSON.stringify(message)), 0);
+
+  // Messages the binary format leaves to JSON count at their JSON size
+  const encoder = new BinaryCodec();
+  let binaryBytes = 0;
+  const frames: Uint8Array[] = [];
+  const encodeStart = performance.now();
+  messages.forEach((message) => {
+    if (isBinaryMessage(message)) {
+      const frame = encoder.encode(message);
+      frames.push(frame);
+      binaryBytes += frame.length;
+    } else {
+      binaryBytes += Buffer.byteLength(JSON.stringify(message));
+    }
+  });
+  const encodeMs = performance.now() - encodeStart;
+
+  const decoder = new BinaryCodec();
+  const decodeStart = performance.now();
+  frames.forEach((frame) => decoder.decode(frame));
+  const decodeMs = performance.now() - decodeStart;
+
+  return { messages: messages.length, jsonBytes, binaryBytes, encodeMs, decodeMs };
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KiB` : `${Math.round(bytes)} B`;
+}
+
+function report(label: string, result: DirectionResult): void {
+  const jsonRate = result.jsonBytes / SESSION_SECONDS;
+  const binaryRate = result.binaryBytes / SESSION_SECONDS;
+  const saved = 1 - result.binaryBytes / result.jsonBytes;
+
+  console.log(`${label} (${result.messages} frames)`);
+  console.log(`  JSON    ${formatBytes(jsonRate).padStart(10)}/s  ${formatBytes(result.jsonBytes / result.messages).padStart(8)} per frame`);
+  console.log(`  binary  ${formatBytes(binaryRate).padStart(10)}/s  ${formatBytes(result.binaryBytes / result.messages).padStart(8)} per frame  (${(saved * 100).toFixed(1)}% smaller)`);
+  console.log(`  binary encode ${result.encodeMs.toFixed(1)}ms, decode ${result.decodeMs.toFixed(1)}ms for the whole session`);
+}
+
+function verifyRoundTrip(frames: SimulatedFrame[]): void {
+  const encoder = new BinaryCodec();
+  const decoder = new BinaryCodec();
+  frames.forEach(({ client }) => {
+    const decoded = decoder.decode(encoder.encode(client));
+    if (JSON.stringify(decoded) !== JSON.stringify(client)) {
+      throw new Error(`Round trip changed a ${client.type} message`);
+    }
+  });
+}
+
+const frames = simulateSession();
+verifyRoundTrip(frames);
+
+console.log(`Simulated ${SESSION_SECONDS}s drawing session\n`);
+report('Host to server', measure(frames.map((frame) => frame.client)));
+console.log();
+report('Server to each viewer', measure(frames.flatMap((frame) => frame.server)));
@@ -1,3 +1,5 @@
+import type { GrantableRole } from '@/lib/realtime/protocol';
+
 // User and Authentication Types
 export interface User {
   id: string;
@@ -43,6 +45,7 @@ export interface ComponentTile {
     height: number;
   };
   isVisible: boolean;
+  zIndex?: number; // Stacking order chosen by the host; higher is in front
   data?: any; // Component-specific data
 }
 
@@ -105,13 +108,13 @@ export interface ClockData {
 // Stream Provider Interface
 export interface IStreamProvider {
   // Host methods
-  initializeHost(sessionId: string): Promise<void>;
+  initializeHost(sessionId: string, userId?: string): Promise<void>;
   publishMedia(stream: MediaStream): Promise<void>;
   publishState(state: SessionState): Promise<void>;
   endSession(): Promise<void>;
 
   // Viewer methods
-  joinSession(sessionId: string): Promise<void>;
+  joinSession(sessionId: string, userId?: string): Promise<void>;
   subscribeToMedia(callback: (stream: MediaStream) => void): void;
   subscribeToState(callback: (state: SessionState) => void): void;
   leaveSession(): Promise<void>;
@@ -146,6 +149,14 @@ export interface SessionRecord {
   createdAt: number;
   status: 'active' | 'ended';
   title: string;
+  // Latest state snapshot; patches logged after `updatedAt` apply on top of it
+  state?: SessionState;
+  stateVersion?: number | null;
+  updatedAt?: number;
+  // Version of the latest state, patches included; a patch is only logged on top of it
+  headVersion?: number | null;
+  // Roles the host or a co-host granted, by user id; everyone else is a viewer
+  roles?: Record<string, GrantableRole>;
 }
 
 export interface StateRecord {